@@ -150,6 +150,120 @@ function pickAutoLayoutChildProps(n, parentIsAutoLayout) {
   };
 }
 
+// Min/max sizes only exist on auto-layout frames and their children; null means unset
+function pickSizeLimits(n) {
+  const out = {};
+  for (const key of ['minWidth', 'maxWidth', 'minHeight', 'maxHeight']) {
+    if (typeof n[key] === 'number') out[key] = n[key];
+  }
+  return Object.keys(out).length ? out : null;
+}
+
+// Only the alias is read synchronously here; names are resolved later in resolveStyleRefs
+function pickColorAlias(paintLike) {
+  const alias = paintLike && paintLike.boundVariables && paintLike.boundVariables.color;
+  if (!alias || alias.type !== 'VARIABLE_ALIAS' || typeof alias.id !== 'string') return undefined;
+  return { color: { type: 'VARIABLE_ALIAS', id: alias.id } };
+}
+
+// Why: under dynamic-page access lookups are async; the same variable/style repeats across many nodes
+const variableNameCache = new Map();
+const styleNameCache = new Map();
+
+function lookupVariableName(id) {
+  if (!variableNameCache.has(id)) {
+    variableNameCache.set(id, figma.variables.getVariableByIdAsync(id)
+      .then(v => (v && typeof v.name === 'string' ? v.name : undefined))
+      .catch(() => undefined));
+  }
+  return variableNameCache.get(id);
+}
+
+function lookupStyleName(id) {
+  if (!styleNameCache.has(id)) {
+    styleNameCache.set(id, figma.getStyleByIdAsync(id)
+      .then(s => (s && typeof s.name === 'string' ? s.name : undefined))
+      .catch(() => undefined));
+  }
+  return styleNameCache.get(id);
+}
+
+async function nameColorAlias(paintLike) {
+  const alias = paintLike && paintLike.boundVariables && paintLike.boundVariables.color;
+  if (!alias || typeof alias.id !== 'string') return;
+  const name = await lookupVariableName(alias.id);
+  if (name) alias.name = name;
+}
+
+async function nameStyleRef(holder, idKey, nameKey) {
+  if (!holder || typeof holder[idKey] !== 'string') return;
+  const name = await lookupStyleName(holder[idKey]);
+  if (name) holder[nameKey] = name;
+}
+
+async function nameGradientStops(paints) {
+  const tasks = [];
+  for (const p of paints || []) {
+    tasks.push(nameColorAlias(p));
+    for (const stop of (p && p.gradientStops) || []) tasks.push(nameColorAlias(stop));
+  }
+  await Promise.all(tasks);
+}
+
+// Attach human-readable variable/style names to the ids captured by extractNodeStyle/collectTextData
+async function resolveStyleRefs(style, text) {
+  const tasks = [];
+  if (style) {
+    tasks.push(nameGradientStops(style.fills));
+    tasks.push(nameGradientStops(style.strokes));
+    for (const e of style.effects || []) tasks.push(nameColorAlias(e));
+    tasks.push(nameStyleRef(style, 'fillStyleId', 'fillStyleName'));
+    tasks.push(nameStyleRef(style, 'strokeStyleId', 'strokeStyleName'));
+    tasks.push(nameStyleRef(style, 'effectStyleId', 'effectStyleName'));
+  }
+  if (text) {
+    tasks.push(nameStyleRef(text, 'textStyleId', 'textStyleName'));
+    for (const seg of text.segments || []) {
+      tasks.push(nameGradientStops(seg.fills));
+      tasks.push(nameStyleRef(seg, 'fillStyleId', 'fillStyleName'));
+      tasks.push(nameStyleRef(seg, 'textStyleId', 'textStyleName'));
+    }
+  }
+  await Promise.all(tasks);
+}
+
+// Instances keep a pointer to their main component plus the property/variant values they were set to;
+// variant main components keep the name of their set
+async function collectComponentRef(n, entry) {
+  if (n && n.type === 'COMPONENT' && n.parent && n.parent.type === 'COMPONENT_SET') entry.componentSetName = n.parent.name;
+  if (!n || n.type !== 'INSTANCE') return;
+  try {
+    const main = typeof n.getMainComponentAsync === 'function' ? await n.getMainComponentAsync() : n.mainComponent;
+    if (main) {
+      const parent = main.parent;
+      entry.mainComponent = {
+        id: main.id,
+        name: typeof main.name === 'string' ? main.name : undefined,
+        key: typeof main.key === 'string' ? main.key : undefined,
+        componentSetName: parent && parent.type === 'COMPONENT_SET' ? parent.name : undefined
+      };
+    }
+    const props = n.componentProperties;
+    if (props && typeof props === 'object') {
+      const out = {};
+      for (const rawKey of Object.keys(props)) {
+        const p = props[rawKey];
+        if (!p || p.value === undefined) continue;
+        // Why: non-variant property keys carry a "#<id>" suffix that is meaningless downstream
+        out[rawKey.replace(/#[^#]*$/, '')] = p.value;
+      }
+      if (Object.keys(out).length) entry.componentProperties = out;
+    }
+  } catch (e) {
+    console.warn(`[Component] Failed to resolve main component for ${n.id}:`, e);
+  }
+}
+
 function extractFills(n) {
   const fills = Array.isArray(n && n.fills) ? n.fills : null;
   if (!fills || fills.length === 0) return undefined;
@@ -163,7 +277,8 @@ function extractFills(n) {
       out.push({ 
         type: 'SOLID', 
         color: { r: p.color.r, g: p.color.g, b: p.color.b, a: paintOpacity },
-        blendMode: typeof p.blendMode === 'string' ? p.blendMode : undefined
+        blendMode: typeof p.blendMode === 'string' ? p.blendMode : undefined,
+        boundVariables: pickColorAlias(p)
       });
     } 
     else if (p.type === 'IMAGE' && typeof p.imageHash === 'string') {
@@ -202,7 +317,8 @@ function extractFills(n) {
       
       const gradientStops = stops.map(stop => ({
         position: stop.position,
-        color: { r: stop.color.r, g: stop.color.g, b: stop.color.b, a: stop.color.a }
+        color: { r: stop.color.r, g: stop.color.g, b: stop.color.b, a: stop.color.a },
+        boundVariables: pickColorAlias(stop)
       }));
       
       const handles = Array.isArray(p.gradientHandlePositions) && p.gradientHandlePositions.length === 3
@@ -247,7 +363,7 @@ function extractStrokes(n) {
     if (!s || s.visible === false) continue;
     if (s.type === 'SOLID' && s.color) {
       const a = (typeof s.opacity === 'number' ? s.opacity : 1);
-      strokesOut.push({ type: 'SOLID', color: { r: s.color.r, g: s.color.g, b: s.color.b, a }, visible: true });
+      strokesOut.push({ type: 'SOLID', color: { r: s.color.r, g: s.color.g, b: s.color.b, a }, visible: true, boundVariables: pickColorAlias(s) });
       continue;
     }
     if (s.type === 'GRADIENT_LINEAR') {
@@ -255,7 +371,8 @@ function extractStrokes(n) {
       if (stops.length < 2) continue;
       const gradientStops = stops.map(stop => ({
         position: stop.position,
-        color: { r: stop.color.r, g: stop.color.g, b: stop.color.b, a: stop.color.a }
+        color: { r: stop.color.r, g: stop.color.g, b: stop.color.b, a: stop.color.a },
+        boundVariables: pickColorAlias(stop)
       }));
       const handles = Array.isArray(s.gradientHandlePositions) && s.gradientHandlePositions.length === 3
         ? [
@@ -324,7 +441,7 @@ function extractEffects(n) {
       const radius = typeof e.radius === 'number' ? e.radius : 0;
       const spread = typeof e.spread === 'number' ? e.spread : 0;
       const color = e.color ? { r: e.color.r, g: e.color.g, b: e.color.b, a: (typeof e.color.a === 'number' ? e.color.a : 1) } : null;
-      out.push({ type: e.type, offset, radius, spread, color, visible: true });
+      out.push({ type: e.type, offset, radius, spread, color, visible: true, boundVariables: pickColorAlias(e) });
       continue;
     }
   }
@@ -348,6 +465,9 @@ function extractNodeStyle(n) {
     })(n),
     extractEffects(n)
   ].filter(Boolean);
+  for (const key of ['fillStyleId', 'strokeStyleId', 'effectStyleId']) {
+    if (n && typeof n[key] === 'string' && n[key]) parts.push({ [key]: n[key] });
+  }
   const nodeOpacity = (n && typeof n.opacity === 'number') ? n.opacity : 1;
   if (nodeOpacity !== 1) parts.push({ opacity: nodeOpacity });
   if (n && n.blendMode && n.blendMode !== 'NORMAL' && n.blendMode !== 'PASS_THROUGH') {
@@ -358,7 +478,7 @@ function extractNodeStyle(n) {
 
 
 function collectTextSegments(n) {
-  const fields = ['fontSize', 'fontName', 'fontWeight', 'fills', 'letterSpacing', 'lineHeight', 'textDecoration', 'textCase'];
+  const fields = ['fontSize', 'fontName', 'fontWeight', 'fills', 'letterSpacing', 'lineHeight', 'textDecoration', 'textCase', 'fillStyleId', 'textStyleId'];
   try {
     const raw = n.getStyledTextSegments(fields);
     return raw.map(seg => {
@@ -370,9 +490,11 @@ function collectTextSegments(n) {
         const solid = seg.fills.find(f => f && f.visible !== false && f.type === 'SOLID' && f.color);
         if (solid && solid.color) {
           const a = (typeof solid.opacity === 'number' ? solid.opacity : 1);
-          out.fills = [{ type: 'SOLID', color: { r: solid.color.r, g: solid.color.g, b: solid.color.b }, opacity: a }];
+          out.fills = [{ type: 'SOLID', color: { r: solid.color.r, g: solid.color.g, b: solid.color.b }, opacity: a, boundVariables: pickColorAlias(solid) }];
         }
       }
+      if (typeof seg.fillStyleId === 'string' && seg.fillStyleId) out.fillStyleId = seg.fillStyleId;
+      if (typeof seg.textStyleId === 'string' && seg.textStyleId) out.textStyleId = seg.textStyleId;
       if (seg.letterSpacing && typeof seg.letterSpacing.value === 'number') out.letterSpacing = { unit: seg.letterSpacing.unit || 'PERCENT', value: seg.letterSpacing.value };
       if (seg.lineHeight) {
         const lh = { unit: seg.lineHeight.unit || 'AUTO' };
@@ -400,6 +522,8 @@ function collectTextData(n) {
     textAlignVertical: n.textAlignVertical || 'TOP',
     paragraphIndent: typeof n.paragraphIndent === 'number' ? n.paragraphIndent : 0,
     paragraphSpacing: typeof n.paragraphSpacing === 'number' ? n.paragraphSpacing : 0,
+    // Why: textStyleId is figma.mixed when segments use different styles; segments carry their own
+    textStyleId: typeof n.textStyleId === 'string' && n.textStyleId ? n.textStyleId : undefined,
     segments
   };
 }
@@ -495,6 +619,8 @@ async function collectNode(n, opts) {
     const textData = collectTextData(n);
     if (textData) entry.text = textData;
   }
+  await resolveStyleRefs(entry.style, entry.text);
+  await collectComponentRef(n, entry);
 
   if (!entry.svgId && !entry._svgContent && VECTOR_TYPES.includes(n.type) && typeof n.exportAsync === 'function') {
     // Decide if this vector should export as SVG. For ELLIPSE with dashed + INSIDE/OUTSIDE
@@ -559,6 +685,8 @@ async function collectNode(n, opts) {
   if (containerProps) Object.assign(entry, containerProps);
   const childProps = pickAutoLayoutChildProps(n, parentIsAutoLayout);
   if (childProps) Object.assign(entry, childProps);
+  const sizeLimits = (containerProps || childProps) ? pickSizeLimits(n) : null;
+  if (sizeLimits) Object.assign(entry, sizeLimits);
 
   const kids = Array.isArray(n.children) ? n.children : [];
   const selfIsAutoLayout = !!(containerProps && containerProps.layoutMode && containerProps.layoutMode !== 'NONE');
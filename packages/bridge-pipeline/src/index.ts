@@ -1,8 +1,28 @@
 export { figmaToHtml } from './public-api/figmaToHtml';
+export { figmaToReact } from './public-api/figmaToReact';
+export type { FigmaToReactOptions } from './public-api/figmaToReact';
+export { figmaToVue } from './public-api/figmaToVue';
+export type { FigmaToVueOptions } from './public-api/figmaToVue';
+export { figmaToResponsiveHtml } from './public-api/figmaToResponsiveHtml';
+export type { FigmaToResponsiveHtmlOptions, ResponsiveVariantInput } from './public-api/figmaToResponsiveHtml';
 // Expose IR builder for upstream needs (e.g., inspector/sidebar trees)
 export { compositionToIR } from './pipeline/ir';
+export type { CompositionIR } from './pipeline/ir';
+export type { FigmaInput } from './public-api/figmaToHtml';
 export { normalizeComposition } from './utils/normalize';
+export { validateComposition } from './utils/validate';
+export { migrateComposition, compositionMigrations, compositionSchemaVersion, LEGACY_SCHEMA_VERSION } from './utils/migrations';
+export type { CompositionMigration, MigrationResult } from './utils/migrations';
+export type { CompositionIssue, CompositionValidation } from './utils/validate';
+export { compositionSchema, COMPOSITION_SCHEMA_VERSION } from './types/composition-schema';
 export { normalizeHtml } from './utils/htmlPost';
-export { extractFontsFromComposition, FontCollector } from './utils/fonts';
+export { splitDeclarations, parseDeclarations } from './utils/css-parser';
+export { extractFontsFromComposition, FontCollector, buildFontStack, applyFontFallbacks } from './utils/fonts';
+export { collectImageUsage } from './utils/content-images';
+export type { ImageUsage } from './utils/content-images';
 export { dslHtmlToComposition } from './utils/dslToComposition';
+export { figmaRestToComposition } from './utils/figmaRestToComposition';
+export type { FigmaRestToCompositionOptions, FigmaRestConversion } from './utils/figmaRestToComposition';
+export { htmlLayoutToComposition } from './utils/htmlToComposition';
+export type { HtmlLayoutSnapshot, HtmlLayoutBox, HtmlLayoutTextRun, HtmlLayoutRect, HtmlCompositionConversion } from './utils/htmlToComposition';
 export type { FigmaNode, CompositionInput, FigmaVec2, FigmaRect, FigmaStyle, FigmaPaint, FigmaEffect, FigmaText, FigmaTextSegment } from './types/figma';
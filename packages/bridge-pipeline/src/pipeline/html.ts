@@ -4,10 +4,13 @@ import { buildSharedClasses, generateClassCss } from '../utils/classExtractor';
 import { optimizeBoxCss } from '../utils/css-optimizer';
 import { layoutToTailwindClasses, cssToTailwindClasses } from '../utils/tailwind-mapper';
 import { buildUtilityCssSelective } from '../utils/utility-css';
-import { buildHtmlHead, buildHtmlBody, buildBaseStyles } from '../utils/html-builder';
+import { buildHtmlHead, buildHtmlBody, buildBaseStyles, buildComponentBaseStyles } from '../utils/html-builder';
 import { splitClassTokens } from '../utils/css-parser';
 import { migrateShadowsToOuter } from '../utils/shadow-migrator';
-import { getSemanticClassName } from '../utils/class-naming';
+import { getSemanticClassName, getComponentName, sanitizeClassName } from '../utils/class-naming';
+import { mergeResponsiveHtml, type ResponsiveMergeResult } from '../utils/responsive-merge';
+import { inlineStylesToTailwind } from '../utils/tailwind-export';
+import type { TailwindConfig } from '../utils/tailwind-export';
 
 // Why: avoid one-off utility classes — only promote widths/heights that repeat
 type SizeFreq = { w: Map<number, number>; h: Map<number, number> };
@@ -86,6 +89,8 @@ function escAttr(val: string): string {
     .replace(/>/g, '&gt;')
     .replace(/\"/g, '&quot;');
 }
+const VOID_TAGS = new Set(['input', 'img', 'br']);
+
 function h(tag: string, attrs: Record<string, string | number | undefined> | null, children?: string | string[]): string {
   const attrStr = attrs
     ? ' ' + Object.entries(attrs)
@@ -93,6 +98,7 @@ function h(tag: string, attrs: Record<string, string | number | undefined> | nul
         .map(([k, v]) => `${k}="${escAttr(String(v))}` + '"')
         .join(' ')
     : '';
+  if (VOID_TAGS.has(tag)) return `<${tag}${attrStr}>`;
   const inner = Array.isArray(children) ? children.join('') : (children || '');
   return `<${tag}${attrStr}>${inner}</${tag}>`;
 }
@@ -125,8 +131,12 @@ function layoutToCss(layout: RenderNodeIR['layout']): {
 
   const partsPos: string[] = [];
   const pos = layout.position || 'absolute';
-  partsPos.push(`position:${pos};`);
-  if (pos === 'absolute') {
+  if (layout.positionCss) {
+    partsPos.push(layout.positionCss);
+  } else {
+    partsPos.push(`position:${pos};`);
+  }
+  if (pos === 'absolute' && !layout.positionCss) {
     const l = typeof layout.left === 'number' ? layout.left : 0;
     const t = typeof layout.top === 'number' ? layout.top : 0;
     partsPos.push(`left:${fmtPx(l)};top:${fmtPx(t)};`);
@@ -153,6 +163,11 @@ function layoutToCss(layout: RenderNodeIR['layout']): {
   } else if (typeof layout.flexShrink === 'number' && layout.flexShrink === 0) {
     partsSize.push('flex-shrink:0;');
   }
+  // Why: after the grow item's min-width:0 so explicit limits win
+  if (typeof layout.minWidth === 'number') partsSize.push(`min-width:${fmtPx(layout.minWidth)};`);
+  if (typeof layout.maxWidth === 'number') partsSize.push(`max-width:${fmtPx(layout.maxWidth)};`);
+  if (typeof layout.minHeight === 'number') partsSize.push(`min-height:${fmtPx(layout.minHeight)};`);
+  if (typeof layout.maxHeight === 'number') partsSize.push(`max-height:${fmtPx(layout.maxHeight)};`);
   if (layout.alignSelf && layout.alignSelf !== 'auto') partsSize.push(`align-self:${layout.alignSelf};`);
 
   const t2 = layout.transform2x2;
@@ -199,6 +214,44 @@ function getRootPadding(irNodes: RenderNodeIR[]): { left: number; top: number }
   return { left, top };
 }
 
+// Why: component identity travels in the markup so emitters (React) can dedupe instance subtrees
+function componentDataAttrs(irNode: RenderNodeIR): Record<string, string> | undefined {
+  const c = irNode.component;
+  if (!c) return undefined;
+  const attrs: Record<string, string> = {
+    'data-component': getComponentName(c.name, 'Component'),
+    'data-component-id': c.mainComponentId,
+  };
+  if (c.isMain) attrs['data-component-main'] = 'true';
+  for (const [k, v] of Object.entries(c.properties || {})) {
+    const key = sanitizeClassName(k);
+    if (key) attrs[`data-prop-${key}`] = String(v);
+  }
+  return attrs;
+}
+
+const INPUT_TYPOGRAPHY = new Set(['font-family', 'font-size', 'font-weight', 'font-style', 'line-height', 'letter-spacing', 'color', 'text-transform']);
+
+function inputTypographyCss(textHtml: string): string {
+  const m = (textHtml || '').match(/<span[^>]*\sstyle="([^"]*)"/i);
+  if (!m) return '';
+  const css = m[1].replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&');
+  return css.split(';')
+    .filter(decl => INPUT_TYPOGRAPHY.has(decl.slice(0, decl.indexOf(':')).trim().toLowerCase()))
+    .map(decl => decl.trim() + ';')
+    .join('');
+}
+
+// Why: an empty alt marks a decorative picture and must survive, so the tag is built here rather than via h()
+function contentImageHtml(image: NonNullable<RenderNodeIR['image']>): string {
+  return `<img class="content-image" src="${escAttr(image.src)}" alt="${escAttr(image.alt)}" style="display:block;width:100%;height:100%;object-fit:${image.fit};border-radius:inherit;">`;
+}
+
+function nodeAttrs(irNode: RenderNodeIR, extra?: Record<string, string>): Record<string, string> | undefined {
+  const attrs = { ...componentDataAttrs(irNode), ...irNode.attrs, ...extra };
+  return Object.keys(attrs).length ? attrs : undefined;
+}
+
 function hasAbsoluteDescendant(irNode: RenderNodeIR): boolean {
   if (!irNode) return false;
   const stack: RenderNodeIR[] = [];
@@ -392,10 +445,11 @@ function renderWrapperBox(cfg: RenderBoxConfig): string {
 
   const attrs: Record<string, string> = { class: outerClass, style: outer };
   if (opts?.mode === 'debug') attrs['data-layer-id'] = id;
+  if (opts?.mode === 'content' && opts?.extraAttrs) Object.assign(attrs, opts.extraAttrs);
   const innerAttrs: Record<string, string> = { class: innerClass + innerClassExtra, style: inner };
   if (opts?.mode === 'content' && opts?.hasStroke) innerAttrs['data-layer-id'] = id;
 
-  return h('div', attrs, h('div', innerAttrs, innerContent));
+  return h(opts?.tag || 'div', attrs, h('div', innerAttrs, innerContent));
 }
 
 function renderSingleBox(cfg: RenderBoxConfig): string {
@@ -434,7 +488,8 @@ function renderSingleBox(cfg: RenderBoxConfig): string {
   const attrs: Record<string, string> = { class: className, style };
   if (opts?.mode === 'debug') attrs['data-layer-id'] = id;
   else if (opts?.mode === 'content' && opts?.hasStroke) attrs['data-layer-id'] = id;
-  return h('div', attrs, innerContent);
+  if (opts?.mode === 'content' && opts?.extraAttrs) Object.assign(attrs, opts.extraAttrs);
+  return h(opts?.tag || 'div', attrs, innerContent);
 }
 
 function maybeWrapWithContentBox(cfg: RenderBoxConfig): string {
@@ -490,6 +545,7 @@ async function renderFrameNode(ctx: RenderContext): Promise<string> {
     );
     innerHtml = parts.join('');
   }
+  if (ctx.mode === 'content' && ctx.irNode.image) innerHtml = contentImageHtml(ctx.irNode.image);
   if (ctx.mode === 'debug') {
     var classNames: string[] = ['debug-box'];
   } else {
@@ -526,7 +582,7 @@ async function renderFrameNode(ctx: RenderContext): Promise<string> {
     layout,
     boxCss,
     innerContent: innerHtml,
-    options: { outerOverflowVisible: true, innerClassName: ctx.mode === 'debug' ? 'debug-box' : undefined, debugOverrideSize, omitPosition, mode: ctx.mode, hasStroke }
+    options: { outerOverflowVisible: true, innerClassName: ctx.mode === 'debug' ? 'debug-box' : undefined, debugOverrideSize, omitPosition, mode: ctx.mode, hasStroke, extraAttrs: nodeAttrs(ctx.irNode), tag: ctx.mode === 'content' ? ctx.irNode.tag : undefined }
   });
 }
 
@@ -534,10 +590,13 @@ async function renderTextNode(ctx: RenderContext): Promise<string> {
   if (!ctx.irNode) throw new Error('renderTextNode: irNode missing');
   // Why: keep text content in debug mode for accurate flexbox sizing, but make it invisible
   const rawTextHtml = (ctx.irNode.content.type === 'text' ? ctx.irNode.content.html : '');
+  const asInput = ctx.mode === 'content' && ctx.irNode.tag === 'input';
   const textHtml = ctx.mode === 'debug'
     ? (rawTextHtml ? `<span style="visibility:hidden;">${rawTextHtml}</span>` : '')
-    : rawTextHtml;
+    : (asInput ? '' : rawTextHtml);
   let boxCss = ctx.mode === 'debug' ? extractLayoutCssForDebug(ctx.irNode.style.boxCss) : ctx.irNode.style.boxCss;
+  // Why: an input has no children, so the run typography moves onto the element and auto width becomes the measured width
+  if (asInput) boxCss = `${(boxCss || '').replace(/(^|;)\s*width\s*:\s*auto\s*;?/i, '$1')}${inputTypographyCss(rawTextHtml)}`;
   const cssCtx = {
     position: ctx.irNode.layout.position,
     hasRotateOrScale: !(ctx.irNode.layout.transform2x2.a === 1 && ctx.irNode.layout.transform2x2.b === 0 && ctx.irNode.layout.transform2x2.c === 0 && ctx.irNode.layout.transform2x2.d === 1),
@@ -600,7 +659,11 @@ async function renderTextNode(ctx: RenderContext): Promise<string> {
     layout: ctx.irNode.layout,
     boxCss,
     innerContent: textHtml,
-    options: { innerClassName: ctx.mode === 'debug' ? 'debug-box' : undefined, debugOverrideSize, omitPosition, mode: ctx.mode, hasStroke }
+    options: {
+      innerClassName: ctx.mode === 'debug' ? 'debug-box' : undefined, debugOverrideSize, omitPosition, mode: ctx.mode, hasStroke,
+      tag: ctx.mode === 'content' ? ctx.irNode.tag : undefined,
+      extraAttrs: nodeAttrs(ctx.irNode, asInput ? { type: 'text', placeholder: String(ctx.irNode.text?.characters || '') } : undefined),
+    }
   });
 }
 
@@ -669,7 +732,7 @@ async function renderSvgNode(ctx: RenderContext): Promise<string> {
     layout: ctx.irNode.layout,
     boxCss: itemCss,
     innerContent: finalContentHtml,
-    options: { innerClassName: ctx.mode === 'debug' ? 'debug-box' : undefined, debugOverrideSize, mode: ctx.mode }
+    options: { innerClassName: ctx.mode === 'debug' ? 'debug-box' : undefined, debugOverrideSize, mode: ctx.mode, extraAttrs: nodeAttrs(ctx.irNode) }
   });
 }
 
@@ -719,8 +782,8 @@ async function renderShapeNode(ctx: RenderContext): Promise<string> {
     id: ctx.irNode.id,
     layout: ctx.irNode.layout,
     boxCss,
-    innerContent: '',
-    options: { innerClassName: ctx.mode === 'debug' ? 'debug-box' : undefined, debugOverrideSize, omitPosition, mode: ctx.mode, hasStroke }
+    innerContent: ctx.mode === 'content' && ctx.irNode.image ? contentImageHtml(ctx.irNode.image) : '',
+    options: { innerClassName: ctx.mode === 'debug' ? 'debug-box' : undefined, debugOverrideSize, omitPosition, mode: ctx.mode, hasStroke, extraAttrs: nodeAttrs(ctx.irNode) }
   });
 }
 
@@ -746,6 +809,7 @@ function buildDebugStyles(): string {
   color-scheme: light;
   --bridge-debug-blue: #0499ff;
   --bridge-debug-orange: #ff9904;
+  --bridge-debug-red: #e53935;
   --bridge-scale: 1;
   --bridge-debug-alpha: 0.25;
   --bridge-debug-z: 999999;
@@ -787,6 +851,7 @@ function buildDebugStyles(): string {
   .debug-svg.shape-only.is-hover { outline: var(--bridge-stroke) solid var(--bridge-debug-blue) !important; }
   .debug-svg.shape-only.is-selected { outline: var(--bridge-stroke) solid var(--bridge-debug-blue) !important; }
   .debug-svg.is-hover svg *, .debug-svg.is-selected svg * { stroke-opacity: 1 !important; }
+.debug-box.is-diff, .debug-svg.is-diff { --bridge-stroke: calc(2px / var(--bridge-scale)); outline: var(--bridge-stroke) dashed var(--bridge-debug-red); background: rgba(229, 57, 53, 0.08); }
 .debug-box.has-wrapper { outline: none !important; }
 .debug-box.has-wrapper > .debug-box { outline: calc(1px / var(--bridge-scale)) solid rgba(4, 153, 255, var(--bridge-debug-alpha, 0)); }
 .debug-box.has-wrapper.is-hover { outline: none !important; }
@@ -806,7 +871,8 @@ async function buildPreviewPieces(
   composition: any,
   irNodes: RenderNodeIR[],
   renderUnion: Rect,
-  debugEnabled: boolean
+  debugEnabled: boolean,
+  options: { classScope?: string; sharedClasses?: boolean } = {}
 ): Promise<{ shapeHtml: string[]; debugHtml: string[]; usedClasses: Set<string>; viewport: Viewport; contentLayerStyle: string; sharedCss: string }> {
   const bounds = composition.bounds as Bounds;
   const { viewWidth, viewHeight, minXView, minYView } = computeViewport(bounds, renderUnion, 4);
@@ -831,8 +897,10 @@ async function buildPreviewPieces(
   })();
 
   const boxCssList: string[] = irNodes.map((n) => (n?.style?.boxCss || ''));
-  const shared = buildSharedClasses(boxCssList, 2);
-  const sharedCss = generateClassCss(shared.classes);
+  const classScope = options.classScope ?? '[data-figma-render]';
+  // Why: Tailwind-only export has no stylesheet to hold fr- classes, so boxes keep their own declarations
+  const shared = options.sharedClasses === false ? null : buildSharedClasses(boxCssList, 2);
+  const sharedCss = shared ? generateClassCss(shared.classes, classScope) : '';
 
   const pad = getRootPadding(irNodes);
   let contentLayerStyle = '';
@@ -842,7 +910,7 @@ async function buildPreviewPieces(
 
   const contentPromises = irNodes.map((irNode, idx) => {
     const omitPositionOverride = !!(pad && idx === 0);
-    return renderNodeUnified(irNode, { stylePrefix: '', irNode, cssCollector: dummyCssCollector, mode: 'content', applySharedClass: shared.applier, omitPositionOverride, usedClasses, sizeFreq: __localSizeFreq });
+    return renderNodeUnified(irNode, { stylePrefix: '', irNode, cssCollector: dummyCssCollector, mode: 'content', applySharedClass: shared?.applier, omitPositionOverride, usedClasses, sizeFreq: __localSizeFreq });
   });
   const debugPromises = debugEnabled
     ? irNodes.map((irNode) => renderNodeUnified(irNode, { stylePrefix: '', irNode, cssCollector: dummyCssCollector, mode: 'debug', sizeFreq: __localSizeFreq }))
@@ -938,6 +1006,74 @@ export async function createContentAssets(
   return { bodyHtml, cssText, headLinks, baseWidth: viewport.width, baseHeight: viewport.height };
 }
 
+// Internal: used by figmaToHtml for Tailwind-only export; every declaration is carried as a class
+export async function createTailwindContentAssets(
+  config: PreviewBuildInput
+): Promise<{ bodyHtml: string; cssText: string; headLinks: string; baseWidth: number; baseHeight: number; tailwindConfig: TailwindConfig; tailwindConfigFile: string }> {
+  const { composition, irNodes, cssRules, renderUnion } = config;
+
+  const { shapeHtml, viewport, contentLayerStyle } = await buildPreviewPieces(
+    composition,
+    irNodes,
+    renderUnion,
+    false,
+    { sharedClasses: false }
+  );
+
+  const converted = await inlineStylesToTailwind(buildContentLayer(shapeHtml, contentLayerStyle), cssRules || '');
+  return {
+    bodyHtml: converted.html,
+    cssText: converted.leftoverCss,
+    headLinks: '',
+    baseWidth: viewport.width,
+    baseHeight: viewport.height,
+    tailwindConfig: converted.config,
+    tailwindConfigFile: converted.configFile,
+  };
+}
+
+// Internal: used by figmaToResponsiveHtml; variants render without shared classes so every element keeps its own declarations
+export async function createResponsiveContentAssets(
+  variants: (PreviewBuildInput & { width: number })[]
+): Promise<{ bodyHtml: string; cssText: string; headLinks: string; baseWidth: number; baseHeight: number; breakpoints: { width: number; media: string }[]; unmatched: { width: number; key: string }[]; textConflicts: ResponsiveMergeResult['textConflicts'] }> {
+  const rendered = await Promise.all(variants.map(async (v) => {
+    const { shapeHtml, viewport, contentLayerStyle } = await buildPreviewPieces(v.composition, v.irNodes, v.renderUnion, false, { sharedClasses: false });
+    return { width: v.width, html: buildContentLayer(shapeHtml, contentLayerStyle), cssRules: v.cssRules || '', viewport };
+  }));
+  const merged = mergeResponsiveHtml(rendered);
+  const base = rendered.reduce((a, b) => (b.width > a.width ? b : a));
+  return {
+    bodyHtml: merged.html,
+    cssText: `${buildBaseStyles()}\n${merged.css}`,
+    headLinks: '',
+    baseWidth: base.viewport.width,
+    baseHeight: base.viewport.height,
+    breakpoints: merged.breakpoints,
+    unmatched: merged.unmatched,
+    textConflicts: merged.textConflicts,
+  };
+}
+
+// Internal: used by component emitters (Vue); shared classes are unscoped because the SFC scopes them itself
+export async function createComponentAssets(
+  config: PreviewBuildInput
+): Promise<{ bodyHtml: string; cssText: string; baseWidth: number; baseHeight: number }> {
+  const { composition, irNodes, cssRules, renderUnion } = config;
+
+  const { shapeHtml, usedClasses, viewport, contentLayerStyle, sharedCss } = await buildPreviewPieces(
+    composition,
+    irNodes,
+    renderUnion,
+    false,
+    { classScope: '' }
+  );
+
+  const bodyHtml = buildContentLayer(shapeHtml, contentLayerStyle);
+  const utilityCss = buildUtilityCssSelective(usedClasses);
+  const cssText = `${buildComponentBaseStyles()}\n${utilityCss}\n${cssRules || ''}\n${sharedCss}`;
+  return { bodyHtml, cssText, baseWidth: viewport.width, baseHeight: viewport.height };
+}
+
 export async function createContentHtml(
   irNodes: RenderNodeIR[],
   cssRules: string
@@ -1,4 +1,4 @@
-import type { RenderNodeIR, LayoutInfo } from './types';
+import type { RenderNodeIR, LayoutInfo, ComponentInfo } from './types';
 import { CssCollector } from '../utils/cssCollector';
 import { collectNodeBoxCss } from '../utils/nodeStyle';
 import { collectTextCss, parseEffects, type ShadowEffect } from '../utils/css';
@@ -12,6 +12,8 @@ import { buildContent } from './content-builder';
 import { computeEffectsMode, shouldInheritShadows } from '../utils/effects-mode';
 import type { FigmaNode, CompositionInput } from '../types/figma';
 
+export type CompositionIR = ReturnType<typeof compositionToIR>;
+
 export function compositionToIR(composition: CompositionInput | { absOrigin?: { x: number; y: number }; children?: FigmaNode[] }): { nodes: RenderNodeIR[]; cssRules: string; rawComposition: any; renderUnion: { x: number; y: number; width: number; height: number }; fontMeta: { fonts: { family: string; weights: number[]; styles: string[] }[] }; assetMeta: { images: string[]; svgs?: string[] } } {
   if (!composition || typeof composition !== 'object') throw new Error('Invalid composition');
   const children = Array.isArray(composition.children) ? composition.children : [];
@@ -205,5 +207,22 @@ export function nodeToIR(
     svgContent: node.svgContent,
     svgFile: svgFileProp,
     text: node.text,
+    component: buildComponentInfo(node),
   };
 }
+
+// Why: variants share a set name ("Button") while the variant itself is "Size=Large, State=Hover"
+function buildComponentInfo(node: FigmaNode): ComponentInfo | undefined {
+  const t = String(node.type || '').toUpperCase();
+  if (t === 'COMPONENT' && node.id !== undefined) {
+    const name = node.componentSetName ? `${node.componentSetName} ${node.name || ''}`.trim() : (node.name || 'Component');
+    return { mainComponentId: String(node.id), name, isMain: true };
+  }
+  if (t !== 'INSTANCE' || !node.mainComponent || !node.mainComponent.id) return undefined;
+  const main = node.mainComponent;
+  const name = main.componentSetName
+    ? `${main.componentSetName} ${main.name || ''}`.trim()
+    : (main.name || node.name || 'Component');
+  const props = node.componentProperties && Object.keys(node.componentProperties).length ? { ...node.componentProperties } : undefined;
+  return { mainComponentId: String(main.id), name, properties: props };
+}
@@ -0,0 +1,60 @@
+import * as cheerio from 'cheerio';
+import { getComponentName } from '../utils/class-naming';
+
+// Helpers shared by the framework emitters (react.ts, vue.ts) that re-print the content renderer's HTML
+// fragment as a component template.
+
+export const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+// Why: text runs (span/br) must stay on one line — JSX drops whitespace that touches a newline, and
+// re-indenting inside them would inject visible whitespace between spans in a Vue template
+export const INLINE_TAGS = new Set(['span', 'br', 'a', 'b', 'i', 'em', 'strong', 'small', 'sub', 'sup', 'code', 'label']);
+
+export function isDroppable(node: any): boolean {
+  if (!node) return true;
+  if (node.type === 'comment') return true;
+  // Why: whitespace with newlines only comes from our own joins between boxes
+  return node.type === 'text' && /^\s*$/.test(node.data || '') && /\n/.test(node.data || '');
+}
+
+export function isInlineTree(node: any): boolean {
+  if (node.type === 'text') return true;
+  if (node.type !== 'tag') return false;
+  if (!INLINE_TAGS.has(String(node.name).toLowerCase())) return false;
+  return (node.children || []).every((c: any) => isDroppable(c) || isInlineTree(c));
+}
+
+export type ComponentDefinition = { name: string; node: any };
+// Instance element → name of the definition it renders as
+export type ComponentRefs = Map<any, string>;
+
+/**
+ * One definition per main component (data-component-id from the content renderer).
+ * Instances whose subtree matches the definition become references; instances with
+ * overrides (text, fills, swapped children) stay inline.
+ */
+export function extractComponents($: cheerio.Root, reserved: string[]): { defs: ComponentDefinition[]; refs: ComponentRefs } {
+  const defs: ComponentDefinition[] = [];
+  const refs: ComponentRefs = new Map();
+  const byId = new Map<string, { name: string; signature: string }>();
+  const used = new Set<string>(reserved);
+  // Why: layer ids differ per instance ("I1:2;3:4") even when the subtree is identical
+  const signatureOf = (el: any) => `${el.name}|${($(el).html() || '').replace(/\sdata-layer-id="[^"]*"/g, '')}`;
+
+  $('[data-component-id]').toArray().forEach((el: any) => {
+    const id = el.attribs['data-component-id'];
+    const signature = signatureOf(el);
+    const known = byId.get(id);
+    if (known) {
+      if (known.signature === signature) refs.set(el, known.name);
+      return;
+    }
+    const base = getComponentName(el.attribs['data-component'], 'Component');
+    let name = base;
+    for (let i = 2; used.has(name); i++) name = `${base}${i}`;
+    used.add(name);
+    byId.set(id, { name, signature });
+    defs.push({ name, node: el });
+    refs.set(el, name);
+  });
+  return { defs, refs };
+}
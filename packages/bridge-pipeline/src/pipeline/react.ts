@@ -0,0 +1,176 @@
+import * as cheerio from 'cheerio';
+import { getComponentName } from '../utils/class-naming';
+import { VOID_TAGS, isDroppable, isInlineTree, extractComponents, type ComponentDefinition, type ComponentRefs } from './markup-tree';
+import { splitDeclarations } from '../utils/css-parser';
+
+export type ReactComponentOptions = {
+  componentName?: string;
+  // Stylesheet(s) the component imports, in order (default './styles.css'); null skips the import
+  cssImport?: string | string[] | null;
+};
+
+const ATTR_RENAMES: Record<string, string> = {
+  class: 'className',
+  for: 'htmlFor',
+  tabindex: 'tabIndex',
+  readonly: 'readOnly',
+  maxlength: 'maxLength',
+  colspan: 'colSpan',
+  rowspan: 'rowSpan',
+  srcset: 'srcSet',
+  crossorigin: 'crossOrigin',
+  'xlink:href': 'xlinkHref',
+};
+
+function camelCase(name: string): string {
+  return name.replace(/-([a-z])/g, (_m, c: string) => c.toUpperCase());
+}
+
+function toJsxAttrName(name: string): string {
+  const lower = name.toLowerCase();
+  if (ATTR_RENAMES[lower]) return ATTR_RENAMES[lower];
+  if (lower.startsWith('data-') || lower.startsWith('aria-')) return lower;
+  return camelCase(lower);
+}
+
+// Why: React expects vendor prefixes capitalized (WebkitX) except ms (msX); custom properties stay as-is
+function toJsxStyleKey(prop: string): string {
+  if (prop.startsWith('--')) return prop;
+  if (prop.startsWith('-ms-')) return camelCase(prop.slice(1));
+  if (prop.startsWith('-')) {
+    const c = camelCase(prop.slice(1));
+    return c.charAt(0).toUpperCase() + c.slice(1);
+  }
+  return camelCase(prop);
+}
+
+function quoteJs(v: string): string {
+  return `'${v.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+function styleToJsx(css: string): string {
+  const entries: string[] = [];
+  for (const decl of splitDeclarations(css)) {
+    const idx = decl.indexOf(':');
+    if (idx <= 0) continue;
+    const k = decl.slice(0, idx).trim().toLowerCase();
+    const v = decl.slice(idx + 1).trim();
+    if (!k || !v) continue;
+    const key = toJsxStyleKey(k);
+    const keyStr = /^[A-Za-z_$][\w$]*$/.test(key) ? key : quoteJs(key);
+    entries.push(`${keyStr}: ${quoteJs(v)}`);
+  }
+  return entries.length ? `{{ ${entries.join(', ')} }}` : '';
+}
+
+function attrsToJsx(attribs: Record<string, string> | undefined): string {
+  if (!attribs) return '';
+  const parts: string[] = [];
+  for (const [name, value] of Object.entries(attribs)) {
+    if (name.toLowerCase() === 'style') {
+      const style = styleToJsx(value || '');
+      if (style) parts.push(`style=${style}`);
+      continue;
+    }
+    const key = toJsxAttrName(name);
+    const v = String(value ?? '');
+    parts.push(/["&{}\n]/.test(v) ? `${key}={${JSON.stringify(v)}}` : `${key}="${v}"`);
+  }
+  return parts.length ? ' ' + parts.join(' ') : '';
+}
+
+function textToJsx(text: string): string {
+  if (!text) return '';
+  return /[{}<>&"\n]|^\s|\s$/.test(text) ? `{${JSON.stringify(text)}}` : text;
+}
+
+function renderInline(node: any): string {
+  if (node.type === 'text') return textToJsx(node.data || '');
+  if (node.type !== 'tag') return '';
+  const tag = String(node.name).toLowerCase();
+  const open = `<${tag}${attrsToJsx(node.attribs)}`;
+  const kids = (node.children || []).filter((c: any) => !isDroppable(c));
+  if (VOID_TAGS.has(tag) || kids.length === 0) return `${open} />`;
+  return `${open}>${kids.map(renderInline).join('')}</${tag}>`;
+}
+
+// Elements replaced by a reference to an extracted component definition
+function renderBlock(node: any, depth: number, out: string[], refs?: ComponentRefs): void {
+  const pad = '  '.repeat(depth);
+  if (node.type === 'text') {
+    out.push(pad + `{${JSON.stringify(node.data || '')}}`);
+    return;
+  }
+  if (node.type !== 'tag') return;
+  const ref = refs?.get(node);
+  if (ref) {
+    out.push(`${pad}<${ref}${attrsToJsx(node.attribs)} />`);
+    return;
+  }
+  const tag = String(node.name).toLowerCase();
+  const open = `<${tag}${attrsToJsx(node.attribs)}`;
+  const kids = (node.children || []).filter((c: any) => !isDroppable(c));
+  if (VOID_TAGS.has(tag) || kids.length === 0) {
+    out.push(`${pad}${open} />`);
+    return;
+  }
+  if (kids.every(isInlineTree)) {
+    out.push(`${pad}${open}>${kids.map(renderInline).join('')}</${tag}>`);
+    return;
+  }
+  out.push(`${pad}${open}>`);
+  for (const k of kids) renderBlock(k, depth + 1, out, refs);
+  out.push(`${pad}</${tag}>`);
+}
+
+function renderRoots(roots: any[], depth: number, refs?: ComponentRefs): string {
+  const out: string[] = [];
+  if (roots.length === 1) {
+    renderBlock(roots[0], depth, out, refs);
+  } else {
+    const pad = '  '.repeat(depth);
+    out.push(`${pad}<>`);
+    roots.forEach((n: any) => renderBlock(n, depth + 1, out, refs));
+    out.push(`${pad}</>`);
+  }
+  return out.join('\n');
+}
+
+function loadRoots(html: string): { $: cheerio.Root; roots: any[] } {
+  const $ = cheerio.load(html || '');
+  const roots = $('body').contents().toArray().filter((n: any) => !isDroppable(n));
+  roots.forEach((n: any) => {
+    if (n.type === 'tag') $(n).attr('data-figma-render', '1');
+  });
+  return { $, roots };
+}
+
+function renderDefinition(def: ComponentDefinition, refs: ComponentRefs): string {
+  const tag = String(def.node.name).toLowerCase();
+  const kids = (def.node.children || []).filter((c: any) => !isDroppable(c));
+  const out: string[] = [];
+  if (kids.length === 0) {
+    out.push(`    <${tag} {...props} />`);
+  } else if (kids.every(isInlineTree)) {
+    out.push(`    <${tag} {...props}>${kids.map(renderInline).join('')}</${tag}>`);
+  } else {
+    out.push(`    <${tag} {...props}>`);
+    for (const k of kids) renderBlock(k, 3, out, refs);
+    out.push(`    </${tag}>`);
+  }
+  return `function ${def.name}(props: HTMLAttributes<HTMLElement>) {\n  return (\n${out.join('\n')}\n  );\n}\n`;
+}
+
+export function createReactComponent(bodyHtml: string, options: ReactComponentOptions = {}): string {
+  const name = getComponentName(options.componentName);
+  const cssImports = options.cssImport === undefined ? ['./styles.css'] : ([] as string[]).concat(options.cssImport ?? []);
+  const { $, roots } = loadRoots(bodyHtml);
+  const { defs, refs } = extractComponents($, [name]);
+  const jsx = renderRoots(roots, 2, refs);
+  const imports: string[] = [];
+  for (const css of cssImports) imports.push(`import ${quoteJs(css)};`);
+  if (defs.length) imports.push(`import type { HTMLAttributes } from 'react';`);
+  const header = imports.length ? imports.join('\n') + '\n\n' : '';
+  const definitions = defs.map(d => renderDefinition(d, refs) + '\n').join('');
+  return `${header}${definitions}export default function ${name}() {\n  return (\n${jsx}\n  );\n}\n`;
+}
@@ -30,12 +30,21 @@ export type LayoutInfo = {
   // `width:` / `height:`，数值字段继续只用于几何/布局计算。
   cssWidth?: string;
   cssHeight?: string;
+  // Auto-layout min/max size limits (px)
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
   transform2x2: { a: number; b: number; c: number; d: number };
   origin: 'top left' | 'center';
   // For rotated/reflected flex items, renderer may allocate an outer reserved box
   // and put the visual transform on an inner box to avoid non-uniform stroke scaling.
   // centerStrategy is optional to keep backward compatibility with existing renders.
   wrapper?: { contentWidth: number; contentHeight: number; centerStrategy?: 'inset' | 'translate' };
+  // Figma constraints of absolutely positioned children; only consumed by the adaptive layout pass
+  constraints?: { horizontal: string; vertical: string };
+  // Replaces the default left/top positioning when set (adaptive layout: right/bottom/%/centered offsets)
+  positionCss?: string;
 };
 
 export type StyleInfo = {
@@ -57,6 +66,17 @@ export type ChildrenContent = { type: 'children'; nodes: RenderNodeIR[] };
 export type EmptyContent = { type: 'empty' };
 export type Content = TextContent | SvgContent | ChildrenContent | EmptyContent;
 
+// Reusable component identity: instances and their main component share mainComponentId
+export type ComponentInfo = {
+  mainComponentId: string;
+  name: string;
+  isMain?: boolean;
+  properties?: Record<string, string | boolean>;
+};
+
+// Element emitted for a node in content mode (div when unset), see utils/semantic-tags
+export type SemanticTag = 'button' | 'a' | 'input' | 'header' | 'nav' | 'ul' | 'li' | 'p' | 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+
 export type RenderNodeIR = {
   id: string;
   kind: 'frame' | 'shape' | 'text' | 'svg';
@@ -72,6 +92,13 @@ export type RenderNodeIR = {
   svgContent?: string;
   svgFile?: string;
   text?: any;
+  component?: ComponentInfo;
+  tag?: SemanticTag;
+  // Extra attributes on the outer element in content mode (e.g. responsive merge keys)
+  attrs?: Record<string, string>;
+  // Content image drawn as <img> instead of a background in content mode, see utils/content-images
+  // src: URL from the asset URL provider (images/{id}.png without one)
+  image?: { id: string; src: string; fit: 'cover' | 'contain'; alt: string };
 };
 
 export type Viewport = { width: number; height: number; offsetX: number; offsetY: number };
@@ -96,6 +123,10 @@ export type RenderBoxOptions = {
   omitPosition?: boolean;
   mode?: 'content' | 'debug';
   hasStroke?: boolean;
+  // Extra attributes for the outermost element (content mode), e.g. data-component, placeholder
+  extraAttrs?: Record<string, string>;
+  // Outermost element name (content mode); defaults to div
+  tag?: string;
 };
 export type RenderBoxConfig = {
   className: string;
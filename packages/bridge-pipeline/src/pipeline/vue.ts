@@ -0,0 +1,169 @@
+import * as cheerio from 'cheerio';
+import { getComponentName } from '../utils/class-naming';
+import { splitClassTokens, splitRules } from '../utils/css-parser';
+import { VOID_TAGS, isDroppable, isInlineTree, extractComponents, type ComponentDefinition, type ComponentRefs } from './markup-tree';
+
+export type VueComponentOptions = {
+  componentName?: string;
+};
+
+function escAttr(val: string): string {
+  return val
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escText(val: string): string {
+  return val
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function attrsOf(node: any): string {
+  return Object.entries(node.attribs || {})
+    .map(([k, v]) => (v === '' && k === 'v-pre') ? ' v-pre' : ` ${k}="${escAttr(String(v ?? ''))}"`)
+    .join('');
+}
+
+function openTag(node: any): string {
+  return `<${String(node.name).toLowerCase()}${attrsOf(node)}>`;
+}
+
+function renderInline(node: any): string {
+  if (node.type === 'text') return escText(node.data || '');
+  if (node.type !== 'tag') return '';
+  const tag = String(node.name).toLowerCase();
+  if (VOID_TAGS.has(tag)) return openTag(node);
+  const kids = (node.children || []).filter((c: any) => !isDroppable(c));
+  return `${openTag(node)}${kids.map(renderInline).join('')}</${tag}>`;
+}
+
+// `used` collects the definitions referenced, so the file can import them
+function renderBlock(node: any, depth: number, out: string[], refs?: ComponentRefs, used?: Set<string>): void {
+  const pad = '  '.repeat(depth);
+  if (node.type === 'text') {
+    out.push(pad + escText(node.data || ''));
+    return;
+  }
+  if (node.type !== 'tag') return;
+  const ref = refs?.get(node);
+  if (ref) {
+    used?.add(ref);
+    out.push(`${pad}<${ref}${attrsOf(node)} />`);
+    return;
+  }
+  const tag = String(node.name).toLowerCase();
+  if (VOID_TAGS.has(tag)) {
+    out.push(pad + openTag(node));
+    return;
+  }
+  const kids = (node.children || []).filter((c: any) => !isDroppable(c));
+  if (kids.every(isInlineTree)) {
+    out.push(`${pad}${openTag(node)}${kids.map(renderInline).join('')}</${tag}>`);
+    return;
+  }
+  out.push(pad + openTag(node));
+  for (const k of kids) renderBlock(k, depth + 1, out, refs, used);
+  out.push(`${pad}</${tag}>`);
+}
+
+function containsRef(node: any, refs: ComponentRefs): boolean {
+  return refs.has(node) || (node.children || []).some((c: any) => containsRef(c, refs));
+}
+
+// Why: design text may contain "{{" which Vue would otherwise interpolate, but v-pre also stops component
+// references from compiling — so it goes on the outermost elements whose subtree holds no reference
+function markVPre(node: any, refs: ComponentRefs): void {
+  if (node.type !== 'tag' || refs.has(node)) return;
+  if (!containsRef(node, refs)) {
+    node.attribs['v-pre'] = '';
+    return;
+  }
+  for (const c of node.children || []) markVPre(c, refs);
+}
+
+function loadRoots(html: string): { $: cheerio.Root; roots: any[] } {
+  const $ = cheerio.load(html || '');
+  return { $, roots: $('body').contents().toArray().filter((n: any) => !isDroppable(n)) };
+}
+
+const CLASS_SELECTOR_RE = /\.((?:\\[0-9a-fA-F]{1,6}\s?|\\.|[\w-])+)/g;
+
+function unescapeCssIdent(ident: string): string {
+  return ident.replace(/\\([0-9a-fA-F]{1,6})\s?|\\(.)/g, (_m: string, hex?: string, ch?: string) => (hex ? String.fromCodePoint(parseInt(hex, 16)) : ch!));
+}
+
+function templateClasses(template: string): Set<string> {
+  const out = new Set<string>();
+  for (const m of template.matchAll(/\sclass="([^"]*)"/g)) {
+    const value = m[1].replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+    for (const token of splitClassTokens(value)) out.add(token);
+  }
+  return out;
+}
+
+// Rules whose selectors name one of `classes`; rules without class selectors and block-less at-rules are kept
+function cssForClasses(cssText: string, classes: Set<string>): string {
+  const keep = (rule: string): string | null => {
+    const open = rule.indexOf('{');
+    if (open < 0) return rule;
+    const prelude = rule.slice(0, open).replace(/\/\*[\s\S]*?\*\//g, '').trim();
+    if (/^@(media|supports|container|layer)\b/.test(prelude)) {
+      const inner = splitRules(rule.slice(open + 1, rule.lastIndexOf('}'))).map(keep).filter((r): r is string => !!r);
+      return inner.length ? `${rule.slice(0, open).trim()} {\n${inner.map(r => `  ${r}`).join('\n')}\n}` : null;
+    }
+    if (prelude.startsWith('@')) return rule;
+    const names = Array.from(prelude.matchAll(CLASS_SELECTOR_RE), m => unescapeCssIdent(m[1]));
+    return !names.length || names.some(n => classes.has(n)) ? rule : null;
+  };
+  return splitRules(cssText || '').map(keep).filter((r): r is string => !!r).join('\n');
+}
+
+function buildSfc(template: string, name: string, used: Set<string>, cssText: string): string {
+  const imports = Array.from(used).map(ref => `import ${ref} from './${ref}.vue';`);
+  const script = [...imports, `defineOptions({ name: '${name}' });`].join('\n');
+  // Why: scoped styles only reach a child component's root element, so each file carries the rules its own
+  // template uses (a reference's classes sit in the parent template and style the child root from there)
+  const style = cssForClasses(cssText, templateClasses(template));
+  return `<template>\n${template}\n</template>\n\n<script setup lang="ts">\n${script}\n</script>\n\n<style scoped>\n${style}\n</style>\n`;
+}
+
+// Definition root: attributes come from each reference (Vue falls them through onto the root element)
+function renderDefinition(def: ComponentDefinition, refs: ComponentRefs, cssText: string): string {
+  const tag = String(def.node.name).toLowerCase();
+  const kids = (def.node.children || []).filter((c: any) => !isDroppable(c));
+  kids.forEach((k: any) => markVPre(k, refs));
+  const used = new Set<string>();
+  const out: string[] = [];
+  if (kids.length === 0) {
+    out.push(`  <${tag} />`);
+  } else if (kids.every(isInlineTree)) {
+    out.push(`  <${tag}>${kids.map(renderInline).join('')}</${tag}>`);
+  } else {
+    out.push(`  <${tag}>`);
+    for (const k of kids) renderBlock(k, 2, out, refs, used);
+    out.push(`  </${tag}>`);
+  }
+  return buildSfc(out.join('\n'), def.name, used, cssText);
+}
+
+/**
+ * The main SFC plus one SFC per reused main component (file name → source), imported from the main
+ * file or from each other.
+ */
+export function createVueComponent(bodyHtml: string, cssText: string, options: VueComponentOptions = {}): { sfc: string; components: Record<string, string> } {
+  const name = getComponentName(options.componentName);
+  const { $, roots } = loadRoots(bodyHtml);
+  // Why: the package writes the main file as Component.vue, so no definition may take that file name
+  const { defs, refs } = extractComponents($, [name, 'Component']);
+  roots.forEach((n: any) => markVPre(n, refs));
+  const used = new Set<string>();
+  const out: string[] = [];
+  roots.forEach((n: any) => renderBlock(n, 1, out, refs, used));
+  const components: Record<string, string> = {};
+  for (const def of defs) components[`${def.name}.vue`] = renderDefinition(def, refs, cssText);
+  return { sfc: buildSfc(out.join('\n'), name, used, cssText), components };
+}
@@ -1,21 +1,47 @@
 import { normalizeComposition } from '../utils/normalize';
 import { compositionToIR } from '../pipeline/ir';
-import { createPreviewAssets, createContentAssets } from '../pipeline/html';
+import type { CompositionIR } from '../pipeline/ir';
+import { createPreviewAssets, createContentAssets, createTailwindContentAssets } from '../pipeline/html';
+import { applySemanticTags } from '../utils/semantic-tags';
+import { applyAdaptiveLayout } from '../utils/adaptive-layout';
+import { applyContentImages, collectImageUsage } from '../utils/content-images';
+import { extractDesignTokens, applyDesignTokensToCss, applyDesignTokensToHtml, buildTokensCss, buildTokensJson } from '../utils/design-tokens';
 import type { RenderNodeIR, Rect } from '../pipeline/types';
 
 export type AssetType = 'image' | 'svg';
 export type AssetUrlProvider = (id: string, type: AssetType, data?: string) => string;
 
+// `ir` is compositionToIR() of the already normalized composition; pass it when rendering one composition to
+// several outputs (HTML, React, Vue) so it is normalized and converted once. Keep semanticHtml the same across
+// those calls: the semantic tags are written onto the shared nodes.
+export type FigmaInput = { composition: any; ir?: CompositionIR };
+
+export function prepareIR(input: FigmaInput, caller: string): { composition: any; ir: CompositionIR } {
+  const { composition } = input || ({} as FigmaInput);
+  if (!composition || typeof composition !== 'object') throw new Error(`${caller}: composition required`);
+  if (input.ir) return { composition, ir: input.ir };
+  normalizeComposition(composition);
+  return { composition, ir: compositionToIR(composition) };
+}
+
 export type FigmaToHtmlOptions = {
   assetUrlProvider?: AssetUrlProvider;
   debugEnabled?: boolean;
+  // 'tailwind': export content with Tailwind classes only (no inline styles, no utility CSS)
+  contentMode?: 'css' | 'tailwind';
+  // Cluster repeated colors/spacing/radii/shadows into CSS custom properties (css content mode only)
+  designTokens?: boolean;
+  // Emit button/header/nav/h1–h6/p/ul/li/input/a inferred from layer names and structure (default true)
+  semanticHtml?: boolean;
+  // 'adaptive': content export uses fluid top-level widths and constraint-driven positions (preview stays fixed)
+  layoutMode?: 'fixed' | 'adaptive';
+  // Render content images (a leaf box filled by one FILL/FIT image) as <img> instead of a background (css content mode only)
+  contentImages?: boolean;
 };
 
-export async function figmaToHtml(input: { composition: any }, options: FigmaToHtmlOptions = {}) {
-  const { composition } = input || {};
-  if (!composition || typeof composition !== 'object') throw new Error('figmaToHtml: composition required');
-  normalizeComposition(composition);
-  const ir = compositionToIR(composition);
+export async function figmaToHtml(input: FigmaInput, options: FigmaToHtmlOptions = {}) {
+  const { composition, ir } = prepareIR(input, 'figmaToHtml');
+  if (options.semanticHtml !== false) applySemanticTags(ir.nodes);
 
   const preview = await createPreviewAssets({
     composition,
@@ -26,16 +52,31 @@ export async function figmaToHtml(input: { composition: any }, options: FigmaToH
   });
 
   // Also build content assets (for export packages)
-  const content = await createContentAssets({
+  let contentNodes = ir.nodes;
+  const contentImages = !!options.contentImages && options.contentMode !== 'tailwind';
+  if (options.layoutMode === 'adaptive' || contentImages) {
+    // Why: the preview above must keep the fixed canvas and backgrounds for pixel comparison, so adapt a copy
+    contentNodes = JSON.parse(JSON.stringify(ir.nodes));
+    if (options.layoutMode === 'adaptive') applyAdaptiveLayout(contentNodes);
+    const provider = options.assetUrlProvider;
+    if (contentImages) applyContentImages(contentNodes, provider ? id => provider(id, 'image') : undefined);
+  }
+  const contentInput = {
     composition,
-    irNodes: ir.nodes,
+    irNodes: contentNodes,
     cssRules: ir.cssRules,
     renderUnion: ir.renderUnion,
     debugEnabled: false,
-  });
+  };
+  const tailwind = options.contentMode === 'tailwind' ? await createTailwindContentAssets(contentInput) : null;
+  const content = tailwind || await createContentAssets(contentInput);
+
+  const tokenSet = options.designTokens && !tailwind ? extractDesignTokens(contentNodes, ir.cssRules) : null;
+  const contentHtml = tokenSet ? applyDesignTokensToHtml(content.bodyHtml, tokenSet) : content.bodyHtml;
+  const contentCss = tokenSet ? applyDesignTokensToCss(content.cssText, tokenSet) : content.cssText;
 
   const mappedPreview = applyAssetUrlProvider(preview.html, preview.cssText, ir.nodes, options.assetUrlProvider);
-  const mappedContent = applyAssetUrlProvider(content.bodyHtml, content.cssText, ir.nodes, options.assetUrlProvider);
+  const mappedContent = applyAssetUrlProvider(contentHtml, contentCss, ir.nodes, options.assetUrlProvider);
 
   return {
     html: mappedPreview.html,
@@ -43,7 +84,7 @@ export async function figmaToHtml(input: { composition: any }, options: FigmaToH
     baseWidth: preview.baseWidth,
     baseHeight: preview.baseHeight,
     renderUnion: preview.renderUnion as Rect,
-    assets: ir.assetMeta,
+    assets: { ...ir.assetMeta, imageUsage: collectImageUsage(contentNodes) },
     debugHtml: preview.debugHtml,
     debugCss: preview.debugCss,
     content: {
@@ -52,11 +93,13 @@ export async function figmaToHtml(input: { composition: any }, options: FigmaToH
       headLinks: '',
       baseWidth: content.baseWidth,
       baseHeight: content.baseHeight,
+      ...(tailwind ? { tailwindConfig: tailwind.tailwindConfig, tailwindConfigFile: tailwind.tailwindConfigFile } : {}),
+      ...(tokenSet ? { tokens: { cssText: buildTokensCss(tokenSet), json: buildTokensJson(tokenSet), list: tokenSet.tokens } } : {}),
     }
   };
 }
 
-function applyAssetUrlProvider(htmlOrFragment: string, cssText: string, nodes: RenderNodeIR[], provider?: AssetUrlProvider): { html: string; cssText: string; htmlFragment?: string } {
+export function applyAssetUrlProvider(htmlOrFragment: string, cssText: string, nodes: RenderNodeIR[], provider?: AssetUrlProvider): { html: string; cssText: string; htmlFragment?: string } {
   if (!provider) return { html: htmlOrFragment, cssText };
   let outHtml = htmlOrFragment;
   let outCss = cssText;
@@ -0,0 +1,42 @@
+import { createContentAssets } from '../pipeline/html';
+import { createReactComponent } from '../pipeline/react';
+import { applySemanticTags } from '../utils/semantic-tags';
+import { getCompositionComponentName } from '../utils/class-naming';
+import { applyAssetUrlProvider, prepareIR } from './figmaToHtml';
+import type { AssetUrlProvider, FigmaInput } from './figmaToHtml';
+
+export type FigmaToReactOptions = {
+  assetUrlProvider?: AssetUrlProvider;
+  componentName?: string;
+  // See FigmaToHtmlOptions.semanticHtml (default true)
+  semanticHtml?: boolean;
+  // Path(s) the component imports its stylesheets from; null skips the import. With design tokens,
+  // import tokens.css before styles.css — the :root variables live only there
+  cssImport?: string | string[] | null;
+};
+
+export async function figmaToReact(input: FigmaInput, options: FigmaToReactOptions = {}) {
+  const { composition, ir } = prepareIR(input, 'figmaToReact');
+  if (options.semanticHtml !== false) applySemanticTags(ir.nodes);
+
+  const content = await createContentAssets({
+    composition,
+    irNodes: ir.nodes,
+    cssRules: ir.cssRules,
+    renderUnion: ir.renderUnion,
+    debugEnabled: false,
+  });
+  const mapped = applyAssetUrlProvider(content.bodyHtml, content.cssText, ir.nodes, options.assetUrlProvider);
+
+  const componentName = getCompositionComponentName(composition, options.componentName);
+  const tsx = createReactComponent(mapped.htmlFragment || mapped.html, { componentName, cssImport: options.cssImport });
+
+  return {
+    tsx,
+    componentName,
+    cssText: mapped.cssText,
+    baseWidth: content.baseWidth,
+    baseHeight: content.baseHeight,
+    assets: ir.assetMeta,
+  };
+}
@@ -0,0 +1,63 @@
+import { normalizeComposition } from '../utils/normalize';
+import { compositionToIR } from '../pipeline/ir';
+import { createResponsiveContentAssets } from '../pipeline/html';
+import { applySemanticTags } from '../utils/semantic-tags';
+import { assignResponsiveKeys } from '../utils/responsive-merge';
+import { applyAssetUrlProvider } from './figmaToHtml';
+import type { AssetUrlProvider } from './figmaToHtml';
+
+// One design of the same screen at a given breakpoint width (e.g. Desktop 1440, Tablet 768, Mobile 375)
+export type ResponsiveVariantInput = {
+  composition: any;
+  width: number;
+};
+
+export type FigmaToResponsiveHtmlOptions = {
+  assetUrlProvider?: AssetUrlProvider;
+  // See FigmaToHtmlOptions.semanticHtml (default true)
+  semanticHtml?: boolean;
+};
+
+/**
+ * Merge several breakpoint designs into one HTML tree. Nodes are matched by layer-name path; the widest
+ * variant provides the markup and narrower ones contribute @media (max-width) overrides.
+ */
+export async function figmaToResponsiveHtml(input: { variants: ResponsiveVariantInput[] }, options: FigmaToResponsiveHtmlOptions = {}) {
+  const variants = input?.variants;
+  if (!Array.isArray(variants) || variants.length === 0) throw new Error('figmaToResponsiveHtml: variants required');
+
+  const prepared = variants.map((v, i) => {
+    if (!v || !v.composition || typeof v.composition !== 'object') throw new Error(`figmaToResponsiveHtml: variants[${i}].composition required`);
+    if (typeof v.width !== 'number' || !(v.width > 0)) throw new Error(`figmaToResponsiveHtml: variants[${i}].width must be a positive number`);
+    normalizeComposition(v.composition);
+    const ir = compositionToIR(v.composition);
+    if (options.semanticHtml !== false) applySemanticTags(ir.nodes);
+    assignResponsiveKeys(ir.nodes);
+    return { width: v.width, composition: v.composition, ir };
+  });
+
+  const content = await createResponsiveContentAssets(prepared.map(p => ({
+    composition: p.composition,
+    irNodes: p.ir.nodes,
+    cssRules: p.ir.cssRules,
+    renderUnion: p.ir.renderUnion,
+    width: p.width,
+  })));
+  const allNodes = prepared.flatMap(p => p.ir.nodes);
+  const mapped = applyAssetUrlProvider(content.bodyHtml, content.cssText, allNodes, options.assetUrlProvider);
+
+  return {
+    bodyHtml: mapped.htmlFragment || mapped.html,
+    cssText: mapped.cssText,
+    headLinks: content.headLinks,
+    baseWidth: content.baseWidth,
+    baseHeight: content.baseHeight,
+    breakpoints: content.breakpoints,
+    unmatched: content.unmatched,
+    textConflicts: content.textConflicts,
+    assets: {
+      images: Array.from(new Set(prepared.flatMap(p => p.ir.assetMeta.images || []))),
+      svgs: Array.from(new Set(prepared.flatMap(p => p.ir.assetMeta.svgs || []))),
+    },
+  };
+}
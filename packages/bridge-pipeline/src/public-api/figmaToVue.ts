@@ -0,0 +1,39 @@
+import { createComponentAssets } from '../pipeline/html';
+import { createVueComponent } from '../pipeline/vue';
+import { applySemanticTags } from '../utils/semantic-tags';
+import { getCompositionComponentName } from '../utils/class-naming';
+import { applyAssetUrlProvider, prepareIR } from './figmaToHtml';
+import type { AssetUrlProvider, FigmaInput } from './figmaToHtml';
+
+export type FigmaToVueOptions = {
+  assetUrlProvider?: AssetUrlProvider;
+  componentName?: string;
+  // See FigmaToHtmlOptions.semanticHtml (default true)
+  semanticHtml?: boolean;
+};
+
+export async function figmaToVue(input: FigmaInput, options: FigmaToVueOptions = {}) {
+  const { composition, ir } = prepareIR(input, 'figmaToVue');
+  if (options.semanticHtml !== false) applySemanticTags(ir.nodes);
+
+  const component = await createComponentAssets({
+    composition,
+    irNodes: ir.nodes,
+    cssRules: ir.cssRules,
+    renderUnion: ir.renderUnion,
+  });
+  const mapped = applyAssetUrlProvider(component.bodyHtml, component.cssText, ir.nodes, options.assetUrlProvider);
+
+  const componentName = getCompositionComponentName(composition, options.componentName);
+  const { sfc, components } = createVueComponent(mapped.htmlFragment || mapped.html, mapped.cssText, { componentName });
+
+  return {
+    sfc,
+    // Reused main components as their own SFCs (file name → source), imported by sfc
+    components,
+    componentName,
+    baseWidth: component.baseWidth,
+    baseHeight: component.baseHeight,
+    assets: ir.assetMeta,
+  };
+}
@@ -0,0 +1,124 @@
+// JSON Schema (draft-07) for the composition payload sent by the plugin. Mirrors CompositionInput/FigmaNode in
+// ./figma; shape only — cross-field rules (top-level renderBounds, SVG bounds) live in validateComposition.
+
+export const COMPOSITION_SCHEMA_VERSION = '1.0';
+
+const rect = {
+  type: 'object',
+  required: ['x', 'y', 'width', 'height'],
+  properties: {
+    x: { type: 'number' },
+    y: { type: 'number' },
+    width: { type: 'number', minimum: 0 },
+    height: { type: 'number', minimum: 0 },
+  },
+};
+
+const color = {
+  type: 'object',
+  required: ['r', 'g', 'b'],
+  properties: {
+    r: { type: 'number', minimum: 0, maximum: 1 },
+    g: { type: 'number', minimum: 0, maximum: 1 },
+    b: { type: 'number', minimum: 0, maximum: 1 },
+    a: { type: 'number', minimum: 0, maximum: 1 },
+  },
+};
+
+const paint = {
+  type: 'object',
+  required: ['type'],
+  properties: {
+    type: { type: 'string' },
+    color: { $ref: '#/definitions/color' },
+    opacity: { type: 'number', minimum: 0, maximum: 1 },
+    visible: { type: 'boolean' },
+    imageId: { type: 'string' },
+    gradientStops: {
+      type: 'array',
+      items: { type: 'object', required: ['color', 'position'], properties: { color: { $ref: '#/definitions/color' }, position: { type: 'number' } } },
+    },
+  },
+};
+
+const effect = {
+  type: 'object',
+  required: ['type'],
+  properties: {
+    // LAYER_BLUR | BACKGROUND_BLUR | DROP_SHADOW | INNER_SHADOW; newer Figma effects pass through and are ignored
+    type: { type: 'string' },
+    radius: { type: 'number', minimum: 0 },
+    spread: { type: 'number' },
+    offset: { type: 'object', required: ['x', 'y'], properties: { x: { type: 'number' }, y: { type: 'number' } } },
+    color: { $ref: '#/definitions/color' },
+    visible: { type: 'boolean' },
+  },
+};
+
+const node = {
+  type: 'object',
+  required: ['absoluteTransform'],
+  properties: {
+    id: { type: ['string', 'number'] },
+    name: { type: 'string' },
+    type: { type: 'string' },
+    visible: { type: 'boolean' },
+    // Figma sends numbers; DSL/bridge may inject CSS lengths such as '100%'
+    width: { type: ['number', 'string'] },
+    height: { type: ['number', 'string'] },
+    absoluteTransform: {
+      type: 'array',
+      minItems: 2,
+      items: { type: 'array', minItems: 3, items: { type: 'number' } },
+    },
+    renderBounds: { $ref: '#/definitions/rect' },
+    absoluteRenderBounds: { anyOf: [{ $ref: '#/definitions/rect' }, { type: 'null' }] },
+    layoutMode: { type: 'string' },
+    itemSpacing: { type: 'number' },
+    paddingTop: { type: 'number' },
+    paddingRight: { type: 'number' },
+    paddingBottom: { type: 'number' },
+    paddingLeft: { type: 'number' },
+    layoutGrow: { type: 'number' },
+    minWidth: { type: ['number', 'null'] },
+    maxWidth: { type: ['number', 'null'] },
+    minHeight: { type: ['number', 'null'] },
+    maxHeight: { type: ['number', 'null'] },
+    style: {
+      type: 'object',
+      properties: {
+        fills: { type: 'array', items: { $ref: '#/definitions/paint' } },
+        strokes: { type: 'array', items: { $ref: '#/definitions/paint' } },
+        effects: { type: 'array', items: { $ref: '#/definitions/effect' } },
+        opacity: { type: 'number', minimum: 0, maximum: 1 },
+      },
+    },
+    text: {
+      type: 'object',
+      required: ['characters'],
+      properties: {
+        characters: { type: 'string' },
+        segments: { type: 'array', items: { type: 'object' } },
+      },
+    },
+    svgContent: { type: 'string' },
+    children: { type: 'array', items: { $ref: '#/definitions/node' } },
+  },
+};
+
+export const compositionSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: `https://figma-bridge/schemas/composition-${COMPOSITION_SCHEMA_VERSION}.json`,
+  title: 'Figma Bridge composition',
+  type: 'object',
+  required: ['absOrigin', 'children'],
+  properties: {
+    schemaVersion: { type: 'string' },
+    kind: { type: 'string', enum: ['composition'] },
+    name: { type: 'string' },
+    bounds: { $ref: '#/definitions/rect' },
+    absOrigin: { type: 'object', required: ['x', 'y'], properties: { x: { type: 'number' }, y: { type: 'number' } } },
+    children: { type: 'array', items: { $ref: '#/definitions/node' } },
+  },
+  definitions: { rect, color, paint, effect, node },
+};
@@ -6,6 +6,10 @@ export type FigmaRect = { x: number; y: number; width: number; height: number };
 
 export interface FigmaColor { r: number; g: number; b: number; a?: number }
 
+// Variables: the plugin resolves alias names so CSS can reference them as custom properties
+export interface FigmaVariableAlias { type: 'VARIABLE_ALIAS'; id: string; name?: string }
+export type FigmaColorBindings = { color?: FigmaVariableAlias };
+
 // Effects
 export type FigmaEffectType = 'LAYER_BLUR' | 'BACKGROUND_BLUR' | 'DROP_SHADOW' | 'INNER_SHADOW';
 export interface FigmaEffect {
@@ -15,6 +19,7 @@ export interface FigmaEffect {
   offset?: FigmaVec2;
   color?: FigmaColor;
   visible?: boolean;
+  boundVariables?: FigmaColorBindings;
 }
 
 // Paints
@@ -24,6 +29,7 @@ export interface FigmaSolidPaint {
   opacity?: number;
   visible?: boolean;
   blendMode?: string;
+  boundVariables?: FigmaColorBindings;
 }
 
 export interface FigmaImagePaint {
@@ -37,7 +43,7 @@ export interface FigmaImagePaint {
 }
 
 export type FigmaGradientType = 'GRADIENT_LINEAR' | 'GRADIENT_RADIAL' | 'GRADIENT_ANGULAR' | 'GRADIENT_DIAMOND';
-export type FigmaGradientStop = { color: FigmaColor; position: number };
+export type FigmaGradientStop = { color: FigmaColor; position: number; boundVariables?: FigmaColorBindings };
 export interface FigmaGradientPaint {
   type: FigmaGradientType;
   gradientStops: FigmaGradientStop[];
@@ -61,6 +67,13 @@ export interface FigmaStyle {
   opacity?: number;
   blendMode?: string;
   radii?: { tl?: number; tr?: number; br?: number; bl?: number } | any; // kept loose; normalized downstream
+  // Shared style references (ids are file-local; names are what designers see)
+  fillStyleId?: string;
+  fillStyleName?: string;
+  strokeStyleId?: string;
+  strokeStyleName?: string;
+  effectStyleId?: string;
+  effectStyleName?: string;
 }
 
 // Text
@@ -75,6 +88,10 @@ export interface FigmaTextSegment {
   fills?: FigmaPaint[];
   textDecoration?: string;
   textCase?: string;
+  fillStyleId?: string;
+  fillStyleName?: string;
+  textStyleId?: string;
+  textStyleName?: string;
 }
 
 export interface FigmaText {
@@ -85,7 +102,18 @@ export interface FigmaText {
   textAutoResize?: 'WIDTH' | 'HEIGHT' | 'WIDTH_AND_HEIGHT' | 'TRUNCATE' | string;
   textTruncation?: 'ENDING' | string;
   paragraphIndent?: number;
+  textStyleId?: string;
+  textStyleName?: string;
+}
+
+// Components: instances reference their main component; property values are flattened to strings/booleans
+export interface FigmaComponentRef {
+  id: string;
+  name?: string;
+  key?: string;
+  componentSetName?: string;
 }
+export type FigmaComponentPropertyValue = string | boolean;
 
 // Node
 export interface FigmaNode {
@@ -120,6 +148,13 @@ export interface FigmaNode {
   layoutGrow?: number;
   layoutShrink?: number;
   layoutAlign?: string; // INHERIT/MIN/CENTER/MAX/STRETCH
+  // Min/max size limits of auto-layout frames and their children (null = unset)
+  minWidth?: number | null;
+  maxWidth?: number | null;
+  minHeight?: number | null;
+  maxHeight?: number | null;
+  // Resizing behaviour relative to the parent frame (collected for children of FRAME parents)
+  constraints?: { horizontal?: 'MIN' | 'MAX' | 'CENTER' | 'STRETCH' | 'SCALE' | string; vertical?: 'MIN' | 'MAX' | 'CENTER' | 'STRETCH' | 'SCALE' | string };
 
   // Styling
   style?: FigmaStyle;
@@ -133,10 +168,19 @@ export interface FigmaNode {
   svgContent?: string;
   isMask?: boolean;
   maskType?: 'ALPHA' | 'LUMINANCE' | string;
+
+  // COMPONENT only: the set a variant belongs to
+  componentSetName?: string;
+  // INSTANCE only
+  mainComponent?: FigmaComponentRef;
+  componentProperties?: Record<string, FigmaComponentPropertyValue>;
 }
 
 export interface CompositionInput {
+  // Payload format version (see COMPOSITION_SCHEMA_VERSION)
+  schemaVersion?: string;
   kind?: 'composition' | string;
+  name?: string;
   bounds?: FigmaRect;
   absOrigin: { x: number; y: number };
   children: FigmaNode[];
@@ -0,0 +1,66 @@
+import type { RenderNodeIR, LayoutInfo } from '../pipeline/types';
+import { computePositionCss } from './layout';
+
+// Adaptive layout: top-level frames take the available width (capped at the design width) and
+// absolutely positioned children follow their Figma constraints, so the page reflows instead of
+// being scaled as a fixed-size canvas.
+
+function isIdentity(layout: LayoutInfo): boolean {
+  const t = layout.transform2x2;
+  return !t || (t.a === 1 && t.b === 0 && t.c === 0 && t.d === 1);
+}
+
+function roundCss(css: string): string {
+  return css.replace(/-?\d+\.\d{3,}/g, n => String(Math.round(parseFloat(n) * 100) / 100));
+}
+
+function childNodes(node: RenderNodeIR): RenderNodeIR[] {
+  return node.content.type === 'children' && Array.isArray(node.content.nodes) ? node.content.nodes : [];
+}
+
+// Why: computePositionCss may emit width/height (STRETCH → auto, SCALE → %); sizing belongs in cssWidth/cssHeight
+// so it is not overridden by the px size the renderer appends after the position part
+function applyConstraints(node: RenderNodeIR, parent: LayoutInfo): void {
+  const l = node.layout;
+  if (!l.constraints || l.position !== 'absolute' || l.wrapper || !isIdentity(l)) return;
+  if (typeof l.left !== 'number' || typeof l.top !== 'number') return;
+  if (typeof parent.width !== 'number' || typeof parent.height !== 'number') return;
+  if (typeof l.width !== 'number' || typeof l.height !== 'number') return;
+
+  const css = computePositionCss(false, 'ABSOLUTE', l.left, l.top, {
+    constraints: l.constraints,
+    parentSize: { width: parent.width, height: parent.height },
+    size: { width: l.width, height: l.height },
+  });
+  const kept: string[] = [];
+  for (const decl of roundCss(css).split(';')) {
+    const i = decl.indexOf(':');
+    if (i <= 0) continue;
+    const prop = decl.slice(0, i).trim();
+    const value = decl.slice(i + 1).trim();
+    if (prop === 'width') l.cssWidth = value;
+    else if (prop === 'height') l.cssHeight = value;
+    else kept.push(`${prop}:${value};`);
+  }
+  l.positionCss = kept.join('');
+}
+
+function visit(node: RenderNodeIR): void {
+  for (const child of childNodes(node)) {
+    applyConstraints(child, node.layout);
+    visit(child);
+  }
+}
+
+export function applyAdaptiveLayout(nodes: RenderNodeIR[]): void {
+  for (const root of nodes || []) {
+    const l = root.layout;
+    if (typeof l.width === 'number' && l.cssWidth === undefined && !l.wrapper && isIdentity(l)) {
+      // Why: an absolute root would leave the page with zero height; in flow it also pushes the document height
+      l.position = 'relative';
+      l.cssWidth = '100%';
+      root.style.boxCss = `${root.style.boxCss || ''}max-width:${Math.round(l.width * 100) / 100}px;margin-left:auto;margin-right:auto;`;
+    }
+    visit(root);
+  }
+}
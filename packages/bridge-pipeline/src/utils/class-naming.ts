@@ -111,6 +111,33 @@ export function getScopedClassName(
   return `${semantic}-${idSuffix}`;
 }
 
+/**
+ * 将 Figma 节点名称转换为 PascalCase 组件名（React/Vue 导出使用）
+ *
+ * @param nodeName Figma 节点名称
+ * @param fallback 名称为空或非英文时的回退值
+ */
+export function getComponentName(nodeName: string | undefined, fallback: string = 'FigmaComponent'): string {
+  const words = String(nodeName || '').split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const name = words.map(w => w.charAt(0).toUpperCase() + w.slice(1)).join('');
+  if (!name) return fallback;
+  return /^[A-Za-z]/.test(name) ? name : `${fallback}${name}`;
+}
+
+/**
+ * 根据 composition 推导组件名：单个顶层节点用其名称，否则用 composition 名称
+ */
+export function getCompositionComponentName(composition: any, override?: string): string {
+  if (override) return getComponentName(override);
+  const children = Array.isArray(composition?.children) ? composition.children : [];
+  if (children.length === 1 && typeof children[0]?.name === 'string' && children[0].name.trim()) {
+    return getComponentName(children[0].name);
+  }
+  // Why: plugin names compositions "Composition (N items)"; drop the count suffix
+  const name = typeof composition?.name === 'string' ? composition.name.replace(/\(.*\)/, '') : undefined;
+  return getComponentName(name);
+}
+
 /**
  * 测试示例（取消注释运行）:
  * 
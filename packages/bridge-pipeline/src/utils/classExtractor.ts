@@ -97,13 +97,14 @@ export function buildSharedClasses(
 
 export function generateClassCss(classes: SharedClass[], scope: string = '[data-figma-render]'): string {
   if (!classes.length) return '';
+  const pre = scope ? `${scope} ` : '';
   return classes
     .map(c => {
       const body = Object.keys(c.props)
         .sort()
         .map(k => `${k}:${c.props[k]}`)
         .join(';');
-      return `${scope} .${c.name}{${body}}`;
+      return `${pre}.${c.name}{${body}}`;
     })
     .join('\n');
 }
@@ -0,0 +1,40 @@
+// Helpers shared by the converters that build compositions from other sources
+// (dslToComposition, htmlToComposition, figmaRestToComposition).
+
+const WEIGHT_STYLES: Record<number, string> = {
+  100: 'Thin', 200: 'Extra Light', 300: 'Light', 400: 'Regular', 500: 'Medium', 600: 'Semi Bold', 700: 'Bold', 800: 'Extra Bold', 900: 'Black',
+};
+
+/** Figma font style name for a numeric weight (rounded to the nearest 100), e.g. 600 → "Semi Bold", 700 + italic → "Bold Italic". */
+export function fontStyleForWeight(weight: number, italic: boolean): string {
+  const base = WEIGHT_STYLES[Math.round(weight / 100) * 100] || 'Regular';
+  if (!italic) return base;
+  return base === 'Regular' ? 'Italic' : `${base} Italic`;
+}
+
+// Asset ids become file names (images/{id}.png, svgs/{id}.svg)
+export function sanitizeId(raw: string): string {
+  return String(raw || '').replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+// `linear-gradient(to <side>, ...)` keywords as CSS angles
+export const GRADIENT_DIRECTIONS: Record<string, number> = {
+  'to top': 0, 'to right': 90, 'to bottom': 180, 'to left': 270,
+  'to top right': 45, 'to right top': 45, 'to bottom right': 135, 'to right bottom': 135,
+  'to bottom left': 225, 'to left bottom': 225, 'to top left': 315, 'to left top': 315,
+};
+
+/**
+ * CSS linear-gradient angle (0deg = to top, clockwise) → Figma handle positions in the unit box (start, end,
+ * width handle). The pipeline derives the CSS angle back from the first two handles.
+ */
+export function linearGradientHandles(deg: number) {
+  const rad = (deg * Math.PI) / 180;
+  const dx = Math.sin(rad) / 2;
+  const dy = -Math.cos(rad) / 2;
+  return [
+    { x: 0.5 - dx, y: 0.5 - dy },
+    { x: 0.5 + dx, y: 0.5 + dy },
+    { x: 0.5 - dy, y: 0.5 + dx },
+  ];
+}
@@ -0,0 +1,104 @@
+import type { RenderNodeIR } from '../pipeline/types';
+
+// Image fills that carry content (photos, avatars, illustrations) rather than decoration: a leaf box whose only
+// visible fill is one FILL/FIT image. Content mode can render those as <img> so exports can serve responsive
+// sources; every other image stays a CSS background.
+
+export type ImageUsage = {
+  imageId: string;
+  nodeId: string;
+  // Rendered box size in CSS px (node size times its own scale)
+  width: number;
+  height: number;
+  scaleMode: string;
+  imageTransform?: number[][];
+  scalingFactor?: number;
+  // Rendered as <img> in content mode (see applyContentImages)
+  content: boolean;
+};
+
+// Figma's default layer names say nothing about the picture, so they make no alt text
+const DEFAULT_NAME_RE = /^(rectangle|image|frame|ellipse|group|vector|photo|picture|img)( \d+)?$/i;
+
+function visibleFills(node: RenderNodeIR): any[] {
+  const fills = node.style?.raw?.fills;
+  return Array.isArray(fills) ? fills.filter(f => f && f.visible !== false && f.opacity !== 0) : [];
+}
+
+function isLeaf(node: RenderNodeIR): boolean {
+  return node.content.type === 'empty' || (node.content.type === 'children' && !node.content.nodes.length);
+}
+
+/**
+ * The image fill that makes `node` a content image, or null when the image is decoration
+ * (tiled/cropped, blended, layered with other fills, a mask, or a box with children).
+ */
+export function contentImageFill(node: RenderNodeIR): any | null {
+  if ((node.kind !== 'frame' && node.kind !== 'shape') || node.isMask || !isLeaf(node)) return null;
+  const fills = visibleFills(node);
+  if (fills.length !== 1) return null;
+  const f = fills[0];
+  if (String(f.type || '').toUpperCase() !== 'IMAGE' || typeof f.imageId !== 'string' || f.imageId.startsWith('/')) return null;
+  const scale = String(f.scaleMode || 'FILL').toUpperCase();
+  if (scale !== 'FILL' && scale !== 'FIT') return null;
+  if (typeof f.opacity === 'number' && f.opacity < 1) return null;
+  const blend = String(f.blendMode || 'NORMAL').toUpperCase();
+  if (blend !== 'NORMAL' && blend !== 'PASS_THROUGH') return null;
+  return f;
+}
+
+function walk(nodes: RenderNodeIR[], visit: (node: RenderNodeIR) => void): void {
+  for (const node of nodes) {
+    visit(node);
+    if (node.content.type === 'children') walk(node.content.nodes, visit);
+  }
+}
+
+/**
+ * Switch content images to <img> rendering: the node gets `image` and loses its background declarations.
+ * `imageUrl` is the host's asset URL for an image id. Mutates the nodes, so run it on the content copy only
+ * (the preview keeps backgrounds for pixel comparison).
+ */
+export function applyContentImages(nodes: RenderNodeIR[], imageUrl: (id: string) => string = id => `images/${id}.png`): void {
+  walk(nodes, (node) => {
+    const fill = contentImageFill(node);
+    if (!fill) return;
+    const name = String(node.name || '').trim();
+    node.image = {
+      id: fill.imageId,
+      src: imageUrl(fill.imageId),
+      fit: String(fill.scaleMode || 'FILL').toUpperCase() === 'FIT' ? 'contain' : 'cover',
+      alt: name && !DEFAULT_NAME_RE.test(name) ? name : '',
+    };
+    const boxCss = (node.style.boxCss || '').split(';').filter(decl => !/^\s*background(-[a-z-]+)?\s*:/i.test(decl)).join(';');
+    node.style = { ...node.style, boxCss };
+  });
+}
+
+/**
+ * Every place an image fill is drawn, with the box it is drawn into, so exports can size image files
+ * to the largest rendered use.
+ */
+export function collectImageUsage(nodes: RenderNodeIR[]): ImageUsage[] {
+  const out: ImageUsage[] = [];
+  walk(nodes, (node) => {
+    const { a, b, c, d } = node.layout.transform2x2;
+    const width = (node.layout.width || 0) * Math.hypot(a, b);
+    const height = (node.layout.height || 0) * Math.hypot(c, d);
+    for (const f of visibleFills(node)) {
+      if (String(f.type || '').toUpperCase() !== 'IMAGE' || typeof f.imageId !== 'string' || f.imageId.startsWith('/')) continue;
+      const usage: ImageUsage = {
+        imageId: f.imageId,
+        nodeId: node.id,
+        width,
+        height,
+        scaleMode: String(f.scaleMode || 'FILL').toUpperCase(),
+        content: node.image?.id === f.imageId,
+      };
+      if (Array.isArray(f.imageTransform)) usage.imageTransform = f.imageTransform;
+      if (typeof f.scalingFactor === 'number') usage.scalingFactor = f.scalingFactor;
+      out.push(usage);
+    }
+  });
+  return out;
+}
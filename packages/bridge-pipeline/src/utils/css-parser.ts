@@ -43,3 +43,86 @@ export function splitClassTokens(s: string): string[] {
   return tokens;
 }
 
+
+/**
+ * Split a declaration list on ';' outside parentheses and quotes — data URIs in url(...) and
+ * var() fallbacks carry ';' that a plain split would cut. Returns trimmed, non-empty declarations.
+ */
+export function splitDeclarations(css: string): string[] {
+  const out: string[] = [];
+  let cur = '';
+  let depth = 0;
+  let quote: string | null = null;
+  const flush = () => {
+    if (cur.trim()) out.push(cur.trim());
+    cur = '';
+  };
+  for (let i = 0; i < css.length; i++) {
+    const ch = css[i];
+    if (quote) {
+      if (ch === '\\') { cur += ch + (css[i + 1] ?? ''); i++; continue; }
+      if (ch === quote) quote = null;
+      cur += ch;
+      continue;
+    }
+    if (ch === '"' || ch === "'") { quote = ch; cur += ch; continue; }
+    if (ch === '(') depth++;
+    if (ch === ')') depth = Math.max(0, depth - 1);
+    if (ch === ';' && depth === 0) { flush(); continue; }
+    cur += ch;
+  }
+  flush();
+  return out;
+}
+
+/**
+ * Parse a declaration list into [property, value] pairs; properties are lower-cased and
+ * entries without a property or value are dropped.
+ */
+export function parseDeclarations(css: string): Array<[string, string]> {
+  const out: Array<[string, string]> = [];
+  for (const decl of splitDeclarations(css)) {
+    const i = decl.indexOf(':');
+    if (i <= 0) continue;
+    const k = decl.slice(0, i).trim().toLowerCase();
+    const v = decl.slice(i + 1).trim();
+    if (k && v) out.push([k, v]);
+  }
+  return out;
+}
+
+/**
+ * Split a stylesheet into its top-level rules (`selector { ... }` or at-rules, with any leading comment),
+ * tracking braces outside strings and comments. Returns the trimmed source text of each rule.
+ */
+export function splitRules(css: string): string[] {
+  const out: string[] = [];
+  let start = 0;
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < css.length; i++) {
+    const ch = css[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '/' && css[i + 1] === '*') {
+      const end = css.indexOf('*/', i + 2);
+      i = end < 0 ? css.length : end + 1;
+      continue;
+    }
+    if (ch === '"' || ch === "'") { quote = ch; continue; }
+    if (ch === '{') depth++;
+    else if (ch === '}') {
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) { out.push(css.slice(start, i + 1).trim()); start = i + 1; }
+    } else if (ch === ';' && depth === 0) {
+      // Block-less at-rules such as @import
+      out.push(css.slice(start, i + 1).trim());
+      start = i + 1;
+    }
+  }
+  if (css.slice(start).trim()) out.push(css.slice(start).trim());
+  return out.filter(Boolean);
+}
@@ -47,6 +47,30 @@ export function rgbaToCss(
   return `rgba(${r},${g},${b},${s})`;
 }
 
+// Figma variable/style names ("Colors/Brand Primary") → custom property names ("--colors-brand-primary")
+export function cssVarName(name: string | null | undefined): string | null {
+  if (!name) return null;
+  const slug = String(name).trim().toLowerCase().replace(/[^\p{L}\p{N}_-]+/gu, '-').replace(/^-+|-+$/g, '');
+  return slug ? `--${slug}` : null;
+}
+
+// Why: keep the resolved value as fallback so output renders even without the design system's variables.
+// No space after the comma: values can end up inside utility class names (e.g. outline-[...])
+export function withCssVar(value: string, name: string | null | undefined): string {
+  const v = cssVarName(name);
+  return v ? `var(${v},${value})` : value;
+}
+
+// Resolved CSS color for a paint-like object, referencing its bound color variable when present
+export function paintColorToCss(
+  color: { r: number; g: number; b: number; a?: number } | null | undefined,
+  paintLike?: { boundVariables?: { color?: { name?: string } } } | null
+): string | null {
+  const css = rgbaToCss(color);
+  if (!css) return null;
+  return withCssVar(css, paintLike?.boundVariables?.color?.name);
+}
+
 function calculateLinearAngleFromHandles(handles?: FigmaVec2[] | null): number | null {
   if (!handles || handles.length < 2) return 180;
   const point1 = handles[0];
@@ -95,7 +119,7 @@ export function gradientToCssValue(fill: GradientFill | null | undefined, dims?:
   const stops = fill.gradientStops
     .map((stop) => {
       const a = (stop.color.a ?? 1) * (fill.opacity ?? 1);
-      const css = rgbaToCss({ r: stop.color.r, g: stop.color.g, b: stop.color.b, a });
+      const css = paintColorToCss({ r: stop.color.r, g: stop.color.g, b: stop.color.b, a }, stop);
       const posStr = `${(stop.position * 100).toFixed(2)}%`;
       return `${css} ${posStr}`;
     })
@@ -202,7 +226,7 @@ function buildBackgroundLayers(node: FigmaNode, skipForText = false): { layers:
     }
 
     if (t === 'SOLID' && f?.color) {
-      const colorCss = rgbaToCss(f.color);
+      const colorCss = paintColorToCss(f.color, f);
       if (colorCss) {
         const grad = `linear-gradient(0deg, ${colorCss} 0%, ${colorCss} 100%)`;
         layers.push({ image: grad, size: 'auto', position: 'center', repeat: 'no-repeat', kind: 'solid', rawColor: colorCss });
@@ -221,8 +245,10 @@ export function collectPaintCss(node: FigmaNode, skipForText = false): string |
   // Why: single-layer fast paths keep CSS minimal and stable
   if (layers.length === 1) {
     const L = layers[0];
-    if (L.kind === 'solid' && L.rawColor) return `background:${L.rawColor};`;
-    if (L.kind === 'gradient') return `background:${L.image};`;
+    // Why: a fill style spans the whole paint list, so it can only stand in for single-layer fills
+    const styleName = node?.style?.fillStyleName;
+    if (L.kind === 'solid' && L.rawColor) return `background:${L.rawColor.startsWith('var(') ? L.rawColor : withCssVar(L.rawColor, styleName)};`;
+    if (L.kind === 'gradient') return `background:${withCssVar(L.image, styleName)};`;
     return [
       `background-image:${L.image};`,
       `background-position:${L.position || 'center'};`,
@@ -262,15 +288,17 @@ function escapeHtml(text: string): string {
 
 export function segmentToInlineCss(seg: FigmaText['segments'] extends (infer S)[] ? S & Record<string, any> : any): string {
   const parts: string[] = [];
-  if (typeof seg.fontSize === 'number') parts.push(`font-size:${seg.fontSize}px;`);
+  // Why: a text style bundles several properties, so each references its own --<style>-<property> variable
+  const typo = (prop: string, value: string) => `${prop}:${withCssVar(value, seg.textStyleName && `${seg.textStyleName} ${prop}`)};`;
+  if (typeof seg.fontSize === 'number') parts.push(typo('font-size', `${seg.fontSize}px`));
   if (seg.fontName?.family) {
     const fontStack = buildFontStack(seg.fontName.family);
-    parts.push(`font-family:${fontStack};`);
+    parts.push(typo('font-family', fontStack));
     const style = seg.fontName.style || 'Regular';
     if (style.toLowerCase().includes('italic')) parts.push('font-style:italic;');
   }
   if (typeof seg.fontWeight === 'number') {
-    parts.push(`font-weight:${seg.fontWeight};`);
+    parts.push(typo('font-weight', String(seg.fontWeight)));
   } else if (seg.fontName?.style) {
     const s = seg.fontName.style
       .toLowerCase()
@@ -286,7 +314,7 @@ export function segmentToInlineCss(seg: FigmaText['segments'] extends (infer S)[
     else if (s.includes('extra bold') || s.includes('ultra bold') || s.includes('extrabold')) w = 800;
     else if (s.includes('black') || s.includes('heavy')) w = 900;
     else if (s.includes('bold')) w = 700;
-    parts.push(`font-weight:${w};`);
+    parts.push(typo('font-weight', String(w)));
   }
   // Why: tame floating noise (e.g. -0.01200000047 → -0.01)
   function fmtNum(n: number, dp = 2): string {
@@ -304,19 +332,19 @@ export function segmentToInlineCss(seg: FigmaText['segments'] extends (infer S)[
       const em = val / 100;
       // Why: drop near-zero values after rounding
       const rounded = Math.round(em * 100) / 100;
-      if (Math.abs(rounded) >= 0.01) parts.push(`letter-spacing:${fmtNum(em)}em;`);
+      if (Math.abs(rounded) >= 0.01) parts.push(typo('letter-spacing', `${fmtNum(em)}em`));
     } else if (unit === 'PIXELS') {
       const rounded = Math.round(val * 100) / 100;
-      if (Math.abs(rounded) >= 0.01) parts.push(`letter-spacing:${fmtNum(val)}px;`);
+      if (Math.abs(rounded) >= 0.01) parts.push(typo('letter-spacing', `${fmtNum(val)}px`));
     }
   }
   if (seg.lineHeight) {
     const unit = normUpper(seg.lineHeight.unit);
     const val = seg.lineHeight.value;
     if (unit === 'PIXELS' && typeof val === 'number') {
-      parts.push(`line-height:${val}px;`);
+      parts.push(typo('line-height', `${val}px`));
     } else if (unit === 'PERCENT' && typeof val === 'number' && val > 100) {
-      parts.push(`line-height:${val}%;`);
+      parts.push(typo('line-height', `${val}%`));
     }
   }
   if (Array.isArray(seg.fills) && seg.fills.length > 0) {
@@ -328,7 +356,9 @@ export function segmentToInlineCss(seg: FigmaText['segments'] extends (infer S)[
     });
     if (visibleSolid && visibleSolid.color) {
       const aFill = typeof visibleSolid.opacity === 'number' ? visibleSolid.opacity : 1;
-      const css = rgbaToCss({ ...visibleSolid.color, a: aFill * (visibleSolid.color.a ?? 1) });
+      const resolved = paintColorToCss({ ...visibleSolid.color, a: aFill * (visibleSolid.color.a ?? 1) }, visibleSolid);
+      // Why: a bound variable is more specific than the segment's color style; only fall back to the style name
+      const css = resolved && !visibleSolid.boundVariables?.color?.name ? withCssVar(resolved, seg.fillStyleName) : resolved;
       if (css) parts.push(`color:${css};`);
     } else {
       parts.push('color:transparent;');
@@ -410,7 +440,8 @@ export function renderTextSegments(text: FigmaText): string {
     const start = seg.start || 0;
     const end = seg.end || chars.length;
     const slice = chars.slice(start, end);
-    const css = segmentToInlineCss(seg);
+    // Why: segments only carry textStyleName when the node mixes styles; otherwise it sits on the node
+    const css = segmentToInlineCss(seg.textStyleName || !text.textStyleName ? seg : { ...seg, textStyleName: text.textStyleName });
     const html = escapeHtml(slice).replace(/\n/g, '<br>');
     parts.push(`<span style="${css}">${html}</span>`);
   }
@@ -442,7 +473,7 @@ export function parseEffects(node: { style?: FigmaStyle } | FigmaNode): ParsedEf
         y: off.y,
         blur: typeof e?.radius === 'number' ? e.radius : 0,
         spread: typeof e?.spread === 'number' ? e.spread : 0,
-        color: rgbaToCss(e?.color) || 'rgb(0,0,0)'
+        color: paintColorToCss(e?.color, e) || 'rgb(0,0,0)'
       });
     }
   }
@@ -0,0 +1,289 @@
+import type { RenderNodeIR } from '../pipeline/types';
+
+// Token pass: cluster repeated literal values from the IR into CSS custom properties.
+// Only values seen at least `minRepeat` times become tokens; one-offs stay literal.
+
+export type DesignTokenCategory = 'color' | 'space' | 'radius' | 'shadow';
+
+export type DesignToken = {
+  name: string;           // e.g. --color-primary
+  category: DesignTokenCategory;
+  value: string;          // canonical literal value
+  count: number;
+};
+
+export type DesignTokenSet = {
+  tokens: DesignToken[];
+  // canonical value → var name, per category
+  lookup: Record<DesignTokenCategory, Map<string, string>>;
+};
+
+const COLOR_LITERAL_RE = /#[0-9a-fA-F]{3,8}\b|rgba?\([^()]*\)/g;
+const DECL_RE = /([\w-]+)\s*:\s*([^;{}]+?)\s*(?=;|}|$)/g;
+const SPACE_PROPS = new Set(['gap', 'row-gap', 'column-gap', 'padding', 'padding-top', 'padding-right', 'padding-bottom', 'padding-left']);
+const RADIUS_PROPS = new Set(['border-radius', 'border-top-left-radius', 'border-top-right-radius', 'border-bottom-right-radius', 'border-bottom-left-radius']);
+
+function fmtNum(n: number): string {
+  return String(Math.round(n * 100) / 100);
+}
+
+// Why: #fff, #FFFFFF and rgba(255,255,255,1) are one color — cluster on a single spelling
+function canonicalColor(raw: string): string | null {
+  const s = raw.trim().toLowerCase();
+  let r: number, g: number, b: number, a = 1;
+  if (s.startsWith('#')) {
+    let hex = s.slice(1);
+    if (hex.length === 3 || hex.length === 4) hex = hex.split('').map(c => c + c).join('');
+    if (hex.length !== 6 && hex.length !== 8) return null;
+    r = parseInt(hex.slice(0, 2), 16);
+    g = parseInt(hex.slice(2, 4), 16);
+    b = parseInt(hex.slice(4, 6), 16);
+    if (hex.length === 8) a = Math.round((parseInt(hex.slice(6, 8), 16) / 255) * 100) / 100;
+  } else {
+    const m = s.match(/^rgba?\(([^()]*)\)$/);
+    if (!m) return null;
+    const parts = m[1].split(/[\s,\/]+/).filter(Boolean);
+    if (parts.length < 3) return null;
+    [r, g, b] = parts.slice(0, 3).map(p => Math.round(parseFloat(p)));
+    if (parts[3] !== undefined) a = parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3]);
+  }
+  if (![r, g, b, a].every(v => isFinite(v))) return null;
+  return a >= 1 ? `rgb(${r},${g},${b})` : `rgba(${r},${g},${b},${fmtNum(a)})`;
+}
+
+// Split on top-level commas only (shadow layers contain rgba(...) commas)
+function splitLayers(value: string): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let cur = '';
+  for (const ch of value) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth = Math.max(0, depth - 1);
+    if (ch === ',' && depth === 0) { out.push(cur.trim()); cur = ''; continue; }
+    cur += ch;
+  }
+  if (cur.trim()) out.push(cur.trim());
+  return out;
+}
+
+function canonicalShadow(layer: string): string {
+  return layer.replace(COLOR_LITERAL_RE, (c) => canonicalColor(c) || c).replace(/\s+/g, ' ').trim();
+}
+
+// Why: strokes are drawn as "inset 0 0 0 Npx color" layers — those are borders, not elevation
+function isStrokeLayer(layer: string): boolean {
+  return /^inset\s+0(px)?\s+0(px)?\s+0(px)?\s+/.test(layer);
+}
+
+// Why: data URIs and image paths may contain hex-like text; never touch url(...) bodies
+function mapOutsideUrls(value: string, fn: (seg: string) => string): string {
+  const parts = value.split(/(url\([^)]*\))/i);
+  return parts.map((p, i) => (i % 2 === 1 ? p : fn(p))).join('');
+}
+
+function forEachDeclaration(css: string, fn: (prop: string, value: string) => void): void {
+  DECL_RE.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = DECL_RE.exec(css || ''))) fn(m[1].toLowerCase(), m[2]);
+}
+
+// One scheme for every value (like the radius fallback names): 6 → --space-6px, 2.5 → --space-2_5px
+function spaceName(px: number): string {
+  return `--space-${fmtNum(px).replace('.', '_')}px`;
+}
+
+function radiusBucket(px: number): string {
+  if (px >= 999) return 'full';
+  if (px <= 2) return 'xs';
+  if (px <= 4) return 'sm';
+  if (px <= 8) return 'md';
+  if (px <= 12) return 'lg';
+  if (px <= 16) return 'xl';
+  if (px <= 24) return '2xl';
+  if (px <= 32) return '3xl';
+  return `${fmtNum(px).replace('.', '_')}px`;
+}
+
+function isNeutral(color: string): boolean {
+  const m = color.match(/^rgba?\((\d+),(\d+),(\d+)/);
+  return !!m && m[1] === m[2] && m[2] === m[3];
+}
+
+function lightness(color: string): number {
+  const m = color.match(/^rgba?\((\d+),(\d+),(\d+)/);
+  return m ? (Number(m[1]) + Number(m[2]) + Number(m[3])) / 3 : 0;
+}
+
+function byCountDesc(a: [string, number], b: [string, number]): number {
+  return b[1] - a[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0);
+}
+
+function nameColors(counts: Map<string, number>, minRepeat: number): DesignToken[] {
+  const repeated = Array.from(counts.entries()).filter(([, c]) => c >= minRepeat);
+  const out: DesignToken[] = [];
+  const chromaRoles = ['primary', 'secondary', 'tertiary'];
+  repeated.filter(([v]) => !isNeutral(v)).sort(byCountDesc).forEach(([value, count], i) => {
+    out.push({ name: `--color-${chromaRoles[i] || i + 1}`, category: 'color', value, count });
+  });
+  // Why: neutrals are ordered light → dark so names stay stable when usage counts shift
+  let neutralIdx = 0;
+  repeated.filter(([v]) => isNeutral(v)).sort((a, b) => lightness(b[0]) - lightness(a[0]) || byCountDesc(a, b)).forEach(([value, count]) => {
+    const name = value === 'rgb(255,255,255)' ? '--color-white' : value === 'rgb(0,0,0)' ? '--color-black' : `--color-neutral-${++neutralIdx}`;
+    out.push({ name, category: 'color', value, count });
+  });
+  return out;
+}
+
+function nameSpaces(counts: Map<string, number>, minRepeat: number): DesignToken[] {
+  return Array.from(counts.entries())
+    .filter(([, c]) => c >= minRepeat)
+    .sort((a, b) => parseFloat(a[0]) - parseFloat(b[0]))
+    .map(([value, count]) => ({ name: spaceName(parseFloat(value)), category: 'space' as const, value, count }));
+}
+
+function nameRadii(counts: Map<string, number>, minRepeat: number): DesignToken[] {
+  const used = new Set<string>();
+  return Array.from(counts.entries())
+    .filter(([, c]) => c >= minRepeat)
+    .sort((a, b) => parseFloat(a[0]) - parseFloat(b[0]))
+    .map(([value, count]) => {
+      let name = `--radius-${radiusBucket(parseFloat(value))}`;
+      if (used.has(name)) name = `--radius-${fmtNum(parseFloat(value)).replace('.', '_')}px`;
+      used.add(name);
+      return { name, category: 'radius' as const, value, count };
+    });
+}
+
+function nameShadows(counts: Map<string, number>, minRepeat: number): DesignToken[] {
+  return Array.from(counts.entries())
+    .filter(([, c]) => c >= minRepeat)
+    .sort(byCountDesc)
+    .map(([value, count], i) => ({ name: `--shadow-${i + 1}`, category: 'shadow' as const, value, count }));
+}
+
+export function extractDesignTokens(nodes: RenderNodeIR[], cssRules: string = '', minRepeat: number = 2): DesignTokenSet {
+  const colors = new Map<string, number>();
+  const spaces = new Map<string, number>();
+  const radii = new Map<string, number>();
+  const shadows = new Map<string, number>();
+  const bump = (m: Map<string, number>, k: string) => m.set(k, (m.get(k) || 0) + 1);
+
+  const scanCss = (css: string) => forEachDeclaration(css, (prop, value) => {
+    if (prop.startsWith('--')) return;
+    if (prop === 'box-shadow') {
+      for (const layer of splitLayers(value)) {
+        // Why: var() layers already reference a named effect style; only literal layers become tokens
+        if (!isStrokeLayer(layer) && !layer.startsWith('var(')) bump(shadows, canonicalShadow(layer));
+      }
+    }
+    if (RADIUS_PROPS.has(prop)) {
+      for (const m of value.matchAll(/(\d+(?:\.\d+)?)px/g)) {
+        const n = parseFloat(m[1]);
+        if (n > 0) bump(radii, fmtNum(n));
+      }
+    }
+    mapOutsideUrls(value, (seg) => {
+      for (const c of seg.match(COLOR_LITERAL_RE) || []) {
+        const canon = canonicalColor(c);
+        if (canon) bump(colors, canon);
+      }
+      return seg;
+    });
+  });
+
+  const visit = (n: RenderNodeIR) => {
+    scanCss(n.style?.boxCss || '');
+    if (n.content?.type === 'text') {
+      for (const m of n.content.html.matchAll(/style="([^"]*)"/g)) scanCss(m[1]);
+    }
+    // Why: spacing lives in layout numbers (rendered as utility classes), not in boxCss. Each distinct value
+    // counts once per node, so one box with uniform padding does not pass minRepeat on its own
+    const l = n.layout;
+    if (l) {
+      const values = new Set<string>();
+      const pad = l.padding;
+      for (const v of [l.gap, l.rowGap, l.columnGap, pad?.t, pad?.r, pad?.b, pad?.l]) {
+        if (typeof v === 'number' && v > 0) values.add(fmtNum(v));
+      }
+      values.forEach(v => bump(spaces, v));
+    }
+    if (n.content?.type === 'children') n.content.nodes.forEach(visit);
+  };
+  nodes.forEach(visit);
+  scanCss(cssRules);
+
+  const tokens = [
+    ...nameColors(colors, minRepeat),
+    ...nameSpaces(spaces, minRepeat),
+    ...nameRadii(radii, minRepeat),
+    ...nameShadows(shadows, minRepeat),
+  ];
+  const lookup: DesignTokenSet['lookup'] = { color: new Map(), space: new Map(), radius: new Map(), shadow: new Map() };
+  for (const t of tokens) lookup[t.category].set(t.value, t.name);
+  return { tokens, lookup };
+}
+
+function rewriteValue(prop: string, value: string, set: DesignTokenSet): string {
+  if (prop.startsWith('--')) return value;
+  let out = value;
+  const pxToVar = (map: Map<string, string>) => (m: string, num: string) => {
+    const name = map.get(fmtNum(parseFloat(num)));
+    return name ? `var(${name})` : m;
+  };
+  if (prop === 'box-shadow' && set.lookup.shadow.size) {
+    out = splitLayers(out).map((layer) => {
+      const name = set.lookup.shadow.get(canonicalShadow(layer));
+      return name ? `var(${name})` : layer;
+    }).join(',');
+  }
+  if (SPACE_PROPS.has(prop)) out = out.replace(/(?<![\w.-])(\d+(?:\.\d+)?)px\b/g, pxToVar(set.lookup.space));
+  if (RADIUS_PROPS.has(prop)) out = out.replace(/(?<![\w.-])(\d+(?:\.\d+)?)px\b/g, pxToVar(set.lookup.radius));
+  if (set.lookup.color.size) {
+    out = mapOutsideUrls(out, (seg) => seg.replace(COLOR_LITERAL_RE, (c) => {
+      const canon = canonicalColor(c);
+      const name = canon ? set.lookup.color.get(canon) : undefined;
+      return name ? `var(${name})` : c;
+    }));
+  }
+  return out;
+}
+
+// Rewrite declarations inside a stylesheet or a style attribute body
+export function applyDesignTokensToCss(css: string, set: DesignTokenSet): string {
+  if (!css || !set.tokens.length) return css;
+  return css.replace(DECL_RE, (m, prop: string, value: string) => {
+    const next = rewriteValue(prop.toLowerCase(), value, set);
+    return next === value ? m : m.replace(value, next);
+  });
+}
+
+export function applyDesignTokensToHtml(html: string, set: DesignTokenSet): string {
+  if (!html || !set.tokens.length) return html;
+  return html.replace(/(\sstyle=")([^"]*)(")/g, (_m, p1: string, css: string, p3: string) => {
+    // Why: attribute values carry &quot; for font names; decode only for matching, then restore
+    const decoded = css.replace(/&quot;/g, '"');
+    const next = applyDesignTokensToCss(decoded, set);
+    return `${p1}${next === decoded ? css : next.replace(/"/g, '&quot;')}${p3}`;
+  });
+}
+
+export function buildTokensCss(set: DesignTokenSet): string {
+  if (!set.tokens.length) return '';
+  const lines = set.tokens.map(t => `  ${t.name}: ${t.category === 'space' || t.category === 'radius' ? `${t.value}px` : t.value};`);
+  return `:root {\n${lines.join('\n')}\n}\n`;
+}
+
+export function buildTokensJson(set: DesignTokenSet): Record<string, Record<string, { $value: string; $type: string; count: number }>> {
+  const typeOf: Record<DesignTokenCategory, string> = { color: 'color', space: 'dimension', radius: 'dimension', shadow: 'shadow' };
+  const out: Record<string, Record<string, { $value: string; $type: string; count: number }>> = {};
+  for (const t of set.tokens) {
+    const group = out[t.category] || (out[t.category] = {});
+    const key = t.name.replace(`--${t.category}-`, '');
+    group[key] = {
+      $value: t.category === 'space' || t.category === 'radius' ? `${t.value}px` : t.value,
+      $type: typeOf[t.category],
+      count: t.count,
+    };
+  }
+  return out;
+}
@@ -1,6 +1,9 @@
 import * as cheerio from 'cheerio';
-import type { CompositionInput, FigmaNode } from '../types/figma';
+import type { CompositionInput, FigmaEffect, FigmaNode, FigmaPaint } from '../types/figma';
 import { parseDimensionAttr } from './dimension';
+import { splitShadowList } from './css-parser';
+import { COMPOSITION_SCHEMA_VERSION } from '../types/composition-schema';
+import { GRADIENT_DIRECTIONS, linearGradientHandles } from './composition-helpers';
 
 type Padding = { t: number; r: number; b: number; l: number };
 type Radius = number | { tl: number; tr: number; br: number; bl: number };
@@ -33,18 +36,158 @@ function parseRadius(value: string | undefined): Radius | null {
   return null;
 }
 
-function parseColor(hexOrRgb: string): Color {
-  if (hexOrRgb.startsWith('#')) {
-    let hex = hexOrRgb.slice(1);
-    if (hex.length === 3) {
+const BLACK: Color = { r: 0, g: 0, b: 0, a: 1 };
+
+// Why: ids for elements without an id attribute are sequential per conversion (reset in dslHtmlToComposition),
+// so the same DSL file always converts to the same composition and golden snapshots stay stable
+let generatedIds = 0;
+function generatedId(prefix: string): string {
+  return `${prefix}-${(++generatedIds).toString(36).padStart(7, '0')}`;
+}
+
+function clamp01(n: number): number {
+  return Math.min(1, Math.max(0, n));
+}
+
+// Channel value: number (0-255, or 0-1 for alpha) or percentage
+function parseChannel(raw: string, max: number): number {
+  const v = raw.trim();
+  const n = parseFloat(v);
+  if (!Number.isFinite(n)) return 0;
+  return clamp01(v.endsWith('%') ? n / 100 : n / max);
+}
+
+function hslToRgb(h: number, s: number, l: number): { r: number; g: number; b: number } {
+  const hue = ((h % 360) + 360) % 360 / 360;
+  if (s === 0) return { r: l, g: l, b: l };
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t: number) => {
+    let x = t;
+    if (x < 0) x += 1;
+    if (x > 1) x -= 1;
+    if (x < 1 / 6) return p + (q - p) * 6 * x;
+    if (x < 1 / 2) return q;
+    if (x < 2 / 3) return p + (q - p) * (2 / 3 - x) * 6;
+    return p;
+  };
+  return { r: channel(hue + 1 / 3), g: channel(hue), b: channel(hue - 1 / 3) };
+}
+
+/**
+ * Colors: #RGB, #RGBA, #RRGGBB, #RRGGBBAA, rgb()/rgba() and hsl()/hsla() in comma or space syntax
+ * (alpha after "/" or as 4th argument). Anything else falls back to black.
+ */
+function parseColor(value: string): Color {
+  const v = String(value || '').trim();
+  if (v.startsWith('#')) {
+    let hex = v.slice(1);
+    if (hex.length === 3 || hex.length === 4) {
       hex = hex.split('').map(c => c + c).join('');
     }
+    if (!/^[0-9a-f]{6}([0-9a-f]{2})?$/i.test(hex)) return { ...BLACK };
     const r = parseInt(hex.slice(0, 2), 16) / 255;
     const g = parseInt(hex.slice(2, 4), 16) / 255;
     const b = parseInt(hex.slice(4, 6), 16) / 255;
-    return { r, g, b, a: 1 };
+    const a = hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1;
+    return { r, g, b, a };
+  }
+  const fn = v.match(/^(rgba?|hsla?)\(([^)]*)\)$/i);
+  if (!fn) return { ...BLACK };
+  const [main, alphaPart] = fn[2].split('/');
+  const parts = main.split(/[\s,]+/).filter(Boolean);
+  if (parts.length < 3) return { ...BLACK };
+  const alphaRaw = alphaPart !== undefined ? alphaPart : parts[3];
+  const a = alphaRaw !== undefined ? parseChannel(alphaRaw, 1) : 1;
+  if (fn[1].toLowerCase().startsWith('rgb')) {
+    return { r: parseChannel(parts[0], 255), g: parseChannel(parts[1], 255), b: parseChannel(parts[2], 255), a };
+  }
+  const hue = parseFloat(parts[0]);
+  const rgb = hslToRgb(Number.isFinite(hue) ? hue : 0, parseChannel(parts[1], 100), parseChannel(parts[2], 100));
+  return { ...rgb, a };
+}
+
+/**
+ * `fill` value → Figma paint: a color, `linear-gradient(<angle>|to <side>, <color> [<pos>%], ...)` or
+ * `radial-gradient([<shape>,] <color> [<pos>%], ...)`. Stops without a position are spread evenly.
+ */
+function parseFill(value: string, where: string): FigmaPaint {
+  const v = value.trim();
+  const m = v.match(/^(linear|radial)-gradient\((.*)\)$/i);
+  if (!m) return { type: 'SOLID', color: parseColor(v) };
+
+  const args = splitShadowList(m[2]);
+  const isLinear = m[1].toLowerCase() === 'linear';
+  let angle = 180;
+  const first = (args[0] || '').trim().toLowerCase();
+  if (isLinear && /^-?[\d.]+(deg|turn)$/.test(first)) {
+    angle = first.endsWith('turn') ? parseFloat(first) * 360 : parseFloat(first);
+    args.shift();
+  } else if (isLinear && GRADIENT_DIRECTIONS[first] !== undefined) {
+    angle = GRADIENT_DIRECTIONS[first];
+    args.shift();
+  } else if (!isLinear && /^(circle|ellipse|closest|farthest|at\b)/.test(first)) {
+    args.shift();
+  }
+  if (args.length < 2) {
+    throw new Error(`dslToComposition: gradient needs at least two color stops on ${where}`);
+  }
+  const gradientStops = args.map((stop, i) => {
+    const posMatch = stop.trim().match(/\s(-?[\d.]+)%$/);
+    const colorPart = posMatch ? stop.trim().slice(0, -posMatch[0].length) : stop;
+    return {
+      color: parseColor(colorPart),
+      position: posMatch ? clamp01(parseFloat(posMatch[1]) / 100) : i / (args.length - 1),
+    };
+  });
+  return {
+    type: isLinear ? 'GRADIENT_LINEAR' : 'GRADIENT_RADIAL',
+    gradientStops,
+    gradientHandlePositions: isLinear
+      ? linearGradientHandles(angle)
+      : [{ x: 0.5, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0.5, y: 1 }],
+    gradientTransform: null,
+    opacity: 1,
+  };
+}
+
+/**
+ * `shadow="x y blur [spread] color [inset]"`, comma separated for multiple (e.g. `0 4 12 0 #0003, inset 0 1 0 #fff`).
+ * Lengths are unitless pixels; blur is the Figma radius (same as CSS box-shadow blur).
+ */
+function parseShadows(value: string, where: string): FigmaEffect[] {
+  return splitShadowList(value).map((item) => {
+    const tokens = item.match(/(?:rgba?|hsla?)\([^)]*\)|\S+/gi) || [];
+    const inner = tokens.some(t => t.toLowerCase() === 'inset' || t.toLowerCase() === 'inner');
+    const nums: number[] = [];
+    let color: Color | null = null;
+    for (const t of tokens) {
+      const lower = t.toLowerCase();
+      if (lower === 'inset' || lower === 'inner' || lower === 'drop') continue;
+      if (/^-?[\d.]+(px)?$/.test(lower)) nums.push(parseFloat(lower));
+      else color = parseColor(t);
+    }
+    if (nums.length < 2) {
+      throw new Error(`dslToComposition: invalid shadow "${item}" on ${where} (expected "x y blur [spread] color")`);
+    }
+    return {
+      type: inner ? 'INNER_SHADOW' : 'DROP_SHADOW',
+      offset: { x: nums[0], y: nums[1] },
+      radius: nums[2] || 0,
+      spread: nums[3] || 0,
+      color: color || { r: 0, g: 0, b: 0, a: 0.25 },
+      visible: true,
+    } as FigmaEffect;
+  });
+}
+
+function parseBlurRadius(value: string | undefined, attr: string, where: string): number | null {
+  if (value === undefined) return null;
+  const n = parseFloat(value);
+  if (!Number.isFinite(n) || n < 0) {
+    throw new Error(`dslToComposition: invalid ${attr} "${value}" on ${where}`);
   }
-  return { r: 0, g: 0, b: 0, a: 1 };
+  return n > 0 ? n : null;
 }
 
 function parseLineHeight(value: string | undefined): { unit: 'PIXELS' | 'PERCENT'; value: number } | undefined {
@@ -93,7 +236,7 @@ function parseTextNode(el: cheerio.Element, $: any): FigmaNode {
   const lineHeightAttr = $el.attr('line-height');
   const letterSpacingAttr = $el.attr('letter-spacing');
   const name = $el.attr('name') || 'Text';
-  const id = $el.attr('id') || `text-${Math.random().toString(36).slice(2, 9)}`;
+  const id = $el.attr('id') || generatedId('text');
   const text = $el.text();
   const colorObj = parseColor(color);
 
@@ -162,6 +305,9 @@ type FrameAttributes = {
   strokeAlign?: string;
   clips?: string;
   opacity?: string;
+  shadow?: string;
+  blur?: string;
+  backdropBlur?: string;
   alignMain: string;
   alignCross: string;
   selfAlign?: string;
@@ -169,11 +315,17 @@ type FrameAttributes = {
   sizeCross: string;
   positioning?: string;
   grow?: string;
+  wrap?: string;
+  rowGap?: string;
+  minWidth?: string;
+  maxWidth?: string;
+  minHeight?: string;
+  maxHeight?: string;
 };
 
 function buildFrameAttributes($el: any): FrameAttributes {
   return {
-    id: $el.attr('id') || `frame-${Math.random().toString(36).slice(2, 9)}`,
+    id: $el.attr('id') || generatedId('frame'),
     name: $el.attr('name') || 'Frame',
     x: $el.attr('x'),
     y: $el.attr('y'),
@@ -189,13 +341,22 @@ function buildFrameAttributes($el: any): FrameAttributes {
     strokeAlign: $el.attr('stroke-align'),
     clips: $el.attr('clips') ?? $el.attr('overflow'),
     opacity: $el.attr('opacity'),
+    shadow: $el.attr('shadow'),
+    blur: $el.attr('blur'),
+    backdropBlur: $el.attr('backdrop-blur'),
     alignMain: $el.attr('align-main') || 'MIN',
     alignCross: $el.attr('align-cross') || 'MIN',
     selfAlign: $el.attr('self-align'),
     sizeMain: $el.attr('size-main') || 'AUTO',
     sizeCross: $el.attr('size-cross') || 'AUTO',
     positioning: $el.attr('positioning'),
-    grow: $el.attr('grow')
+    grow: $el.attr('grow'),
+    wrap: $el.attr('wrap'),
+    rowGap: $el.attr('row-gap'),
+    minWidth: $el.attr('min-width'),
+    maxWidth: $el.attr('max-width'),
+    minHeight: $el.attr('min-height'),
+    maxHeight: $el.attr('max-height')
   };
 }
 
@@ -232,7 +393,14 @@ function buildFrameBase(attrs: FrameAttributes): FigmaNode {
   return node;
 }
 
+function parseSizeLimit(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
 function applyFrameLayout(node: FigmaNode, attrs: FrameAttributes): void {
+  applyFlexItemProps(node, attrs);
   if (!attrs.layout) return;
 
   const upper = attrs.layout.toUpperCase();
@@ -257,8 +425,23 @@ function applyFrameLayout(node: FigmaNode, attrs: FrameAttributes): void {
     (node as any).counterAxisSizingMode = attrs.sizeCross;
   }
 
-  (node as any).layoutWrap = 'NO_WRAP';
+  const wraps = attrs.wrap !== undefined && attrs.wrap !== 'false' && attrs.wrap !== '0' && attrs.wrap.toUpperCase() !== 'NO_WRAP';
+  (node as any).layoutWrap = wraps ? 'WRAP' : 'NO_WRAP';
+  if (wraps && attrs.rowGap !== undefined) {
+    const rowGap = Number(attrs.rowGap);
+    if (Number.isFinite(rowGap)) (node as any).counterAxisSpacing = rowGap;
+  }
 
+  if (attrs.padding) {
+    (node as any).paddingTop = attrs.padding.t;
+    (node as any).paddingRight = attrs.padding.r;
+    (node as any).paddingBottom = attrs.padding.b;
+    (node as any).paddingLeft = attrs.padding.l;
+  }
+}
+
+// Why: item props describe the frame inside its parent's auto layout, so they apply even when the frame has no layout itself
+function applyFlexItemProps(node: FigmaNode, attrs: FrameAttributes): void {
   if (attrs.selfAlign) {
     (node as any).layoutAlign = attrs.selfAlign;
   }
@@ -268,19 +451,22 @@ function applyFrameLayout(node: FigmaNode, attrs: FrameAttributes): void {
     if (growValue > 0) (node as any).layoutGrow = growValue;
   }
 
-  if (attrs.padding) {
-    (node as any).paddingTop = attrs.padding.t;
-    (node as any).paddingRight = attrs.padding.r;
-    (node as any).paddingBottom = attrs.padding.b;
-    (node as any).paddingLeft = attrs.padding.l;
-  }
-
   if (attrs.positioning) {
     const posUpper = attrs.positioning.toUpperCase();
     if (posUpper === 'ABSOLUTE' || posUpper === 'AUTO') {
       (node as any).layoutPositioning = posUpper;
     }
   }
+
+  const limits = {
+    minWidth: parseSizeLimit(attrs.minWidth),
+    maxWidth: parseSizeLimit(attrs.maxWidth),
+    minHeight: parseSizeLimit(attrs.minHeight),
+    maxHeight: parseSizeLimit(attrs.maxHeight),
+  };
+  for (const [key, value] of Object.entries(limits)) {
+    if (value !== undefined) (node as any)[key] = value;
+  }
 }
 
 function applyFrameStyle(node: FigmaNode, attrs: FrameAttributes): void {
@@ -300,8 +486,7 @@ function applyFrameStyle(node: FigmaNode, attrs: FrameAttributes): void {
     node.style = node.style || {};
 
     if (attrs.fill) {
-      const color = parseColor(attrs.fill);
-      (node.style as any).fills = [{ type: 'SOLID', color }];
+      (node.style as any).fills = [parseFill(attrs.fill, `frame ${attrs.id}`)];
     }
 
     if (attrs.radius) {
@@ -329,6 +514,17 @@ function applyFrameStyle(node: FigmaNode, attrs: FrameAttributes): void {
       }
     }
   }
+
+  const where = `frame ${attrs.id}`;
+  const effects: FigmaEffect[] = attrs.shadow ? parseShadows(attrs.shadow, where) : [];
+  const blur = parseBlurRadius(attrs.blur, 'blur', where);
+  if (blur) effects.push({ type: 'LAYER_BLUR', radius: blur, visible: true });
+  const backdropBlur = parseBlurRadius(attrs.backdropBlur, 'backdrop-blur', where);
+  if (backdropBlur) effects.push({ type: 'BACKGROUND_BLUR', radius: backdropBlur, visible: true });
+  if (effects.length) {
+    node.style = node.style || {};
+    node.style.effects = effects;
+  }
 }
 
 function attachFrameChildren(node: FigmaNode, el: cheerio.Element, $: any, basePath?: string): void {
@@ -336,11 +532,32 @@ function attachFrameChildren(node: FigmaNode, el: cheerio.Element, $: any, baseP
   $el.children().each((_: number, child: any) => {
     const childTag = (child as any).tagName?.toLowerCase() || (child as any).name?.toLowerCase();
     if (childTag === 'bridge-frame' || childTag === 'bridge-text' || childTag === 'bridge-image' || childTag === 'bridge-svg') {
-      (node.children as FigmaNode[]).push(parseNode(child, $, basePath));
+      (node.children as FigmaNode[]).push(translateSubtree(parseNode(child, $, basePath), node.absoluteTransform));
     }
   });
 }
 
+// Why: child x/y are relative to the parent frame (as in the live DSL view); the composition stores absolute transforms
+function translateSubtree(node: FigmaNode, parentAbs: number[][] | undefined): FigmaNode {
+  const dx = parentAbs?.[0]?.[2] || 0;
+  const dy = parentAbs?.[1]?.[2] || 0;
+  if (!dx && !dy) return node;
+  const shift = (n: FigmaNode) => {
+    if (Array.isArray(n.absoluteTransform)) {
+      n.absoluteTransform = [
+        [n.absoluteTransform[0][0], n.absoluteTransform[0][1], n.absoluteTransform[0][2] + dx],
+        [n.absoluteTransform[1][0], n.absoluteTransform[1][1], n.absoluteTransform[1][2] + dy],
+      ];
+    }
+    if (n.absoluteRenderBounds) {
+      n.absoluteRenderBounds = { ...n.absoluteRenderBounds, x: n.absoluteRenderBounds.x + dx, y: n.absoluteRenderBounds.y + dy };
+    }
+    for (const c of (n.children as FigmaNode[] | undefined) || []) shift(c);
+  };
+  shift(node);
+  return node;
+}
+
 function applyFixedSizeShrink(node: FigmaNode, attrs: FrameAttributes): void {
   // Fixed-size elements should not shrink in flex containers to prevent layout collapse
   // Trust parseDimensionAttr to handle invalid inputs
@@ -381,7 +598,7 @@ function parseImageNode(el: cheerio.Element, $: any, basePath?: string): FigmaNo
   const widthAttr = $el.attr('width');
   const heightAttr = $el.attr('height');
   const name = $el.attr('name') || 'Image';
-  const id = $el.attr('id') || `image-${Math.random().toString(36).slice(2, 9)}`;
+  const id = $el.attr('id') || generatedId('image');
   const x = $el.attr('x');
   const y = $el.attr('y');
   const opacityAttr = $el.attr('opacity');
@@ -468,7 +685,7 @@ function parseSvgNode(el: cheerio.Element, $: any, basePath?: string): FigmaNode
   const widthAttr = $el.attr('width');
   const heightAttr = $el.attr('height');
   const name = $el.attr('name') || 'Vector';
-  const id = $el.attr('id') || `svg-${Math.random().toString(36).slice(2, 9)}`;
+  const id = $el.attr('id') || generatedId('svg');
   const x = $el.attr('x');
   const y = $el.attr('y');
   const opacityAttr = $el.attr('opacity');
@@ -573,6 +790,7 @@ function parseNode(el: cheerio.Element, $: any, basePath?: string): FigmaNode {
 }
 
 export function dslHtmlToComposition(html: string, basePath?: string): CompositionInput {
+  generatedIds = 0;
   const $ = cheerio.load(html);
   const rootElements = $(
     [
@@ -618,6 +836,7 @@ export function dslHtmlToComposition(html: string, basePath?: string): Compositi
   };
 
   return {
+    schemaVersion: COMPOSITION_SCHEMA_VERSION,
     kind: 'composition',
     bounds,
     absOrigin,
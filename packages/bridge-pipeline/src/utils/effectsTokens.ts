@@ -1,4 +1,4 @@
-import type { ParsedEffects, ShadowEffect } from './css';
+import { withCssVar, type ParsedEffects, type ShadowEffect } from './css';
 
 export type EffectsTokens = {
   boxShadows: string[];
@@ -56,6 +56,22 @@ export function tokensFromParsedEffects(effects: ParsedEffects | null | undefine
   return tok;
 }
 
+/**
+ * Reference the node's effect style: its shadow list becomes `var(--<style>, ...)`, blurs use
+ * `--<style>-filter` / `--<style>-backdrop-filter`. Run before stroke and inherited layers are added —
+ * those are not part of the style.
+ */
+export function withEffectStyle(tokens: EffectsTokens, styleName: string | null | undefined): EffectsTokens {
+  if (!styleName) return tokens;
+  const wrap = (list: string[], sep: string, name: string) => (list.length ? [withCssVar(list.join(sep), name)] : list);
+  return {
+    boxShadows: wrap(tokens.boxShadows, ',', styleName),
+    textShadows: wrap(tokens.textShadows, ',', styleName),
+    filters: wrap(tokens.filters, ' ', `${styleName} filter`),
+    backdropFilters: wrap(tokens.backdropFilters, ' ', `${styleName} backdrop-filter`),
+  };
+}
+
 export function mergeInherited(tokens: EffectsTokens, inherited?: ShadowEffect[] | null, isText?: boolean): EffectsTokens {
   if (!inherited || inherited.length === 0) return tokens;
   const merged: EffectsTokens = {
@@ -0,0 +1,529 @@
+import type { CompositionInput, FigmaNode, FigmaPaint, FigmaTextSegment } from '../types/figma';
+import { COMPOSITION_SCHEMA_VERSION } from '../types/composition-schema';
+import { fontStyleForWeight, sanitizeId } from './composition-helpers';
+
+// Figma REST API → composition. Produces the same shape as the plugin (code.js) so the rest of the pipeline
+// can't tell the sources apart; REST omits default values, so defaults are filled in where the plugin would
+// read them from the live node.
+
+type AnyObj = Record<string, any>;
+type Matrix = number[][];
+
+export type FigmaRestToCompositionOptions = {
+  // Node ids to convert (default: every entry of `nodes` for /v1/files/:key/nodes; required for /v1/files/:key)
+  nodeIds?: string[];
+};
+
+export type FigmaRestConversion = {
+  composition: CompositionInput;
+  // Assets the batch job must fetch before rendering: image fills via GET /v1/files/:key/images (imageRef → url,
+  // saved as images/{imageId}.png) and vectors via GET /v1/images/:key?ids=<nodeId>&format=svg (saved as svgs/{svgId}.svg)
+  assets: {
+    images: { imageRef: string; imageId: string }[];
+    svgs: { nodeId: string; svgId: string }[];
+  };
+};
+
+type Lookup = {
+  components: AnyObj;
+  componentSets: AnyObj;
+  styles: AnyObj;
+  images: Map<string, string>;
+  svgs: Map<string, string>;
+};
+
+// Same set the plugin exports as SVG
+const VECTOR_TYPES = ['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'POLYGON', 'LINE', 'REGULAR_POLYGON', 'ELLIPSE', 'ARROW', 'TRIANGLE'];
+
+const H_CONSTRAINTS: Record<string, string> = { LEFT: 'MIN', RIGHT: 'MAX', CENTER: 'CENTER', LEFT_RIGHT: 'STRETCH', SCALE: 'SCALE' };
+const V_CONSTRAINTS: Record<string, string> = { TOP: 'MIN', BOTTOM: 'MAX', CENTER: 'CENTER', TOP_BOTTOM: 'STRETCH', SCALE: 'SCALE' };
+
+function isNum(v: unknown): v is number {
+  return typeof v === 'number' && isFinite(v);
+}
+
+function multiply(p: Matrix, c: Matrix): Matrix {
+  return [
+    [p[0][0] * c[0][0] + p[0][1] * c[1][0], p[0][0] * c[0][1] + p[0][1] * c[1][1], p[0][0] * c[0][2] + p[0][1] * c[1][2] + p[0][2]],
+    [p[1][0] * c[0][0] + p[1][1] * c[1][0], p[1][0] * c[0][1] + p[1][1] * c[1][1], p[1][0] * c[0][2] + p[1][1] * c[1][2] + p[1][2]],
+  ];
+}
+
+function isMatrix(m: unknown): m is Matrix {
+  return Array.isArray(m) && m.length >= 2 && [0, 1].every(r => Array.isArray(m[r]) && m[r].length >= 3 && m[r].slice(0, 3).every(isNum));
+}
+
+function nodeSize(node: AnyObj): { width: number; height: number } {
+  if (node.size && isNum(node.size.x) && isNum(node.size.y)) return { width: node.size.x, height: node.size.y };
+  const bb = node.absoluteBoundingBox;
+  return { width: isNum(bb?.width) ? bb.width : 0, height: isNum(bb?.height) ? bb.height : 0 };
+}
+
+// Corners of the (0,0,w,h) box under `m`
+function transformedBox(m: Matrix, width: number, height: number) {
+  const xs = [0, width, 0, width].map((x, i) => m[0][0] * x + m[0][1] * (i < 2 ? 0 : height) + m[0][2]);
+  const ys = [0, width, 0, width].map((x, i) => m[1][0] * x + m[1][1] * (i < 2 ? 0 : height) + m[1][2]);
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+}
+
+/**
+ * Absolute transform of `node`: parent × relativeTransform when REST returned it (geometry=paths), otherwise the
+ * parent's rotation/scale placed so the node's box lands on absoluteBoundingBox.
+ */
+function absoluteTransformOf(node: AnyObj, parentAbs: Matrix | null): Matrix {
+  const rel = isMatrix(node.relativeTransform) ? node.relativeTransform : null;
+  if (rel && parentAbs) return multiply(parentAbs, rel);
+  const linear: Matrix = rel
+    ? [[rel[0][0], rel[0][1], 0], [rel[1][0], rel[1][1], 0]]
+    : (parentAbs ? [[parentAbs[0][0], parentAbs[0][1], 0], [parentAbs[1][0], parentAbs[1][1], 0]] : [[1, 0, 0], [0, 1, 0]]);
+  const { width, height } = nodeSize(node);
+  const box = transformedBox(linear, width, height);
+  const bb = node.absoluteBoundingBox || {};
+  const x = isNum(bb.x) ? bb.x : (parentAbs ? parentAbs[0][2] : 0);
+  const y = isNum(bb.y) ? bb.y : (parentAbs ? parentAbs[1][2] : 0);
+  return [[linear[0][0], linear[0][1], x - box.minX], [linear[1][0], linear[1][1], y - box.minY]];
+}
+
+function rect(r: AnyObj | null | undefined, dx = 0, dy = 0) {
+  if (!r || !isNum(r.x) || !isNum(r.y) || !isNum(r.width) || !isNum(r.height)) return null;
+  return { x: r.x - dx, y: r.y - dy, width: r.width, height: r.height };
+}
+
+function colorAlias(paintLike: AnyObj) {
+  const alias = paintLike?.boundVariables?.color;
+  if (!alias || alias.type !== 'VARIABLE_ALIAS' || typeof alias.id !== 'string') return undefined;
+  return { color: { type: 'VARIABLE_ALIAS' as const, id: alias.id } };
+}
+
+function gradientStops(p: AnyObj) {
+  return (p.gradientStops || []).map((stop: AnyObj) => ({
+    position: stop.position,
+    color: { r: stop.color?.r ?? 0, g: stop.color?.g ?? 0, b: stop.color?.b ?? 0, a: stop.color?.a ?? 1 },
+    boundVariables: colorAlias(stop),
+  }));
+}
+
+function gradientHandles(p: AnyObj) {
+  const h = p.gradientHandlePositions;
+  return Array.isArray(h) && h.length === 3 ? h.map((v: AnyObj) => ({ x: v.x, y: v.y })) : null;
+}
+
+// REST keeps paint opacity separate from color.a; the plugin folds both into color.a
+function paintAlpha(p: AnyObj): number {
+  return (isNum(p.color?.a) ? p.color.a : 1) * (isNum(p.opacity) ? p.opacity : 1);
+}
+
+function convertFills(paints: AnyObj[] | undefined, lookup: Lookup): FigmaPaint[] {
+  const out: any[] = [];
+  for (const p of paints || []) {
+    if (!p || p.visible === false) continue;
+    const opacity = isNum(p.opacity) ? p.opacity : 1;
+    const blendMode = typeof p.blendMode === 'string' && p.blendMode !== 'NORMAL' ? p.blendMode : undefined;
+    if (p.type === 'SOLID' && p.color) {
+      out.push({ type: 'SOLID', color: { r: p.color.r, g: p.color.g, b: p.color.b, a: paintAlpha(p) }, blendMode, boundVariables: colorAlias(p) });
+    } else if (p.type === 'IMAGE' && typeof p.imageRef === 'string') {
+      const imageId = sanitizeId(p.imageRef);
+      lookup.images.set(p.imageRef, imageId);
+      const img: AnyObj = { type: 'IMAGE', imageId, imageHash: p.imageRef, scaleMode: p.scaleMode, opacity, blendMode };
+      if (isMatrix(p.imageTransform)) img.imageTransform = p.imageTransform.slice(0, 2).map((row: number[]) => row.slice(0, 3));
+      if (isNum(p.scalingFactor)) img.scalingFactor = p.scalingFactor;
+      out.push(img);
+    } else if (/^GRADIENT_(LINEAR|RADIAL|ANGULAR|DIAMOND)$/.test(p.type) && (p.gradientStops || []).length >= 2) {
+      out.push({ type: p.type, gradientStops: gradientStops(p), gradientHandlePositions: gradientHandles(p), gradientTransform: null, opacity, blendMode });
+    }
+  }
+  return out;
+}
+
+// The plugin only carries solid and linear-gradient strokes
+function convertStrokes(paints: AnyObj[] | undefined): FigmaPaint[] {
+  const out: any[] = [];
+  for (const s of paints || []) {
+    if (!s || s.visible === false) continue;
+    if (s.type === 'SOLID' && s.color) {
+      out.push({ type: 'SOLID', color: { r: s.color.r, g: s.color.g, b: s.color.b, a: paintAlpha(s) }, visible: true, boundVariables: colorAlias(s) });
+    } else if (s.type === 'GRADIENT_LINEAR' && (s.gradientStops || []).length >= 2) {
+      out.push({ type: 'GRADIENT_LINEAR', gradientStops: gradientStops(s), gradientHandlePositions: gradientHandles(s), gradientTransform: null, opacity: isNum(s.opacity) ? s.opacity : 1, visible: true });
+    }
+  }
+  return out;
+}
+
+function convertEffects(effects: AnyObj[] | undefined) {
+  const out: any[] = [];
+  for (const e of effects || []) {
+    if (!e || e.visible === false || !e.type) continue;
+    const radius = isNum(e.radius) ? e.radius : 0;
+    if (e.type === 'LAYER_BLUR' || e.type === 'BACKGROUND_BLUR') {
+      out.push({ type: e.type, radius, visible: true });
+    } else if (e.type === 'DROP_SHADOW' || e.type === 'INNER_SHADOW') {
+      out.push({
+        type: e.type,
+        offset: { x: e.offset?.x ?? 0, y: e.offset?.y ?? 0 },
+        radius,
+        spread: isNum(e.spread) ? e.spread : 0,
+        color: e.color ? { r: e.color.r, g: e.color.g, b: e.color.b, a: isNum(e.color.a) ? e.color.a : 1 } : null,
+        visible: true,
+        boundVariables: colorAlias(e),
+      });
+    }
+  }
+  return out;
+}
+
+function styleRef(node: AnyObj, kind: string, lookup: Lookup): { id?: string; name?: string } {
+  const id = node.styles?.[kind] ?? node.styles?.[`${kind}s`];
+  if (typeof id !== 'string' || !id) return {};
+  const name = lookup.styles[id]?.name;
+  return { id, name: typeof name === 'string' ? name : undefined };
+}
+
+function convertStyle(node: AnyObj, lookup: Lookup) {
+  const style: AnyObj = {};
+  const fills = convertFills(node.fills, lookup);
+  if (fills.length) style.fills = fills;
+
+  const radii = node.rectangleCornerRadii;
+  if (Array.isArray(radii) && radii.length === 4 && radii.every(isNum) && radii.some(v => v)) {
+    style.radii = { corners: radii.slice() };
+  } else if (isNum(node.cornerRadius) && node.cornerRadius > 0) {
+    style.radii = { uniform: node.cornerRadius };
+  }
+
+  const strokes = convertStrokes(node.strokes);
+  if (strokes.length) {
+    style.strokes = strokes;
+    const w = isNum(node.strokeWeight) ? node.strokeWeight : 0;
+    const sw = node.individualStrokeWeights || {};
+    const t = isNum(sw.top) ? sw.top : w;
+    const r = isNum(sw.right) ? sw.right : w;
+    const b = isNum(sw.bottom) ? sw.bottom : w;
+    const l = isNum(sw.left) ? sw.left : w;
+    if (t || r || b || l) style.strokeWeights = { t, r, b, l };
+    if (node.strokeAlign) style.strokeAlign = node.strokeAlign;
+  }
+  if (Array.isArray(node.strokeDashes) && node.strokeDashes.length && node.strokeDashes.every(isNum)) {
+    style.dashPattern = node.strokeDashes.slice(0, 16);
+  }
+
+  const effects = convertEffects(node.effects);
+  if (effects.length) style.effects = effects;
+
+  for (const [kind, idKey, nameKey] of [['fill', 'fillStyleId', 'fillStyleName'], ['stroke', 'strokeStyleId', 'strokeStyleName'], ['effect', 'effectStyleId', 'effectStyleName']]) {
+    const ref = styleRef(node, kind, lookup);
+    if (ref.id) style[idKey] = ref.id;
+    if (ref.name) style[nameKey] = ref.name;
+  }
+  if (isNum(node.opacity) && node.opacity !== 1) style.opacity = node.opacity;
+  if (node.blendMode && node.blendMode !== 'NORMAL' && node.blendMode !== 'PASS_THROUGH') {
+    style.blendMode = String(node.blendMode).toLowerCase().replace(/_/g, '-');
+  }
+  return Object.keys(style).length ? style : undefined;
+}
+
+function fontStyleName(ts: AnyObj): string {
+  return fontStyleForWeight(isNum(ts.fontWeight) ? ts.fontWeight : 400, !!ts.italic);
+}
+
+function lineHeightOf(ts: AnyObj): FigmaTextSegment['lineHeight'] | { unit: 'AUTO' } | undefined {
+  if (ts.lineHeightUnit === 'PIXELS' && isNum(ts.lineHeightPx)) return { unit: 'PIXELS', value: ts.lineHeightPx };
+  if (ts.lineHeightUnit === 'FONT_SIZE_%' && isNum(ts.lineHeightPercentFontSize)) return { unit: 'PERCENT', value: ts.lineHeightPercentFontSize };
+  if (ts.lineHeightUnit === 'INTRINSIC_%') return { unit: 'AUTO' };
+  return undefined;
+}
+
+// One plugin-style segment from a REST TypeStyle (base style merged with an override-table entry)
+function segmentFromTypeStyle(ts: AnyObj, fills: AnyObj[] | undefined, start: number, end: number, textStyle: { id?: string; name?: string }): FigmaTextSegment {
+  const seg: AnyObj = { start, end };
+  if (isNum(ts.fontSize)) seg.fontSize = ts.fontSize;
+  if (typeof ts.fontFamily === 'string') seg.fontName = { family: ts.fontFamily, style: fontStyleName(ts) };
+  if (isNum(ts.fontWeight)) seg.fontWeight = ts.fontWeight;
+  const solid = (fills || []).find(f => f && f.visible !== false && f.type === 'SOLID' && f.color);
+  if (solid) {
+    seg.fills = [{ type: 'SOLID', color: { r: solid.color.r, g: solid.color.g, b: solid.color.b }, opacity: paintAlpha(solid), boundVariables: colorAlias(solid) }];
+  }
+  if (isNum(ts.letterSpacing)) seg.letterSpacing = { unit: 'PIXELS', value: ts.letterSpacing };
+  const lh = lineHeightOf(ts);
+  if (lh) seg.lineHeight = lh;
+  if (ts.textDecoration && ts.textDecoration !== 'NONE') seg.textDecoration = ts.textDecoration;
+  if (ts.textCase && ts.textCase !== 'ORIGINAL') seg.textCase = ts.textCase;
+  if (textStyle.id) seg.textStyleId = textStyle.id;
+  if (textStyle.name) seg.textStyleName = textStyle.name;
+  return seg as FigmaTextSegment;
+}
+
+/**
+ * Split characters into runs of equal characterStyleOverrides ids (0 / missing = base style) and merge each
+ * run's styleOverrideTable entry over the node's base TypeStyle.
+ */
+function convertText(node: AnyObj, lookup: Lookup) {
+  const chars = typeof node.characters === 'string' ? node.characters : '';
+  if (!chars) return undefined;
+  const base: AnyObj = node.style || {};
+  const overrides: number[] = Array.isArray(node.characterStyleOverrides) ? node.characterStyleOverrides : [];
+  const table: AnyObj = node.styleOverrideTable || {};
+  const textStyle = styleRef(node, 'text', lookup);
+  const segments: FigmaTextSegment[] = [];
+  let start = 0;
+  for (let i = 1; i <= chars.length; i++) {
+    const prev = overrides[i - 1] || 0;
+    if (i < chars.length && (overrides[i] || 0) === prev) continue;
+    const override = prev ? table[String(prev)] || {} : {};
+    const fills = Array.isArray(override.fills) ? override.fills : node.fills;
+    segments.push(segmentFromTypeStyle({ ...base, ...override }, fills, start, i, textStyle));
+    start = i;
+  }
+  return {
+    characters: chars,
+    textAutoResize: base.textAutoResize || 'NONE',
+    textAlignHorizontal: base.textAlignHorizontal || 'LEFT',
+    textAlignVertical: base.textAlignVertical || 'TOP',
+    paragraphIndent: isNum(base.paragraphIndent) ? base.paragraphIndent : 0,
+    paragraphSpacing: isNum(base.paragraphSpacing) ? base.paragraphSpacing : 0,
+    ...(base.textTruncation === 'ENDING' ? { textTruncation: 'ENDING' } : {}),
+    textStyleId: textStyle.id,
+    textStyleName: textStyle.name,
+    segments,
+  };
+}
+
+function convertComponentRef(node: AnyObj, entry: AnyObj, lookup: Lookup) {
+  if (node.type === 'COMPONENT') {
+    const setId = lookup.components[node.id]?.componentSetId;
+    const setName = setId ? lookup.componentSets[setId]?.name : undefined;
+    if (typeof setName === 'string') entry.componentSetName = setName;
+    return;
+  }
+  if (node.type !== 'INSTANCE' || typeof node.componentId !== 'string') return;
+  const main = lookup.components[node.componentId] || {};
+  const set = main.componentSetId ? lookup.componentSets[main.componentSetId] : null;
+  entry.mainComponent = {
+    id: node.componentId,
+    name: typeof main.name === 'string' ? main.name : undefined,
+    key: typeof main.key === 'string' ? main.key : undefined,
+    componentSetName: typeof set?.name === 'string' ? set.name : undefined,
+  };
+  const props = node.componentProperties;
+  if (props && typeof props === 'object') {
+    const out: AnyObj = {};
+    for (const rawKey of Object.keys(props)) {
+      const p = props[rawKey];
+      if (!p || p.value === undefined) continue;
+      // Why: non-variant property keys carry a "#<id>" suffix that is meaningless downstream
+      out[rawKey.replace(/#[^#]*$/, '')] = p.value;
+    }
+    if (Object.keys(out).length) entry.componentProperties = out;
+  }
+}
+
+// REST omits properties that are at their default; the plugin always reads them
+function autoLayoutProps(node: AnyObj) {
+  if (typeof node.layoutMode !== 'string' || node.layoutMode === 'NONE') return null;
+  return {
+    layoutMode: node.layoutMode,
+    itemSpacing: isNum(node.itemSpacing) ? node.itemSpacing : 0,
+    paddingTop: isNum(node.paddingTop) ? node.paddingTop : 0,
+    paddingRight: isNum(node.paddingRight) ? node.paddingRight : 0,
+    paddingBottom: isNum(node.paddingBottom) ? node.paddingBottom : 0,
+    paddingLeft: isNum(node.paddingLeft) ? node.paddingLeft : 0,
+    primaryAxisAlignItems: node.primaryAxisAlignItems || 'MIN',
+    counterAxisAlignItems: node.counterAxisAlignItems || 'MIN',
+    primaryAxisSizingMode: node.primaryAxisSizingMode || 'AUTO',
+    counterAxisSizingMode: node.counterAxisSizingMode || 'AUTO',
+    layoutWrap: node.layoutWrap || 'NO_WRAP',
+    counterAxisAlignContent: node.counterAxisAlignContent || 'AUTO',
+    counterAxisSpacing: isNum(node.counterAxisSpacing) ? node.counterAxisSpacing : null,
+    strokesIncludedInLayout: node.strokesIncludedInLayout === true,
+    itemReverseZIndex: node.itemReverseZIndex === true,
+  };
+}
+
+type ConvertCtx = {
+  parentAbs: Matrix | null;
+  parentType: string | null;
+  parentIsAutoLayout: boolean;
+  isTopLevel: boolean;
+  offsetX: number;
+  offsetY: number;
+};
+
+function convertNode(node: AnyObj, ctx: ConvertCtx, lookup: Lookup): FigmaNode {
+  const absoluteTransform = absoluteTransformOf(node, ctx.parentAbs);
+  const { width, height } = nodeSize(node);
+  const entry: AnyObj = {
+    id: node.id,
+    type: node.type,
+    name: typeof node.name === 'string' ? node.name : '',
+    visible: node.visible !== false,
+    width,
+    height,
+    absoluteTransform,
+    isTopLevel: ctx.isTopLevel,
+  };
+  const absRender = rect(node.absoluteRenderBounds) || rect(node.absoluteBoundingBox);
+  if (!ctx.isTopLevel && absRender) entry.absoluteRenderBounds = absRender;
+  entry.clipsContent = node.clipsContent === true;
+  if (ctx.parentType === 'FRAME' && node.constraints) {
+    const h = H_CONSTRAINTS[node.constraints.horizontal];
+    const v = V_CONSTRAINTS[node.constraints.vertical];
+    if (h && v) entry.constraints = { horizontal: h, vertical: v };
+  }
+  if (node.isMask) {
+    entry.isMask = true;
+    if (node.maskType) entry.maskType = node.maskType;
+  }
+  const style = convertStyle(node, lookup);
+  if (style) entry.style = style;
+  if (node.type === 'TEXT') {
+    const text = convertText(node, lookup);
+    if (text) entry.text = text;
+  }
+  convertComponentRef(node, entry, lookup);
+
+  if (VECTOR_TYPES.includes(node.type)) {
+    entry.svgId = sanitizeId(node.id);
+    lookup.svgs.set(String(node.id), entry.svgId);
+  }
+
+  if (ctx.isTopLevel) {
+    entry.x = absoluteTransform[0][2] - ctx.offsetX;
+    entry.y = absoluteTransform[1][2] - ctx.offsetY;
+    const box = transformedBox(absoluteTransform, width, height);
+    entry.renderBounds = rect(node.absoluteRenderBounds, ctx.offsetX, ctx.offsetY)
+      || { x: box.minX - ctx.offsetX, y: box.minY - ctx.offsetY, width: box.maxX - box.minX, height: box.maxY - box.minY };
+  } else if (entry.svgId && absRender) {
+    entry.renderBounds = { x: absRender.x - ctx.offsetX, y: absRender.y - ctx.offsetY, width: absRender.width, height: absRender.height };
+  }
+
+  const layout = autoLayoutProps(node);
+  if (layout) Object.assign(entry, layout);
+  if (ctx.parentIsAutoLayout) {
+    entry.layoutAlign = node.layoutAlign || 'INHERIT';
+    entry.layoutGrow = isNum(node.layoutGrow) ? node.layoutGrow : 0;
+    entry.layoutPositioning = node.layoutPositioning || 'AUTO';
+  }
+  if (layout || ctx.parentIsAutoLayout) {
+    for (const key of ['minWidth', 'maxWidth', 'minHeight', 'maxHeight']) {
+      if (isNum(node[key])) entry[key] = node[key];
+    }
+  }
+
+  const kids: AnyObj[] = Array.isArray(node.children) ? node.children : [];
+  if (kids.length && !entry.svgId) {
+    entry.children = kids.map(k => convertNode(k, {
+      parentAbs: absoluteTransform,
+      parentType: node.type,
+      parentIsAutoLayout: !!layout,
+      isTopLevel: false,
+      offsetX: ctx.offsetX,
+      offsetY: ctx.offsetY,
+    }, lookup));
+  }
+  return entry as FigmaNode;
+}
+
+function findById(node: AnyObj, id: string): AnyObj | null {
+  if (!node || typeof node !== 'object') return null;
+  if (node.id === id) return node;
+  for (const child of node.children || []) {
+    const hit = findById(child, id);
+    if (hit) return hit;
+  }
+  return null;
+}
+
+// Root nodes plus the component/style tables that describe them, from either REST response shape
+function collectRoots(doc: AnyObj, nodeIds: string[] | undefined): { roots: AnyObj[]; lookup: Lookup } {
+  const lookup: Lookup = { components: {}, componentSets: {}, styles: {}, images: new Map(), svgs: new Map() };
+  const roots: AnyObj[] = [];
+  if (doc.nodes && typeof doc.nodes === 'object') {
+    const ids = nodeIds && nodeIds.length ? nodeIds : Object.keys(doc.nodes);
+    for (const id of ids) {
+      const entry = doc.nodes[id];
+      if (!entry?.document) throw new Error(`figmaRestToComposition: node ${id} not found in response`);
+      Object.assign(lookup.components, entry.components);
+      Object.assign(lookup.componentSets, entry.componentSets);
+      Object.assign(lookup.styles, entry.styles);
+      roots.push(entry.document);
+    }
+  } else if (doc.document && typeof doc.document === 'object') {
+    if (!nodeIds || !nodeIds.length) throw new Error('figmaRestToComposition: nodeIds required for a full file response');
+    Object.assign(lookup.components, doc.components);
+    Object.assign(lookup.componentSets, doc.componentSets);
+    Object.assign(lookup.styles, doc.styles);
+    for (const id of nodeIds) {
+      const node = findById(doc.document, id);
+      if (!node) throw new Error(`figmaRestToComposition: node ${id} not found in document`);
+      roots.push(node);
+    }
+  } else {
+    throw new Error('figmaRestToComposition: expected a GET /v1/files/:key/nodes (or /v1/files/:key) response');
+  }
+  return { roots, lookup };
+}
+
+/**
+ * Convert a Figma REST response (loaded from disk) into a composition, as if the given nodes had been selected
+ * in the plugin. Pages/canvases are not renderable; pass frame/component ids.
+ */
+export function figmaRestToComposition(doc: AnyObj, options: FigmaRestToCompositionOptions = {}): FigmaRestConversion {
+  if (!doc || typeof doc !== 'object') throw new Error('figmaRestToComposition: document required');
+  const { roots, lookup } = collectRoots(doc, options.nodeIds);
+  const visible = roots.filter(n => n && n.visible !== false);
+  for (const n of visible) {
+    if (n.type === 'CANVAS' || n.type === 'DOCUMENT') throw new Error(`figmaRestToComposition: ${n.type} ${n.id} is not renderable; pass frame ids instead`);
+  }
+
+  // Composition bounds: same rules as the plugin's buildCompositionFromSelection
+  const transforms = visible.map(n => absoluteTransformOf(n, null));
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  visible.forEach((n, i) => {
+    const { width, height } = nodeSize(n);
+    const box = transformedBox(transforms[i], width, height);
+    minX = Math.min(minX, box.minX);
+    minY = Math.min(minY, box.minY);
+    maxX = Math.max(maxX, box.maxX);
+    maxY = Math.max(maxY, box.maxY);
+  });
+  if (!isFinite(minX)) { minX = 0; minY = 0; maxX = 0; maxY = 0; }
+  let offsetX = minX;
+  let offsetY = minY;
+  let boundsWidth = maxX - minX;
+  let boundsHeight = maxY - minY;
+  if (visible.length === 1 && visible[0].type === 'FRAME') {
+    const M = transforms[0];
+    const EPS = 1e-6;
+    if (Math.abs(M[1][0]) < EPS && Math.abs(M[0][1]) < EPS && Math.abs(M[0][0] - 1) < EPS && Math.abs(M[1][1] - 1) < EPS) {
+      const size = nodeSize(visible[0]);
+      offsetX = M[0][2];
+      offsetY = M[1][2];
+      boundsWidth = size.width;
+      boundsHeight = size.height;
+    }
+  }
+
+  const children = visible.map(n => convertNode(n, {
+    parentAbs: null,
+    parentType: null,
+    parentIsAutoLayout: false,
+    isTopLevel: true,
+    offsetX,
+    offsetY,
+  }, lookup));
+
+  const composition: CompositionInput = {
+    schemaVersion: COMPOSITION_SCHEMA_VERSION,
+    kind: 'composition',
+    name: `Composition (${children.length} items)`,
+    absOrigin: { x: offsetX, y: offsetY },
+    bounds: { x: 0, y: 0, width: boundsWidth, height: boundsHeight },
+    children,
+  };
+  return {
+    composition,
+    assets: {
+      images: Array.from(lookup.images, ([imageRef, imageId]) => ({ imageRef, imageId })),
+      svgs: Array.from(lookup.svgs, ([nodeId, svgId]) => ({ nodeId, svgId })),
+    },
+  };
+}
@@ -40,9 +40,30 @@ export class FontCollector {
   }
 }
 
-export function buildFontStack(family: string): string {
+function quoteFamily(family: string): string {
   const needsQuotes = family.includes(' ') || family.includes('-');
-  return needsQuotes ? `'${family}', sans-serif` : `${family}, sans-serif`;
+  return needsQuotes ? `'${family}'` : family;
+}
+
+export function buildFontStack(family: string, fallbackFamily?: string): string {
+  return fallbackFamily
+    ? `${quoteFamily(family)}, ${quoteFamily(fallbackFamily)}, sans-serif`
+    : `${quoteFamily(family)}, sans-serif`;
+}
+
+/**
+ * Insert a metric-matched fallback family (declared by the host via @font-face) after each original
+ * family in rendered HTML/CSS. `fallbacks` maps original family → fallback family name.
+ * Only whole font-family values match: the stack must start the text or follow `:` / `,`, and end the value.
+ */
+export function applyFontFallbacks(text: string, fallbacks: Record<string, string>): string {
+  let out = text;
+  for (const [family, fallback] of Object.entries(fallbacks)) {
+    const stack = buildFontStack(family).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const re = new RegExp(`(^|[:,]\\s*)${stack}(?=\\s*(?:[;"'}!]|$))`, 'g');
+    out = out.replace(re, (_m: string, lead: string) => lead + buildFontStack(family, fallback));
+  }
+  return out;
 }
 
 export function extractFontsFromComposition(composition: any): FontCollector {
@@ -3,7 +3,19 @@ import type { DocumentConfig } from '../pipeline/types';
 // Core base styles should only care about document and content semantics.
 // Viewport/composition wrappers are now the responsibility of the host app.
 export function buildBaseStyles(): string {
-  return `html, body {\n  margin: 0;\n  font-family: -apple-system, BlinkMacSystemFont, \"Helvetica Neue\", Helvetica, Arial, sans-serif;\n  font-synthesis-weight: none;\n  background: transparent;\n  box-sizing: border-box;\n  overflow: hidden;\n}\n.content-layer {\n  position: relative;\n  z-index: 0;\n}\n.frame, .shape, .text, .svg-container, .mask-container {\n  box-sizing: border-box;\n  position: relative;\n  z-index: 0;\n}\n.svg-container > svg {\n  display: block;\n  width: 100%;\n  height: 100%;\n  shape-rendering: geometricPrecision;\n}\n.svg-container > img {\n  display: block;\n  width: 100%;\n  height: 100%;\n}`;
+  return `html, body {\n  margin: 0;\n  font-family: -apple-system, BlinkMacSystemFont, \"Helvetica Neue\", Helvetica, Arial, sans-serif;\n  font-synthesis-weight: none;\n  background: transparent;\n  box-sizing: border-box;\n  overflow: hidden;\n}\n${buildComponentBaseStyles()}`;
+}
+
+// Why: component outputs (Vue scoped styles) cannot style html/body; keep only node-level rules
+export function buildComponentBaseStyles(): string {
+  return `.content-layer {\n  position: relative;\n  z-index: 0;\n}\n.frame, .shape, .text, .svg-container, .mask-container {\n  box-sizing: border-box;\n  position: relative;\n  z-index: 0;\n}\n.svg-container > svg {\n  display: block;\n  width: 100%;\n  height: 100%;\n  shape-rendering: geometricPrecision;\n}\n.svg-container > img {\n  display: block;\n  width: 100%;\n  height: 100%;\n}\n${buildSemanticResetStyles()}`;
+}
+
+// Why: semantic elements (button/h1/ul/...) must look exactly like the div they replace; :where keeps
+// specificity at zero so utility and shared classes still win
+function buildSemanticResetStyles(): string {
+  const tags = 'button, a, input, header, nav, ul, li, p, h1, h2, h3, h4, h5, h6';
+  return `:where(.frame, .text):where(${tags}) {\n  display: block;\n  margin: 0;\n  padding: 0;\n  border: 0;\n  background: none;\n  font: inherit;\n  color: inherit;\n  text-align: inherit;\n  text-decoration: none;\n  list-style: none;\n}\n:where(.text)::placeholder {\n  color: inherit;\n  opacity: 1;\n}`;
 }
 
 export function buildHtmlHead(config: DocumentConfig): string {
@@ -0,0 +1,470 @@
+import type { CompositionInput, FigmaNode, FigmaTextSegment } from '../types/figma';
+import { COMPOSITION_SCHEMA_VERSION } from '../types/composition-schema';
+import { fontStyleForWeight, sanitizeId, GRADIENT_DIRECTIONS, linearGradientHandles } from './composition-helpers';
+import { splitShadowList } from './css-parser';
+
+// Measured HTML page → composition. Layout is done by a real browser (see src/utils/html-layout.ts); this module
+// only turns the measured boxes and their computed styles into plugin-shaped nodes, so it stays engine-agnostic.
+
+type AnyObj = Record<string, any>;
+type Rgba = { r: number; g: number; b: number; a: number };
+
+export type HtmlLayoutRect = { x: number; y: number; width: number; height: number };
+
+// One text node (or <br>) inside an inline run, with the computed style of its parent element
+export type HtmlLayoutTextRun = {
+  text: string;
+  br?: boolean;
+  style: Record<string, string>;
+};
+
+export type HtmlLayoutBox = {
+  kind: 'element' | 'text';
+  tag?: string;
+  name: string;
+  // Border box in page coordinates (getBoundingClientRect + scroll)
+  rect: HtmlLayoutRect;
+  // Computed style subset (camelCase keys, raw computed values)
+  style: Record<string, string>;
+  // element: child boxes in paint order; text: the inline runs and the number of rendered lines
+  children?: HtmlLayoutBox[];
+  runs?: HtmlLayoutTextRun[];
+  lines?: number;
+  // <img>: resolved source; inline <svg>: serialized markup
+  src?: string;
+  svg?: string;
+};
+
+export type HtmlLayoutSnapshot = {
+  title?: string;
+  viewport: { width: number; height: number };
+  // Full document size (scrollWidth/scrollHeight)
+  page: { width: number; height: number };
+  // Canvas background (html, or body when html is transparent)
+  background?: string;
+  // Document box (tag "html") whose only child is <body>
+  root: HtmlLayoutBox;
+};
+
+export type HtmlCompositionConversion = {
+  composition: CompositionInput;
+  // Files the composition references: images/{imageId}.png and svgs/{svgId}.svg
+  assets: {
+    images: { imageId: string; src: string }[];
+    svgs: { svgId: string; src?: string; markup?: string }[];
+  };
+};
+
+type Ctx = {
+  seq: number;
+  images: Map<string, string>;
+  svgs: HtmlCompositionConversion['assets']['svgs'];
+};
+
+function px(v: string | undefined): number {
+  const n = parseFloat(String(v || ''));
+  return isFinite(n) ? n : 0;
+}
+
+// Computed colors are always rgb()/rgba(); 'transparent' and fully transparent colors yield null
+function parseColor(value: string | undefined): Rgba | null {
+  const m = String(value || '').match(/rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)/);
+  if (!m) return null;
+  let a = m[4] === undefined ? 1 : parseFloat(m[4]);
+  if (m[4] && m[4].endsWith('%')) a /= 100;
+  if (!(a > 0)) return null;
+  return { r: parseFloat(m[1]) / 255, g: parseFloat(m[2]) / 255, b: parseFloat(m[3]) / 255, a };
+}
+
+// Split a computed background-image list into layers, e.g. `url("a.png"), linear-gradient(...)`
+function backgroundLayers(value: string | undefined): string[] {
+  if (!value || value === 'none') return [];
+  return splitShadowList(value).filter(l => l && l !== 'none');
+}
+
+function parseGradient(layer: string): AnyObj | null {
+  const m = layer.match(/^(repeating-)?(linear|radial|conic)-gradient\((.*)\)$/);
+  if (!m || m[1]) return null;
+  const args = splitShadowList(m[3]);
+  let angle = 180;
+  if (m[2] === 'linear' && args.length) {
+    const first = args[0].trim();
+    if (/^-?[\d.]+(deg|turn|rad)$/.test(first)) {
+      const n = parseFloat(first);
+      angle = first.endsWith('turn') ? n * 360 : first.endsWith('rad') ? (n * 180) / Math.PI : n;
+      args.shift();
+    } else if (GRADIENT_DIRECTIONS[first] !== undefined) {
+      angle = GRADIENT_DIRECTIONS[first];
+      args.shift();
+    }
+  } else if (args.length && !/rgba?\(/.test(args[0])) {
+    // radial/conic shape or position prelude
+    args.shift();
+  }
+  const stops = args.map(a => ({ color: parseColor(a) || { r: 0, g: 0, b: 0, a: 0 }, pos: a.match(/(-?[\d.]+)%\s*$/) }));
+  if (stops.length < 2) return null;
+  const gradientStops = stops.map((s, i) => ({
+    position: s.pos ? Math.min(1, Math.max(0, parseFloat(s.pos[1]) / 100)) : i / (stops.length - 1),
+    color: s.color,
+  }));
+  const type = m[2] === 'linear' ? 'GRADIENT_LINEAR' : m[2] === 'radial' ? 'GRADIENT_RADIAL' : 'GRADIENT_ANGULAR';
+  return {
+    type,
+    gradientStops,
+    gradientHandlePositions: m[2] === 'linear' ? linearGradientHandles(angle) : null,
+    gradientTransform: null,
+    opacity: 1,
+  };
+}
+
+function imageIdFor(src: string, ctx: Ctx): string {
+  const existing = ctx.images.get(src);
+  if (existing) return existing;
+  // Why: a data: URL has no file name, and its payload would make an unbounded id
+  const base = src.startsWith('data:')
+    ? `html_img_${ctx.images.size + 1}`
+    : sanitizeId(src.split(/[?#]/)[0].split('/').pop()!.replace(/\.[a-z0-9]+$/i, '')) || 'image';
+  const taken = new Set(ctx.images.values());
+  let id = base;
+  for (let i = 2; taken.has(id); i++) id = `${base}_${i}`;
+  ctx.images.set(src, id);
+  return id;
+}
+
+function scaleModeOf(style: Record<string, string>, isImg: boolean): string {
+  const v = isImg ? style.objectFit : style.backgroundSize;
+  if (v === 'contain') return 'FIT';
+  if (v === 'cover') return 'FILL';
+  if (isImg ? v === 'fill' : v === '100% 100%') return 'STRETCH';
+  if (!isImg && style.backgroundRepeat && !/no-repeat/.test(style.backgroundRepeat) && v !== 'cover') return 'TILE';
+  return 'FILL';
+}
+
+// Figma fills are bottom-first; CSS background layers are top-first above background-color
+function convertFills(box: HtmlLayoutBox, ctx: Ctx): AnyObj[] {
+  const s = box.style;
+  const fills: AnyObj[] = [];
+  const bg = parseColor(s.backgroundColor);
+  if (bg) fills.push({ type: 'SOLID', color: bg });
+  for (const layer of backgroundLayers(s.backgroundImage).reverse()) {
+    const url = layer.match(/^url\(\s*["']?(.*?)["']?\s*\)$/);
+    if (url) {
+      fills.push({ type: 'IMAGE', imageId: imageIdFor(url[1], ctx), scaleMode: scaleModeOf(s, false), opacity: 1 });
+      continue;
+    }
+    const gradient = parseGradient(layer);
+    if (gradient) fills.push(gradient);
+  }
+  return fills;
+}
+
+function convertStrokes(style: Record<string, string>, out: AnyObj) {
+  const sides = ['Top', 'Right', 'Bottom', 'Left'].map(side => {
+    const kind = style[`border${side}Style`];
+    const visible = kind && kind !== 'none' && kind !== 'hidden';
+    return { width: visible ? px(style[`border${side}Width`]) : 0, color: parseColor(style[`border${side}Color`]), kind };
+  });
+  const painted = sides.find(s => s.width > 0 && s.color);
+  if (!painted) return;
+  // Why: Figma has one stroke paint per node; the first painted side wins
+  out.strokes = [{ type: 'SOLID', color: painted.color, visible: true }];
+  out.strokeWeights = { t: sides[0].width, r: sides[1].width, b: sides[2].width, l: sides[3].width };
+  out.strokeAlign = 'INSIDE';
+  if (painted.kind === 'dashed') out.dashPattern = [painted.width * 3, painted.width * 3];
+  else if (painted.kind === 'dotted') out.dashPattern = [painted.width, painted.width];
+}
+
+function convertRadii(style: Record<string, string>, out: AnyObj) {
+  const corners = ['borderTopLeftRadius', 'borderTopRightRadius', 'borderBottomRightRadius', 'borderBottomLeftRadius'].map(k => px(style[k]));
+  if (!corners.some(v => v > 0)) return;
+  out.radii = corners.every(v => v === corners[0]) ? { uniform: corners[0] } : { corners };
+}
+
+// Computed box-shadow: `rgba(0, 0, 0, 0.2) 0px 4px 8px 0px [inset]`, comma separated
+function convertEffects(style: Record<string, string>): AnyObj[] {
+  const effects: AnyObj[] = [];
+  if (style.boxShadow && style.boxShadow !== 'none') {
+    for (const item of splitShadowList(style.boxShadow)) {
+      const colorMatch = item.match(/rgba?\([^)]*\)/);
+      const color = parseColor(colorMatch ? colorMatch[0] : 'rgb(0, 0, 0)');
+      if (!color) continue;
+      const nums = item.replace(/rgba?\([^)]*\)/, '').match(/-?[\d.]+px/g) || [];
+      effects.push({
+        type: /\binset\b/.test(item) ? 'INNER_SHADOW' : 'DROP_SHADOW',
+        offset: { x: px(nums[0]), y: px(nums[1]) },
+        radius: px(nums[2]),
+        spread: px(nums[3]),
+        color,
+        visible: true,
+      });
+    }
+  }
+  // Why: the pipeline emits blur(radius / 2), so CSS blur lengths are doubled here
+  const blur = String(style.filter || '').match(/blur\(\s*([\d.]+)px\s*\)/);
+  if (blur && px(blur[1]) > 0) effects.push({ type: 'LAYER_BLUR', radius: px(blur[1]) * 2, visible: true });
+  const backdrop = String(style.backdropFilter || '').match(/blur\(\s*([\d.]+)px\s*\)/);
+  if (backdrop && px(backdrop[1]) > 0) effects.push({ type: 'BACKGROUND_BLUR', radius: px(backdrop[1]) * 2, visible: true });
+  return effects;
+}
+
+function convertStyle(box: HtmlLayoutBox, ctx: Ctx, extraFills: AnyObj[] = []) {
+  const style: AnyObj = {};
+  const fills = [...convertFills(box, ctx), ...extraFills];
+  if (fills.length) style.fills = fills;
+  convertStrokes(box.style, style);
+  convertRadii(box.style, style);
+  const effects = convertEffects(box.style);
+  if (effects.length) style.effects = effects;
+  const opacity = parseFloat(box.style.opacity);
+  if (isFinite(opacity) && opacity < 1) style.opacity = opacity;
+  if (box.style.mixBlendMode && box.style.mixBlendMode !== 'normal') style.blendMode = box.style.mixBlendMode;
+  return Object.keys(style).length ? style : undefined;
+}
+
+function fontStyleName(style: Record<string, string>): string {
+  return fontStyleForWeight(parseFloat(style.fontWeight) || 400, /italic|oblique/.test(style.fontStyle || ''));
+}
+
+function firstFontFamily(value: string | undefined): string {
+  const first = splitShadowList(String(value || ''))[0] || '';
+  return first.replace(/^["']|["']$/g, '').trim() || 'Inter';
+}
+
+function segmentFor(style: Record<string, string>, start: number, end: number): FigmaTextSegment {
+  const seg: AnyObj = {
+    start,
+    end,
+    fontSize: px(style.fontSize) || 16,
+    fontName: { family: firstFontFamily(style.fontFamily), style: fontStyleName(style) },
+    fontWeight: parseFloat(style.fontWeight) || 400,
+  };
+  const color = parseColor(style.color);
+  if (color) seg.fills = [{ type: 'SOLID', color: { r: color.r, g: color.g, b: color.b }, opacity: color.a }];
+  seg.letterSpacing = { unit: 'PIXELS', value: style.letterSpacing === 'normal' ? 0 : px(style.letterSpacing) };
+  seg.lineHeight = /px$/.test(style.lineHeight || '') ? { unit: 'PIXELS', value: px(style.lineHeight) } : { unit: 'AUTO' };
+  const deco = String(style.textDecorationLine || '');
+  if (/underline/.test(deco)) seg.textDecoration = 'UNDERLINE';
+  else if (/line-through/.test(deco)) seg.textDecoration = 'STRIKETHROUGH';
+  const tt = style.textTransform;
+  if (tt === 'uppercase') seg.textCase = 'UPPER';
+  else if (tt === 'lowercase') seg.textCase = 'LOWER';
+  else if (tt === 'capitalize') seg.textCase = 'TITLE';
+  return seg as FigmaTextSegment;
+}
+
+/**
+ * Collapse whitespace per `white-space` like the browser did, keeping segment offsets in sync with the
+ * resulting characters. Adjacent runs share one collapsed space.
+ */
+function buildText(runs: HtmlLayoutTextRun[]) {
+  let characters = '';
+  const segments: FigmaTextSegment[] = [];
+  for (const run of runs) {
+    const ws = run.style.whiteSpace || 'normal';
+    let text = run.br ? '\n' : run.text;
+    if (!run.br && !/^(pre|pre-wrap|break-spaces)$/.test(ws)) {
+      text = ws === 'pre-line' ? text.replace(/[ \t\f\r]+/g, ' ').replace(/ ?\n ?/g, '\n') : text.replace(/[ \t\n\f\r]+/g, ' ');
+      if (/(^|[ \n])$/.test(characters) && text.startsWith(' ')) text = text.slice(1);
+    }
+    if (!text) continue;
+    const start = characters.length;
+    characters += text;
+    const prev = segments[segments.length - 1];
+    const seg = segmentFor(run.style, start, characters.length);
+    if (prev && JSON.stringify({ ...prev, start: 0, end: 0 }) === JSON.stringify({ ...seg, start: 0, end: 0 })) prev.end = characters.length;
+    else segments.push(seg);
+  }
+  // Why: leading/trailing collapsible spaces are not rendered
+  const lead = characters.length - characters.replace(/^ +/, '').length;
+  const trimmed = characters.slice(lead).replace(/ +$/, '');
+  const out = segments
+    .map(s => ({ ...s, start: Math.max(0, (s.start || 0) - lead), end: Math.min(trimmed.length, (s.end || 0) - lead) }))
+    .filter(s => s.end > s.start);
+  return { characters: trimmed, segments: out };
+}
+
+const TEXT_ALIGN: Record<string, string> = { left: 'LEFT', start: 'LEFT', center: 'CENTER', right: 'RIGHT', end: 'RIGHT', justify: 'JUSTIFIED', '-webkit-center': 'CENTER' };
+
+function baseNode(box: HtmlLayoutBox, type: string, ctx: Ctx): AnyObj {
+  const { x, y, width, height } = box.rect;
+  return {
+    id: `html:${++ctx.seq}`,
+    type,
+    name: box.name,
+    visible: box.style.visibility !== 'hidden',
+    width,
+    height,
+    absoluteTransform: [[1, 0, x], [0, 1, y]],
+    isTopLevel: false,
+    absoluteRenderBounds: { x, y, width, height },
+  };
+}
+
+function convertText(box: HtmlLayoutBox, ctx: Ctx): FigmaNode | null {
+  const { characters, segments } = buildText(box.runs || []);
+  if (!characters.trim()) return null;
+  const node = baseNode(box, 'TEXT', ctx);
+  node.name = characters.slice(0, 40);
+  node.text = {
+    characters,
+    // Why: single lines keep their measured width; wrapped text must keep the box width to wrap identically
+    textAutoResize: (box.lines || 1) > 1 ? 'HEIGHT' : 'WIDTH_AND_HEIGHT',
+    textAlignHorizontal: TEXT_ALIGN[box.style.textAlign] || 'LEFT',
+    textAlignVertical: 'TOP',
+    paragraphIndent: px(box.style.textIndent),
+    paragraphSpacing: 0,
+    segments,
+  };
+  return node as FigmaNode;
+}
+
+const JUSTIFY: Record<string, string> = {
+  center: 'CENTER', 'flex-end': 'MAX', end: 'MAX', right: 'MAX',
+  'space-between': 'SPACE_BETWEEN', 'space-around': 'SPACE_BETWEEN', 'space-evenly': 'SPACE_BETWEEN',
+};
+const ALIGN: Record<string, string> = { center: 'CENTER', 'flex-end': 'MAX', end: 'MAX', baseline: 'BASELINE' };
+
+/**
+ * Margins (top, right, bottom, left) shared by every in-flow child, or null when they differ or are negative.
+ * Text children are anonymous inline boxes without margins.
+ */
+function sharedChildMargins(children: AnyObj[]): number[] | null {
+  let shared: number[] | null = null;
+  for (const child of children) {
+    const cs: Record<string, string> = child.__style || {};
+    if (/^(absolute|fixed)$/.test(cs.position || '')) continue;
+    const margins = ['Top', 'Right', 'Bottom', 'Left'].map(side => px(cs[`margin${side}`]));
+    if (margins.some(m => m < 0)) return null;
+    if (shared && margins.some((m, i) => m !== shared![i])) return null;
+    shared = margins;
+  }
+  return shared || [0, 0, 0, 0];
+}
+
+// Flex containers become auto-layout; other formatting contexts keep absolute positions
+function applyFlexLayout(box: HtmlLayoutBox, node: AnyObj) {
+  const s = box.style;
+  if (!/flex$/.test(s.display || '')) return;
+  const row = /^row/.test(s.flexDirection || 'row');
+  const wrap = /wrap/.test(s.flexWrap || '');
+  const primaryAlign = JUSTIFY[s.justifyContent] || 'MIN';
+  // Why: auto-layout has no per-child margins. Margins every child shares fold into the padding and spacing;
+  // anything else (and main-axis margins under space-between, which widen each gap) keeps the measured positions
+  const margins = sharedChildMargins(node.children || []);
+  if (!margins) return;
+  const [mt, mr, mb, ml] = margins;
+  const mainMargins = row ? ml + mr : mt + mb;
+  const crossMargins = row ? mt + mb : ml + mr;
+  if (mainMargins && primaryAlign === 'SPACE_BETWEEN') return;
+  const border = (side: string) => (s[`border${side}Style`] && s[`border${side}Style`] !== 'none' ? px(s[`border${side}Width`]) : 0);
+  const gap = (v: string | undefined) => (v && v !== 'normal' ? px(v) : 0);
+  Object.assign(node, {
+    layoutMode: row ? 'HORIZONTAL' : 'VERTICAL',
+    itemSpacing: gap(row ? s.columnGap : s.rowGap) + mainMargins,
+    // Why: Figma strokes don't take layout space, CSS borders do — fold them into the padding
+    paddingTop: px(s.paddingTop) + border('Top') + mt,
+    paddingRight: px(s.paddingRight) + border('Right') + mr,
+    paddingBottom: px(s.paddingBottom) + border('Bottom') + mb,
+    paddingLeft: px(s.paddingLeft) + border('Left') + ml,
+    primaryAxisAlignItems: primaryAlign,
+    counterAxisAlignItems: ALIGN[s.alignItems] || 'MIN',
+    primaryAxisSizingMode: 'FIXED',
+    counterAxisSizingMode: 'FIXED',
+    layoutWrap: wrap ? 'WRAP' : 'NO_WRAP',
+    counterAxisAlignContent: 'AUTO',
+    counterAxisSpacing: wrap ? gap(row ? s.rowGap : s.columnGap) + crossMargins : null,
+    strokesIncludedInLayout: false,
+    itemReverseZIndex: false,
+  });
+  // Why: replaced elements (img/svg) and text keep their own size under align-items: normal
+  const stretch = !s.alignItems || s.alignItems === 'normal' || s.alignItems === 'stretch';
+  for (const child of node.children || []) {
+    const cs: Record<string, string> = child.__style || {};
+    const self = cs.alignSelf || 'auto';
+    child.layoutAlign = self === 'stretch' || ((self === 'auto' || self === 'normal') && stretch && child.type === 'FRAME') ? 'STRETCH' : 'INHERIT';
+    child.layoutGrow = parseFloat(cs.flexGrow) > 0 ? 1 : 0;
+    child.layoutPositioning = /^(absolute|fixed)$/.test(cs.position || '') ? 'ABSOLUTE' : 'AUTO';
+  }
+  // Why: Figma has no reverse direction; emit children in visual order instead
+  if (/reverse/.test(s.flexDirection || '') && Array.isArray(node.children)) node.children.reverse();
+}
+
+function svgIdFor(ctx: Ctx): string {
+  return `html_svg_${ctx.svgs.length + 1}`;
+}
+
+function convertBox(box: HtmlLayoutBox, ctx: Ctx): FigmaNode | null {
+  if (box.kind === 'text') return convertText(box, ctx);
+  const isSvgImage = box.tag === 'img' && !!box.src && /\.svg([?#]|$)/i.test(box.src);
+  if (box.svg || isSvgImage) {
+    const node = baseNode(box, 'VECTOR', ctx);
+    node.svgId = svgIdFor(ctx);
+    node.renderBounds = { ...node.absoluteRenderBounds };
+    ctx.svgs.push(box.svg ? { svgId: node.svgId, markup: box.svg } : { svgId: node.svgId, src: box.src });
+    const opacity = parseFloat(box.style.opacity);
+    if (isFinite(opacity) && opacity < 1) node.style = { opacity };
+    node.__style = box.style;
+    return node as FigmaNode;
+  }
+
+  const isImg = box.tag === 'img' && !!box.src;
+  const node = baseNode(box, isImg ? 'RECTANGLE' : 'FRAME', ctx);
+  const imageFill = isImg ? [{ type: 'IMAGE', imageId: imageIdFor(box.src!, ctx), scaleMode: scaleModeOf(box.style, true), opacity: 1 }] : [];
+  const style = convertStyle(box, ctx, imageFill);
+  if (style) node.style = style;
+  const overflow = `${box.style.overflowX || ''} ${box.style.overflowY || ''}`;
+  node.clipsContent = /hidden|clip|scroll|auto/.test(overflow);
+  node.__style = box.style;
+
+  const children = (box.children || []).map(c => convertBox(c, ctx)).filter(Boolean) as AnyObj[];
+  if (children.length) node.children = children;
+  applyFlexLayout(box, node);
+  return node as FigmaNode;
+}
+
+function stripPrivate(node: AnyObj) {
+  delete node.__style;
+  for (const child of node.children || []) stripPrivate(child);
+}
+
+/**
+ * Convert a measured page into a composition with one top-level frame covering the document. Positions come
+ * from the browser's layout (CSS transforms are reflected as axis-aligned boxes), flex containers are mapped to
+ * auto-layout, and inline content becomes TEXT nodes with one segment per differently styled run.
+ */
+export function htmlLayoutToComposition(snapshot: HtmlLayoutSnapshot): HtmlCompositionConversion {
+  if (!snapshot || !snapshot.root) throw new Error('htmlToComposition: layout snapshot required');
+  const ctx: Ctx = { seq: 0, images: new Map(), svgs: [] };
+  const width = Math.max(snapshot.viewport?.width || 0, snapshot.page?.width || 0);
+  const height = Math.max(snapshot.viewport?.height || 0, snapshot.page?.height || 0);
+
+  const root = convertBox({ ...snapshot.root, rect: { x: 0, y: 0, width, height } }, ctx) as AnyObj;
+  root.type = 'FRAME';
+  root.name = snapshot.title || root.name || 'page';
+  root.isTopLevel = true;
+  delete root.absoluteRenderBounds;
+  root.x = 0;
+  root.y = 0;
+  root.renderBounds = { x: 0, y: 0, width, height };
+  root.clipsContent = true;
+  // Why: the browser canvas is opaque white unless the page paints it
+  const canvas = parseColor(snapshot.background) || { r: 1, g: 1, b: 1, a: 1 };
+  root.style = { ...(root.style || {}), fills: [{ type: 'SOLID', color: canvas }, ...(root.style?.fills || [])] };
+  stripPrivate(root);
+
+  const composition: CompositionInput = {
+    schemaVersion: COMPOSITION_SCHEMA_VERSION,
+    kind: 'composition',
+    name: snapshot.title || 'Composition (1 items)',
+    absOrigin: { x: 0, y: 0 },
+    bounds: { x: 0, y: 0, width, height },
+    children: [root as FigmaNode],
+  };
+  return {
+    composition,
+    assets: {
+      images: Array.from(ctx.images, ([src, imageId]) => ({ imageId, src })),
+      svgs: ctx.svgs,
+    },
+  };
+}
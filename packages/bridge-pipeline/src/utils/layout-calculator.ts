@@ -298,6 +298,11 @@ export function computeLayout(
     }
   }
 
+  const cons = node.constraints;
+  if (outPosition === 'absolute' && cons && typeof cons.horizontal === 'string' && typeof cons.vertical === 'string') {
+    layout.constraints = { horizontal: cons.horizontal, vertical: cons.vertical };
+  }
+
   if (wrapper) layout.wrapper = wrapper;
   // Why: ensure non-frame wrappers have a default centerStrategy
   if (kind !== 'frame' && layout.wrapper && !layout.wrapper.centerStrategy) {
@@ -311,6 +316,10 @@ export function computeLayout(
   if (typeof node.height === 'string' && !layout.cssHeight) {
     layout.cssHeight = node.height;
   }
+  for (const key of ['minWidth', 'maxWidth', 'minHeight', 'maxHeight'] as const) {
+    const v = node[key];
+    if (typeof v === 'number' && Number.isFinite(v)) layout[key] = v;
+  }
   if (kind === 'frame') {
     const hasWrapper = !!layout.wrapper;
     applyContainerSemantics(node, layout, hasWrapper);
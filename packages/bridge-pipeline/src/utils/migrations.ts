@@ -0,0 +1,103 @@
+import { COMPOSITION_SCHEMA_VERSION } from '../types/composition-schema';
+
+// Upgrades stored/older compositions to the current schema one version at a time. Each step mutates the
+// composition in place (like normalize) and stamps its target version, so running migrations twice is a no-op.
+
+export type CompositionMigration = {
+  from: string;
+  to: string;
+  description: string;
+  migrate(composition: any): void;
+};
+
+export type MigrationResult = {
+  fromVersion: string;
+  toVersion: string;
+  // Descriptions of the applied steps, in order (empty when already current)
+  applied: string[];
+};
+
+// Payloads from plugin builds before schemaVersion existed
+export const LEGACY_SCHEMA_VERSION = '0';
+
+function walkNodes(nodes: any[], visit: (node: any) => void) {
+  for (const node of nodes || []) {
+    if (!node || typeof node !== 'object') continue;
+    visit(node);
+    if (Array.isArray(node.children)) walkNodes(node.children, visit);
+  }
+}
+
+function isNum(v: unknown): v is number {
+  return typeof v === 'number';
+}
+
+// Legacy top-level child: flatten element {x,y,width,height} to its own fields. Idempotent.
+export function flattenLegacyElement(child: any): void {
+  if (!child || typeof child !== 'object' || !child.element) return;
+  if (!isNum(child.width) && isNum(child.element.width)) child.width = child.element.width;
+  if (!isNum(child.height) && isNum(child.element.height)) child.height = child.element.height;
+  if (!isNum(child.x) && isNum(child.element.x)) child.x = child.element.x;
+  if (!isNum(child.y) && isNum(child.element.y)) child.y = child.element.y;
+}
+
+// Legacy node: promote bounds(kind='render') to renderBounds (composition-local). Idempotent.
+export function promoteLegacyBounds(node: any): void {
+  const b = node?.bounds;
+  if (!node || node.renderBounds || !b || typeof b !== 'object') return;
+  const hasNums = isNum(b.x) && isNum(b.y) && isNum(b.width) && isNum(b.height);
+  const kindOk = !('kind' in b) || String(b.kind || '').toLowerCase() === 'render';
+  if (hasNums && kindOk) node.renderBounds = { x: b.x, y: b.y, width: b.width, height: b.height };
+}
+
+const migrateLegacyTo1_0: CompositionMigration = {
+  from: LEGACY_SCHEMA_VERSION,
+  to: '1.0',
+  description: 'promote bounds(kind="render") to renderBounds; flatten top-level element {x,y,width,height}',
+  migrate(composition) {
+    if (!Array.isArray(composition.children)) return;
+    composition.children.forEach(flattenLegacyElement);
+    walkNodes(composition.children, promoteLegacyBounds);
+  },
+};
+
+// Keyed by source version; add one entry per schema bump and move COMPOSITION_SCHEMA_VERSION forward
+export const compositionMigrations: Readonly<Record<string, CompositionMigration>> = {
+  [migrateLegacyTo1_0.from]: migrateLegacyTo1_0,
+};
+
+export function compositionSchemaVersion(composition: any): string {
+  const v = composition?.schemaVersion;
+  return typeof v === 'string' && v ? v : LEGACY_SCHEMA_VERSION;
+}
+
+// True when migrateComposition can bring `composition` to COMPOSITION_SCHEMA_VERSION
+export function canMigrateComposition(composition: any): boolean {
+  let version = compositionSchemaVersion(composition);
+  for (let steps = 0; version !== COMPOSITION_SCHEMA_VERSION; steps++) {
+    const step = compositionMigrations[version];
+    if (!step || steps > Object.keys(compositionMigrations).length) return false;
+    version = step.to;
+  }
+  return true;
+}
+
+/**
+ * Migrate `composition` in place to COMPOSITION_SCHEMA_VERSION. Throws for versions with no migration path
+ * (e.g. a payload from a newer plugin than this pipeline).
+ */
+export function migrateComposition(composition: any): MigrationResult {
+  if (!composition || typeof composition !== 'object') throw new Error('migrate: composition required');
+  const fromVersion = compositionSchemaVersion(composition);
+  const applied: string[] = [];
+  let version = fromVersion;
+  while (version !== COMPOSITION_SCHEMA_VERSION) {
+    const step = compositionMigrations[version];
+    if (!step) throw new Error(`migrate: no migration from schemaVersion ${JSON.stringify(version)} to ${COMPOSITION_SCHEMA_VERSION}`);
+    step.migrate(composition);
+    composition.schemaVersion = step.to;
+    applied.push(`${step.from} → ${step.to}: ${step.description}`);
+    version = step.to;
+  }
+  return { fromVersion, toVersion: version, applied };
+}
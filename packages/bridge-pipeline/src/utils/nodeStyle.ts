@@ -1,7 +1,7 @@
 import { collectPaintCss, collectBorderRadiusCss, parseEffects, type ParsedEffects } from './css';
 import { collectStrokeStyle } from './stroke';
 import { CssCollector } from './cssCollector';
-import { tokensFromParsedEffects, mergeInherited, formatTokensToCss } from './effectsTokens';
+import { tokensFromParsedEffects, withEffectStyle, mergeInherited, formatTokensToCss } from './effectsTokens';
 
 export type EffectTarget = 'self' | 'content';
 export interface NodeStyleShape {
@@ -45,7 +45,7 @@ export function collectNodeBoxCss(
     ? `mix-blend-mode:${blendMode};`
     : '';
   const target: EffectTarget = style?.effectTarget || 'self';
-  let tokens = tokensFromParsedEffects(effects, target, isText);
+  let tokens = withEffectStyle(tokensFromParsedEffects(effects, target, isText), node.style?.effectStyleName);
   if (stroke.boxShadow.length > 0) tokens.boxShadows.push(...stroke.boxShadow);
   if (opts?.inheritedShadows && opts.inheritedShadows.length > 0) {
     tokens = mergeInherited(tokens, opts.inheritedShadows, isText);
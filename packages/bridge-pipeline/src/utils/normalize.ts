@@ -1,6 +1,7 @@
 import { normUpper } from './enum';
 import { isAffine2x3 } from './matrix';
 import { precomputeRenderItemsOnNode } from './renderItems';
+import { migrateComposition, canMigrateComposition, flattenLegacyElement, promoteLegacyBounds } from './migrations';
 
 function upperAssign(obj: any, key: string) {
   if (obj && typeof obj === 'object' && key in obj && typeof obj[key] === 'string') {
@@ -12,15 +13,8 @@ function upperAssign(obj: any, key: string) {
 export function normalizeNode(node: any): void {
   if (!node || typeof node !== 'object') return;
 
-  // Back-compat: promote legacy bounds(kind='render') to renderBounds (composition-local)
-  if (!node.renderBounds && node.bounds && typeof node.bounds === 'object') {
-    const b = node.bounds;
-    const hasNums = typeof b.x === 'number' && typeof b.y === 'number' && typeof b.width === 'number' && typeof b.height === 'number';
-    const kindOk = !('kind' in b) || String(b.kind || '').toLowerCase() === 'render';
-    if (hasNums && kindOk) {
-      node.renderBounds = { x: b.x, y: b.y, width: b.width, height: b.height };
-    }
-  }
+  // Back-compat: legacy bounds(kind='render') → renderBounds, whatever schemaVersion the payload claims
+  promoteLegacyBounds(node);
 
   // Common enum fields found in Figma-derived nodes
   upperAssign(node, 'type');
@@ -91,24 +85,12 @@ export function normalizeNode(node: any): void {
 
 export function normalizeComposition(comp: any): void {
   if (!comp || typeof comp !== 'object') return;
-  // Backward-compat shim: flatten legacy element {x,y,width,height} to top-level fields
+  // Why: normalize is best-effort; versions with no migration path (a newer plugin) are reported by
+  // validateComposition, not thrown here
+  if (canMigrateComposition(comp)) migrateComposition(comp);
   if (Array.isArray(comp.children)) {
-    for (const ch of comp.children) {
-      if (ch && typeof ch === 'object' && ch.element) {
-        if (typeof ch.width !== 'number' && typeof ch.element.width === 'number') {
-          ch.width = ch.element.width;
-        }
-        if (typeof ch.height !== 'number' && typeof ch.element.height === 'number') {
-          ch.height = ch.element.height;
-        }
-        if (typeof ch.x !== 'number' && typeof ch.element.x === 'number') {
-          ch.x = ch.element.x;
-        }
-        if (typeof ch.y !== 'number' && typeof ch.element.y === 'number') {
-          ch.y = ch.element.y;
-        }
-      }
-    }
+    // Backward-compat shim: flatten legacy element {x,y,width,height} to top-level fields
+    comp.children.forEach(flattenLegacyElement);
     comp.children.forEach(normalizeNode);
     // Ensure top-level children carry renderBounds for IR render union computation
     for (let i = 0; i < comp.children.length; i++) {
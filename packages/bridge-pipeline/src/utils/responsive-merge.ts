@@ -0,0 +1,206 @@
+import * as cheerio from 'cheerio';
+import type { RenderNodeIR } from '../pipeline/types';
+import { buildUtilityCssSelective } from './utility-css';
+import { parseCssRules, baseDeclarations } from './tailwind-export';
+import { parseDeclarations } from './css-parser';
+
+// Responsive merge: several renders of the same screen (Desktop/Tablet/Mobile frames) become one
+// tree whose per-element declarations live in classes, with differences moved into @media rules.
+
+export const RESPONSIVE_KEY_ATTR = 'data-rk';
+
+export type ResponsiveVariantHtml = {
+  width: number;
+  html: string;
+  cssRules: string;
+};
+
+export type ResponsiveMergeResult = {
+  html: string;
+  css: string;
+  breakpoints: { width: number; media: string }[];
+  // Keys present in a narrower variant but missing from the base (widest) tree; they cannot be rendered
+  unmatched: { width: number; key: string }[];
+  // Elements whose text differs from the base tree; media rules cannot swap text, so the base text is kept
+  textConflicts: { width: number; key: string; text: string; baseText: string }[];
+};
+
+type Decls = Map<string, string>;
+type ElementInfo = { el: any; decls: Decls; pseudo: Map<string, Decls> };
+
+/**
+ * Tag every IR node with a path key built from layer names; top-level frames are matched by position
+ * because their names usually carry the breakpoint ("Desktop", "Mobile").
+ */
+export function assignResponsiveKeys(nodes: RenderNodeIR[]): void {
+  const visit = (node: RenderNodeIR, key: string) => {
+    node.attrs = { ...node.attrs, [RESPONSIVE_KEY_ATTR]: key };
+    if (node.content.type !== 'children') return;
+    const seen = new Map<string, number>();
+    for (const child of node.content.nodes || []) {
+      const name = String(child.name || child.kind).replace(/[/>~]/g, '-');
+      const n = seen.get(name) || 0;
+      seen.set(name, n + 1);
+      visit(child, `${key}/${name}${n ? `~${n}` : ''}`);
+    }
+  };
+  (nodes || []).forEach((node, i) => visit(node, String(i)));
+}
+
+// Why: each utility class maps to exactly one `.cls{...}` rule, so its declarations can be read back
+const utilityCache = new Map<string, [string, string][] | null>();
+function utilityDeclarations(cls: string): [string, string][] | null {
+  if (!utilityCache.has(cls)) {
+    const m = buildUtilityCssSelective([cls]).match(/\{([^}]*)\}/);
+    utilityCache.set(cls, m ? parseDeclarations(m[1]) : null);
+  }
+  return utilityCache.get(cls)!;
+}
+
+// Unkeyed elements (wrapper inner boxes, text runs, svg images) are keyed by order under their keyed ancestor
+function collectElements($: cheerio.Root): Map<string, ElementInfo> {
+  const out = new Map<string, ElementInfo>();
+  const walk = (el: any, ownerKey: string, counter: { n: number }) => {
+    let key = el.attribs?.[RESPONSIVE_KEY_ATTR];
+    let childCounter = counter;
+    if (key) {
+      childCounter = { n: 0 };
+    } else {
+      key = `${ownerKey}>${el.name}:${counter.n++}`;
+    }
+    const decls: Decls = new Map();
+    for (const cls of String(el.attribs?.class || '').split(/\s+/).filter(Boolean)) {
+      for (const [k, v] of utilityDeclarations(cls) || []) decls.set(k, v);
+    }
+    for (const [k, v] of parseDeclarations(el.attribs?.style || '')) decls.set(k, v);
+    out.set(key, { el, decls, pseudo: new Map() });
+    for (const child of el.children || []) {
+      if (child.type === 'tag') walk(child, key, childCounter);
+    }
+  };
+  const rootCounter = { n: 0 };
+  $('body').children().toArray().forEach((el: any) => walk(el, '', rootCounter));
+  return out;
+}
+
+function attachPseudoRules(elements: Map<string, ElementInfo>, cssRules: string): string[] {
+  const byLayerId = new Map<string, ElementInfo>();
+  elements.forEach(info => {
+    const id = info.el.attribs?.['data-layer-id'];
+    if (id) byLayerId.set(id, info);
+  });
+  const leftover: string[] = [];
+  for (const rule of parseCssRules(cssRules)) {
+    const m = rule.selector.match(/^\[data-layer-id="([^"]+)"\]::(before|after)$/);
+    const target = m ? byLayerId.get(m[1]) : undefined;
+    if (!m || !target) {
+      leftover.push(`${rule.selector} { ${rule.body} }`);
+      continue;
+    }
+    target.pseudo.set(`::${m[2]}`, new Map(parseDeclarations(rule.body)));
+  }
+  return leftover;
+}
+
+// Value a declaration falls back to once a narrower variant drops it
+function fallbackValue(info: ElementInfo, prop: string): string {
+  const classNames = String(info.el.attribs?.class || '').split(/\s+/).filter(Boolean);
+  const base = baseDeclarations(classNames).find(([k]) => k === prop);
+  if (base) return base[1];
+  if (prop === 'display') return info.el.name === 'span' || info.el.name === 'br' ? 'inline' : 'block';
+  return 'initial';
+}
+
+// Text directly inside the element; nested elements (text runs) are compared on their own.
+// Why: whitespace is collapsed — joins between boxes differ with the child count
+function ownText(el: any): string {
+  return (el.children || []).filter((c: any) => c.type === 'text').map((c: any) => c.data || '').join('').replace(/\s+/g, ' ').trim();
+}
+
+function declsToCss(selector: string, decls: Decls): string {
+  if (!decls.size) return '';
+  return `${selector}{${Array.from(decls.entries()).map(([k, v]) => `${k}:${v};`).join('')}}`;
+}
+
+function diffDecls(prev: Decls, next: Decls, fallback: (prop: string) => string): Decls {
+  const out: Decls = new Map();
+  next.forEach((v, k) => { if (prev.get(k) !== v) out.set(k, v); });
+  prev.forEach((_v, k) => { if (!next.has(k)) out.set(k, fallback(k)); });
+  return out;
+}
+
+export function mergeResponsiveHtml(variants: ResponsiveVariantHtml[]): ResponsiveMergeResult {
+  if (!Array.isArray(variants) || variants.length === 0) throw new Error('mergeResponsiveHtml: variants required');
+  const sorted = variants.slice().sort((a, b) => b.width - a.width);
+  const widths = new Set(sorted.map(v => v.width));
+  if (widths.size !== sorted.length) throw new Error('mergeResponsiveHtml: breakpoint widths must be unique');
+
+  const parsed = sorted.map(v => {
+    const $ = cheerio.load(v.html || '');
+    const elements = collectElements($);
+    const leftover = attachPseudoRules(elements, v.cssRules);
+    return { width: v.width, $, elements, leftover };
+  });
+  const base = parsed[0];
+
+  // Base tree: declarations move from class utilities/inline styles into one class per element
+  const classOf = new Map<string, string>();
+  const rules: string[] = [];
+  let idx = 0;
+  base.elements.forEach((info, key) => {
+    const cls = `r-${idx++}`;
+    classOf.set(key, cls);
+    const $el = base.$(info.el);
+    const kept = String($el.attr('class') || '').split(/\s+/).filter(c => c && !utilityDeclarations(c));
+    $el.attr('class', [...kept, cls].join(' '));
+    $el.removeAttr('style');
+    $el.removeAttr(RESPONSIVE_KEY_ATTR);
+    rules.push(declsToCss(`.${cls}`, info.decls));
+    info.pseudo.forEach((decls, pseudo) => rules.push(declsToCss(`.${cls}${pseudo}`, decls)));
+  });
+
+  const breakpoints: { width: number; media: string }[] = [];
+  const unmatched: { width: number; key: string }[] = [];
+  const textConflicts: ResponsiveMergeResult['textConflicts'] = [];
+  let prev = base.elements;
+  for (let i = 1; i < parsed.length; i++) {
+    const variant = parsed[i];
+    // Why: desktop-first — each variant applies below the next wider design width
+    const media = `(max-width: ${parsed[i - 1].width - 1}px)`;
+    breakpoints.push({ width: variant.width, media });
+    const mediaRules: string[] = [];
+    const effective = new Map<string, ElementInfo>();
+    base.elements.forEach((baseInfo, key) => {
+      const cls = classOf.get(key)!;
+      const before = prev.get(key)!;
+      const found = variant.elements.get(key);
+      // Why: a missing node only needs hiding; its other declarations stay so a narrower variant can diff against them
+      const next: ElementInfo = found || { el: baseInfo.el, decls: new Map([...before.decls, ['display', 'none']]), pseudo: before.pseudo };
+      effective.set(key, next);
+      const text = found ? ownText(found.el) : '';
+      if (found && text !== ownText(baseInfo.el)) textConflicts.push({ width: variant.width, key, text, baseText: ownText(baseInfo.el) });
+      const fallback = (prop: string) => fallbackValue(baseInfo, prop);
+      mediaRules.push(declsToCss(`.${cls}`, diffDecls(before.decls, next.decls, fallback)));
+      const pseudos = new Set([...before.pseudo.keys(), ...next.pseudo.keys()]);
+      pseudos.forEach(pseudo => {
+        const a = before.pseudo.get(pseudo) || new Map();
+        const b = next.pseudo.get(pseudo) || new Map([['content', 'none']]);
+        mediaRules.push(declsToCss(`.${cls}${pseudo}`, diffDecls(a, b, () => 'initial')));
+      });
+    });
+    variant.elements.forEach((_info, key) => {
+      if (!base.elements.has(key) && !key.includes('>')) unmatched.push({ width: variant.width, key });
+    });
+    const body = mediaRules.filter(Boolean).join('\n  ');
+    if (body) rules.push(`@media ${media} {\n  ${body}\n}`);
+    prev = effective;
+  }
+
+  return {
+    html: base.$('body').html() || '',
+    css: [...rules.filter(Boolean), ...base.leftover].join('\n'),
+    breakpoints,
+    unmatched,
+    textConflicts,
+  };
+}
@@ -0,0 +1,163 @@
+import type { RenderNodeIR, SemanticTag } from '../pipeline/types';
+
+// Semantic element inference: layer-name conventions first, then light structural heuristics.
+// Only the element name changes — classes, inline styles and layout stay identical.
+
+type NameRule = { re: RegExp; tag: SemanticTag };
+
+// Matched against the trailing words of a name segment ("Primary Button" → button, "Button Group" → none)
+const FRAME_RULES: NameRule[] = [
+  { re: /(^| )(button|btn|cta)$/, tag: 'button' },
+  { re: /(^| )(link|anchor)$/, tag: 'a' },
+  { re: /(^| )(input|text ?field|text ?input|text ?box|search ?(bar|field|box))$/, tag: 'input' },
+  { re: /(^| )(nav ?bar|navigation|nav|menu|tab ?bar|breadcrumbs?)$/, tag: 'nav' },
+  { re: /(^| )(header|top ?bar|app ?bar|masthead)$/, tag: 'header' },
+  { re: /(^| )list$/, tag: 'ul' },
+  { re: /(^| )(list ?item|item)$/, tag: 'li' },
+];
+
+const TEXT_RULES: NameRule[] = [
+  { re: /(^| )(paragraph|body|description|desc|caption|copy)( ?[a-z0-9]+)?$/, tag: 'p' },
+  { re: /(^| )(link|anchor)$/, tag: 'a' },
+  { re: /(^| )(input|placeholder)$/, tag: 'input' },
+];
+
+// "H1", "Heading 2", "Title" → heading; an explicit level wins, otherwise the font size decides
+const HEADING_RE = /^(h|heading|headline|title|display) ?([1-6])?$/;
+
+const INTERACTIVE: ReadonlySet<SemanticTag> = new Set<SemanticTag>(['button', 'a', 'input']);
+
+// "Components/PrimaryButton" → ['primary button', 'components']; variant segments ("Size=md") are dropped
+function nameSegments(name: string): string[] {
+  return String(name || '')
+    .split('/')
+    .filter(seg => !seg.includes('='))
+    .map(seg => seg
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim())
+    .filter(Boolean)
+    .reverse();
+}
+
+function matchRules(name: string, rules: NameRule[]): SemanticTag | undefined {
+  for (const seg of nameSegments(name)) {
+    for (const rule of rules) {
+      if (rule.re.test(seg)) return rule.tag;
+    }
+  }
+  return undefined;
+}
+
+function textStats(node: RenderNodeIR): { chars: string; fontSize: number; fontWeight: number } {
+  const text = node.text || {};
+  const chars = String(text.characters || '').trim();
+  let fontSize = 0;
+  let fontWeight = 0;
+  for (const seg of text.segments || []) {
+    if (typeof seg.fontSize === 'number') fontSize = Math.max(fontSize, seg.fontSize);
+    if (typeof seg.fontWeight === 'number') fontWeight = Math.max(fontWeight, seg.fontWeight);
+  }
+  return { chars, fontSize, fontWeight };
+}
+
+function headingBySize(fontSize: number): SemanticTag | undefined {
+  if (fontSize >= 32) return 'h1';
+  if (fontSize >= 24) return 'h2';
+  if (fontSize >= 20) return 'h3';
+  return undefined;
+}
+
+function inferTextTag(node: RenderNodeIR): SemanticTag | undefined {
+  const { chars, fontSize, fontWeight } = textStats(node);
+  // Why: Figma names text layers after their content by default; only an explicit rename is a convention
+  const candidates = [node.text?.textStyleName, node.name !== node.text?.characters ? node.name : undefined];
+  for (const name of candidates) {
+    if (!name) continue;
+    for (const seg of nameSegments(name)) {
+      const m = seg.match(HEADING_RE);
+      if (m && (m[2] || m[1] !== 'h')) return m[2] ? `h${m[2]}` as SemanticTag : (headingBySize(fontSize) || 'h2');
+    }
+    const hit = matchRules(name, TEXT_RULES);
+    if (hit) return hit;
+  }
+  if (!chars) return undefined;
+  const singleLine = !/\n/.test(chars);
+  if (singleLine && chars.length <= 120 && fontWeight >= 600 && /\p{L}{2}/u.test(chars)) {
+    const heading = headingBySize(fontSize);
+    if (heading) return heading;
+  }
+  if (chars.length >= 40 || /[.!?。！？]$/.test(chars)) return 'p';
+  return undefined;
+}
+
+function childNodes(node: RenderNodeIR): RenderNodeIR[] {
+  return node.content.type === 'children' && Array.isArray(node.content.nodes) ? node.content.nodes : [];
+}
+
+// Repeated siblings sharing a main component or a non-default name read as list items
+function looksLikeList(node: RenderNodeIR): boolean {
+  const kids = childNodes(node);
+  if (kids.length < 3 || node.layout.display !== 'flex') return false;
+  if (!kids.every(k => k.kind === 'frame')) return false;
+  const keyOf = (k: RenderNodeIR) => k.component?.mainComponentId || (/^(frame|group|rectangle)( \d+)?$/i.test(k.name) ? '' : k.name);
+  const first = keyOf(kids[0]);
+  return !!first && kids.every(k => keyOf(k) === first);
+}
+
+// ul children must all be li; shapes/svgs render through other paths, so only frame/text lists qualify
+function canHoldListItems(node: RenderNodeIR): boolean {
+  const kids = childNodes(node);
+  return kids.length > 0 && kids.every(k => k.kind === 'frame' || k.kind === 'text');
+}
+
+type Scope = { interactive: boolean; landmark: Set<string>; listParent: boolean };
+
+function visit(node: RenderNodeIR, scope: Scope): void {
+  const hasWrapper = !!node.layout.wrapper;
+  let tag: SemanticTag | undefined;
+
+  if (scope.listParent) {
+    tag = 'li';
+  } else if (!scope.interactive && !hasWrapper) {
+    if (node.kind === 'text') {
+      tag = inferTextTag(node);
+    } else if (node.kind === 'frame') {
+      tag = matchRules(node.name, FRAME_RULES) || (looksLikeList(node) ? 'ul' : undefined);
+      if (tag === 'li') tag = undefined;
+      if ((tag === 'header' || tag === 'nav') && scope.landmark.has(tag)) tag = undefined;
+      if (tag === 'ul' && !canHoldListItems(node)) tag = undefined;
+    }
+  }
+
+  // Why: <input> is void — an input-like frame keeps its box (border, padding) and its text becomes the field
+  if (tag === 'input' && node.kind === 'frame') {
+    const field = childNodes(node).find(k => k.kind === 'text' && !k.layout.wrapper);
+    if (field) field.tag = 'input';
+    tag = undefined;
+  }
+  if (tag) node.tag = tag;
+
+  const landmark = new Set(scope.landmark);
+  if (tag === 'header' || tag === 'nav') landmark.add(tag);
+  const childScope: Scope = {
+    interactive: scope.interactive || (!!tag && INTERACTIVE.has(tag)),
+    landmark,
+    listParent: tag === 'ul',
+  };
+  for (const child of childNodes(node)) {
+    if (child.tag === 'input') continue;
+    visit(child, childScope);
+  }
+}
+
+/**
+ * Assign `tag` to IR nodes (button/header/nav/h1–h6/p/ul/li/input/a).
+ * Nodes without a confident match stay <div>.
+ */
+export function applySemanticTags(nodes: RenderNodeIR[]): void {
+  for (const node of nodes || []) {
+    visit(node, { interactive: false, landmark: new Set(), listParent: false });
+  }
+}
@@ -18,7 +18,7 @@ export function migrateShadowsToOuter(
   for (const itRaw of items) {
     const it = itRaw.trim();
     if (/^inset\b/i.test(it)) { keepList.push(it); continue; }
-    const m = it.match(/^(?:inset\s+)?(-?\d+(?:\.\d+)?(?:px)?)\s+(-?\d+(?:\.\d+)?(?:px)?)\s+(\d+(?:\.\d+)?(?:px)?)(?:\s+(-?\d+(?:\.\d+)?(?:px)?))?\s+(rgba?\([^)]*\)|hsla?\([^)]*\)|#[0-9a-fA-F]{3,8}|[a-zA-Z]+)/i);
+    const m = it.match(/^(?:inset\s+)?(-?\d+(?:\.\d+)?(?:px)?)\s+(-?\d+(?:\.\d+)?(?:px)?)\s+(\d+(?:\.\d+)?(?:px)?)(?:\s+(-?\d+(?:\.\d+)?(?:px)?))?\s+(var\([^()]*(?:\([^()]*\)[^()]*)*\)|rgba?\([^)]*\)|hsla?\([^)]*\)|#[0-9a-fA-F]{3,8}|[a-zA-Z]+)/i);
     if (m) {
       const x = m[1]; const y = m[2]; const blur = m[3]; const color = m[5];
       dropList.push(`drop-shadow(${x} ${y} ${blur} ${color})`);
@@ -1,4 +1,4 @@
-import { rgbaToCss, type ParsedEffects, gradientToCssValue, type GradientFill } from './css';
+import { rgbaToCss, withCssVar, type ParsedEffects, gradientToCssValue, type GradientFill } from './css';
 import { type RadiiData } from './borderRadius';
 import { CssCollector } from './cssCollector';
 
@@ -14,6 +14,8 @@ type StrokeKind = 'solid' | 'gradient';
 interface StrokeDataSolid {
   kind: 'solid';
   color: string;
+  // Literal color for contexts where var() cannot resolve (data-URI SVG)
+  resolvedColor: string;
   align: string;
   weights: StrokeWeights;
   dashPattern?: number[];
@@ -55,13 +57,14 @@ function extractStrokeData(node: any): StrokeData | null {
   if (!visible) return null;
 
   if (visible?.type === 'SOLID') {
-    const color = visible.color ? rgbaToCss(visible.color) : null;
-    if (!color) return null;
+    const resolvedColor = visible.color ? rgbaToCss(visible.color) : null;
+    if (!resolvedColor) return null;
+    const color = withCssVar(resolvedColor, visible.boundVariables?.color?.name || style.strokeStyleName);
     const weights = style.strokeWeights || { t: 0, r: 0, b: 0, l: 0 };
     const dashPattern = Array.isArray((style && style.dashPattern)) && (style.dashPattern as any[]).every((v: any) => typeof v === 'number')
       ? (style.dashPattern as number[])
       : undefined;
-    return { kind: 'solid', color, align: style.strokeAlign || 'INSIDE', weights, dashPattern };
+    return { kind: 'solid', color, resolvedColor, align: style.strokeAlign || 'INSIDE', weights, dashPattern };
   }
 
   if (visible?.type === 'GRADIENT_LINEAR') {
@@ -278,7 +281,7 @@ function generateEllipseDashedPseudo(
 
   const svg = `<?xml version="1.0" encoding="UTF-8"?>` +
     `<svg xmlns='http://www.w3.org/2000/svg' width='${pseudoW}' height='${pseudoH}' viewBox='0 0 ${pseudoW} ${pseudoH}'>` +
-    `<ellipse cx='${cx}' cy='${cy}' rx='${rx}' ry='${ry}' fill='none' stroke='${data.color}' stroke-width='${s}' stroke-dasharray='${dashStr}' stroke-linecap='butt' shape-rendering='geometricPrecision'/>` +
+    `<ellipse cx='${cx}' cy='${cy}' rx='${rx}' ry='${ry}' fill='none' stroke='${data.resolvedColor}' stroke-width='${s}' stroke-dasharray='${dashStr}' stroke-linecap='butt' shape-rendering='geometricPrecision'/>` +
     `</svg>`;
 
   const encoded = encodeURIComponent(svg);
@@ -315,10 +318,10 @@ function generateRectDashedPseudo(
   const dashStr = dash.join(' ');
 
   const box = calcRectPseudoBox(nodeW, nodeH, s, align);
-  let svg = buildRectSvg(box, data.color, s, dashStr, radii, align);
+  let svg = buildRectSvg(box, data.resolvedColor, s, dashStr, radii, align);
   if (radii && (Array.isArray(radii.corners) || typeof radii.uniform === 'number')) {
     const corners = computeCornerRadiiForPath(radii, s, align, box.w, box.h);
-    svg = buildRoundedPathSvg(box, corners, data.color, s, dashStr);
+    svg = buildRoundedPathSvg(box, corners, data.resolvedColor, s, dashStr);
   }
   return assembleSvgPseudoCss(svg, box.inset, effects, radii, align);
 }
@@ -0,0 +1,204 @@
+import * as cheerio from 'cheerio';
+import { cssToTailwindClasses } from './tailwind-mapper';
+import { sanitizeClassName } from './class-naming';
+import { parseDeclarations } from './css-parser';
+
+// Tailwind-only export: every inline declaration and pseudo-element rule becomes a class,
+// so the output needs no stylesheet besides Tailwind itself.
+
+type Entry = [key: string, value: string];
+
+export type TailwindConfig = {
+  content: string[];
+  theme: { extend: { fontFamily: Record<string, string[]> } };
+};
+
+export type TailwindExportResult = {
+  html: string;
+  // Rules that could not be attached to an element (kept as plain CSS)
+  leftoverCss: string;
+  config: TailwindConfig;
+  configFile: string;
+};
+
+// Why: mirrors buildComponentBaseStyles — without a stylesheet these must travel as classes too
+const BASE_DECLARATIONS: Record<string, Entry[]> = {
+  'content-layer': [['position', 'relative'], ['z-index', '0']],
+  'frame': [['box-sizing', 'border-box'], ['position', 'relative'], ['z-index', '0']],
+  'shape': [['box-sizing', 'border-box'], ['position', 'relative'], ['z-index', '0']],
+  'text': [['box-sizing', 'border-box'], ['position', 'relative'], ['z-index', '0']],
+  'svg-container': [['box-sizing', 'border-box'], ['position', 'relative'], ['z-index', '0']],
+  'mask-container': [['box-sizing', 'border-box'], ['position', 'relative'], ['z-index', '0']],
+};
+
+const SEMANTIC_TAGS = new Set(['button', 'a', 'input', 'header', 'nav', 'ul', 'li', 'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+
+const KEYWORD_CLASSES: Record<string, Record<string, string>> = {
+  'position': { absolute: 'absolute', relative: 'relative', fixed: 'fixed', static: 'static', sticky: 'sticky' },
+  'display': { block: 'block', 'inline-block': 'inline-block', inline: 'inline', flex: 'flex', 'inline-flex': 'inline-flex', grid: 'grid', none: 'hidden' },
+  'visibility': { hidden: 'invisible', visible: 'visible' },
+  'pointer-events': { none: 'pointer-events-none', auto: 'pointer-events-auto' },
+  'font-style': { italic: 'italic', normal: 'not-italic' },
+  'text-transform': { uppercase: 'uppercase', lowercase: 'lowercase', capitalize: 'capitalize', none: 'normal-case' },
+  'text-decoration': { underline: 'underline', 'line-through': 'line-through', none: 'no-underline' },
+};
+
+// Properties whose Tailwind utility accepts any arbitrary value unambiguously
+const ARBITRARY_PREFIX: Record<string, string> = {
+  'left': 'left', 'top': 'top', 'right': 'right', 'bottom': 'bottom', 'inset': 'inset',
+  'width': 'w', 'height': 'h',
+  'min-width': 'min-w', 'min-height': 'min-h', 'max-width': 'max-w', 'max-height': 'max-h',
+  'z-index': 'z', 'opacity': 'opacity',
+  'box-shadow': 'shadow', 'border-radius': 'rounded', 'transform-origin': 'origin',
+  'flex-basis': 'basis', 'flex-grow': 'grow', 'flex-shrink': 'shrink',
+  'gap': 'gap', 'row-gap': 'gap-y', 'column-gap': 'gap-x',
+  'padding': 'p', 'padding-top': 'pt', 'padding-right': 'pr', 'padding-bottom': 'pb', 'padding-left': 'pl',
+  'margin': 'm', 'margin-top': 'mt', 'margin-right': 'mr', 'margin-bottom': 'mb', 'margin-left': 'ml',
+  'font-size': 'text', 'line-height': 'leading', 'letter-spacing': 'tracking', 'font-weight': 'font',
+};
+
+// Why: text-[..]/bg-[..] are shared with size/image utilities; only use them when the value is clearly a color
+const COLOR_PREFIX: Record<string, string> = { 'color': 'text', 'background-color': 'bg', 'background': 'bg' };
+const COLOR_RE = /^(#[0-9a-f]{3,8}|(rgba?|hsla?)\([^()]*\)|transparent|currentcolor)$/i;
+
+// Declarations the base stylesheet gives an element through its semantic classes (.frame, .text, ...)
+export function baseDeclarations(classNames: string[]): Entry[] {
+  const base: Entry[] = [];
+  for (const c of classNames) {
+    if (BASE_DECLARATIONS[c]) base.push(...BASE_DECLARATIONS[c]);
+  }
+  return base;
+}
+
+function stringifyCss(entries: Entry[]): string {
+  return entries.map(([k, v]) => `${k}:${v};`).join('');
+}
+
+// Why: Tailwind reads '_' as a space inside brackets; url(...) contents are left untouched by Tailwind
+function toArbitrary(value: string): string {
+  let out = '';
+  let urlDepth = 0;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (urlDepth === 0 && value.slice(i, i + 4).toLowerCase() === 'url(') {
+      urlDepth = 1;
+      out += value.slice(i, i + 4);
+      i += 3;
+      continue;
+    }
+    if (urlDepth > 0) {
+      if (ch === '(') urlDepth++;
+      if (ch === ')') urlDepth--;
+      out += ch;
+      continue;
+    }
+    if (ch === '_') out += '\\_';
+    else if (/\s/.test(ch)) out += (out.endsWith('_') ? '' : '_');
+    else out += ch;
+  }
+  return out;
+}
+
+function parseFontFamily(value: string): string[] {
+  return value.split(',').map(s => s.trim().replace(/^["']|["']$/g, '')).filter(Boolean);
+}
+
+function declarationToClass(k: string, v: string, fonts: Map<string, string[]>): string {
+  const keyword = KEYWORD_CLASSES[k]?.[v.toLowerCase()];
+  if (keyword) return keyword;
+  if (k === 'font-family') {
+    const families = parseFontFamily(v);
+    const key = sanitizeClassName(families[0] || '');
+    if (key) {
+      if (!fonts.has(key)) fonts.set(key, families);
+      return `font-${key}`;
+    }
+  }
+  if (COLOR_PREFIX[k] && COLOR_RE.test(v)) return `${COLOR_PREFIX[k]}-[${toArbitrary(v)}]`;
+  if (ARBITRARY_PREFIX[k]) return `${ARBITRARY_PREFIX[k]}-[${toArbitrary(v)}]`;
+  return `[${k}:${toArbitrary(v)}]`;
+}
+
+async function declarationsToClasses(entries: Entry[], fonts: Map<string, string[]>, variant: string = ''): Promise<string[]> {
+  const classes: string[] = [];
+  // Why: reuse the regular mapper first so common values keep their familiar utility names
+  const mapped = variant ? { classNames: [] as string[], remainingCss: stringifyCss(entries) } : await cssToTailwindClasses(stringifyCss(entries));
+  classes.push(...mapped.classNames);
+  for (const [k, v] of parseDeclarations(mapped.remainingCss)) {
+    classes.push(variant + declarationToClass(k, v, fonts));
+  }
+  return classes;
+}
+
+function mergeEntries(base: Entry[], inline: Entry[]): Entry[] {
+  const map = new Map<string, string>();
+  for (const [k, v] of base) map.set(k, v);
+  for (const [k, v] of inline) {
+    map.delete(k); // last-wins, keep declaration order of the winner
+    map.set(k, v);
+  }
+  return Array.from(map.entries());
+}
+
+export function parseCssRules(cssRules: string): { selector: string; body: string }[] {
+  const out: { selector: string; body: string }[] = [];
+  const re = /([^{}]+)\{([^}]*)\}/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(cssRules || ''))) {
+    out.push({ selector: m[1].trim(), body: m[2].trim() });
+  }
+  return out;
+}
+
+export function buildTailwindConfig(fonts: Map<string, string[]>): TailwindConfig {
+  const fontFamily: Record<string, string[]> = {};
+  fonts.forEach((families, key) => { fontFamily[key] = families; });
+  return { content: ['./index.html'], theme: { extend: { fontFamily } } };
+}
+
+export function formatTailwindConfig(config: TailwindConfig): string {
+  return `/** @type {import('tailwindcss').Config} */\nmodule.exports = ${JSON.stringify(config, null, 2)};\n`;
+}
+
+export async function inlineStylesToTailwind(html: string, cssRules: string): Promise<TailwindExportResult> {
+  const $ = cheerio.load(html || '');
+  const fonts = new Map<string, string[]>();
+
+  const elements = $('body *').toArray();
+  for (const el of elements) {
+    const $el = $(el);
+    const classNames = ($el.attr('class') || '').split(/\s+/).filter(Boolean);
+    const base = baseDeclarations(classNames);
+    // Why: preflight leaves button/input/a inline(-block); the reset stylesheet is not shipped in this mode
+    if (SEMANTIC_TAGS.has((el as any).name) && (classNames.includes('frame') || classNames.includes('text'))) {
+      if (!classNames.some(c => c === 'flex' || c === 'inline-flex' || c === 'grid' || c === 'hidden')) base.push(['display', 'block']);
+      if ((el as any).name === 'input') classNames.push('placeholder:text-inherit');
+    }
+    if ((el as any).name === 'img' && $el.parent().hasClass('svg-container')) {
+      base.push(['display', 'block'], ['width', '100%'], ['height', '100%']);
+    }
+    const inline = parseDeclarations($el.attr('style') || '');
+    if (!base.length && !inline.length) continue;
+    const extra = await declarationsToClasses(mergeEntries(base, inline), fonts);
+    const merged = Array.from(new Set([...classNames, ...extra]));
+    $el.attr('class', merged.join(' '));
+    $el.removeAttr('style');
+  }
+
+  const leftover: string[] = [];
+  for (const rule of parseCssRules(cssRules)) {
+    const m = rule.selector.match(/^\[data-layer-id="([^"]+)"\]::(before|after)$/);
+    const target = m ? $('body').find(`[data-layer-id="${m[1]}"]`).first() : null;
+    if (!m || !target || !target.length) {
+      leftover.push(`${rule.selector} { ${rule.body} }`);
+      continue;
+    }
+    const entries = parseDeclarations(rule.body);
+    const classes = await declarationsToClasses(entries, fonts, `${m[2]}:`);
+    const existing = (target.attr('class') || '').split(/\s+/).filter(Boolean);
+    target.attr('class', Array.from(new Set([...existing, ...classes])).join(' '));
+  }
+
+  const config = buildTailwindConfig(fonts);
+  return { html: $('body').html() || '', leftoverCss: leftover.join('\n'), config, configFile: formatTailwindConfig(config) };
+}
@@ -550,6 +550,14 @@ export async function layoutToTailwindClasses(layout: LayoutInfo, extraCss: stri
   if (typeof layout.flexShrink === 'number' && layout.flexShrink === 0) classes.add('shrink-0');
   if (layout.flexBasis === 0) classes.add('basis-0');
   if (layout.flexBasis === 'auto') classes.add('basis-auto');
+  // Min/max size limits
+  {
+    const fmt = (n: number) => (Number.isInteger(n) ? String(n) : String(Number(n.toFixed(2))));
+    if (typeof layout.minWidth === 'number') classes.add(`min-w-[${fmt(layout.minWidth)}px]`);
+    if (typeof layout.maxWidth === 'number') classes.add(`max-w-[${fmt(layout.maxWidth)}px]`);
+    if (typeof layout.minHeight === 'number') classes.add(`min-h-[${fmt(layout.minHeight)}px]`);
+    if (typeof layout.maxHeight === 'number') classes.add(`max-h-[${fmt(layout.maxHeight)}px]`);
+  }
   const asMap: Record<string, string> = {
     'flex-start': 'self-start',
     'flex-end': 'self-end',
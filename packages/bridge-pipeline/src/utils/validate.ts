@@ -0,0 +1,171 @@
+import { compositionSchema, COMPOSITION_SCHEMA_VERSION } from '../types/composition-schema';
+import { migrateComposition } from './migrations';
+
+// Collects every problem in a composition payload (instead of failing on the first like normalize/IR do),
+// each with a JSON path and the owning node, so plugin/DSL bugs can be fixed from one report.
+
+export type CompositionIssue = {
+  severity: 'error' | 'warning';
+  // JSON path into the payload, e.g. $.children[0].children[2].renderBounds
+  path: string;
+  message: string;
+  nodeId?: string;
+  nodeName?: string;
+};
+
+export type CompositionValidation = {
+  valid: boolean;
+  schemaVersion: string | null;
+  errors: CompositionIssue[];
+  warnings: CompositionIssue[];
+};
+
+type Schema = Record<string, any>;
+type NodeRef = { id?: string; name?: string };
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  if (type === 'integer') return Number.isInteger(value);
+  if (type === 'number') return typeof value === 'number' && isFinite(value);
+  return typeOf(value) === type;
+}
+
+function resolveRef(schema: Schema): Schema {
+  if (typeof schema.$ref !== 'string') return schema;
+  const name = schema.$ref.replace('#/definitions/', '');
+  return (compositionSchema.definitions as Record<string, Schema>)[name] || {};
+}
+
+function nodeRef(value: any): NodeRef {
+  return {
+    id: value?.id !== undefined ? String(value.id) : undefined,
+    name: typeof value?.name === 'string' ? value.name : undefined,
+  };
+}
+
+function describeNode(ref: NodeRef): string {
+  if (ref.name && ref.id) return ` in "${ref.name}" (${ref.id})`;
+  if (ref.name || ref.id) return ` in ${ref.name ? `"${ref.name}"` : ref.id}`;
+  return '';
+}
+
+// Subset of JSON Schema used by compositionSchema: type, enum, required, properties, items, min/max, anyOf, $ref
+function checkSchema(value: any, raw: Schema, path: string, node: NodeRef, out: CompositionIssue[]) {
+  const schema = resolveRef(raw);
+  const owner = raw.$ref === '#/definitions/node' ? nodeRef(value) : node;
+  const push = (p: string, message: string) => out.push({ severity: 'error', path: p, message: `${message}${describeNode(owner)}`, nodeId: owner.id, nodeName: owner.name });
+
+  if (Array.isArray(schema.anyOf)) {
+    const ok = schema.anyOf.some((alt: Schema) => {
+      const tmp: CompositionIssue[] = [];
+      checkSchema(value, alt, path, owner, tmp);
+      return tmp.length === 0;
+    });
+    if (!ok) push(path, `unexpected ${typeOf(value)} value`);
+    return;
+  }
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(t => matchesType(value, t))) {
+      push(path, `expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    push(path, `expected one of ${schema.enum.join(', ')}, got ${JSON.stringify(value)}`);
+  }
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) push(path, `must be >= ${schema.minimum}, got ${value}`);
+    if (typeof schema.maximum === 'number' && value > schema.maximum) push(path, `must be <= ${schema.maximum}, got ${value}`);
+  }
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) push(path, `expected at least ${schema.minItems} items, got ${value.length}`);
+    if (schema.items) value.forEach((item, i) => checkSchema(item, schema.items, `${path}[${i}]`, owner, out));
+    return;
+  }
+  if (value && typeof value === 'object') {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) push(`${path}.${key}`, `missing required "${key}"`);
+    }
+    for (const [key, sub] of Object.entries<Schema>(schema.properties || {})) {
+      if (value[key] !== undefined) checkSchema(value[key], sub, `${path}.${key}`, owner, out);
+    }
+  }
+}
+
+function isRect(r: any): boolean {
+  return !!r && typeof r === 'object' && ['x', 'y', 'width', 'height'].every(k => typeof r[k] === 'number');
+}
+
+// Rules that span fields or depend on position in the tree (the same ones normalize/IR enforce)
+function checkNodeRules(node: any, path: string, topLevel: boolean, ids: Map<string, string>, out: CompositionIssue[]) {
+  if (!node || typeof node !== 'object') return;
+  const ref = nodeRef(node);
+  const push = (severity: CompositionIssue['severity'], p: string, message: string) =>
+    out.push({ severity, path: p, message: `${message}${describeNode(ref)}`, nodeId: ref.id, nodeName: ref.name });
+
+  if (topLevel && !isRect(node.renderBounds)) {
+    push('error', `${path}.renderBounds`, 'missing renderBounds (required on top-level children to compute the render union)');
+  }
+  if (node.svgContent) {
+    if (!isRect(node.renderBounds)) push('error', `${path}.renderBounds`, 'SVG node needs complete renderBounds');
+    if (!topLevel && !node.isTopLevel && !node.absoluteRenderBounds) {
+      push('error', `${path}.absoluteRenderBounds`, 'nested SVG node needs absoluteRenderBounds');
+    }
+  }
+  if (ref.id !== undefined) {
+    const first = ids.get(ref.id);
+    if (first) push('warning', `${path}.id`, `duplicate id ${ref.id} (first seen at ${first})`);
+    else ids.set(ref.id, path);
+  }
+  if (Array.isArray(node.children)) {
+    node.children.forEach((child: any, i: number) => checkNodeRules(child, `${path}.children[${i}]`, false, ids, out));
+  }
+}
+
+/**
+ * Validate a composition payload against compositionSchema plus the structural rules the pipeline relies on.
+ * Never throws; `valid` is false when any error was found (warnings don't block rendering).
+ */
+export function validateComposition(composition: unknown): CompositionValidation {
+  const issues: CompositionIssue[] = [];
+  const comp = composition as any;
+  const schemaVersion = comp && typeof comp.schemaVersion === 'string' ? comp.schemaVersion : null;
+
+  if (!comp || typeof comp !== 'object' || Array.isArray(comp)) {
+    issues.push({ severity: 'error', path: '$', message: `expected composition object, got ${typeOf(comp)}` });
+  } else {
+    // Older payloads are checked in their migrated shape (what the pipeline renders); migrations keep paths stable
+    let target = comp;
+    if (schemaVersion !== COMPOSITION_SCHEMA_VERSION) {
+      try {
+        target = JSON.parse(JSON.stringify(comp));
+        const migrated = migrateComposition(target);
+        issues.push({
+          severity: 'warning',
+          path: '$.schemaVersion',
+          message: `${schemaVersion === null ? 'missing schemaVersion (legacy payload)' : `schemaVersion ${schemaVersion}`}; migrated to ${migrated.toVersion}`,
+        });
+      } catch {
+        issues.push({ severity: 'error', path: '$.schemaVersion', message: `unsupported schemaVersion ${JSON.stringify(schemaVersion)} (current: ${COMPOSITION_SCHEMA_VERSION})` });
+        target = null;
+      }
+    }
+    if (target) {
+      checkSchema(target, compositionSchema, '$', {}, issues);
+      const ids = new Map<string, string>();
+      if (Array.isArray(target.children)) {
+        target.children.forEach((child: any, i: number) => checkNodeRules(child, `$.children[${i}]`, true, ids, issues));
+      }
+    }
+  }
+
+  const errors = issues.filter(i => i.severity === 'error');
+  const warnings = issues.filter(i => i.severity === 'warning');
+  return { valid: errors.length === 0, schemaVersion, errors, warnings };
+}
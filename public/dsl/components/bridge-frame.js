@@ -1,8 +1,18 @@
+import { parseColor, parseFill, isGradient, fillToCss, shadowsToCss, shadowsToEffects, blurToCss } from './dsl-style.js';
+
 /**
  * BridgeFrame - Auto Layout Frame Component
  *
  * Maps FRAME-like properties to CSS flexbox for the Bridge DSL.
  */
+// [attribute, CSS property / composition field]
+const SIZE_LIMITS = [
+  ['min-width', 'minWidth'],
+  ['max-width', 'maxWidth'],
+  ['min-height', 'minHeight'],
+  ['max-height', 'maxHeight'],
+];
+
 export class BridgeFrame extends HTMLElement {
   connectedCallback() {
     this.applyStyles();
@@ -19,21 +29,27 @@ export class BridgeFrame extends HTMLElement {
     const strokeAlign = this.getAttribute('stroke-align');
     const clipsAttr = this.getAttribute('clips');
     const opacityAttr = this.getAttribute('opacity');
+    const shadow = this.getAttribute('shadow');
+    const blur = this.getAttribute('blur');
+    const backdropBlur = this.getAttribute('backdrop-blur');
     const alignMain = this.getAttribute('align-main') || 'MIN';
     const alignCross = this.getAttribute('align-cross') || 'MIN';
     const selfAlign = this.getAttribute('self-align');
+    const positioning = (this.getAttribute('positioning') || '').toUpperCase();
+    const wraps = this.isWrapping();
+    const rowGap = this.getAttribute('row-gap');
     const x = this.getAttribute('x');
     const y = this.getAttribute('y');
     const width = this.getAttribute('width');
     const height = this.getAttribute('height');
 
-    // Absolute positioning
-    if (x !== null || y !== null) {
+    // Absolute positioning (explicit x/y, or taken out of the parent's auto layout flow)
+    if (x !== null || y !== null || positioning === 'ABSOLUTE') {
       this.style.position = 'absolute';
-      if (x !== null) this.style.left = `${x}px`;
-      if (y !== null) this.style.top = `${y}px`;
-    } else if (!layout) {
-      // Non-auto-layout containers act as positioning context for absolutely positioned children.
+      this.style.left = `${Number(x) || 0}px`;
+      this.style.top = `${Number(y) || 0}px`;
+    } else {
+      // Every frame acts as positioning context for absolutely positioned children.
       this.style.position = 'relative';
     }
 
@@ -62,6 +78,14 @@ export class BridgeFrame extends HTMLElement {
       const l = layout.toLowerCase();
       this.style.flexDirection = (l === 'horizontal' || l === 'row') ? 'row' : 'column';
       this.style.gap = `${gap}px`;
+      if (wraps) {
+        this.style.flexWrap = 'wrap';
+        // row-gap is the spacing between wrapped lines, i.e. along the cross axis
+        if (rowGap !== null) {
+          if (this.style.flexDirection === 'row') this.style.rowGap = `${Number(rowGap) || 0}px`;
+          else this.style.columnGap = `${Number(rowGap) || 0}px`;
+        }
+      }
 
       // Alignment
       this.style.justifyContent = this.mapAlignment(alignMain);
@@ -76,9 +100,13 @@ export class BridgeFrame extends HTMLElement {
       this.style.paddingLeft = `${padding.l}px`;
     }
 
-    // Fill color
+    // Fill color or gradient
     if (fill) {
-      this.style.backgroundColor = fill;
+      if (isGradient(fill)) {
+        this.style.backgroundImage = fillToCss(fill);
+      } else {
+        this.style.backgroundColor = fill;
+      }
     }
 
     // Border radius
@@ -114,6 +142,21 @@ export class BridgeFrame extends HTMLElement {
       }
     }
 
+    // Shadows (appended after an OUTSIDE stroke, which is also drawn with box-shadow)
+    if (shadow) {
+      const css = shadowsToCss(shadow);
+      this.style.boxShadow = this.style.boxShadow ? `${this.style.boxShadow}, ${css}` : css;
+    }
+
+    // Layer / background blur
+    if (blur) {
+      this.style.filter = blurToCss(blur);
+    }
+    if (backdropBlur) {
+      this.style.backdropFilter = blurToCss(backdropBlur);
+      this.style.webkitBackdropFilter = blurToCss(backdropBlur);
+    }
+
     // Clipping behavior (overflow hidden)
     if (clipsAttr !== null) {
       // Treat 'false' and '0' as explicitly false, everything else (including empty string) as true
@@ -145,6 +188,23 @@ export class BridgeFrame extends HTMLElement {
         this.style.height = `${height}px`;
       }
     }
+
+    // Min/max size limits (after grow, so explicit limits replace its min-width/min-height: 0)
+    for (const [attr, prop] of SIZE_LIMITS) {
+      const limit = this.parseSizeLimit(this.getAttribute(attr));
+      if (limit !== null) this.style[prop] = `${limit}px`;
+    }
+  }
+
+  isWrapping() {
+    const wrap = this.getAttribute('wrap');
+    return wrap !== null && wrap !== 'false' && wrap !== '0' && wrap.toUpperCase() !== 'NO_WRAP';
+  }
+
+  parseSizeLimit(value) {
+    if (value === null || value === '') return null;
+    const n = Number(value);
+    return Number.isFinite(n) && n >= 0 ? n : null;
   }
 
   parsePadding(value) {
@@ -192,25 +252,8 @@ export class BridgeFrame extends HTMLElement {
     }
   }
 
-  parseColor(hexOrRgb) {
-    // Simple hex color parser: #RRGGBB or #RGB
-    if (typeof hexOrRgb === 'string' && hexOrRgb.startsWith('#')) {
-      let hex = hexOrRgb.slice(1);
-
-      // Expand shorthand #RGB to #RRGGBB
-      if (hex.length === 3) {
-        hex = hex.split('').map(c => c + c).join('');
-      }
-
-      const r = parseInt(hex.slice(0, 2), 16) / 255;
-      const g = parseInt(hex.slice(2, 4), 16) / 255;
-      const b = parseInt(hex.slice(4, 6), 16) / 255;
-
-      return { r, g, b, a: 1 };
-    }
-
-    // Default to black if parsing fails
-    return { r: 0, g: 0, b: 0, a: 1 };
+  parseColor(value) {
+    return parseColor(value);
   }
 
   /**
@@ -227,10 +270,15 @@ export class BridgeFrame extends HTMLElement {
     const strokeAlign = this.getAttribute('stroke-align');
     const clipsAttr = this.getAttribute('clips');
     const opacityAttr = this.getAttribute('opacity');
+    const shadow = this.getAttribute('shadow');
+    const blur = Number(this.getAttribute('blur'));
+    const backdropBlur = Number(this.getAttribute('backdrop-blur'));
     const alignMain = this.getAttribute('align-main') || 'MIN';
     const alignCross = this.getAttribute('align-cross') || 'MIN';
     const selfAlign = this.getAttribute('self-align');
     const grow = this.getAttribute('grow');
+    const positioning = (this.getAttribute('positioning') || '').toUpperCase();
+    const rowGap = this.getAttribute('row-gap');
     const sizeMain = this.getAttribute('size-main') || 'AUTO';
     const sizeCross = this.getAttribute('size-cross') || 'AUTO';
     const name = this.getAttribute('name') || 'Frame';
@@ -310,7 +358,10 @@ export class BridgeFrame extends HTMLElement {
         node.counterAxisSizingMode = sizeCross;
       }
 
-      node.layoutWrap = 'NO_WRAP';
+      node.layoutWrap = this.isWrapping() ? 'WRAP' : 'NO_WRAP';
+      if (node.layoutWrap === 'WRAP' && rowGap !== null && Number.isFinite(Number(rowGap))) {
+        node.counterAxisSpacing = Number(rowGap);
+      }
     }
 
     // Self alignment (child override parent's alignment)
@@ -326,6 +377,17 @@ export class BridgeFrame extends HTMLElement {
       }
     }
 
+    // Taken out of the parent's auto layout flow
+    if (positioning === 'ABSOLUTE' || positioning === 'AUTO') {
+      node.layoutPositioning = positioning;
+    }
+
+    // Min/max size limits
+    for (const [attr, field] of SIZE_LIMITS) {
+      const limit = this.parseSizeLimit(this.getAttribute(attr));
+      if (limit !== null) node[field] = limit;
+    }
+
     // Add padding if specified
     if (padding) {
       node.paddingTop = padding.t;
@@ -337,11 +399,7 @@ export class BridgeFrame extends HTMLElement {
     // Add style if fill, radius, stroke, or opacity specified
     if (fill || radius || stroke || opacityAttr !== null) {
       if (fill) {
-        const color = this.parseColor(fill);
-        node.style.fills = [{
-          type: 'SOLID',
-          color
-        }];
+        node.style.fills = [parseFill(fill)];
       }
       if (radius) {
         if (typeof radius === 'number') {
@@ -384,6 +442,14 @@ export class BridgeFrame extends HTMLElement {
       }
     }
 
+    // Shadows and blur map to Figma effects
+    const effects = shadow ? shadowsToEffects(shadow) : [];
+    if (blur > 0) effects.push({ type: 'LAYER_BLUR', radius: blur, visible: true });
+    if (backdropBlur > 0) effects.push({ type: 'BACKGROUND_BLUR', radius: backdropBlur, visible: true });
+    if (effects.length) {
+      node.style.effects = effects;
+    }
+
     // Recursively extract children
     for (const child of Array.from(this.children)) {
       if (typeof child.toComposition === 'function') {
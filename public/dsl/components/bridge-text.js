@@ -1,3 +1,5 @@
+import { parseColor } from './dsl-style.js';
+
 /**
  * BridgeText - Text Component
  *
@@ -62,22 +64,8 @@ export class BridgeText extends HTMLElement {
     return node;
   }
 
-  parseColor(hexOrRgb) {
-    if (typeof hexOrRgb === 'string' && hexOrRgb.startsWith('#')) {
-      let hex = hexOrRgb.slice(1);
-
-      if (hex.length === 3) {
-        hex = hex.split('').map(c => c + c).join('');
-      }
-
-      const r = parseInt(hex.slice(0, 2), 16) / 255;
-      const g = parseInt(hex.slice(2, 4), 16) / 255;
-      const b = parseInt(hex.slice(4, 6), 16) / 255;
-
-      return { r, g, b, a: 1 };
-    }
-
-    return { r: 0, g: 0, b: 0, a: 1 };
+  parseColor(value) {
+    return parseColor(value);
   }
 }
 
@@ -0,0 +1,214 @@
+/**
+ * Shared DSL style parsing for the Bridge web components.
+ *
+ * Mirrors the attribute grammar of dslToComposition (pipeline) so the live DSL view and the
+ * generated composition agree: colors, gradient fills, shadows and blur.
+ */
+
+const BLACK = { r: 0, g: 0, b: 0, a: 1 };
+
+const GRADIENT_DIRECTIONS = {
+  'to top': 0, 'to right': 90, 'to bottom': 180, 'to left': 270,
+  'to top right': 45, 'to right top': 45, 'to bottom right': 135, 'to right bottom': 135,
+  'to bottom left': 225, 'to left bottom': 225, 'to top left': 315, 'to left top': 315,
+};
+
+function clamp01(n) {
+  return Math.min(1, Math.max(0, n));
+}
+
+function parseChannel(raw, max) {
+  const v = raw.trim();
+  const n = parseFloat(v);
+  if (!Number.isFinite(n)) return 0;
+  return clamp01(v.endsWith('%') ? n / 100 : n / max);
+}
+
+function hslToRgb(h, s, l) {
+  const hue = ((h % 360) + 360) % 360 / 360;
+  if (s === 0) return { r: l, g: l, b: l };
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t) => {
+    let x = t;
+    if (x < 0) x += 1;
+    if (x > 1) x -= 1;
+    if (x < 1 / 6) return p + (q - p) * 6 * x;
+    if (x < 1 / 2) return q;
+    if (x < 2 / 3) return p + (q - p) * (2 / 3 - x) * 6;
+    return p;
+  };
+  return { r: channel(hue + 1 / 3), g: channel(hue), b: channel(hue - 1 / 3) };
+}
+
+/**
+ * Split a comma-separated list, ignoring commas inside parentheses.
+ */
+export function splitTopLevel(value) {
+  const out = [];
+  let cur = '';
+  let depth = 0;
+  for (const ch of String(value || '')) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth = Math.max(0, depth - 1);
+    if (ch === ',' && depth === 0) {
+      if (cur.trim()) out.push(cur.trim());
+      cur = '';
+      continue;
+    }
+    cur += ch;
+  }
+  if (cur.trim()) out.push(cur.trim());
+  return out;
+}
+
+/**
+ * #RGB, #RGBA, #RRGGBB, #RRGGBBAA, rgb()/rgba(), hsl()/hsla() → { r, g, b, a } in 0..1 (black if unknown).
+ */
+export function parseColor(value) {
+  const v = String(value || '').trim();
+  if (v.startsWith('#')) {
+    let hex = v.slice(1);
+    if (hex.length === 3 || hex.length === 4) {
+      hex = hex.split('').map(c => c + c).join('');
+    }
+    if (!/^[0-9a-f]{6}([0-9a-f]{2})?$/i.test(hex)) return { ...BLACK };
+    return {
+      r: parseInt(hex.slice(0, 2), 16) / 255,
+      g: parseInt(hex.slice(2, 4), 16) / 255,
+      b: parseInt(hex.slice(4, 6), 16) / 255,
+      a: hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1,
+    };
+  }
+  const fn = v.match(/^(rgba?|hsla?)\(([^)]*)\)$/i);
+  if (!fn) return { ...BLACK };
+  const [main, alphaPart] = fn[2].split('/');
+  const parts = main.split(/[\s,]+/).filter(Boolean);
+  if (parts.length < 3) return { ...BLACK };
+  const alphaRaw = alphaPart !== undefined ? alphaPart : parts[3];
+  const a = alphaRaw !== undefined ? parseChannel(alphaRaw, 1) : 1;
+  if (fn[1].toLowerCase().startsWith('rgb')) {
+    return { r: parseChannel(parts[0], 255), g: parseChannel(parts[1], 255), b: parseChannel(parts[2], 255), a };
+  }
+  const hue = parseFloat(parts[0]);
+  return { ...hslToRgb(Number.isFinite(hue) ? hue : 0, parseChannel(parts[1], 100), parseChannel(parts[2], 100)), a };
+}
+
+function linearGradientHandles(deg) {
+  const rad = (deg * Math.PI) / 180;
+  const dx = Math.sin(rad) / 2;
+  const dy = -Math.cos(rad) / 2;
+  return [
+    { x: 0.5 - dx, y: 0.5 - dy },
+    { x: 0.5 + dx, y: 0.5 + dy },
+    { x: 0.5 - dy, y: 0.5 + dx },
+  ];
+}
+
+export function isGradient(value) {
+  return /^(linear|radial)-gradient\(/i.test(String(value || '').trim());
+}
+
+/**
+ * `fill` attribute → Figma paint (SOLID, GRADIENT_LINEAR or GRADIENT_RADIAL).
+ */
+export function parseFill(value) {
+  const v = String(value || '').trim();
+  const m = v.match(/^(linear|radial)-gradient\((.*)\)$/i);
+  if (!m) return { type: 'SOLID', color: parseColor(v) };
+
+  const args = splitTopLevel(m[2]);
+  const isLinear = m[1].toLowerCase() === 'linear';
+  let angle = 180;
+  const first = (args[0] || '').toLowerCase();
+  if (isLinear && /^-?[\d.]+(deg|turn)$/.test(first)) {
+    angle = first.endsWith('turn') ? parseFloat(first) * 360 : parseFloat(first);
+    args.shift();
+  } else if (isLinear && GRADIENT_DIRECTIONS[first] !== undefined) {
+    angle = GRADIENT_DIRECTIONS[first];
+    args.shift();
+  } else if (!isLinear && /^(circle|ellipse|closest|farthest|at\b)/.test(first)) {
+    args.shift();
+  }
+  const gradientStops = args.map((stop, i) => {
+    const posMatch = stop.match(/\s(-?[\d.]+)%$/);
+    const colorPart = posMatch ? stop.slice(0, -posMatch[0].length) : stop;
+    return {
+      color: parseColor(colorPart),
+      position: posMatch ? clamp01(parseFloat(posMatch[1]) / 100) : i / Math.max(1, args.length - 1),
+    };
+  });
+  return {
+    type: isLinear ? 'GRADIENT_LINEAR' : 'GRADIENT_RADIAL',
+    gradientStops,
+    gradientHandlePositions: isLinear
+      ? linearGradientHandles(angle)
+      : [{ x: 0.5, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0.5, y: 1 }],
+    gradientTransform: null,
+    opacity: 1,
+  };
+}
+
+/**
+ * `fill` attribute → CSS background value. Radial gradients are drawn as circles, like the pipeline output.
+ */
+export function fillToCss(value) {
+  const v = String(value || '').trim();
+  const m = v.match(/^radial-gradient\((.*)\)$/i);
+  if (!m) return v;
+  const args = splitTopLevel(m[1]);
+  if (/^(circle|ellipse|closest|farthest|at\b)/i.test(args[0] || '')) args.shift();
+  return `radial-gradient(circle, ${args.join(', ')})`;
+}
+
+/**
+ * `shadow` attribute ("x y blur [spread] color [inset]", comma separated) → parsed shadows.
+ */
+export function parseShadows(value) {
+  return splitTopLevel(value).map((item) => {
+    const tokens = item.match(/(?:rgba?|hsla?)\([^)]*\)|\S+/gi) || [];
+    const inner = tokens.some(t => t.toLowerCase() === 'inset' || t.toLowerCase() === 'inner');
+    const nums = [];
+    let color = null;
+    for (const t of tokens) {
+      const lower = t.toLowerCase();
+      if (lower === 'inset' || lower === 'inner' || lower === 'drop') continue;
+      if (/^-?[\d.]+(px)?$/.test(lower)) nums.push(parseFloat(lower));
+      else color = t;
+    }
+    return {
+      inner,
+      x: nums[0] || 0,
+      y: nums[1] || 0,
+      blur: nums[2] || 0,
+      spread: nums[3] || 0,
+      color: color || 'rgba(0, 0, 0, 0.25)',
+    };
+  });
+}
+
+export function shadowsToCss(value) {
+  return parseShadows(value)
+    .map(s => `${s.inner ? 'inset ' : ''}${s.x}px ${s.y}px ${s.blur}px ${s.spread}px ${s.color}`)
+    .join(', ');
+}
+
+export function shadowsToEffects(value) {
+  return parseShadows(value).map(s => ({
+    type: s.inner ? 'INNER_SHADOW' : 'DROP_SHADOW',
+    offset: { x: s.x, y: s.y },
+    radius: s.blur,
+    spread: s.spread,
+    color: parseColor(s.color),
+    visible: true,
+  }));
+}
+
+/**
+ * `blur` / `backdrop-blur` are Figma radii; CSS blur() renders about twice as strong, so halve them
+ * (same mapping as the pipeline).
+ */
+export function blurToCss(radius) {
+  const n = Number(radius);
+  return Number.isFinite(n) && n > 0 ? `blur(${n / 2}px)` : '';
+}
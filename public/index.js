@@ -1,7 +1,7 @@
-import { buildLayers, selectLayerById, clearLayerSelection, filterLayers, attachToggleEvents } from './layers.js';
+import { buildLayers, selectLayerById, clearLayerSelection, filterLayers, attachToggleEvents, markDiffLayers } from './layers.js';
 import { updatePropertiesPanel, findNodeByIdInIR } from './properties.js';
 import { fit, updateStrokeScale, updateDebugOverlayVisibility, toggleRenderBounds } from './viewport.js';
-import { attachPreviewInteractions, highlightByLayerId, clearHighlight, selectLayer, clearSelection } from './interactions.js';
+import { attachPreviewInteractions, highlightByLayerId, clearHighlight, selectLayer, clearSelection, highlightDiffNodes } from './interactions.js';
 import { applyTheme, initSettings, getCurrentSettings, loadCacheStats } from './settings.js';
 import ToolbarManager from './toolbar.js';
 
@@ -72,7 +72,8 @@ const state = {
         selectedFile: null,
         dslFiles: [],
         selectedDslFile: null,
-        debugMode: false
+        debugMode: false,
+        diff: null
       };
 
 const VIEW_CONFIG = {
@@ -184,6 +185,13 @@ function update(changes = {}) {
       (id) => highlightByLayerId(id, previewFrame),
       () => clearHighlight(previewFrame)
     );
+    // Why: a new composition invalidates the previous diff until its snapshot is compared again
+    if (changes.diff === undefined) state.diff = null;
+  }
+  if (changes.diff !== undefined) {
+    const diffNodes = state.diff?.nodes ?? [];
+    markDiffLayers(diffNodes, layersList);
+    highlightDiffNodes(diffNodes.map((n) => n.id), previewFrame);
   }
         if (changes.boundsVisible !== undefined) {
     updateDebugOverlayVisibility(overlayHost, previewFrame, state.boundsVisible);
@@ -226,6 +234,12 @@ function mergePayloadIntoState(payload, keyPrefix = '') {
       update(mergePayloadIntoState(payload));
           } catch {}
         });
+        // Sent after the HTML snapshot is diffed against figma-render.png
+        es.addEventListener('diff', (e) => {
+          try {
+      update({ diff: JSON.parse(e.data ?? 'null') });
+          } catch {}
+        });
       }
 
 function injectDebugIntoFrame(previewFrame, state) {
@@ -818,7 +832,9 @@ async function loadFileContent(filePath) {
     const languageMap = {
       'html': 'language-html',
       'css': 'language-css',
-      'json': 'language-json'
+      'json': 'language-json',
+      'tsx': 'language-typescript',
+      'vue': 'language-html'
     };
     codeContent.className = languageMap[ext] || 'language-html';
 
@@ -32,6 +32,18 @@ export function clearHighlight(previewFrame) {
   prevs.forEach((el) => el.classList.remove('is-hover'));
 }
 
+// Marks the worst nodes of the last visual diff; hover/selection outlines still take precedence
+export function highlightDiffNodes(ids, previewFrame) {
+  const doc = getPreviewDoc(previewFrame);
+  if (!doc) return;
+  const prevs = doc.querySelectorAll('.debug-overlay .debug-box.is-diff, .debug-overlay .debug-svg.is-diff');
+  prevs.forEach((el) => el.classList.remove('is-diff'));
+  for (const id of ids || []) {
+    const target = getElementByLayerId(id, previewFrame);
+    if (target) target.classList.add('is-diff');
+  }
+}
+
 function applySelectionHighlight(id, previewFrame) {
   const doc = getPreviewDoc(previewFrame);
   if (!doc) return;
@@ -93,6 +93,24 @@ export function clearLayerSelection(layersList, updatePropertiesCallback) {
   if (updatePropertiesCallback) updatePropertiesCallback(null);
 }
 
+export function markDiffLayers(nodes, layersList) {
+  if (!layersList) return;
+  layersList.querySelectorAll('.item.has-diff').forEach((el) => {
+    el.classList.remove('has-diff');
+    el.querySelector('.diff-badge')?.remove();
+  });
+  for (const node of nodes || []) {
+    const item = layersList.querySelector(`.item[data-layer-id="${CSS.escape(node.id)}"]`);
+    if (!item) continue;
+    const badge = document.createElement('span');
+    badge.className = 'diff-badge';
+    badge.textContent = `${Number(node.diffPercent).toFixed(1)}%`;
+    badge.title = `${node.attributedPixels}px differ`;
+    item.classList.add('has-diff');
+    item.appendChild(badge);
+  }
+}
+
 export function filterLayers(query, layersList) {
   if (!layersList) return;
   const q = String(query ?? '').trim().toLowerCase();
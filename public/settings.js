@@ -1,4 +1,4 @@
-import { loadLanguages, getAvailableLanguages, loadTranslations, applyTranslations } from './i18n.js';
+import { loadLanguages, getAvailableLanguages, loadTranslations, applyTranslations, translate } from './i18n.js';
 
 const SETTINGS_KEY = 'bridge-settings';
 const THEME_KEY = 'bridge-preview-theme';
@@ -8,7 +8,12 @@ const defaultSettings = {
   textColorLight: '#111111',
   textColorDark: '#F3F4F1',
   language: 'en',
-  useOnlineFonts: true
+  useOnlineFonts: true,
+  tailwindOnly: false,
+  adaptiveLayout: false,
+  embedFonts: false,
+  optimizeImages: false,
+  imageDpr: 2
 };
 
 const COLOR_DEFAULTS = {
@@ -43,7 +48,7 @@ async function syncSettingsToServer(settings) {
     await fetch('/api/settings', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ useOnlineFonts: settings.useOnlineFonts })
+      body: JSON.stringify({ useOnlineFonts: settings.useOnlineFonts, tailwindOnly: !!settings.tailwindOnly, adaptiveLayout: !!settings.adaptiveLayout, embedFonts: !!settings.embedFonts, optimizeImages: !!settings.optimizeImages, imageDpr: Number(settings.imageDpr) || 2 })
     });
   } catch (e) {
     console.warn('[Settings] Failed to sync to server:', e);
@@ -224,6 +229,54 @@ function updateSettingsUI(settings) {
       applyTranslations();
     }
   }
+
+  const tailwindToggle = document.getElementById('tailwindOnlyToggle');
+  if (tailwindToggle) {
+    const isEnabled = settings.tailwindOnly === true;
+    tailwindToggle.classList.toggle('active', isEnabled);
+    const span = tailwindToggle.querySelector('span:first-child');
+    if (span) {
+      span.setAttribute('data-i18n', isEnabled ? 'preferences.enabled' : 'preferences.disabled');
+      applyTranslations();
+    }
+  }
+
+  const adaptiveToggle = document.getElementById('adaptiveLayoutToggle');
+  if (adaptiveToggle) {
+    const isEnabled = settings.adaptiveLayout === true;
+    adaptiveToggle.classList.toggle('active', isEnabled);
+    const span = adaptiveToggle.querySelector('span:first-child');
+    if (span) {
+      span.setAttribute('data-i18n', isEnabled ? 'preferences.enabled' : 'preferences.disabled');
+      applyTranslations();
+    }
+  }
+
+  const embedFontsToggle = document.getElementById('embedFontsToggle');
+  if (embedFontsToggle) {
+    const isEnabled = settings.embedFonts === true;
+    embedFontsToggle.classList.toggle('active', isEnabled);
+    const span = embedFontsToggle.querySelector('span:first-child');
+    if (span) {
+      span.setAttribute('data-i18n', isEnabled ? 'preferences.enabled' : 'preferences.disabled');
+      applyTranslations();
+    }
+  }
+
+  const optimizeImagesToggle = document.getElementById('optimizeImagesToggle');
+  if (optimizeImagesToggle) {
+    const isEnabled = settings.optimizeImages === true;
+    optimizeImagesToggle.classList.toggle('active', isEnabled);
+    const span = optimizeImagesToggle.querySelector('span:first-child');
+    if (span) {
+      span.setAttribute('data-i18n', isEnabled ? 'preferences.enabled' : 'preferences.disabled');
+      applyTranslations();
+    }
+  }
+
+  document.querySelectorAll('[data-image-dpr]').forEach(btn => {
+    btn.classList.toggle('active', Number(btn.dataset.imageDpr) === (Number(settings.imageDpr) || 2));
+  });
 }
 
 function setupColorInput(inputId, previewId, settingKey, currentSettings) {
@@ -355,12 +408,62 @@ export async function initSettings() {
       window.dispatchEvent(new CustomEvent('settings-changed', { detail: currentSettings }));
     });
   }
+
+  const tailwindToggle = document.getElementById('tailwindOnlyToggle');
+  if (tailwindToggle) {
+    tailwindToggle.addEventListener('click', () => {
+      currentSettings.tailwindOnly = !currentSettings.tailwindOnly;
+      saveSettings(currentSettings);
+      updateSettingsUI(currentSettings);
+      window.dispatchEvent(new CustomEvent('settings-changed', { detail: currentSettings }));
+    });
+  }
+
+  const adaptiveToggle = document.getElementById('adaptiveLayoutToggle');
+  if (adaptiveToggle) {
+    adaptiveToggle.addEventListener('click', () => {
+      currentSettings.adaptiveLayout = !currentSettings.adaptiveLayout;
+      saveSettings(currentSettings);
+      updateSettingsUI(currentSettings);
+      window.dispatchEvent(new CustomEvent('settings-changed', { detail: currentSettings }));
+    });
+  }
+
+  const embedFontsToggle = document.getElementById('embedFontsToggle');
+  if (embedFontsToggle) {
+    embedFontsToggle.addEventListener('click', () => {
+      currentSettings.embedFonts = !currentSettings.embedFonts;
+      saveSettings(currentSettings);
+      updateSettingsUI(currentSettings);
+      window.dispatchEvent(new CustomEvent('settings-changed', { detail: currentSettings }));
+    });
+  }
+
+  const optimizeImagesToggle = document.getElementById('optimizeImagesToggle');
+  if (optimizeImagesToggle) {
+    optimizeImagesToggle.addEventListener('click', () => {
+      currentSettings.optimizeImages = !currentSettings.optimizeImages;
+      saveSettings(currentSettings);
+      updateSettingsUI(currentSettings);
+      window.dispatchEvent(new CustomEvent('settings-changed', { detail: currentSettings }));
+    });
+  }
+
+  document.querySelectorAll('[data-image-dpr]').forEach(btn => {
+    btn.addEventListener('click', () => {
+      currentSettings.imageDpr = Number(btn.dataset.imageDpr) || 2;
+      saveSettings(currentSettings);
+      updateSettingsUI(currentSettings);
+      window.dispatchEvent(new CustomEvent('settings-changed', { detail: currentSettings }));
+    });
+  });
   
   setTimeout(() => {
     updateSettingsUI(currentSettings);
   }, 100);
 
   initCacheManagement();
+  initFontReport();
 
   return currentSettings;
 }
@@ -438,3 +541,166 @@ function initCacheManagement() {
   }
 }
 
+function fontSourceLabel(name, type) {
+  const label = translate(`fonts.source.${type}`);
+  return name && name !== type ? `${label} (${name})` : label;
+}
+
+function createEl(tag, className, text) {
+  const el = document.createElement(tag);
+  if (className) el.className = className;
+  if (text !== undefined) el.textContent = text;
+  return el;
+}
+
+function renderFontOverride(font, override, providers) {
+  const row = createEl('div', 'font-report-override');
+  const select = document.createElement('select');
+  // Automatic order, then each configured provider, a direct stylesheet URL or no web font
+  const sources = [
+    { value: '', label: translate('fonts.auto') },
+    ...providers.map(p => ({ value: p.name, type: p.type, label: fontSourceLabel(p.name, p.type) })),
+    { value: 'url', type: 'url', label: fontSourceLabel('url', 'url') },
+    { value: 'none', type: 'none', label: fontSourceLabel('none', 'none') }
+  ];
+  sources.forEach(source => {
+    const option = document.createElement('option');
+    option.value = source.value;
+    option.textContent = source.label;
+    select.appendChild(option);
+  });
+  const typeOf = (value) => (sources.find(s => s.value === value) || {}).type;
+  select.value = override ? override.source : '';
+
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.value = override ? (override.path || override.url || '') : '';
+
+  const syncInput = () => {
+    const source = select.value;
+    input.style.display = typeOf(source) === 'chinese-storage' || source === 'url' ? '' : 'none';
+    // applyTranslations() fills the placeholder only when the attribute exists
+    input.setAttribute('placeholder', '');
+    input.setAttribute('data-i18n', source === 'url' ? 'fonts.urlPlaceholder' : 'fonts.pathPlaceholder');
+  };
+  select.addEventListener('change', () => {
+    syncInput();
+    applyTranslations();
+  });
+  syncInput();
+
+  const saveBtn = createEl('button');
+  saveBtn.setAttribute('data-i18n', 'fonts.save');
+  saveBtn.addEventListener('click', async () => {
+    const source = select.value;
+    const value = input.value.trim();
+    const next = !source ? null
+      : typeOf(source) === 'chinese-storage' ? (value ? { source, path: value } : { source })
+      : source === 'url' ? { source, url: value }
+      : { source };
+    saveBtn.disabled = true;
+    try {
+      const response = await fetch('/api/fonts/overrides', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ family: font.family, override: next })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || response.statusText);
+      await loadFontReport();
+    } catch (e) {
+      console.error('[Fonts] Failed to save override:', e);
+      alert(`${translate('fonts.overrideFailed')} ${e.message}`);
+    } finally {
+      saveBtn.disabled = false;
+    }
+  });
+
+  row.append(select, input, saveBtn);
+  return row;
+}
+
+function renderFontReport(container, report) {
+  container.innerHTML = '';
+  const fonts = Array.isArray(report?.fonts) ? report.fonts : [];
+  if (!fonts.length) {
+    const empty = createEl('div', 'font-report-empty');
+    empty.setAttribute('data-i18n', 'fonts.empty');
+    container.appendChild(empty);
+    return;
+  }
+  // Last export with "Embed Fonts": subsetting failure or faces not found locally (both keep web font links)
+  const embedding = report.embedding;
+  if (embedding && (embedding.error || (embedding.missing || []).length)) {
+    const notice = createEl('div', 'font-report-embedding');
+    const label = createEl('span');
+    label.setAttribute('data-i18n', embedding.error ? 'fonts.embedFailed' : 'fonts.embedMissing');
+    notice.append(label, ` ${embedding.error || embedding.missing.join(', ')}`);
+    container.appendChild(notice);
+  }
+  fonts.forEach(font => {
+    const row = createEl('div', 'font-report-row');
+    const head = createEl('div', 'font-report-head');
+    head.appendChild(createEl('span', 'font-report-family', font.family));
+    const coverage = typeof font.coverage === 'number' ? ` · ${Math.round(font.coverage * 1000) / 10}%` : '';
+    head.appendChild(createEl('span', 'font-report-meta', `${font.weights.join(', ') || '400'} · ${font.characters} ${translate('fonts.characters')}${coverage}`));
+
+    const source = createEl('span', `font-report-source${font.source === 'none' ? ' missing' : ''}`);
+    source.appendChild(createEl('span', '', fontSourceLabel(font.source, font.sourceType)));
+    if (font.source !== 'none' && (font.status === 'unreachable' || font.status === 'unchecked')) {
+      const status = createEl('span');
+      status.setAttribute('data-i18n', `fonts.status.${font.status}`);
+      source.append(' ', status);
+    }
+    head.appendChild(source);
+    row.appendChild(head);
+
+    if (Array.isArray(font.uncovered) && font.uncovered.length) {
+      const uncovered = createEl('div', 'font-report-uncovered');
+      const label = createEl('span');
+      label.setAttribute('data-i18n', 'fonts.uncovered');
+      uncovered.append(label, ` ${font.uncovered.join(' ')}`);
+      row.appendChild(uncovered);
+    }
+
+    row.appendChild(renderFontOverride(font, report.overrides ? report.overrides[font.family] : null, report.providers || []));
+    container.appendChild(row);
+  });
+}
+
+export async function loadFontReport() {
+  const container = document.getElementById('fontReport');
+  if (!container) return;
+  const loading = createEl('div', 'font-report-empty');
+  loading.setAttribute('data-i18n', 'fonts.loading');
+  container.innerHTML = '';
+  container.appendChild(loading);
+  applyTranslations();
+  try {
+    const response = await fetch('/api/fonts/report');
+    const report = await response.json();
+    if (!response.ok) throw new Error(report.error || response.statusText);
+    renderFontReport(container, report);
+  } catch (e) {
+    console.error('[Fonts] Failed to load report:', e);
+    loading.setAttribute('data-i18n', 'fonts.loadFailed');
+  }
+  applyTranslations();
+}
+
+function initFontReport() {
+  const refreshBtn = document.getElementById('refreshFontReportBtn');
+  if (refreshBtn) {
+    refreshBtn.addEventListener('click', () => loadFontReport());
+  }
+
+  const settingsNav = document.getElementById('settingsNav');
+  if (settingsNav) {
+    settingsNav.addEventListener('click', (e) => {
+      const navItem = e.target.closest('[data-section="fonts"]');
+      if (navItem) {
+        loadFontReport();
+      }
+    });
+  }
+}
@@ -2,6 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import { UPLOAD_DIR } from './imageService';
 import { SVG_DIR } from './svgService';
+import { BUILD_CACHE_DIR } from './utils/build-cache';
 
 export type CacheStats = {
   images: {
@@ -89,9 +90,11 @@ function clearDirectory(dirPath: string): { deleted: number; errors: number } {
 export function clearCache(): { deleted: number; errors: number } {
   const imagesResult = clearDirectory(UPLOAD_DIR);
   const svgsResult = clearDirectory(SVG_DIR);
+  // Encoded image variants and font subsets built from the files above
+  const buildResult = clearDirectory(BUILD_CACHE_DIR);
 
   return {
-    deleted: imagesResult.deleted + svgsResult.deleted,
-    errors: imagesResult.errors + svgsResult.errors,
+    deleted: imagesResult.deleted + svgsResult.deleted + buildResult.deleted,
+    errors: imagesResult.errors + svgsResult.errors + buildResult.errors,
   };
 }
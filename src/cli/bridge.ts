@@ -0,0 +1,374 @@
+/*
+ Headless bridge CLI: converts composition JSON without the Express server or the preview page.
+
+ Usage:
+  npm run bridge -- <command> [input.json|-] [options]
+  npm run bridge -- responsive <desktop.json> <tablet.json> [mobile.json ...] [options]
+
+ Commands:
+   render   Single-file HTML document (styles inlined) to stdout or --out <file>
+   export   Full output package (index.html, styles.css, images/, svgs/, Component.tsx/.vue, tokens) into --out <dir>
+   ir       Render IR JSON (nodes, cssRules, fontMeta, assetMeta) to stdout or --out <file>
+   tokens   Design tokens (JSON, or CSS with --format css) to stdout or --out <file>
+   composition  Composition JSON (e.g. converted from a Figma REST file) to stdout or --out <file>
+   responsive   One HTML document from several breakpoint designs of the same screen (each input's frame
+                width is its breakpoint) to stdout or --out <file>; layers missing from the widest design
+                and text that differs between designs are listed on stderr
+
+ Input is either { composition: {...} }, a composition object, or a Figma REST response
+ (GET /v1/files/:key/nodes, or /v1/files/:key with --node); omit the path or pass "-" to read stdin.
+ For REST input, image fills and vectors must be downloaded separately into --assets (listed on stderr).
+
+ Options:
+   --out, -o <path>      Output file (render/ir/tokens/responsive) or directory (export, default: output)
+   --assets <dir>        Directory with images/{id}.png and svgs/* to copy into the package (default: temp)
+   --tailwind            Tailwind-only content (export/render)
+   --adaptive            Fluid layout driven by Figma constraints instead of a scaled canvas
+   --no-semantic         Keep plain <div>s instead of inferred semantic elements
+   --no-online-fonts     Skip remote font providers (Google Fonts, font CDNs); local ones in bridge.config.json still apply
+   --embed-fonts <dir>   export: subset fonts from <dir> into fonts/*.woff2 + @font-face rules; only fonts not found keep CDN links
+                         (needs fontTools' pyftsubset on PATH or $PYFTSUBSET_PATH)
+   --optimize-images     export: downsize images to their largest rendered size, add WebP/AVIF variants,
+                         <picture>/srcset for content images and image-report.json
+                         (needs cwebp / avifenc on PATH or $CWEBP_PATH / $AVIFENC_PATH; missing ones are skipped)
+   --image-dpr <n>       Pixel ratio for --optimize-images (default: 2)
+   --format <json|css>   Output format for `tokens` (default: json)
+   --node <id>           Figma node id to convert from a REST response (repeatable; default: all nodes)
+*/
+
+import fs from 'fs';
+import path from 'path';
+import { figmaToHtml, figmaToReact, figmaToVue, figmaToResponsiveHtml, normalizeComposition, compositionToIR, validateComposition, figmaRestToComposition } from 'figma-html-bridge';
+import { warmupFontProviders, extractFontsFromComposition } from '../utils/fonts';
+import { createAssetUrlProvider } from '../utils/assets';
+import { buildHeadFontLinks, addContentExtras, componentCssImports, buildOutputIndexHtml, writeOutputPackage } from '../utils/output-package';
+import { embedFonts } from '../utils/font-embed';
+import { buildImageAssets, applyImageAssets, summarizeImageReport } from '../utils/image-assets';
+import type { ImageAssets } from '../utils/image-assets';
+
+type AnyObj = Record<string, any>;
+
+type Command = 'render' | 'export' | 'ir' | 'tokens' | 'composition' | 'responsive';
+
+type CliArgs = {
+  command: Command | null;
+  // Positional input paths; only `responsive` takes more than one
+  inputs: string[];
+  out: string | null;
+  assets: string;
+  tailwind: boolean;
+  adaptive: boolean;
+  semantic: boolean;
+  onlineFonts: boolean;
+  embedFontsDir: string | null;
+  optimizeImages: boolean;
+  imageDpr: number;
+  format: 'json' | 'css';
+  nodeIds: string[];
+};
+
+const COMMANDS: Command[] = ['render', 'export', 'ir', 'tokens', 'composition', 'responsive'];
+
+const USAGE = 'Usage: npm run bridge -- <render|export|ir|tokens|composition|responsive> [input.json|-] [--out <path>] [--assets <dir>] [--tailwind] [--adaptive] [--no-semantic] [--no-online-fonts] [--embed-fonts <dir>] [--optimize-images] [--image-dpr <n>] [--format json|css] [--node <id>]';
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    command: null,
+    inputs: [],
+    out: null,
+    assets: 'temp',
+    tailwind: false,
+    adaptive: false,
+    semantic: true,
+    onlineFonts: true,
+    embedFontsDir: null,
+    optimizeImages: false,
+    imageDpr: 2,
+    format: 'json',
+    nodeIds: [],
+  };
+
+  for (let i = 2; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a) continue;
+    if (a === '--out' || a === '-o') { args.out = argv[++i] || null; continue; }
+    if (a === '--assets') { args.assets = argv[++i] || args.assets; continue; }
+    if (a === '--tailwind') { args.tailwind = true; continue; }
+    if (a === '--adaptive') { args.adaptive = true; continue; }
+    if (a === '--no-semantic') { args.semantic = false; continue; }
+    if (a === '--no-online-fonts') { args.onlineFonts = false; continue; }
+    if (a === '--embed-fonts') { args.embedFontsDir = argv[++i] || null; continue; }
+    if (a === '--optimize-images') { args.optimizeImages = true; continue; }
+    if (a === '--image-dpr') { args.imageDpr = Number(argv[++i]) || args.imageDpr; continue; }
+    if (a === '--format') { args.format = argv[++i] === 'css' ? 'css' : 'json'; continue; }
+    if (a === '--node') { const id = argv[++i]; if (id) args.nodeIds.push(id); continue; }
+    if (!args.command) {
+      if (!COMMANDS.includes(a as Command)) {
+        console.error(`Unknown command "${a}".\n${USAGE}`);
+        process.exit(1);
+      }
+      args.command = a as Command;
+      continue;
+    }
+    args.inputs.push(a);
+  }
+
+  return args;
+}
+
+function readInput(file: string | null): AnyObj {
+  // Why: "-" or no path means piped input, so `cat x.json | npm run bridge -- render` works
+  const raw = !file || file === '-'
+    ? fs.readFileSync(0, 'utf8')
+    : fs.readFileSync(path.isAbsolute(file) ? file : path.join(process.cwd(), file), 'utf8');
+  return JSON.parse(raw);
+}
+
+// Figma REST responses: /v1/files/:key/nodes has `nodes`, /v1/files/:key has `document`
+function isFigmaRestDocument(payload: AnyObj): boolean {
+  if (!payload || typeof payload !== 'object' || payload.kind === 'composition') return false;
+  return (!!payload.nodes && typeof payload.nodes === 'object') || payload.document?.type === 'DOCUMENT';
+}
+
+function resolveComposition(payload: AnyObj, args: CliArgs): AnyObj | null {
+  if (payload && typeof payload === 'object') {
+    if (payload.composition && typeof payload.composition === 'object') return payload.composition;
+    if (payload.kind === 'composition' && payload.bounds && payload.children) return payload;
+    if (isFigmaRestDocument(payload)) {
+      const { composition, assets } = figmaRestToComposition(payload, { nodeIds: args.nodeIds });
+      const needed = [
+        ...assets.images.map(a => `images/${a.imageId}.png  (imageRef ${a.imageRef})`),
+        ...assets.svgs.map(a => `svgs/${a.svgId}.svg  (node ${a.nodeId})`),
+      ];
+      if (needed.length) console.error(`Figma REST input needs these assets under --assets:\n - ${needed.join('\n - ')}`);
+      return composition;
+    }
+  }
+  return null;
+}
+
+function writeResult(out: string | null, text: string) {
+  if (!out) {
+    process.stdout.write(text.endsWith('\n') ? text : text + '\n');
+    return;
+  }
+  const full = path.resolve(out);
+  fs.mkdirSync(path.dirname(full), { recursive: true });
+  fs.writeFileSync(full, text, 'utf8');
+  console.error(`Wrote ${full}`);
+}
+
+// Deep copy: every pipeline entry point normalizes the composition in place
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// `families` limits the links to those families (the ones an export could not embed)
+async function buildFontLinks(composition: AnyObj, args: CliArgs, families?: string[]): Promise<string> {
+  if (families && !families.length) return '';
+  // Ensure font providers are ready for consistent output (CLI parity with server); offline keeps local ones only
+  const online = !!args.onlineFonts;
+  try {
+    await warmupFontProviders({ online });
+  } catch {}
+  const all = extractFontsFromComposition(clone(composition));
+  const fc = families ? all.only(families) : all;
+  return buildHeadFontLinks(fc.getGoogleFontsUrl({ online }), fc.getFontStylesheetUrls({ online }), fc.getFontFaceCss({ online }));
+}
+
+function runIr(composition: AnyObj, args: CliArgs) {
+  normalizeComposition(composition);
+  const ir = compositionToIR(composition as any);
+  writeResult(args.out, JSON.stringify({
+    absOrigin: composition.absOrigin,
+    nodes: ir.nodes,
+    cssRules: ir.cssRules,
+    renderUnion: ir.renderUnion,
+    fontMeta: ir.fontMeta,
+    assetMeta: ir.assetMeta,
+  }, null, 2));
+}
+
+async function runTokens(composition: AnyObj, args: CliArgs) {
+  const result = await figmaToHtml({ composition }, {
+    assetUrlProvider: createAssetUrlProvider(false),
+    designTokens: true,
+    semanticHtml: args.semantic,
+  });
+  const tokens = (result.content as any).tokens;
+  if (args.format === 'css') writeResult(args.out, tokens ? tokens.cssText : '');
+  else writeResult(args.out, JSON.stringify(tokens ? tokens.json : {}, null, 2));
+}
+
+async function runRender(composition: AnyObj, args: CliArgs) {
+  const headLinks = await buildFontLinks(composition, args);
+  const result = await figmaToHtml({ composition }, {
+    assetUrlProvider: createAssetUrlProvider(false),
+    contentMode: args.tailwind ? 'tailwind' : 'css',
+    semanticHtml: args.semantic,
+    layoutMode: args.adaptive ? 'adaptive' : 'fixed',
+  });
+  const content = result.content as any;
+  const html = buildOutputIndexHtml({
+    bodyHtml: content.bodyHtml,
+    cssText: content.cssText,
+    headLinks: addContentExtras(content, {}, headLinks),
+    baseWidth: content.baseWidth || result.baseWidth,
+    baseHeight: content.baseHeight || result.baseHeight,
+    layoutMode: args.adaptive ? 'adaptive' : 'fixed',
+    inlineCss: true,
+  });
+  writeResult(args.out, html);
+}
+
+async function runExport(composition: AnyObj, args: CliArgs) {
+  const outDir = path.resolve(args.out || 'output');
+  const assetsDir = path.resolve(args.assets);
+  const assetUrlProvider = createAssetUrlProvider(false);
+
+  // One normalized copy and IR for the HTML, React and Vue outputs
+  const copy = clone(composition);
+  normalizeComposition(copy);
+  const ir = compositionToIR(copy as any);
+  const result = await figmaToHtml({ composition: copy, ir }, {
+    assetUrlProvider,
+    contentMode: args.tailwind ? 'tailwind' : 'css',
+    designTokens: true,
+    semanticHtml: args.semantic,
+    layoutMode: args.adaptive ? 'adaptive' : 'fixed',
+    contentImages: args.optimizeImages,
+  });
+  const content = result.content as any;
+  const extraFiles: Record<string, string> = {};
+  const react = await figmaToReact({ composition: copy, ir }, {
+    assetUrlProvider,
+    semanticHtml: args.semantic,
+    cssImport: componentCssImports(content),
+  });
+  extraFiles['Component.tsx'] = react.tsx;
+  const vue = await figmaToVue({ composition: copy, ir }, { assetUrlProvider, semanticHtml: args.semantic });
+  extraFiles['Component.vue'] = vue.sfc;
+  Object.assign(extraFiles, vue.components);
+
+  let fonts: { cssText: string; files: Record<string, Buffer> } | undefined;
+  // Why: bundled fonts replace the web font links; families that could not be bundled keep theirs, and a
+  // failed embedding keeps them all
+  let linkedFamilies: string[] | undefined;
+  if (args.embedFontsDir) {
+    try {
+      const embedded = await embedFonts(copy, ir.fontMeta, { fontDir: path.resolve(args.embedFontsDir) });
+      fonts = embedded;
+      linkedFamilies = embedded.missingFamilies;
+      console.error(`Embedded ${Object.keys(embedded.files).length} font file(s)`);
+      if (embedded.missing.length) console.error(`Fonts not found under ${path.resolve(args.embedFontsDir)} (kept as web font links):\n - ${embedded.missing.join('\n - ')}`);
+    } catch (e: any) {
+      console.error(`Font embedding failed; keeping web font links: ${e?.message || e}`);
+    }
+  }
+  const headLinks = addContentExtras(content, extraFiles, await buildFontLinks(composition, args, linkedFamilies));
+
+  const images: string[] = Array.isArray(result.assets?.images) ? result.assets.images : [];
+  const svgs: string[] = Array.isArray(result.assets?.svgs) ? result.assets.svgs : [];
+  let { bodyHtml, cssText } = content;
+  let optimizedImages: ImageAssets | undefined;
+  if (args.optimizeImages) {
+    optimizedImages = await buildImageAssets(images, path.join(assetsDir, 'images'), result.assets.imageUsage, { dpr: args.imageDpr });
+    ({ bodyHtml, cssText } = applyImageAssets(bodyHtml, cssText, optimizedImages.report, id => assetUrlProvider(id, 'image')));
+    console.error(`Images: ${summarizeImageReport(optimizedImages.report)}`);
+  }
+  writeOutputPackage(outDir, {
+    bodyHtml,
+    cssText,
+    headLinks,
+    baseWidth: content.baseWidth || result.baseWidth,
+    baseHeight: content.baseHeight || result.baseHeight,
+    extraFiles,
+    layoutMode: args.adaptive ? 'adaptive' : 'fixed',
+    fonts,
+    images: optimizedImages,
+  }, {
+    imageIds: images,
+    svgFiles: svgs,
+    imageDir: path.join(assetsDir, 'images'),
+    svgDir: path.join(assetsDir, 'svgs'),
+  });
+
+  const missing = [
+    ...images.filter(id => !fs.existsSync(path.join(outDir, 'images', `${id}.png`))).map(id => `images/${id}.png`),
+    ...svgs.filter(name => !fs.existsSync(path.join(outDir, 'svgs', name))).map(name => `svgs/${name}`),
+  ];
+  console.error(`Exported to ${outDir}`);
+  if (missing.length) console.error(`Missing assets (not found under ${assetsDir}):\n - ${missing.join('\n - ')}`);
+}
+
+async function runResponsive(compositions: AnyObj[], args: CliArgs) {
+  const headLinks = await buildFontLinks({ ...compositions[0], children: compositions.flatMap(c => c.children || []) }, args);
+  const result = await figmaToResponsiveHtml({
+    variants: compositions.map(c => ({ composition: clone(c), width: Number(c.bounds?.width) })),
+  }, {
+    assetUrlProvider: createAssetUrlProvider(false),
+    semanticHtml: args.semantic,
+  });
+  const html = buildOutputIndexHtml({
+    bodyHtml: result.bodyHtml,
+    cssText: result.cssText,
+    headLinks,
+    baseWidth: result.baseWidth,
+    baseHeight: result.baseHeight,
+    // Why: breakpoints only apply when the page reflows with the window instead of scaling one canvas
+    layoutMode: 'adaptive',
+    inlineCss: true,
+  });
+  writeResult(args.out, html);
+  console.error(`Breakpoints: ${result.breakpoints.map(b => `${b.width}px ${b.media}`).join(', ') || 'none'}`);
+  if (result.unmatched.length) {
+    console.error(`Layers missing from the widest design (not rendered):\n - ${result.unmatched.map(u => `${u.width}px: ${u.key}`).join('\n - ')}`);
+  }
+  if (result.textConflicts.length) {
+    console.error(`Text differs between designs (widest design's text kept):\n - ${result.textConflicts.map(c => `${c.width}px: ${c.key}: ${JSON.stringify(c.text)} (kept ${JSON.stringify(c.baseText)})`).join('\n - ')}`);
+  }
+}
+
+// Exits with a message when the input holds no valid composition
+function loadComposition(file: string | null, args: CliArgs): AnyObj {
+  const composition = resolveComposition(readInput(file), args);
+  if (!composition) {
+    console.error('Input must be { composition: {...} }, a composition object with kind="composition", or a Figma REST file/nodes response.');
+    process.exit(1);
+  }
+  const validation = validateComposition(composition);
+  if (!validation.valid) {
+    console.error(`Invalid composition${file ? ` in ${file}` : ''} (${validation.errors.length} error(s)):`);
+    for (const issue of validation.errors) console.error(` - ${issue.path}: ${issue.message}`);
+    process.exit(1);
+  }
+  return composition;
+}
+
+async function main() {
+  const args = parseArgs(process.argv);
+  if (!args.command) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  if (args.command === 'responsive') {
+    if (args.inputs.length < 2) {
+      console.error(`responsive needs at least two inputs (one per breakpoint).\n${USAGE}`);
+      process.exit(1);
+    }
+    await runResponsive(args.inputs.map(file => loadComposition(file, args)), args);
+    return;
+  }
+  const composition = loadComposition(args.inputs[0] ?? null, args);
+
+  if (args.command === 'composition') writeResult(args.out, JSON.stringify(composition, null, 2));
+  else if (args.command === 'ir') runIr(composition, args);
+  else if (args.command === 'tokens') await runTokens(composition, args);
+  else if (args.command === 'render') await runRender(composition, args);
+  else await runExport(composition, args);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -1,6 +1,10 @@
 /*
  Compare two images and generate a diff visualization.
- Usage: npm run diff-images -- <image1> <image2> [--output <diff.png>]
+ Usage: npm run diff-images -- <image1> <image2> [--output <diff.png>] [--ir <ir.json|composition.json>] [--origin x,y] [--top 10]
+
+ With --ir, differing pixels are attributed to the deepest IR node boxes and a ranked list is printed and
+ written to diff-attribution.json next to the diff image. The IR file may be `npm run bridge -- ir` output
+ or a composition payload; --origin overrides the composition coordinate of image1's top-left pixel.
  
  Example:
    npm run diff-images -- debug/logs/figma-render.png debug/logs/html-render.png
@@ -12,12 +16,17 @@ import path from 'path';
 // @ts-ignore - pngjs has no types
 import { PNG } from 'pngjs';
 import pixelmatch from 'pixelmatch';
+import { attributeDiff, attributeCompositionDiff, collectNodeBoxes, compareOrigin, formatAttribution } from '../utils/diff-attribution';
+import type { DiffAttribution } from '../utils/diff-attribution';
 
 type Args = {
   image1: string | null;
   image2: string | null;
   output: string | null;
   sizeTolerancePercent: number;
+  ir: string | null;
+  origin: { x: number; y: number } | null;
+  top: number;
 };
 
 function parseArgs(argv: string[]): Args {
@@ -25,6 +34,9 @@ function parseArgs(argv: string[]): Args {
   let image2: string | null = null;
   let output: string | null = null;
   let sizeTolerancePercent = 2.5;
+  let ir: string | null = null;
+  let origin: { x: number; y: number } | null = null;
+  let top = 10;
 
   for (let i = 2; i < argv.length; i++) {
     const arg = argv[i];
@@ -35,6 +47,16 @@ function parseArgs(argv: string[]): Args {
       const v = argv[i + 1];
       sizeTolerancePercent = v ? Number(v) : sizeTolerancePercent;
       i++;
+    } else if (arg === '--ir') {
+      ir = argv[i + 1] || null;
+      i++;
+    } else if (arg === '--origin') {
+      const [x, y] = String(argv[i + 1] || '').split(',').map(Number);
+      if (Number.isFinite(x) && Number.isFinite(y)) origin = { x, y };
+      i++;
+    } else if (arg === '--top') {
+      top = Number(argv[i + 1]) || top;
+      i++;
     } else if (!image1) {
       image1 = arg;
     } else if (!image2) {
@@ -42,7 +64,7 @@ function parseArgs(argv: string[]): Args {
     }
   }
 
-  return { image1, image2, output, sizeTolerancePercent };
+  return { image1, image2, output, sizeTolerancePercent, ir, origin, top };
 }
 
 function resolvePath(filePath: string): string {
@@ -59,6 +81,15 @@ function savePng(png: PNG, filePath: string): void {
   fs.writeFileSync(filePath, buffer);
 }
 
+function attributeFromFile(diff: PNG, irPath: string, origin: { x: number; y: number } | null): DiffAttribution {
+  const payload = JSON.parse(fs.readFileSync(irPath, 'utf8'));
+  const composition = payload?.composition || (payload?.kind === 'composition' ? payload : null);
+  if (composition) return attributeCompositionDiff(diff, composition, origin || undefined);
+  if (!Array.isArray(payload?.nodes)) throw new Error('diff-images: --ir must be IR JSON ({ nodes }) or a composition');
+  const boxes = collectNodeBoxes(payload.nodes, payload.absOrigin);
+  return attributeDiff(diff, boxes, origin || compareOrigin(payload, payload.renderUnion));
+}
+
 function resizeNearest(src: PNG, targetW: number, targetH: number): PNG {
   const dst = new PNG({ width: targetW, height: targetH });
   const sx = src.width / targetW;
@@ -173,6 +204,16 @@ async function main() {
   console.log('');
   console.log(`Saving diff image to: ${outputPath}`);
   savePng(diff, outputPath);
+
+  if (args.ir) {
+    const attribution = attributeFromFile(diff, resolvePath(args.ir), args.origin);
+    const attributionPath = path.join(path.dirname(outputPath), 'diff-attribution.json');
+    fs.writeFileSync(attributionPath, JSON.stringify(attribution, null, 2), 'utf8');
+    console.log('');
+    console.log('=== Worst Nodes ===');
+    console.log(attribution.nodes.length ? formatAttribution(attribution, args.top) : '(no differing pixels inside node boxes)');
+    console.log(`Attribution: ${attributionPath}`);
+  }
   console.log('✅ Done!');
 }
 
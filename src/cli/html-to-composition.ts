@@ -0,0 +1,178 @@
+/*
+ Convert an arbitrary HTML/CSS page into composition JSON, so a coded page can be loaded into the Bridge preview
+ or diffed against the Figma original (save it as a fixture's original.json next to figma-render.png).
+ Layout is computed by headless Chrome; flex containers become auto-layout, inline content becomes TEXT nodes.
+ Inline SVGs and local / data: images are written to --assets (svgs/, images/) where the pipeline expects them.
+ The pipeline loads images/{id}.png, so JPEG and WebP sources are converted with libwebp's cwebp/dwebp
+ ($CWEBP_PATH / $DWEBP_PATH or $PATH); without them the file keeps its own extension and is listed for conversion.
+
+ Usage:
+  npm run html-to-composition -- <page.html> [--css extra.css ...] [--width 1440] [--height 900]
+    [--out composition.json] [--assets temp] [--chrome <path>] [--timeout-ms 30000]
+*/
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { fileURLToPath } from 'url';
+import { htmlLayoutToComposition, validateComposition } from 'figma-html-bridge';
+import type { HtmlCompositionConversion } from 'figma-html-bridge';
+import { measureHtmlLayout } from '../utils/html-layout';
+import { findOnPath } from '../utils/html-renderer';
+
+type CliArgs = {
+  input: string | null;
+  cssFiles: string[];
+  width: number;
+  height: number;
+  out: string | null;
+  assets: string;
+  chromePath: string | undefined;
+  timeoutMs: number;
+};
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { input: null, cssFiles: [], width: 1440, height: 900, out: null, assets: 'temp', chromePath: undefined, timeoutMs: 30000 };
+  for (let i = 2; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a) continue;
+    if (a === '--css') { const f = argv[++i]; if (f) args.cssFiles.push(f); continue; }
+    if (a === '--width') { args.width = Number(argv[++i]) || args.width; continue; }
+    if (a === '--height') { args.height = Number(argv[++i]) || args.height; continue; }
+    if (a === '--out' || a === '-o') { args.out = argv[++i] || null; continue; }
+    if (a === '--assets') { args.assets = argv[++i] || args.assets; continue; }
+    if (a === '--chrome') { args.chromePath = argv[++i]; continue; }
+    if (a === '--timeout-ms') { args.timeoutMs = Number(argv[++i]) || args.timeoutMs; continue; }
+    if (!args.input) args.input = a;
+  }
+  return args;
+}
+
+// Local file or data: URL contents; null for remote sources
+function readSource(src: string): Buffer | null {
+  if (src.startsWith('data:')) {
+    const comma = src.indexOf(',');
+    if (comma < 0) return null;
+    const meta = src.slice(5, comma);
+    const body = src.slice(comma + 1);
+    return /;base64$/.test(meta) ? Buffer.from(body, 'base64') : Buffer.from(decodeURIComponent(body), 'utf8');
+  }
+  if (src.startsWith('file:')) {
+    const file = fileURLToPath(src.split(/[?#]/)[0]);
+    return fs.existsSync(file) ? fs.readFileSync(file) : null;
+  }
+  return null;
+}
+
+// Raster format by file signature; null when unrecognized
+function imageFormatOf(data: Buffer): 'png' | 'jpg' | 'webp' | 'gif' | null {
+  if (data.length < 12) return null;
+  if (data.readUInt32BE(0) === 0x89504e47) return 'png';
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpg';
+  if (data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') return 'webp';
+  if (data.toString('ascii', 0, 4) === 'GIF8') return 'gif';
+  return null;
+}
+
+/**
+ * JPEG / WebP bytes → PNG. dwebp decodes WebP; JPEG goes through a lossless WebP first, so libwebp is the only
+ * tool needed. Null when a tool is missing or fails (GIF is not supported).
+ */
+function convertToPng(data: Buffer, format: 'jpg' | 'webp', timeoutMs: number): Buffer | null {
+  const dwebp = process.env.DWEBP_PATH || findOnPath('dwebp');
+  const cwebp = process.env.CWEBP_PATH || findOnPath('cwebp');
+  if (!dwebp || (format === 'jpg' && !cwebp)) return null;
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bridge-html-images-'));
+  try {
+    const input = path.join(workDir, `source.${format}`);
+    const webp = format === 'webp' ? input : path.join(workDir, 'source.webp');
+    const output = path.join(workDir, 'out.png');
+    fs.writeFileSync(input, data);
+    const run = (binary: string, args: string[]) => execFileSync(binary, args, { timeout: timeoutMs, killSignal: 'SIGKILL', stdio: 'ignore' });
+    if (format === 'jpg') run(cwebp!, ['-quiet', '-lossless', '-metadata', 'none', input, '-o', webp]);
+    run(dwebp, ['-quiet', webp, '-png', '-o', output]);
+    return fs.readFileSync(output);
+  } catch {
+    return null;
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+function writeAssets(assets: HtmlCompositionConversion['assets'], assetsDir: string, timeoutMs: number) {
+  const missing: string[] = [];
+  const unconverted: string[] = [];
+  const put = (rel: string, data: Buffer | string) => {
+    const full = path.join(assetsDir, rel);
+    fs.mkdirSync(path.dirname(full), { recursive: true });
+    fs.writeFileSync(full, data);
+  };
+  for (const img of assets.images) {
+    const data = readSource(img.src);
+    if (!data) {
+      missing.push(`images/${img.imageId}.png  (${img.src})`);
+      continue;
+    }
+    const format = imageFormatOf(data);
+    // Why: unrecognized bytes are written as before; the renderer's browser sniffs them
+    if (!format || format === 'png') {
+      put(path.join('images', `${img.imageId}.png`), data);
+      continue;
+    }
+    const png = format === 'gif' ? null : convertToPng(data, format, timeoutMs);
+    if (png) {
+      put(path.join('images', `${img.imageId}.png`), png);
+    } else {
+      put(path.join('images', `${img.imageId}.${format}`), data);
+      unconverted.push(`images/${img.imageId}.${format} → images/${img.imageId}.png`);
+    }
+  }
+  for (const svg of assets.svgs) {
+    const data = svg.markup ?? (svg.src ? readSource(svg.src) : null);
+    if (data) put(path.join('svgs', `${svg.svgId}.svg`), data);
+    else missing.push(`svgs/${svg.svgId}.svg  (${svg.src})`);
+  }
+  return { missing, unconverted };
+}
+
+async function main() {
+  const args = parseArgs(process.argv);
+  if (!args.input) {
+    console.error('Usage: npm run html-to-composition -- <page.html> [--css extra.css] [--width 1440] [--height 900] [--out composition.json] [--assets temp] [--chrome <path>]');
+    process.exit(1);
+  }
+  const inputPath = path.resolve(args.input);
+  const html = fs.readFileSync(inputPath, 'utf8');
+  const snapshot = await measureHtmlLayout(html, {
+    width: args.width,
+    height: args.height,
+    baseDir: path.dirname(inputPath),
+    cssFiles: args.cssFiles,
+    chromePath: args.chromePath,
+    timeoutMs: args.timeoutMs,
+  });
+  const { composition, assets } = htmlLayoutToComposition(snapshot);
+
+  const validation = validateComposition(composition);
+  for (const issue of validation.errors) console.error(`Error ${issue.path}: ${issue.message}`);
+  const { missing, unconverted } = writeAssets(assets, path.resolve(args.assets), args.timeoutMs);
+  if (missing.length) console.error(`Remote assets to download into ${path.resolve(args.assets)}:\n - ${missing.join('\n - ')}`);
+  if (unconverted.length) console.error(`Images to convert to PNG (install libwebp's cwebp/dwebp to convert automatically):\n - ${unconverted.join('\n - ')}`);
+
+  const text = JSON.stringify(composition, null, 2) + '\n';
+  if (args.out) {
+    const full = path.resolve(args.out);
+    fs.mkdirSync(path.dirname(full), { recursive: true });
+    fs.writeFileSync(full, text, 'utf8');
+    console.error(`Wrote ${full} (${snapshot.page.width}x${snapshot.page.height}, ${assets.images.length} image(s), ${assets.svgs.length} svg(s))`);
+  } else {
+    process.stdout.write(text);
+  }
+  process.exit(validation.valid ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error('Error:', err);
+  process.exit(1);
+});
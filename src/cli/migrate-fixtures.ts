@@ -0,0 +1,95 @@
+/*
+ Upgrade stored compositions to the current schemaVersion in place (see migrateComposition).
+ Rewrites original.json of every fixture under --fixtures, or the given fixture dirs / JSON files.
+ Files that are already current are left untouched.
+
+ Usage:
+  npm run migrate-fixtures -- [--fixtures fixtures/figma] [--dry-run]
+  npm run migrate-fixtures -- <fixture-dir|composition.json> [...] [--dry-run]
+*/
+
+import fs from 'fs';
+import path from 'path';
+import { migrateComposition, COMPOSITION_SCHEMA_VERSION } from 'figma-html-bridge';
+import { resolveComposition, listFixtureDirs } from '../utils/fixtures';
+
+type CliArgs = {
+  fixtures: string;
+  targets: string[];
+  dryRun: boolean;
+};
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { fixtures: 'fixtures/figma', targets: [], dryRun: false };
+  for (let i = 2; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a) continue;
+    if (a === '--fixtures' || a === '-f') { args.fixtures = argv[++i]; continue; }
+    if (a === '--dry-run' || a === '-n') { args.dryRun = true; continue; }
+    args.targets.push(a);
+  }
+  return args;
+}
+
+function resolveFiles(args: CliArgs): string[] {
+  if (!args.targets.length) {
+    return listFixtureDirs(args.fixtures)
+      .map((d) => path.join(d, 'original.json'))
+      .filter((f) => fs.existsSync(f));
+  }
+  return args.targets.map((t) => {
+    const full = path.resolve(t);
+    return fs.existsSync(full) && fs.statSync(full).isDirectory() ? path.join(full, 'original.json') : full;
+  });
+}
+
+// Keep the file's existing layout so migrated fixtures diff cleanly
+function detectIndent(raw: string): number {
+  const m = raw.match(/\n( +)"/);
+  return m ? m[1].length : 0;
+}
+
+async function main() {
+  const args = parseArgs(process.argv);
+  const files = resolveFiles(args);
+  if (!files.length) {
+    console.error(`No original.json found${args.targets.length ? '' : ` under ${args.fixtures}`}`);
+    process.exit(1);
+  }
+
+  let migrated = 0;
+  let failed = 0;
+  for (const file of files) {
+    const rel = path.relative(process.cwd(), file);
+    try {
+      const raw = fs.readFileSync(file, 'utf8');
+      const payload = JSON.parse(raw);
+      const composition = resolveComposition(payload);
+      if (!composition) throw new Error('not a composition (expect { composition } or kind="composition")');
+      const result = migrateComposition(composition);
+      if (!result.applied.length) {
+        console.log(`- ${rel} ... up to date (${result.toVersion})`);
+        continue;
+      }
+      migrated++;
+      if (!args.dryRun) {
+        const indent = detectIndent(raw);
+        fs.writeFileSync(file, JSON.stringify(payload, null, indent || undefined) + (raw.endsWith('\n') ? '\n' : ''), 'utf8');
+      }
+      console.log(`- ${rel} ... ${args.dryRun ? 'would migrate' : 'migrated'} ${result.fromVersion} → ${result.toVersion}`);
+      for (const step of result.applied) console.log(`    ${step}`);
+    } catch (e: any) {
+      failed++;
+      console.log(`- ${rel} ... ERROR - ${String(e?.message || e)}`);
+    }
+  }
+
+  console.log('');
+  console.log(`Summary: ${migrated} ${args.dryRun ? 'to migrate' : 'migrated'}, ${files.length - migrated - failed} up to date, ${failed} failed (current schemaVersion ${COMPOSITION_SCHEMA_VERSION})`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error('Error:', err);
+  process.exit(1);
+});
@@ -6,7 +6,7 @@
 import fs from 'fs';
 import path from 'path';
 import { figmaToHtml } from 'figma-html-bridge';
-import { warmupChineseFontsMapping } from '../utils/fonts';
+import { warmupFontProviders } from '../utils/fonts';
 import { createAssetUrlProvider } from '../utils/assets';
 
 type AnyObj = Record<string, any>;
@@ -59,7 +59,7 @@ async function main() {
   }
 
   // Keep parity with server: warm up fonts mapping but never fail
-  try { await warmupChineseFontsMapping(); } catch {}
+  try { await warmupFontProviders(); } catch {}
 
   const result = await figmaToHtml({ composition }, {
     assetUrlProvider: createAssetUrlProvider(false),
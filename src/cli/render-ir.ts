@@ -6,7 +6,7 @@
 import fs from 'fs';
 import path from 'path';
 import { figmaToHtml } from 'figma-html-bridge';
-import { warmupChineseFontsMapping } from '../utils/fonts';
+import { warmupFontProviders } from '../utils/fonts';
 import { createAssetUrlProvider } from '../utils/assets';
 
 type AnyObj = Record<string, any>;
@@ -64,7 +64,7 @@ async function main() {
 
   // Ensure font mapping is ready for consistent output (CLI parity with server)
   try {
-    await warmupChineseFontsMapping();
+    await warmupFontProviders();
   } catch {}
 
   const dir = path.join(process.cwd(), 'debug', 'logs');
@@ -0,0 +1,265 @@
+/*
+ Run visual regression over fixtures without the server or a preview tab.
+ Fixtures use the same layout as test-fixtures (original.json + figma-render.png, optional meta.json).
+ The generated HTML is rasterized by a headless renderer and diffed against figma-render.png.
+
+ Usage:
+  npm run test-fixtures:headless -- [--fixtures fixtures/figma] [--pattern name-substring] [--threshold 3] [--size-tolerance-percent 2.5]
+    [--renderer chrome|<module-path>] [--chrome <path>] [--assets temp] [--no-online-fonts] [--timeout-ms 30000]
+    [--junit <file>] [--json <file>]
+
+ --no-online-fonts keeps only local font providers from bridge.config.json; a `stand-in` provider there renders
+ every family with one known font file, so offline runs are reproducible across machines.
+
+ Renderers:
+   chrome          Local Chrome/Chromium (--chrome, $CHROME_PATH or a well-known install location)
+   <module-path>   Module exporting createRenderer(options) → { render({ html, width, height }): Promise<Buffer> }
+
+ Reports default to debug/fixtures/<type>/fixtures-report.json and junit.xml (plus report.html); exit code is 1 when any case fails.
+*/
+
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { figmaToHtml } from 'figma-html-bridge';
+import { warmupFontProviders, extractFontsFromComposition } from '../utils/fonts';
+import { createAssetUrlProvider } from '../utils/assets';
+import { buildHeadFontLinks } from '../utils/output-package';
+import { computeViewportRect } from '../utils/viewport';
+import type { ViewportRect } from '../utils/viewport';
+import { loadRenderer } from '../utils/html-renderer';
+import type { HtmlRenderer } from '../utils/html-renderer';
+import { readJson, resolveComposition, ensureDir, listFixtureDirs, loadFixture, loadPng, savePng, diffPng, buildJUnitReport, writeCaseInputs, writeCaseAttribution } from '../utils/fixtures';
+import { writeHtmlReport } from '../utils/fixture-report';
+import type { FixtureCase, CaseResult } from '../utils/fixtures';
+
+type AnyObj = Record<string, any>;
+
+type CliArgs = {
+  fixtures: string;
+  pattern: string | null;
+  thresholdPercent: number;
+  maxSizeDeltaPercent: number;
+  renderer: string;
+  chromePath: string | undefined;
+  assets: string;
+  onlineFonts: boolean;
+  timeoutMs: number;
+  junit: string | null;
+  json: string | null;
+};
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    fixtures: 'fixtures/figma',
+    pattern: null,
+    thresholdPercent: 3.0,
+    maxSizeDeltaPercent: 2.5,
+    renderer: 'chrome',
+    chromePath: undefined,
+    assets: 'temp',
+    onlineFonts: true,
+    timeoutMs: 30000,
+    junit: null,
+    json: null,
+  };
+
+  for (let i = 2; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a) continue;
+    if (a === '--fixtures' || a === '-f') { args.fixtures = argv[++i]; continue; }
+    if (a === '--pattern' || a === '-p') { args.pattern = argv[++i]; continue; }
+    if (a === '--threshold') { args.thresholdPercent = Number(argv[++i] || '3.0'); continue; }
+    if (a === '--size-tolerance-percent' || a === '--max-size-delta-percent') { args.maxSizeDeltaPercent = Number(argv[++i] || '2.5'); continue; }
+    if (a === '--renderer' || a === '-r') { args.renderer = argv[++i] || args.renderer; continue; }
+    if (a === '--chrome') { args.chromePath = argv[++i]; continue; }
+    if (a === '--assets') { args.assets = argv[++i] || args.assets; continue; }
+    if (a === '--no-online-fonts') { args.onlineFonts = false; continue; }
+    if (a === '--timeout-ms') { args.timeoutMs = Number(argv[++i] || '30000'); continue; }
+    if (a === '--junit') { args.junit = argv[++i] || null; continue; }
+    if (a === '--json') { args.json = argv[++i] || null; continue; }
+  }
+
+  return args;
+}
+
+// Same geometry as the preview compare viewport (padding 0); DSL compositions are captured at their bounds,
+// matching the `.composition` element the preview page snapshots for them
+function captureRect(composition: AnyObj, renderUnion: any): ViewportRect {
+  const bounds = { width: Number(composition?.bounds?.width) || 0, height: Number(composition?.bounds?.height) || 0 };
+  if (composition?._bridgeSource === 'dsl') {
+    return { minX: 0, minY: 0, viewportWidth: Math.ceil(bounds.width), viewportHeight: Math.ceil(bounds.height) };
+  }
+  return computeViewportRect(bounds, renderUnion || { x: 0, y: 0, width: bounds.width, height: bounds.height }, 0);
+}
+
+function buildCaptureHtml(contentHtml: string, cssText: string, composition: AnyObj, rect: ViewportRect, headLinks: string, assetsDir: string): string {
+  const baseHref = pathToFileURL(assetsDir + path.sep).href;
+  const viewportStyles = `
+html, body {
+  margin: 0;
+  padding: 0;
+  background: transparent;
+  overflow: hidden;
+}
+.viewport {
+  position: relative;
+  width: ${rect.viewportWidth}px;
+  height: ${rect.viewportHeight}px;
+  overflow: hidden;
+  box-sizing: border-box;
+}
+.view-offset {
+  position: absolute;
+  left: ${-rect.minX}px;
+  top: ${-rect.minY}px;
+  width: 100%;
+  min-height: 100%;
+  box-sizing: border-box;
+}
+.composition {
+  position: relative;
+  left: 0;
+  top: 0;
+  width: ${composition.bounds.width}px;
+  min-height: ${composition.bounds.height}px;
+  box-sizing: border-box;
+}`;
+
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>Bridge Capture</title>
+    <base href="${baseHref}">
+${headLinks}    <style>${cssText}</style>
+    <style>${viewportStyles}</style>
+  </head>
+  <body>
+    <div class="viewport">
+      <div class="view-offset">
+        <div class="composition" data-figma-render="1">
+${contentHtml}
+        </div>
+      </div>
+    </div>
+  </body>
+</html>`;
+}
+
+async function runCase(f: FixtureCase, args: CliArgs, renderer: HtmlRenderer, outRoot: string): Promise<CaseResult> {
+  const outDir = path.join(outRoot, f.name);
+  ensureDir(outDir);
+  const paths: CaseResult['paths'] = { html: path.join(outDir, 'html.png'), figma: f.figmaPath, diff: path.join(outDir, 'diff.png'), outDir };
+  const threshold = (typeof f.meta.thresholdPercent === 'number' ? f.meta.thresholdPercent! : args.thresholdPercent);
+  const sizeDeltaPercent = (typeof f.meta.maxSizeDeltaPercent === 'number' ? f.meta.maxSizeDeltaPercent : args.maxSizeDeltaPercent);
+
+  let comp: AnyObj | null = null;
+  try { comp = resolveComposition(readJson(f.originPath)); } catch {}
+  if (!comp) {
+    return { case: f.name, passed: false, thresholdPercent: threshold, stats: null, paths, error: 'invalid original.json (expect composition)' };
+  }
+  Object.assign(paths, writeCaseInputs(outDir, comp));
+
+  let pagePng: Buffer;
+  try {
+    const fc = extractFontsFromComposition(JSON.parse(JSON.stringify(comp)));
+    const online = args.onlineFonts;
+    const headLinks = buildHeadFontLinks(fc.getGoogleFontsUrl({ online }), fc.getFontStylesheetUrls({ online }), fc.getFontFaceCss({ online, fileUrl: (file) => pathToFileURL(file).href }));
+    const result = await figmaToHtml({ composition: comp }, {
+      assetUrlProvider: createAssetUrlProvider(false),
+      debugEnabled: false,
+    });
+    const rect = captureRect(comp, result.renderUnion);
+    const html = buildCaptureHtml(result.html, result.cssText, comp, rect, headLinks, path.resolve(args.assets));
+    fs.writeFileSync(path.join(outDir, 'render.html'), html, 'utf8');
+    pagePng = await renderer.render({ html, width: rect.viewportWidth, height: rect.viewportHeight });
+    fs.writeFileSync(paths.html, pagePng);
+  } catch (e: any) {
+    return { case: f.name, passed: false, thresholdPercent: threshold, stats: null, paths, error: `render failed: ${String(e?.message || e)}` };
+  }
+
+  try {
+    const { diff, stats } = diffPng(loadPng(f.figmaPath), loadPng(paths.html), { maxSizeDeltaPercent: sizeDeltaPercent });
+    savePng(diff, paths.diff);
+    const attribution = writeCaseAttribution(outDir, diff, comp);
+    if (attribution) paths.attribution = attribution.path;
+    const passed = stats.diffPercent <= threshold;
+    fs.writeFileSync(path.join(outDir, 'stats.json'), JSON.stringify({ case: f.name, thresholdPercent: threshold, ...stats }, null, 2), 'utf8');
+    return { case: f.name, passed, thresholdPercent: threshold, stats, paths, worstNodes: attribution?.worstNodes };
+  } catch (e: any) {
+    return { case: f.name, passed: false, thresholdPercent: threshold, stats: null, paths, error: String(e?.message || e) };
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv);
+  const fixturesRoot = path.isAbsolute(args.fixtures) ? args.fixtures : path.join(process.cwd(), args.fixtures);
+  const fixtureType = path.basename(args.fixtures);
+  const outRoot = path.join(process.cwd(), 'debug', 'fixtures', fixtureType);
+  ensureDir(outRoot);
+
+  const dirs = listFixtureDirs(fixturesRoot).filter((d) => args.pattern ? path.basename(d).includes(args.pattern!) : true);
+  if (!dirs.length) {
+    console.error(`No fixtures found in ${fixturesRoot}${args.pattern ? ` (pattern: ${args.pattern})` : ''}`);
+    process.exit(1);
+  }
+
+  const cases: FixtureCase[] = dirs.map(loadFixture).filter(Boolean) as FixtureCase[];
+  if (!cases.length) {
+    console.error('No valid fixtures (original.json + figma-render.png)');
+    process.exit(1);
+  }
+
+  // Ensure font providers are ready for consistent output (CLI parity with server); offline only local ones warm up
+  try {
+    await warmupFontProviders({ online: args.onlineFonts });
+  } catch {}
+
+  const renderer = await loadRenderer(args.renderer, { chromePath: args.chromePath, timeoutMs: args.timeoutMs });
+  console.log(`Running ${cases.length} fixture(s) with ${renderer.name}...`);
+  const results: CaseResult[] = [];
+  const durations: Record<string, number> = {};
+  try {
+    for (const c of cases) {
+      process.stdout.write(`- ${c.name} ... `);
+      const t0 = Date.now();
+      const r = await runCase(c, args, renderer, outRoot);
+      durations[c.name] = Date.now() - t0;
+      if (c.meta.notes) r.notes = c.meta.notes;
+      results.push(r);
+      if (r.passed) {
+        console.log(`OK (${r.stats ? r.stats.diffPercent.toFixed(2) : 'n/a'}%)`);
+      } else {
+        console.log(`FAIL${r.stats ? ` (${r.stats.diffPercent.toFixed(2)}%)` : ''}${r.error ? ` - ${r.error}` : ''}`);
+      }
+    }
+  } finally {
+    await renderer.close?.();
+  }
+
+  const passed = results.filter(r => r.passed).length;
+  const failed = results.length - passed;
+  const report = { total: results.length, passed, failed, renderer: renderer.name, results };
+  const reportPath = args.json ? path.resolve(args.json) : path.join(outRoot, 'fixtures-report.json');
+  const junitPath = args.junit ? path.resolve(args.junit) : path.join(outRoot, 'junit.xml');
+  ensureDir(path.dirname(reportPath));
+  ensureDir(path.dirname(junitPath));
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2), 'utf8');
+  fs.writeFileSync(junitPath, buildJUnitReport(`fixtures.${fixtureType}`, results, durations), 'utf8');
+  const htmlReportPath = path.join(outRoot, 'report.html');
+  writeHtmlReport(htmlReportPath, `Fixtures: ${fixtureType}`, results);
+
+  console.log('');
+  console.log(`Summary: ${passed}/${results.length} passed, ${failed} failed`);
+  console.log(`Report: ${reportPath}`);
+  console.log(`JUnit: ${junitPath}`);
+  console.log(`HTML report: ${htmlReportPath}`);
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error('Error:', err);
+  process.exit(1);
+});
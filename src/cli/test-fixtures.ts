@@ -17,9 +17,9 @@ import fs from 'fs';
 import path from 'path';
 import http from 'http';
 import https from 'https';
-// @ts-ignore - pngjs has no types
-import { PNG } from 'pngjs';
-import pixelmatch from 'pixelmatch';
+import { readJson, resolveComposition, ensureDir, listFixtureDirs, loadFixture, loadPng, savePng, diffPng, writeCaseInputs, writeCaseAttribution } from '../utils/fixtures';
+import { writeHtmlReport } from '../utils/fixture-report';
+import type { FixtureCase, DiffStats, CaseResult } from '../utils/fixtures';
 
 type AnyObj = Record<string, any>;
 
@@ -32,43 +32,6 @@ type CliArgs = {
   timeoutMs: number;
 };
 
-type FixtureMeta = {
-  thresholdPercent?: number;
-  maxSizeDeltaPercent?: number;
-  notes?: string;
-};
-
-type FixtureCase = {
-  name: string;
-  dir: string;
-  originPath: string;
-  figmaPath: string;
-  metaPath: string | null;
-  meta: FixtureMeta;
-};
-
-type DiffStats = {
-  width: number;
-  height: number;
-  totalPixels: number;
-  differentPixels: number;
-  diffPercent: number;
-  cropped: boolean;
-  widthDiff?: number;
-  heightDiff?: number;
-  resized?: boolean;
-  alignMode?: 'stretch' | 'crop' | 'none';
-};
-
-type CaseResult = {
-  case: string;
-  passed: boolean;
-  thresholdPercent: number;
-  stats: DiffStats | null;
-  paths: { html: string; figma: string; diff: string; outDir: string };
-  error?: string;
-};
-
 function parseArgs(argv: string[]): CliArgs {
   let fixtures = 'fixtures/figma';
   let pattern: string | null = null;
@@ -91,20 +54,6 @@ function parseArgs(argv: string[]): CliArgs {
   return { fixtures, pattern, thresholdPercent, maxSizeDeltaPercent, server, timeoutMs };
 }
 
-function readJson(filePath: string): AnyObj {
-  const full = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
-  const raw = fs.readFileSync(full, 'utf8');
-  return JSON.parse(raw);
-}
-
-function resolveComposition(payload: AnyObj): AnyObj | null {
-  if (payload && typeof payload === 'object') {
-    if (payload.composition && typeof payload.composition === 'object') return payload.composition;
-    if (payload.kind === 'composition' && payload.bounds && payload.children) return payload;
-  }
-  return null;
-}
-
 function httpGet(urlStr: string): Promise<{ status: number; body: string }> {
   return new Promise((resolve, reject) => {
     const u = new URL(urlStr);
@@ -149,32 +98,6 @@ function httpPostJson(urlStr: string, json: AnyObj): Promise<{ status: number; b
   });
 }
 
-function ensureDir(dir: string) {
-  fs.mkdirSync(dir, { recursive: true });
-}
-
-function listFixtureDirs(root: string): string[] {
-  const full = path.isAbsolute(root) ? root : path.join(process.cwd(), root);
-  if (!fs.existsSync(full)) return [];
-  return fs.readdirSync(full)
-    .map((name) => path.join(full, name))
-    .filter((p) => {
-      try { return fs.statSync(p).isDirectory(); } catch { return false; }
-    });
-}
-
-function loadFixture(dir: string): FixtureCase | null {
-  const originPath = path.join(dir, 'original.json');
-  const figmaPath = path.join(dir, 'figma-render.png');
-  const metaPath = path.join(dir, 'meta.json');
-  if (!fs.existsSync(originPath) || !fs.existsSync(figmaPath)) return null;
-  let meta: FixtureMeta = {};
-  if (fs.existsSync(metaPath)) {
-    try { meta = JSON.parse(fs.readFileSync(metaPath, 'utf8')); } catch {}
-  }
-  return { name: path.basename(dir), dir, originPath, figmaPath, metaPath: fs.existsSync(metaPath) ? metaPath : null, meta };
-}
-
 async function waitForScreenshotSince(sinceMs: number, timeoutMs: number): Promise<string | null> {
   const debugDir = path.join(process.cwd(), 'debug', 'logs');
   const target = path.join(debugDir, 'html-render.png');
@@ -189,64 +112,6 @@ async function waitForScreenshotSince(sinceMs: number, timeoutMs: number): Promi
   return null;
 }
 
-function loadPng(filePath: string): PNG {
-  const buffer = fs.readFileSync(filePath);
-  return PNG.sync.read(buffer);
-}
-
-function savePng(png: PNG, filePath: string): void {
-  const buffer = PNG.sync.write(png);
-  ensureDir(path.dirname(filePath));
-  fs.writeFileSync(filePath, buffer);
-}
-
-function resizeNearest(src: PNG, targetW: number, targetH: number): PNG {
-  const dst = new PNG({ width: targetW, height: targetH });
-  const sx = src.width / targetW;
-  const sy = src.height / targetH;
-  for (let y = 0; y < targetH; y++) {
-    const syIdx = Math.min(src.height - 1, Math.max(0, Math.floor(y * sy)));
-    for (let x = 0; x < targetW; x++) {
-      const sxIdx = Math.min(src.width - 1, Math.max(0, Math.floor(x * sx)));
-      const si = (syIdx * src.width + sxIdx) * 4;
-      const di = (y * targetW + x) * 4;
-      dst.data[di] = src.data[si];
-      dst.data[di + 1] = src.data[si + 1];
-      dst.data[di + 2] = src.data[si + 2];
-      dst.data[di + 3] = src.data[si + 3];
-    }
-  }
-  return dst;
-}
-
-function diffPng(img1: PNG, img2: PNG, opts: { maxSizeDeltaPercent: number }): { diff: PNG; stats: DiffStats } {
-  let a = img1, b = img2;
-  let cropped = false;
-  let resized = false;
-
-  if (a.width !== b.width || a.height !== b.height) {
-    const wDiff = Math.abs(a.width - b.width);
-    const hDiff = Math.abs(a.height - b.height);
-    const wPct = a.width > 0 ? (wDiff / a.width) * 100 : 100;
-    const hPct = a.height > 0 ? (hDiff / a.height) * 100 : 100;
-    if (wPct <= opts.maxSizeDeltaPercent && hPct <= opts.maxSizeDeltaPercent) {
-      // Align by resizing HTML preview (b) to match Figma reference (a)
-      const targetW = a.width;
-      const targetH = a.height;
-      if (b.width !== targetW || b.height !== targetH) { b = resizeNearest(b, targetW, targetH); resized = true; }
-    } else {
-      throw new Error(`images have significantly different dimensions: ${a.width}x${a.height} vs ${b.width}x${b.height} (Δw=${wPct.toFixed(2)}%, Δh=${hPct.toFixed(2)}%)`);
-    }
-  }
-
-  const { width, height } = a;
-  const diff = new PNG({ width, height });
-  const differentPixels = pixelmatch(a.data, b.data, diff.data, width, height, { threshold: 0.15 });
-  const totalPixels = width * height;
-  const diffPercent = (differentPixels / totalPixels) * 100;
-  return { diff, stats: { width, height, totalPixels, differentPixels, diffPercent, cropped, resized, alignMode: resized ? 'stretch' : (cropped ? 'crop' : 'none') } };
-}
-
 function copyDir(srcDir: string, dstDir: string) {
   if (!fs.existsSync(srcDir)) return;
   ensureDir(dstDir);
@@ -271,6 +136,7 @@ async function runCase(f: FixtureCase, args: CliArgs, outRoot: string): Promise<
   if (!comp) {
     return { case: f.name, passed: false, thresholdPercent: args.thresholdPercent, stats: null, paths: { html: path.join(outDir, 'html.png'), figma: f.figmaPath, diff: path.join(outDir, 'diff.png'), outDir }, error: 'invalid origin.json (expect composition)' };
   }
+  const inputs = writeCaseInputs(outDir, comp);
 
   const threshold = (typeof f.meta.thresholdPercent === 'number' ? f.meta.thresholdPercent! : args.thresholdPercent);
   const sizeDeltaPercent = (typeof (f.meta as any).maxSizeDeltaPercent === 'number' ? (f.meta as any).maxSizeDeltaPercent : args.maxSizeDeltaPercent);
@@ -278,12 +144,12 @@ async function runCase(f: FixtureCase, args: CliArgs, outRoot: string): Promise<
   const t0 = Date.now();
   const postRes = await httpPostJson(args.server.replace(/\/$/, '') + '/api/composition', { composition: comp });
   if (postRes.status !== 204) {
-    return { case: f.name, passed: false, thresholdPercent: threshold, stats: null, paths: { html: path.join(outDir, 'html.png'), figma: f.figmaPath, diff: path.join(outDir, 'diff.png'), outDir }, error: `server error: ${postRes.status} ${postRes.body}` };
+    return { case: f.name, passed: false, thresholdPercent: threshold, stats: null, paths: { html: path.join(outDir, 'html.png'), figma: f.figmaPath, diff: path.join(outDir, 'diff.png'), outDir, ...inputs }, error: `server error: ${postRes.status} ${postRes.body}` };
   }
 
   const shotPath = await waitForScreenshotSince(t0, args.timeoutMs);
   if (!shotPath) {
-    return { case: f.name, passed: false, thresholdPercent: threshold, stats: null, paths: { html: path.join(outDir, 'html.png'), figma: f.figmaPath, diff: path.join(outDir, 'diff.png'), outDir }, error: 'screenshot not received (ensure preview page is open and BRIDGE_DEBUG=1)' };
+    return { case: f.name, passed: false, thresholdPercent: threshold, stats: null, paths: { html: path.join(outDir, 'html.png'), figma: f.figmaPath, diff: path.join(outDir, 'diff.png'), outDir, ...inputs }, error: 'screenshot not received (ensure preview page is open and BRIDGE_DEBUG=1)' };
   }
 
   const htmlOut = path.join(outDir, 'html.png');
@@ -294,22 +160,24 @@ async function runCase(f: FixtureCase, args: CliArgs, outRoot: string): Promise<
   copyDir(sessionSrc, sessionDst);
 
   let stats: DiffStats | null = null;
+  let attribution: ReturnType<typeof writeCaseAttribution> = null;
   try {
     const htmlPng = loadPng(htmlOut);
     const figmaPng = loadPng(f.figmaPath);
     const { diff, stats: s } = diffPng(figmaPng, htmlPng, { maxSizeDeltaPercent: sizeDeltaPercent });
     const diffOut = path.join(outDir, 'diff.png');
     savePng(diff, diffOut);
+    attribution = writeCaseAttribution(outDir, diff, comp);
     stats = s;
   } catch (e: any) {
-    return { case: f.name, passed: false, thresholdPercent: threshold, stats: null, paths: { html: htmlOut, figma: f.figmaPath, diff: path.join(outDir, 'diff.png'), outDir }, error: String(e?.message || e) };
+    return { case: f.name, passed: false, thresholdPercent: threshold, stats: null, paths: { html: htmlOut, figma: f.figmaPath, diff: path.join(outDir, 'diff.png'), outDir, ...inputs }, error: String(e?.message || e) };
   }
 
   const passed = stats.diffPercent <= threshold;
   const statsOut = path.join(outDir, 'stats.json');
   fs.writeFileSync(statsOut, JSON.stringify({ case: f.name, thresholdPercent: threshold, ...stats }, null, 2), 'utf8');
 
-  return { case: f.name, passed, thresholdPercent: threshold, stats, paths: { html: htmlOut, figma: f.figmaPath, diff: path.join(outDir, 'diff.png'), outDir } };
+  return { case: f.name, passed, thresholdPercent: threshold, stats, paths: { html: htmlOut, figma: f.figmaPath, diff: path.join(outDir, 'diff.png'), outDir, ...inputs, attribution: attribution?.path }, worstNodes: attribution?.worstNodes };
 }
 
 async function main() {
@@ -336,6 +204,7 @@ async function main() {
   for (const c of cases) {
     process.stdout.write(`- ${c.name} ... `);
     const r = await runCase(c, args, outRoot);
+    if (c.meta.notes) r.notes = c.meta.notes;
     results.push(r);
     if (r.passed) {
       console.log(`OK (${r.stats ? r.stats.diffPercent.toFixed(2) : 'n/a'}%)`);
@@ -349,10 +218,13 @@ async function main() {
   const report = { total: results.length, passed, failed, results };
   const reportPath = path.join(outRoot, 'fixtures-report.json');
   fs.writeFileSync(reportPath, JSON.stringify(report, null, 2), 'utf8');
+  const htmlReportPath = path.join(outRoot, 'report.html');
+  writeHtmlReport(htmlReportPath, `Fixtures: ${fixtureType}`, results);
 
   console.log('');
   console.log(`Summary: ${passed}/${results.length} passed, ${failed} failed`);
   console.log(`Report: ${reportPath}`);
+  console.log(`HTML report: ${htmlReportPath}`);
 
   process.exit(failed > 0 ? 1 : 0);
 }
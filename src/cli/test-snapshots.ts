@@ -0,0 +1,194 @@
+/*
+ Golden-file snapshot tests for pipeline output (no rendering, no server).
+ For every fixture dir with an original.json (composition) or an index.html (DSL, converted with
+ dslHtmlToComposition), the composition is run through the pipeline package and compared against
+ __snapshots__/ in the same dir:
+   - ir.json       compositionToIR output (nodes, renderUnion, fontMeta, assetMeta)
+   - content.html  content bodyHtml (formatted)
+   - styles.css    content cssText (formatted)
+
+ Usage:
+  npm run test-snapshots -- [--fixtures fixtures/dsl] [--pattern name-substring] [--update] [--max-lines 40]
+
+ The default fixtures/dsl cases and their goldens are committed; fixtures/figma (plugin captures) is local only.
+ Missing goldens and mismatches fail (exit code 1); --update writes missing goldens and accepts changes.
+*/
+
+import fs from 'fs';
+import path from 'path';
+import { figmaToHtml, normalizeComposition, compositionToIR, dslHtmlToComposition } from 'figma-html-bridge';
+import { createAssetUrlProvider } from '../utils/assets';
+import { formatHtml, formatCss } from '../utils/format';
+import { readJson, resolveComposition, ensureDir, listFixtureDirs } from '../utils/fixtures';
+import { diffIrSnapshots, diffCssSnapshots, diffTextSnapshots } from '../utils/snapshot-diff';
+
+type AnyObj = Record<string, any>;
+
+type CliArgs = {
+  fixtures: string;
+  pattern: string | null;
+  update: boolean;
+  maxLines: number;
+};
+
+type SnapshotFile = 'ir.json' | 'content.html' | 'styles.css';
+
+type FileResult = { file: SnapshotFile; status: 'match' | 'written' | 'updated' | 'mismatch' | 'missing'; diff: string[] };
+
+const SNAPSHOT_DIR = '__snapshots__';
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { fixtures: 'fixtures/dsl', pattern: null, update: false, maxLines: 40 };
+  for (let i = 2; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a) continue;
+    if (a === '--fixtures' || a === '-f') { args.fixtures = argv[++i]; continue; }
+    if (a === '--pattern' || a === '-p') { args.pattern = argv[++i]; continue; }
+    if (a === '--update' || a === '-u') { args.update = true; continue; }
+    if (a === '--max-lines') { args.maxLines = Number(argv[++i] || '40'); continue; }
+  }
+  return args;
+}
+
+// Deep copy: every pipeline entry point normalizes the composition in place
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+async function buildSnapshots(composition: AnyObj): Promise<Record<SnapshotFile, string>> {
+  const irInput = clone(composition);
+  normalizeComposition(irInput);
+  const ir = compositionToIR(irInput as any);
+  const result = await figmaToHtml({ composition: clone(composition) }, {
+    assetUrlProvider: createAssetUrlProvider(false),
+    debugEnabled: false,
+  });
+  return {
+    'ir.json': JSON.stringify({
+      absOrigin: irInput.absOrigin,
+      renderUnion: ir.renderUnion,
+      nodes: ir.nodes,
+      fontMeta: ir.fontMeta,
+      assetMeta: ir.assetMeta,
+    }, null, 2) + '\n',
+    'content.html': formatHtml(result.content.bodyHtml) + '\n',
+    'styles.css': formatCss(result.content.cssText) + '\n',
+  };
+}
+
+function diffSnapshot(file: SnapshotFile, expected: string, actual: string): string[] {
+  if (expected === actual) return [];
+  if (file === 'ir.json') {
+    try {
+      const lines = diffIrSnapshots(JSON.parse(expected), JSON.parse(actual));
+      if (lines.length) return lines;
+    } catch {}
+  }
+  if (file === 'styles.css') {
+    const lines = diffCssSnapshots(expected, actual);
+    if (lines.length) return lines;
+  }
+  // Formatting-only changes (or unparsable goldens) fall back to a line diff
+  return diffTextSnapshots(expected, actual);
+}
+
+function hasCaseInput(dir: string): boolean {
+  return fs.existsSync(path.join(dir, 'original.json')) || fs.existsSync(path.join(dir, 'index.html'));
+}
+
+function loadCaseComposition(dir: string): AnyObj {
+  const original = path.join(dir, 'original.json');
+  if (fs.existsSync(original)) {
+    const composition = resolveComposition(readJson(original));
+    if (!composition) throw new Error('invalid original.json (expect composition)');
+    return composition;
+  }
+  // Why: DSL assets (<bridge-svg src>, <bridge-image src>) resolve relative to the fixture dir
+  return dslHtmlToComposition(fs.readFileSync(path.join(dir, 'index.html'), 'utf8'), dir) as AnyObj;
+}
+
+async function runCase(dir: string, args: CliArgs): Promise<FileResult[]> {
+  const composition = loadCaseComposition(dir);
+  const snapshots = await buildSnapshots(composition);
+  const snapDir = path.join(dir, SNAPSHOT_DIR);
+
+  return (Object.keys(snapshots) as SnapshotFile[]).map((file) => {
+    const goldenPath = path.join(snapDir, file);
+    const actual = snapshots[file];
+    if (!fs.existsSync(goldenPath)) {
+      if (!args.update) return { file, status: 'missing', diff: [] };
+      ensureDir(snapDir);
+      fs.writeFileSync(goldenPath, actual, 'utf8');
+      return { file, status: 'written', diff: [] };
+    }
+    const diff = diffSnapshot(file, fs.readFileSync(goldenPath, 'utf8'), actual);
+    if (!diff.length) return { file, status: 'match', diff };
+    if (args.update) {
+      fs.writeFileSync(goldenPath, actual, 'utf8');
+      return { file, status: 'updated', diff };
+    }
+    return { file, status: 'mismatch', diff };
+  });
+}
+
+function printDiff(result: FileResult, maxLines: number) {
+  console.log(`  ${result.file}:`);
+  for (const line of result.diff.slice(0, maxLines)) console.log(`    ${line}`);
+  if (result.diff.length > maxLines) console.log(`    ... ${result.diff.length - maxLines} more line(s)`);
+}
+
+async function main() {
+  const args = parseArgs(process.argv);
+  const fixturesRoot = path.isAbsolute(args.fixtures) ? args.fixtures : path.join(process.cwd(), args.fixtures);
+  const dirs = listFixtureDirs(fixturesRoot)
+    .filter(hasCaseInput)
+    .filter((d) => args.pattern ? path.basename(d).includes(args.pattern!) : true);
+  if (!dirs.length) {
+    console.error(`No fixtures with original.json or index.html found in ${fixturesRoot}${args.pattern ? ` (pattern: ${args.pattern})` : ''}`);
+    process.exit(1);
+  }
+
+  let failed = 0;
+  let written = 0;
+  let updated = 0;
+  for (const dir of dirs) {
+    const name = path.basename(dir);
+    let results: FileResult[];
+    try {
+      results = await runCase(dir, args);
+    } catch (e: any) {
+      failed++;
+      console.log(`- ${name} ... ERROR - ${String(e?.message || e)}`);
+      continue;
+    }
+    const mismatches = results.filter(r => r.status === 'mismatch');
+    const missing = results.filter(r => r.status === 'missing');
+    const changed = results.filter(r => r.status === 'updated');
+    const created = results.filter(r => r.status === 'written');
+    written += created.length;
+    updated += changed.length;
+    if (mismatches.length || missing.length) {
+      failed++;
+      const labels = [...mismatches.map(r => r.file), ...missing.map(r => `${r.file} missing`)];
+      console.log(`- ${name} ... FAIL (${labels.join(', ')})`);
+      for (const r of mismatches) printDiff(r, args.maxLines);
+    } else if (changed.length) {
+      console.log(`- ${name} ... UPDATED (${changed.map(r => r.file).join(', ')})`);
+      for (const r of changed) printDiff(r, args.maxLines);
+    } else if (created.length) {
+      console.log(`- ${name} ... WRITTEN (${created.map(r => r.file).join(', ')})`);
+    } else {
+      console.log(`- ${name} ... OK`);
+    }
+  }
+
+  console.log('');
+  console.log(`Summary: ${dirs.length - failed}/${dirs.length} passed, ${failed} failed${written ? `, ${written} golden(s) written` : ''}${updated ? `, ${updated} golden(s) updated` : ''}`);
+  if (failed && !args.update) console.log('Review the diffs above, then accept intended changes (or write missing goldens) with --update.');
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error('Error:', err);
+  process.exit(1);
+});
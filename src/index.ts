@@ -5,11 +5,26 @@ import fs from 'fs';
 import { exec } from 'child_process';
 import { processBatch as processImageBatch, ensureUploadsDir, listMissing } from './imageService';
 import type { ImageItem } from './imageService';
-import { figmaToHtml, normalizeComposition, compositionToIR, normalizeHtml } from 'figma-html-bridge';
+import { figmaToHtml, figmaToReact, figmaToVue, normalizeComposition, compositionToIR, normalizeHtml, validateComposition, applyFontFallbacks } from 'figma-html-bridge';
 import { UPLOAD_DIR } from './imageService';
 import * as SvgService from './svgService';
-import { warmupChineseFontsMapping, extractFontsFromComposition } from './utils/fonts';
+import { warmupFontProviders, extractFontsFromComposition, getFontOverrides, setFontOverride } from './utils/fonts';
+import type { FontCollector } from './utils/fonts';
+import { isFontProviderFile, getFontProviders } from './utils/font-providers';
+import { buildFontReport } from './utils/font-report';
 import { getCacheStats, clearCache } from './cacheService';
+import { buildHeadFontLinks, addContentExtras, componentCssImports, writeOutputPackage } from './utils/output-package';
+import { embedFonts } from './utils/font-embed';
+import { buildImageAssets, applyImageAssets } from './utils/image-assets';
+import type { ImageAssets } from './utils/image-assets';
+import { BUILD_CACHE_DIR } from './utils/build-cache';
+import { warmupFontCatalog, getFontCatalog, buildFontCatalogReport } from './utils/font-catalog';
+import type { FontCatalogReport } from './utils/font-catalog';
+import { computeViewportRect } from './utils/viewport';
+import { loadPng, savePng, diffPng } from './utils/fixtures';
+import { attributeCompositionDiff } from './utils/diff-attribution';
+import type { Bounds, Rect } from './utils/viewport';
+import type { CompositionIR } from 'figma-html-bridge';
 
 function loadEnvFile() {
   const envPath = path.join(process.cwd(), '.env');
@@ -142,42 +157,6 @@ function writeDebugHtml(name: string, html: string) {
   fs.writeFileSync(filePath, html, 'utf8');
 }
 
-function buildHeadFontLinks(googleFontsUrl?: string | null, chineseFontsUrls?: string[]): string {
-  const lines: string[] = [];
-  const seenOrigins = new Set<string>();
-  const seenHrefs = new Set<string>();
-  if (googleFontsUrl) {
-    if (!seenOrigins.has('https://fonts.googleapis.com')) {
-      lines.push(`    <link rel="preconnect" href="https://fonts.googleapis.com">`);
-      seenOrigins.add('https://fonts.googleapis.com');
-    }
-    if (!seenOrigins.has('https://fonts.gstatic.com')) {
-      lines.push(`    <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>`);
-      seenOrigins.add('https://fonts.gstatic.com');
-    }
-    if (!seenHrefs.has(googleFontsUrl)) {
-      lines.push(`    <link href="${googleFontsUrl}" rel="stylesheet">`);
-      seenHrefs.add(googleFontsUrl);
-    }
-  }
-  if (Array.isArray(chineseFontsUrls)) {
-    for (const href of chineseFontsUrls) {
-      try {
-        const origin = new URL(href).origin;
-        if (!seenOrigins.has(origin)) {
-          lines.push(`    <link rel="preconnect" href="${origin}">`);
-          seenOrigins.add(origin);
-        }
-        if (!seenHrefs.has(href)) {
-          lines.push(`    <link href="${href}" rel="stylesheet">`);
-          seenHrefs.add(href);
-        }
-      } catch { }
-    }
-  }
-  return lines.length ? lines.join('\n') + '\n' : '';
-}
-
 function injectHeadLinks(html: string, headLinks: string): string {
   if (!headLinks) return html;
   return html.replace(/<\/head>/i, headLinks + '</head>');
@@ -205,21 +184,20 @@ function writeDebugDataUrl(name: string, dataUrl: string) {
 const OUTPUT_DIR = path.join(process.cwd(), 'output');
 const SVGS_DIR = path.join(process.cwd(), 'temp', 'svgs');
 const PREVIEW_ASSETS_DIR = path.join(process.cwd(), 'temp', 'preview');
+// Local font files used by the "embed fonts" export option
+const FONTS_DIR = process.env.BRIDGE_FONTS_DIR ? path.resolve(process.env.BRIDGE_FONTS_DIR) : path.join(process.cwd(), 'fonts');
+// Outcome of the last export's font embedding (null when the option is off), shown in the font report
+let lastFontEmbedding: { error: string | null; missing: string[] } | null = null;
 
 let globalSettings = {
-  useOnlineFonts: true
+  useOnlineFonts: true,
+  tailwindOnly: false,
+  adaptiveLayout: false,
+  embedFonts: false,
+  optimizeImages: false,
+  imageDpr: 2
 };
 
-function ensureOutputDir() {
-  try {
-    fs.rmSync(OUTPUT_DIR, { recursive: true, force: true });
-    fs.mkdirSync(path.join(OUTPUT_DIR, 'images'), { recursive: true });
-    fs.mkdirSync(path.join(OUTPUT_DIR, 'svgs'), { recursive: true });
-  } catch (e) {
-    // ignore: non-critical output dir preparation error; API will still respond
-  }
-}
-
 function ensurePreviewAssetsDir() {
   try {
     fs.mkdirSync(PREVIEW_ASSETS_DIR, { recursive: true });
@@ -232,9 +210,6 @@ function rewriteUploadsToImages(html: string): string {
   return html.replace(/\/uploads\/([a-zA-Z0-9_-]+)\.png/g, 'images/$1.png');
 }
 
-type Bounds = { width: number; height: number };
-type Rect = { x: number; y: number; width: number; height: number };
-
 function buildViewportWrapper(
   contentHtml: string,
   bounds: Bounds,
@@ -242,12 +217,7 @@ function buildViewportWrapper(
   padding: number,
   headLinks: string
 ): { html: string; viewportWidth: number; viewportHeight: number } {
-  const minX = Math.min(0, renderUnion.x) - padding;
-  const minY = Math.min(0, renderUnion.y) - padding;
-  const maxX = Math.max(bounds.width, renderUnion.x + renderUnion.width) + padding;
-  const maxY = Math.max(bounds.height, renderUnion.y + renderUnion.height) + padding;
-  const viewportWidth = Math.ceil(maxX - minX);
-  const viewportHeight = Math.ceil(maxY - minY);
+  const { minX, minY, viewportWidth, viewportHeight } = computeViewportRect(bounds, renderUnion, padding);
 
   const viewportStyles = `
 .viewport {
@@ -300,87 +270,6 @@ ${contentHtml}
   return { html, viewportWidth, viewportHeight };
 }
 
-function writeOutputPackage(bodyHtml: string, cssText: string, headLinks: string, imageIds: string[], svgFiles: string[], baseWidth: number, baseHeight: number) {
-  try {
-    ensureOutputDir();
-    for (const id of imageIds) {
-      if (typeof id !== 'string') continue;
-      const src = path.join(UPLOAD_DIR, `${id}.png`);
-      if (fs.existsSync(src)) {
-        const dst = path.join(OUTPUT_DIR, 'images', `${id}.png`);
-        try {
-          fs.copyFileSync(src, dst);
-        } catch (e) {
-          // ignore individual copy failures; continue others
-        }
-      }
-    }
-    for (const name of svgFiles || []) {
-      const src = path.join(SVGS_DIR, name);
-      if (fs.existsSync(src)) {
-        const dst = path.join(OUTPUT_DIR, 'svgs', name);
-        try {
-          fs.copyFileSync(src, dst);
-        } catch (e) {
-          // ignore individual copy failures; continue others
-        }
-      }
-    }
-    const { formatCss, formatHtml } = require('./utils/format');
-    const formattedCss = formatCss(cssText);
-    fs.writeFileSync(path.join(OUTPUT_DIR, 'styles.css'), formattedCss, 'utf8');
-
-    const viewportStyles = `
-    html, body {
-      margin: 0;
-      padding: 0;
-      width: 100vw;
-      min-height: 100vh;
-      overflow-x: hidden;
-      overflow-y: auto;
-      display: flex;
-      align-items: flex-start;
-      justify-content: center;
-      background: #f0f0f0;
-    }
-    .viewport {
-      width: ${baseWidth}px;
-      min-height: ${baseHeight}px;
-      transform-origin: top center;
-    }`;
-
-    const viewportScript = `
-    window.addEventListener('DOMContentLoaded', function() {
-      var baseWidth = ${baseWidth};
-
-      function fit() {
-        var viewport = document.querySelector('.viewport');
-        if (!viewport) return;
-
-        var scale = window.innerWidth / baseWidth;
-
-        viewport.style.transform = 'scale(' + scale + ')';
-      }
-
-      fit();
-      window.addEventListener('resize', fit);
-    });`;
-
-    const wrappedBody = `<div class=\"viewport\">\n${bodyHtml}\n    </div>`;
-
-    let rawHtmlDoc = `<!doctype html>\n<html lang=\"en\">\n  <head>\n    <meta charset=\"utf-8\" />\n    <title>Exported Content</title>\n${headLinks}    <link rel=\"stylesheet\" href=\"styles.css\"/>\n    <style>${viewportStyles}</style>\n  </head>\n  <body>\n${wrappedBody}\n    <script>${viewportScript}</script>\n  </body>\n</html>`;
-    try {
-      const post = normalizeHtml(rawHtmlDoc);
-      if (post && post.html) rawHtmlDoc = post.html;
-    } catch { }
-    const htmlDoc = formatHtml(rawHtmlDoc);
-    fs.writeFileSync(path.join(OUTPUT_DIR, 'index.html'), htmlDoc, 'utf8');
-    // output package written
-  } catch (e) {
-    // ignore: output package write failure will be surfaced via API usage
-  }
-}
-
 app.get('/events', (req, res) => {
   res.setHeader('Content-Type', 'text/event-stream');
   res.setHeader('Cache-Control', 'no-cache');
@@ -490,12 +379,66 @@ app.post('/api/settings', (req, res) => {
     if (typeof settings.useOnlineFonts === 'boolean') {
       globalSettings.useOnlineFonts = settings.useOnlineFonts;
     }
+    if (typeof settings.tailwindOnly === 'boolean') {
+      globalSettings.tailwindOnly = settings.tailwindOnly;
+    }
+    if (typeof settings.adaptiveLayout === 'boolean') {
+      globalSettings.adaptiveLayout = settings.adaptiveLayout;
+    }
+    if (typeof settings.embedFonts === 'boolean') {
+      globalSettings.embedFonts = settings.embedFonts;
+    }
+    if (typeof settings.optimizeImages === 'boolean') {
+      globalSettings.optimizeImages = settings.optimizeImages;
+    }
+    if (typeof settings.imageDpr === 'number' && settings.imageDpr >= 1 && settings.imageDpr <= 4) {
+      globalSettings.imageDpr = settings.imageDpr;
+    }
     res.json({ success: true, settings: globalSettings });
   } catch (e: any) {
     res.status(400).json({ error: String(e?.message || e) });
   }
 });
 
+// Fonts used by the current preview composition and where each one resolves
+app.get('/api/fonts/report', async (req, res) => {
+  try {
+    const cur = previewManager.getSnapshot();
+    const probe = String(req.query.probe ?? '1') !== '0';
+    const report = cur?.composition
+      ? await buildFontReport(cur.composition, { probe, online: globalSettings.useOnlineFonts })
+      : { fonts: [], providers: getFontProviders().map(p => ({ name: p.name, type: p.type, remote: p.remote })) };
+    res.json({ ...report, useOnlineFonts: globalSettings.useOnlineFonts, overrides: getFontOverrides(), embedding: lastFontEmbedding });
+  } catch (e: any) {
+    res.status(500).json({ error: String(e?.message || e) });
+  }
+});
+
+// Font files of local / stand-in providers, referenced by the preview's @font-face rules
+app.get('/api/fonts/file', (req, res) => {
+  const file = String(req.query.path || '');
+  if (!isFontProviderFile(file)) {
+    res.status(404).json({ error: 'font file not found' });
+    return;
+  }
+  res.sendFile(path.resolve(file));
+});
+
+app.get('/api/fonts/overrides', (_req, res) => {
+  res.json({ overrides: getFontOverrides() });
+});
+
+// Body: { family, override: { source, path?, url? } | null }; applies from the next render
+app.post('/api/fonts/overrides', (req, res) => {
+  try {
+    const { family, override } = req.body || {};
+    const overrides = setFontOverride(family, override || null);
+    res.json({ success: true, overrides });
+  } catch (e: any) {
+    res.status(400).json({ error: String(e?.message || e) });
+  }
+});
+
 app.get('/api/cache/stats', (_req, res) => {
   try {
     const stats = getCacheStats();
@@ -565,6 +508,19 @@ app.get('/api/languages/:code', (req, res) => {
   }
 });
 
+function outputAssetUrlProvider(id: string, type: 'image' | 'svg', data?: string): string {
+  if (type === 'image') return `images/${id}.png`;
+  if (type === 'svg' && data) {
+    const encoded = Buffer.from(data).toString('base64');
+    return `data:image/svg+xml;base64,${encoded}`;
+  }
+  return `svgs/${id}`;
+}
+
+function previewFontFileUrl(file: string): string {
+  return `/api/fonts/file?path=${encodeURIComponent(file)}`;
+}
+
 app.post('/api/composition', async (req, res) => {
   const originalPayload = req.body ?? null;
   const composition = originalPayload?.composition ?? null;
@@ -593,13 +549,33 @@ app.post('/api/composition', async (req, res) => {
     } catch (e) { /* ignore debug write failures */ }
   }
 
+  // Report every schema/structure problem at once instead of the first normalize/IR failure
+  const validation = validateComposition(composition);
+  if (!validation.valid) {
+    console.warn(`[Composition] Rejected: ${validation.errors.length} error(s), first: ${validation.errors[0].path} ${validation.errors[0].message}`);
+    res.status(422).json({
+      error: 'invalid composition',
+      schemaVersion: validation.schemaVersion,
+      issues: validation.errors,
+      warnings: validation.warnings,
+    });
+    return;
+  }
+
   let renderRes: { html: string; baseWidth: number; baseHeight: number; renderUnion: any; debugHtml: string; debugCss: string };
   let lastResult: any;
   let irResult: { nodes: any[]; fontMeta?: any } | null = null;
+  // Full IR shared by the HTML, React and Vue renders below
+  let compositionIr: CompositionIR | undefined;
   let compareHtml: string | undefined;
   // Fonts: compute once and reuse for preview + export
+  let fontCollector: FontCollector | null = null;
   let googleFontsUrl: string | null = null;
-  let chineseFontsUrls: string[] = [];
+  let fontStylesheetUrls: string[] = [];
+  let fontFaceCss = '';
+  let exportFontFaceCss = '';
+  // Metric-matched fallbacks for fonts not installed locally (null until the font catalog is scanned)
+  let fontReport: FontCatalogReport | null = null;
   try {
     normalizeComposition(composition);
     if (DEBUG_ENABLED) {
@@ -611,12 +587,18 @@ app.post('/api/composition', async (req, res) => {
     }
 
     const fc = extractFontsFromComposition(composition);
-    googleFontsUrl = globalSettings.useOnlineFonts ? fc.getGoogleFontsUrl() : null;
-    chineseFontsUrls = globalSettings.useOnlineFonts ? fc.getChineseFontsUrls() : [];
+    fontCollector = fc;
+    const fontOptions = { online: globalSettings.useOnlineFonts };
+    googleFontsUrl = fc.getGoogleFontsUrl(fontOptions);
+    fontStylesheetUrls = fc.getFontStylesheetUrls(fontOptions);
+    fontFaceCss = fc.getFontFaceCss({ ...fontOptions, fileUrl: previewFontFileUrl });
+    // Why: the export package cannot reach the preview server's font route, so it only references local()
+    exportFontFaceCss = fc.getFontFaceCss(fontOptions);
 
     // Build IR for sidebar/properties (keep structure used by frontend; include fontMeta for font preloading)
     try {
       const ir = compositionToIR(composition as any);
+      compositionIr = ir;
       irResult = { nodes: ir.nodes, fontMeta: ir.fontMeta };
       if (DEBUG_ENABLED) {
         try {
@@ -629,35 +611,43 @@ app.post('/api/composition', async (req, res) => {
       console.error('[IR] Generation failed; sidebar tree may be empty:', e);
     }
 
-    const result = await figmaToHtml({ composition }, {
-      assetUrlProvider: (id, type, data) => {
-        if (type === 'image') return `images/${id}.png`;
-        if (type === 'svg' && data) {
-          const encoded = Buffer.from(data).toString('base64');
-          return `data:image/svg+xml;base64,${encoded}`;
-        }
-        return `svgs/${id}`;
-      },
+    const result = await figmaToHtml({ composition, ir: compositionIr }, {
+      assetUrlProvider: outputAssetUrlProvider,
       debugEnabled: true,
+      contentMode: globalSettings.tailwindOnly ? 'tailwind' : 'css',
+      designTokens: true,
+      layoutMode: globalSettings.adaptiveLayout ? 'adaptive' : 'fixed',
+      contentImages: globalSettings.optimizeImages,
     });
     lastResult = result;
+    const catalog = getFontCatalog();
+    if (catalog) {
+      try {
+        fontReport = buildFontCatalogReport(composition, catalog);
+      } catch (e) {
+        console.error('[Fonts] Fallback matching failed:', e);
+      }
+    }
+    const fallbacks = fontReport?.fallbacks || {};
+    const previewHtml = applyFontFallbacks(result.html, fallbacks);
     try {
       ensurePreviewAssetsDir();
-      fs.writeFileSync(path.join(PREVIEW_ASSETS_DIR, 'styles.css'), result.cssText, 'utf8');
+      fs.writeFileSync(path.join(PREVIEW_ASSETS_DIR, 'styles.css'), applyFontFallbacks(result.cssText, fallbacks), 'utf8');
     } catch (e) {
       // ignore preview styles write failure
     }
-    const headLinks = buildHeadFontLinks(googleFontsUrl, chineseFontsUrls);
+    let headLinks = buildHeadFontLinks(googleFontsUrl, fontStylesheetUrls, fontFaceCss);
+    if (fontReport?.cssText) headLinks += `    <style>\n${fontReport.cssText}    </style>\n`;
 
     // Host-level viewport/composition wrappers: core pipeline now returns content-only HTML.
     const bounds = composition.bounds;
     const renderUnion = result.renderUnion;
 
     // Preview viewport (with 4px padding for debug overlay)
-    const previewWrapper = buildViewportWrapper(result.html, bounds, renderUnion, 4, headLinks);
+    const previewWrapper = buildViewportWrapper(previewHtml, bounds, renderUnion, 4, headLinks);
 
     // Compare viewport (no padding for pixel-perfect comparison)
-    const compareWrapper = buildViewportWrapper(result.html, bounds, renderUnion, 0, headLinks);
+    const compareWrapper = buildViewportWrapper(previewHtml, bounds, renderUnion, 0, headLinks);
     compareHtml = compareWrapper.html;
 
     renderRes = {
@@ -682,14 +672,73 @@ app.post('/api/composition', async (req, res) => {
   const post = normalizeHtml(renderRes.html);
 
   try {
-    const headLinks2 = buildHeadFontLinks(googleFontsUrl, chineseFontsUrls);
+    let headLinks2 = buildHeadFontLinks(googleFontsUrl, fontStylesheetUrls, exportFontFaceCss);
     const images = Array.isArray((lastResult as any)?.assets?.images) ? (lastResult as any).assets.images : [];
     const svgs = Array.isArray((lastResult as any)?.assets?.svgs) ? (lastResult as any).assets.svgs : [];
     const baseWidth = (lastResult.content as any).baseWidth || renderRes.baseWidth;
     const baseHeight = (lastResult.content as any).baseHeight || renderRes.baseHeight;
-    writeOutputPackage(lastResult.content.bodyHtml, lastResult.content.cssText, headLinks2, images, svgs, baseWidth, baseHeight);
+    const componentFiles: Record<string, string> = {};
+    try {
+      const react = await figmaToReact({ composition, ir: compositionIr }, {
+        assetUrlProvider: outputAssetUrlProvider,
+        cssImport: componentCssImports(lastResult.content),
+      });
+      componentFiles['Component.tsx'] = react.tsx;
+    } catch (e) {
+      console.error('[React] Component generation failed:', e);
+    }
+    try {
+      const vue = await figmaToVue({ composition, ir: compositionIr }, { assetUrlProvider: outputAssetUrlProvider });
+      componentFiles['Component.vue'] = vue.sfc;
+      Object.assign(componentFiles, vue.components);
+    } catch (e) {
+      console.error('[Vue] Component generation failed:', e);
+    }
+    let fonts: { cssText: string; files: Record<string, Buffer> } | undefined;
+    lastFontEmbedding = null;
+    if (globalSettings.embedFonts) {
+      try {
+        const fontMeta = irResult?.fontMeta || compositionToIR(composition as any).fontMeta;
+        const embedded = await embedFonts(composition, fontMeta, { fontDir: FONTS_DIR, cacheDir: BUILD_CACHE_DIR });
+        fonts = embedded;
+        lastFontEmbedding = { error: null, missing: embedded.missing };
+        if (embedded.missing.length) console.warn(`[Fonts] Not found in ${FONTS_DIR}: ${embedded.missing.join(', ')}; keeping their web font links`);
+        // Why: bundled fonts replace the CDN links so the package also works without internet access; families
+        // that could not be bundled keep their links
+        const linked = embedded.missingFamilies.length && fontCollector ? fontCollector.only(embedded.missingFamilies) : null;
+        const fontOptions = { online: globalSettings.useOnlineFonts };
+        headLinks2 = linked ? buildHeadFontLinks(linked.getGoogleFontsUrl(fontOptions), linked.getFontStylesheetUrls(fontOptions), linked.getFontFaceCss(fontOptions)) : '';
+      } catch (e: any) {
+        lastFontEmbedding = { error: String(e?.message || e), missing: [] };
+        console.error('[Fonts] Embedding failed; export keeps the web font links:', e);
+      }
+    }
+    let bodyHtml = lastResult.content.bodyHtml;
+    let cssText = lastResult.content.cssText;
+    let optimizedImages: ImageAssets | undefined;
+    if (globalSettings.optimizeImages) {
+      try {
+        const usage = Array.isArray((lastResult as any)?.assets?.imageUsage) ? (lastResult as any).assets.imageUsage : [];
+        optimizedImages = await buildImageAssets(images, UPLOAD_DIR, usage, { dpr: globalSettings.imageDpr, cacheDir: BUILD_CACHE_DIR });
+        ({ bodyHtml, cssText } = applyImageAssets(bodyHtml, cssText, optimizedImages.report, id => outputAssetUrlProvider(id, 'image')));
+      } catch (e) {
+        console.error('[Images] Optimization failed; export copies the uploaded PNGs:', e);
+      }
+    }
+    headLinks2 = addContentExtras(lastResult.content, componentFiles, headLinks2);
+    writeOutputPackage(OUTPUT_DIR, {
+      bodyHtml: applyFontFallbacks(bodyHtml, fontReport?.fallbacks || {}),
+      cssText: (fontReport?.cssText ? fontReport.cssText + '\n' : '') + applyFontFallbacks(cssText, fontReport?.fallbacks || {}),
+      headLinks: headLinks2,
+      baseWidth,
+      baseHeight,
+      extraFiles: componentFiles,
+      layoutMode: globalSettings.adaptiveLayout ? 'adaptive' : 'fixed',
+      fonts,
+      images: optimizedImages,
+    }, { imageIds: images, svgFiles: svgs, imageDir: UPLOAD_DIR, svgDir: SVGS_DIR });
   } catch (e) {
-    // ignore content build failure
+    console.error(`[Export] Failed to write ${OUTPUT_DIR}:`, e);
   }
   if (DEBUG_ENABLED) {
     try {
@@ -711,6 +760,28 @@ app.post('/api/composition', async (req, res) => {
   res.status(204).end();
 });
 
+// Diff the latest Figma render against the uploaded HTML render and attribute the differing pixels to IR nodes
+function computeDebugDiff(): { diffPercent: number; totalDiffPixels: number; nodes: any[] } | null {
+  const figmaPath = path.join(DEBUG_LATEST, 'figma-render.png');
+  const htmlPath = path.join(DEBUG_LATEST, 'html-render.png');
+  const cur = previewManager.getSnapshot();
+  if (!cur || !cur.composition || !fs.existsSync(figmaPath) || !fs.existsSync(htmlPath)) return null;
+  try {
+    const { diff, stats } = diffPng(loadPng(figmaPath), loadPng(htmlPath), { maxSizeDeltaPercent: 2.5 });
+    savePng(diff, path.join(DEBUG_LATEST, 'diff.png'));
+    const attribution = attributeCompositionDiff(diff, cur.composition);
+    writeDebugJson('diff-attribution', attribution);
+    return {
+      diffPercent: stats.diffPercent,
+      totalDiffPixels: attribution.totalDiffPixels,
+      nodes: attribution.nodes.slice(0, 20).map(n => ({ id: n.id, name: n.name, type: n.type, diffPercent: n.diffPercent, attributedPixels: n.attributedPixels })),
+    };
+  } catch (e) {
+    console.error('[Diff] Attribution failed:', e);
+    return null;
+  }
+}
+
 app.post('/api/debug/html-render', (req, res) => {
   if (!DEBUG_ENABLED) {
     res.status(200).json({ success: true, skipped: true });
@@ -725,7 +796,9 @@ app.post('/api/debug/html-render', (req, res) => {
       return;
     }
     writeDebugDataUrl('html-render', dataUrl);
-    res.json({ success: true });
+    const diff = computeDebugDiff();
+    if (diff) sseSend('diff', diff);
+    res.json({ success: true, diff });
   } catch (e: any) {
     res.status(500).json({ success: false, error: String(e?.message || e) });
   }
@@ -766,7 +839,7 @@ app.get('/api/files', (_req, res) => {
     for (const entry of entries) {
       if (entry.isFile()) {
         const ext = path.extname(entry.name).toLowerCase();
-        if (['.html', '.css', '.json'].includes(ext)) {
+        if (['.html', '.css', '.json', '.js', '.tsx', '.vue'].includes(ext)) {
           files.push({
             name: entry.name,
             path: `output/${entry.name}`,
@@ -938,7 +1011,8 @@ const fixturesRoot = path.join(process.cwd(), 'fixtures');
 app.use('/fixtures', express.static(fixturesRoot));
 app.use('/', express.static(publicDir, { extensions: ['html'] }));
 
-warmupChineseFontsMapping().finally(() => {
+warmupFontCatalog();
+warmupFontProviders().finally(() => {
   app.listen(PORT, () => {
     // server started
   });
@@ -0,0 +1,33 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Disk cache for export artifacts that are slow to rebuild (encoded image variants, font subsets): the server
+// rebuilds the export package on every composition it receives. Keys name everything that determines the
+// bytes, including the source file's size and mtime, so an edited source never hits a stale entry.
+
+export const BUILD_CACHE_DIR = path.join(process.cwd(), 'temp', 'build-cache');
+
+// Size and mtime of a source file, for cache keys
+export function sourceStamp(file: string): string {
+  const stat = fs.statSync(file);
+  return `${stat.size}:${stat.mtimeMs}`;
+}
+
+/**
+ * `build()`'s bytes, reused from `cacheDir` when an entry for `key` exists. Without a cache directory this is
+ * just `build()`; failures are not cached, and a cache that cannot be written is skipped.
+ */
+export async function cachedBuild(cacheDir: string | undefined, key: string, build: () => Promise<Buffer> | Buffer): Promise<Buffer> {
+  if (!cacheDir) return build();
+  const file = path.join(cacheDir, crypto.createHash('sha1').update(key).digest('hex'));
+  try {
+    return fs.readFileSync(file);
+  } catch {}
+  const data = await build();
+  try {
+    fs.mkdirSync(cacheDir, { recursive: true });
+    fs.writeFileSync(file, data);
+  } catch {}
+  return data;
+}
@@ -0,0 +1,198 @@
+// Per-node diff attribution: maps the differing pixels of a pixelmatch diff image back to the IR nodes
+// whose bounding boxes contain them, so a failing compare points at the broken layers instead of a
+// single global percentage.
+
+import { normalizeComposition, compositionToIR } from 'figma-html-bridge';
+import { computeViewportRect } from './viewport';
+
+type AnyObj = Record<string, any>;
+
+export type NodeBox = {
+  id: string;
+  name: string;
+  type: string;
+  kind: string;
+  depth: number;
+  // Axis-aligned box in composition coordinates
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type NodeDiff = NodeBox & {
+  area: number;
+  // Differing pixels inside the box (shared with ancestors/overlapping siblings)
+  diffPixels: number;
+  // Differing pixels for which this is the deepest containing node
+  attributedPixels: number;
+  // diffPixels as a percentage of the box area
+  diffPercent: number;
+};
+
+export type DiffAttribution = {
+  width: number;
+  height: number;
+  origin: { x: number; y: number };
+  totalDiffPixels: number;
+  unattributedPixels: number;
+  nodes: NodeDiff[];
+};
+
+// pixelmatch default diffColor; anti-aliased pixels (aaColor) and faded originals never match it exactly
+const DIFF_COLOR = [255, 0, 0];
+const GRID = 32;
+
+function isDiffPixel(data: Uint8Array | Buffer, i: number): boolean {
+  return data[i] === DIFF_COLOR[0] && data[i + 1] === DIFF_COLOR[1] && data[i + 2] === DIFF_COLOR[2] && data[i + 3] !== 0;
+}
+
+function nodeSize(node: AnyObj): { width: number; height: number } {
+  const l = node?.layout || {};
+  // Why: rotated nodes reserve an outer box; absoluteTransform applies to the unrotated content size
+  if (l.wrapper && typeof l.wrapper.contentWidth === 'number') return { width: l.wrapper.contentWidth, height: l.wrapper.contentHeight };
+  return { width: Number(l.width) || 0, height: Number(l.height) || 0 };
+}
+
+/**
+ * Flatten IR nodes into composition-space boxes using each node's Figma absoluteTransform
+ * ([[a,c,e],[b,d,f]]) relative to composition.absOrigin. Nodes without a transform are skipped.
+ */
+export function collectNodeBoxes(nodes: AnyObj[], absOrigin: { x: number; y: number } = { x: 0, y: 0 }): NodeBox[] {
+  const out: NodeBox[] = [];
+  const visit = (node: AnyObj, depth: number) => {
+    if (!node || node.visible === false) return;
+    const m = node.absoluteTransform;
+    const { width, height } = nodeSize(node);
+    if (Array.isArray(m) && m.length >= 2 && width > 0 && height > 0) {
+      const [a, c, e] = m[0];
+      const [b, d, f] = m[1];
+      const xs = [e, a * width + e, c * height + e, a * width + c * height + e];
+      const ys = [f, b * width + f, d * height + f, b * width + d * height + f];
+      const minX = Math.min(...xs) - absOrigin.x;
+      const minY = Math.min(...ys) - absOrigin.y;
+      out.push({
+        id: String(node.id),
+        name: String(node.name || ''),
+        type: String(node.type || ''),
+        kind: String(node.kind || ''),
+        depth,
+        x: minX,
+        y: minY,
+        width: Math.max(...xs) - absOrigin.x - minX,
+        height: Math.max(...ys) - absOrigin.y - minY,
+      });
+    }
+    if (node.content?.type === 'children') {
+      for (const child of node.content.nodes || []) visit(child, depth + 1);
+    }
+  };
+  for (const node of nodes || []) visit(node, 0);
+  return out;
+}
+
+/**
+ * Attribute the red pixels of a pixelmatch diff image to node boxes. `origin` is the composition
+ * coordinate of the image's top-left pixel (e.g. the compare viewport's min corner).
+ */
+export function attributeDiff(
+  diff: { width: number; height: number; data: Uint8Array | Buffer },
+  boxes: NodeBox[],
+  origin: { x: number; y: number } = { x: 0, y: 0 }
+): DiffAttribution {
+  const { width, height, data } = diff;
+  // Box rects in image pixels, clipped to the image
+  const rects = boxes.map(b => ({
+    x0: Math.max(0, Math.floor(b.x - origin.x)),
+    y0: Math.max(0, Math.floor(b.y - origin.y)),
+    x1: Math.min(width, Math.ceil(b.x - origin.x + b.width)),
+    y1: Math.min(height, Math.ceil(b.y - origin.y + b.height)),
+  }));
+
+  // Why: the deepest (then smallest) box wins a pixel, so check candidates in that order
+  const order = boxes.map((_b, i) => i).sort((i, j) => {
+    if (boxes[i].depth !== boxes[j].depth) return boxes[j].depth - boxes[i].depth;
+    return boxes[i].width * boxes[i].height - boxes[j].width * boxes[j].height;
+  });
+  const cols = Math.ceil(width / GRID);
+  const rows = Math.ceil(height / GRID);
+  const cells: number[][] = Array.from({ length: cols * rows }, () => []);
+  for (const i of order) {
+    const r = rects[i];
+    if (r.x1 <= r.x0 || r.y1 <= r.y0) continue;
+    for (let cy = Math.floor(r.y0 / GRID); cy <= Math.floor((r.y1 - 1) / GRID); cy++) {
+      for (let cx = Math.floor(r.x0 / GRID); cx <= Math.floor((r.x1 - 1) / GRID); cx++) {
+        cells[cy * cols + cx].push(i);
+      }
+    }
+  }
+
+  // Summed-area table of the diff mask gives each box's total diff pixels in O(1)
+  const sat = new Uint32Array((width + 1) * (height + 1));
+  const attributed = new Array<number>(boxes.length).fill(0);
+  let totalDiffPixels = 0;
+  let unattributedPixels = 0;
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      const hit = isDiffPixel(data, (y * width + x) * 4);
+      if (hit) {
+        rowSum++;
+        totalDiffPixels++;
+        const owner = cells[Math.floor(y / GRID) * cols + Math.floor(x / GRID)].find(i => {
+          const r = rects[i];
+          return x >= r.x0 && x < r.x1 && y >= r.y0 && y < r.y1;
+        });
+        if (owner === undefined) unattributedPixels++;
+        else attributed[owner]++;
+      }
+      sat[(y + 1) * (width + 1) + (x + 1)] = sat[y * (width + 1) + (x + 1)] + rowSum;
+    }
+  }
+
+  const nodes: NodeDiff[] = boxes.map((b, i) => {
+    const r = rects[i];
+    const area = Math.max(0, r.x1 - r.x0) * Math.max(0, r.y1 - r.y0);
+    const w = width + 1;
+    const diffPixels = area ? sat[r.y1 * w + r.x1] - sat[r.y0 * w + r.x1] - sat[r.y1 * w + r.x0] + sat[r.y0 * w + r.x0] : 0;
+    return { ...b, area, diffPixels, attributedPixels: attributed[i], diffPercent: area ? (diffPixels / area) * 100 : 0 };
+  });
+
+  return {
+    width,
+    height,
+    origin,
+    totalDiffPixels,
+    unattributedPixels,
+    // Nodes whose diffs are fully explained by descendants drop out of the ranking
+    nodes: nodes
+      .filter(n => n.attributedPixels > 0)
+      .sort((a, b) => (b.diffPercent - a.diffPercent) || (b.attributedPixels - a.attributedPixels)),
+  };
+}
+
+// Composition coordinate of the compare capture's top-left pixel (same geometry as the preview compare viewport)
+export function compareOrigin(composition: AnyObj, renderUnion?: { x: number; y: number; width: number; height: number }): { x: number; y: number } {
+  if (composition?._bridgeSource === 'dsl' || !renderUnion) return { x: 0, y: 0 };
+  const bounds = { width: Number(composition?.bounds?.width) || 0, height: Number(composition?.bounds?.height) || 0 };
+  const rect = computeViewportRect(bounds, renderUnion, 0);
+  return { x: rect.minX, y: rect.minY };
+}
+
+/**
+ * Attribute a diff image rendered from `composition` (IR is rebuilt from a copy, so the input is not mutated).
+ * `origin` defaults to the compare viewport corner.
+ */
+export function attributeCompositionDiff(diff: { width: number; height: number; data: Uint8Array | Buffer }, composition: AnyObj, origin?: { x: number; y: number }): DiffAttribution {
+  const copy = JSON.parse(JSON.stringify(composition));
+  normalizeComposition(copy);
+  const ir = compositionToIR(copy);
+  return attributeDiff(diff, collectNodeBoxes(ir.nodes, copy.absOrigin), origin || compareOrigin(copy, ir.renderUnion));
+}
+
+export function formatAttribution(result: DiffAttribution, top = 10): string {
+  const lines = result.nodes.slice(0, top).map((n, i) =>
+    `${String(i + 1).padStart(2)}. ${n.diffPercent.toFixed(2).padStart(6)}%  ${n.name || n.id} [${n.type}] (${n.id}) ${n.attributedPixels}px`);
+  if (result.unattributedPixels) lines.push(`    ${result.unattributedPixels}px outside any node box`);
+  return lines.join('\n');
+}
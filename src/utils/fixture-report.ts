@@ -0,0 +1,170 @@
+import fs from 'fs';
+import path from 'path';
+import type { CaseResult } from './fixtures';
+
+// Self-contained report.html for a fixture run: renders are inlined as data URLs so the file can be
+// archived as a CI artifact; composition/ir links stay relative to the report location.
+
+function escapeHtml(s: string): string {
+  return String(s).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function pngDataUrl(file: string | undefined): string | null {
+  if (!file || !fs.existsSync(file)) return null;
+  try {
+    return `data:image/png;base64,${fs.readFileSync(file).toString('base64')}`;
+  } catch {
+    return null;
+  }
+}
+
+function relLink(from: string, file: string | undefined): string | null {
+  if (!file || !fs.existsSync(file)) return null;
+  return path.relative(from, file).split(path.sep).join('/');
+}
+
+function renderFigure(label: string, src: string | null): string {
+  const body = src ? `<img src="${src}" alt="${escapeHtml(label)}" data-render="${escapeHtml(label.toLowerCase())}"/>` : '<div class="missing">not available</div>';
+  return `<figure><figcaption>${escapeHtml(label)}</figcaption>${body}</figure>`;
+}
+
+function renderWorstNodes(r: CaseResult): string {
+  if (r.passed || !r.worstNodes || !r.worstNodes.length) return '';
+  const rows = r.worstNodes.map(n =>
+    `<li><b>${n.diffPercent.toFixed(2)}%</b> ${escapeHtml(n.name || n.id)} <span class="node-meta">${escapeHtml(n.type)} · ${escapeHtml(n.id)}</span></li>`).join('');
+  return `<ol class="worst-nodes">${rows}</ol>`;
+}
+
+function renderCase(r: CaseResult, reportDir: string): string {
+  const figma = pngDataUrl(r.paths.figma);
+  const html = pngDataUrl(r.paths.html);
+  const diff = pngDataUrl(r.paths.diff);
+  const pct = r.stats ? `${r.stats.diffPercent.toFixed(2)}%` : 'n/a';
+  const links = [
+    ['composition.json', relLink(reportDir, r.paths.composition)],
+    ['ir.json', relLink(reportDir, r.paths.ir)],
+    ['attribution.json', relLink(reportDir, r.paths.attribution)],
+  ].filter(([, href]) => href).map(([label, href]) => `<a href="${escapeHtml(href!)}">${label}</a>`).join(' ');
+  const compare = figma && html ? `
+      <div class="compare" data-mode="slider">
+        <div class="compare-tools">
+          <label><input type="radio" name="mode-${escapeHtml(r.case)}" value="slider" checked> Slider</label>
+          <label><input type="radio" name="mode-${escapeHtml(r.case)}" value="onion"> Onion skin</label>
+          <input type="range" min="0" max="100" value="50">
+        </div>
+        <div class="compare-stage">
+          <img class="under" data-src-from="figma" alt="Figma"/>
+          <div class="over" style="width:50%"><img data-src-from="html" alt="HTML"/></div>
+        </div>
+      </div>` : '';
+
+  return `
+    <section class="case ${r.passed ? 'pass' : 'fail'}" id="case-${escapeHtml(r.case)}">
+      <header>
+        <span class="badge">${r.passed ? 'PASS' : 'FAIL'}</span>
+        <h2>${escapeHtml(r.case)}</h2>
+        <span class="metric">diff <b>${pct}</b> / threshold ${r.thresholdPercent}%</span>
+        ${r.stats ? `<span class="metric">${r.stats.width}×${r.stats.height}${r.stats.alignMode && r.stats.alignMode !== 'none' ? ` (${r.stats.alignMode})` : ''}</span>` : ''}
+        <span class="links">${links}</span>
+      </header>
+      ${r.error ? `<p class="error">${escapeHtml(r.error)}</p>` : ''}
+      ${r.notes ? `<p class="notes">${escapeHtml(r.notes)}</p>` : ''}
+      ${renderWorstNodes(r)}
+      <div class="figures">
+        ${renderFigure('Figma', figma)}
+        ${renderFigure('HTML', html)}
+        ${renderFigure('Diff', diff)}
+      </div>${compare}
+    </section>`;
+}
+
+const REPORT_STYLES = `
+body { margin: 0; padding: 24px; font: 14px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; background: #f5f5f5; color: #222; }
+h1 { margin: 0 0 4px; font-size: 20px; }
+.summary { margin-bottom: 24px; color: #555; }
+.case { background: #fff; border-radius: 8px; padding: 16px; margin-bottom: 24px; border-left: 6px solid #2e7d32; }
+.case.fail { border-left-color: #c62828; }
+.case header { display: flex; flex-wrap: wrap; align-items: center; gap: 12px; }
+.case h2 { margin: 0; font-size: 16px; }
+.badge { font-weight: 700; font-size: 12px; padding: 2px 8px; border-radius: 4px; color: #fff; background: #2e7d32; }
+.fail .badge { background: #c62828; }
+.metric { color: #555; }
+.links { margin-left: auto; display: flex; gap: 12px; }
+.error { color: #c62828; white-space: pre-wrap; }
+.notes { color: #555; font-style: italic; }
+.worst-nodes { margin: 8px 0 0; padding-left: 20px; }
+.worst-nodes .node-meta { color: #888; font-size: 12px; }
+.figures { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; margin-top: 12px; }
+figure { margin: 0; }
+figcaption { font-size: 12px; color: #777; margin-bottom: 4px; }
+figure img, .compare-stage img { display: block; max-width: 100%; background: repeating-conic-gradient(#eee 0 25%, #fff 0 50%) 0 0 / 16px 16px; border: 1px solid #ddd; }
+.missing { padding: 24px; text-align: center; color: #999; border: 1px dashed #ccc; }
+.compare { margin-top: 16px; }
+.compare-tools { display: flex; align-items: center; gap: 16px; margin-bottom: 8px; }
+.compare-tools input[type=range] { flex: 1; max-width: 320px; }
+.compare-stage { position: relative; display: inline-block; max-width: 100%; }
+.compare-stage .over { position: absolute; left: 0; top: 0; bottom: 0; overflow: hidden; border-right: 2px solid #c62828; }
+.compare-stage .over img { max-width: none; }
+.compare[data-mode=onion] .over { width: 100% !important; border-right: none; }
+`;
+
+// Slider clips the HTML render over the Figma render; onion skin fades it in.
+// Why: the compare images reuse the figures' data URLs so each render is inlined once
+const REPORT_SCRIPT = `
+document.querySelectorAll('.compare').forEach(function (box) {
+  var section = box.closest('.case');
+  box.querySelectorAll('img[data-src-from]').forEach(function (img) {
+    img.src = section.querySelector('figure img[data-render="' + img.getAttribute('data-src-from') + '"]').src;
+  });
+  var range = box.querySelector('input[type=range]');
+  var over = box.querySelector('.over');
+  var under = box.querySelector('.under');
+  function sync() {
+    var v = Number(range.value);
+    var onion = box.getAttribute('data-mode') === 'onion';
+    over.style.width = onion ? '100%' : v + '%';
+    over.style.opacity = onion ? String(v / 100) : '1';
+    over.querySelector('img').style.width = under.getBoundingClientRect().width + 'px';
+  }
+  box.querySelectorAll('input[type=radio]').forEach(function (radio) {
+    radio.addEventListener('change', function () { box.setAttribute('data-mode', radio.value); sync(); });
+  });
+  range.addEventListener('input', sync);
+  window.addEventListener('resize', sync);
+  if (under.complete) sync(); else under.addEventListener('load', sync);
+});
+`;
+
+/**
+ * Build report.html for `results` and write it to `reportPath`. Failed cases come first, then the
+ * largest diffs.
+ */
+export function writeHtmlReport(reportPath: string, title: string, results: CaseResult[]): void {
+  const reportDir = path.dirname(reportPath);
+  const sorted = results.slice().sort((a, b) => {
+    if (a.passed !== b.passed) return a.passed ? 1 : -1;
+    const da = a.stats?.diffPercent;
+    const db = b.stats?.diffPercent;
+    // Why: cases without stats (render errors) go before any measured diff
+    if (da === undefined || db === undefined) return (da === undefined ? 0 : 1) - (db === undefined ? 0 : 1) || a.case.localeCompare(b.case);
+    return db - da || a.case.localeCompare(b.case);
+  });
+  const passed = results.filter(r => r.passed).length;
+  const html = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(title)}</title>
+    <style>${REPORT_STYLES}</style>
+  </head>
+  <body>
+    <h1>${escapeHtml(title)}</h1>
+    <div class="summary">${passed}/${results.length} passed, ${results.length - passed} failed · ${new Date().toISOString()}</div>
+${sorted.map(r => renderCase(r, reportDir)).join('\n')}
+    <script>${REPORT_SCRIPT}</script>
+  </body>
+</html>
+`;
+  fs.mkdirSync(reportDir, { recursive: true });
+  fs.writeFileSync(reportPath, html, 'utf8');
+}
@@ -0,0 +1,212 @@
+import fs from 'fs';
+import path from 'path';
+// @ts-ignore - pngjs has no types
+import { PNG } from 'pngjs';
+import pixelmatch from 'pixelmatch';
+import { normalizeComposition, compositionToIR } from 'figma-html-bridge';
+import { attributeCompositionDiff } from './diff-attribution';
+
+// Fixture loading, PNG diffing and reports shared by the fixture runners (server-driven and headless).
+// Each fixture dir holds original.json + figma-render.png, with an optional meta.json.
+
+type AnyObj = Record<string, any>;
+
+export type FixtureMeta = {
+  thresholdPercent?: number;
+  maxSizeDeltaPercent?: number;
+  notes?: string;
+};
+
+export type FixtureCase = {
+  name: string;
+  dir: string;
+  originPath: string;
+  figmaPath: string;
+  metaPath: string | null;
+  meta: FixtureMeta;
+};
+
+export type DiffStats = {
+  width: number;
+  height: number;
+  totalPixels: number;
+  differentPixels: number;
+  diffPercent: number;
+  cropped: boolean;
+  widthDiff?: number;
+  heightDiff?: number;
+  resized?: boolean;
+  alignMode?: 'stretch' | 'crop' | 'none';
+};
+
+export type CaseResult = {
+  case: string;
+  passed: boolean;
+  thresholdPercent: number;
+  stats: DiffStats | null;
+  paths: { html: string; figma: string; diff: string; outDir: string; composition?: string; ir?: string; attribution?: string };
+  error?: string;
+  // meta.json notes, shown in report.html
+  notes?: string;
+  // Worst IR nodes by differing area (see diff-attribution)
+  worstNodes?: { id: string; name: string; type: string; diffPercent: number; attributedPixels: number }[];
+};
+
+export function readJson(filePath: string): AnyObj {
+  const full = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+  const raw = fs.readFileSync(full, 'utf8');
+  return JSON.parse(raw);
+}
+
+export function resolveComposition(payload: AnyObj): AnyObj | null {
+  if (payload && typeof payload === 'object') {
+    if (payload.composition && typeof payload.composition === 'object') return payload.composition;
+    if (payload.kind === 'composition' && payload.bounds && payload.children) return payload;
+  }
+  return null;
+}
+
+export function ensureDir(dir: string) {
+  fs.mkdirSync(dir, { recursive: true });
+}
+
+export function listFixtureDirs(root: string): string[] {
+  const full = path.isAbsolute(root) ? root : path.join(process.cwd(), root);
+  if (!fs.existsSync(full)) return [];
+  return fs.readdirSync(full)
+    .map((name) => path.join(full, name))
+    .filter((p) => {
+      try { return fs.statSync(p).isDirectory(); } catch { return false; }
+    });
+}
+
+export function loadFixture(dir: string): FixtureCase | null {
+  const originPath = path.join(dir, 'original.json');
+  const figmaPath = path.join(dir, 'figma-render.png');
+  const metaPath = path.join(dir, 'meta.json');
+  if (!fs.existsSync(originPath) || !fs.existsSync(figmaPath)) return null;
+  let meta: FixtureMeta = {};
+  if (fs.existsSync(metaPath)) {
+    try { meta = JSON.parse(fs.readFileSync(metaPath, 'utf8')); } catch {}
+  }
+  return { name: path.basename(dir), dir, originPath, figmaPath, metaPath: fs.existsSync(metaPath) ? metaPath : null, meta };
+}
+
+// Snapshot the case input next to its renders so a report can link to exactly what was rendered
+export function writeCaseInputs(outDir: string, composition: AnyObj): { composition: string; ir?: string } {
+  ensureDir(outDir);
+  const compositionPath = path.join(outDir, 'composition.json');
+  fs.writeFileSync(compositionPath, JSON.stringify(composition, null, 2), 'utf8');
+  try {
+    const copy = JSON.parse(JSON.stringify(composition));
+    normalizeComposition(copy);
+    const ir = compositionToIR(copy);
+    const irPath = path.join(outDir, 'ir.json');
+    fs.writeFileSync(irPath, JSON.stringify({ absOrigin: copy.absOrigin, renderUnion: ir.renderUnion, nodes: ir.nodes, fontMeta: ir.fontMeta }, null, 2), 'utf8');
+    return { composition: compositionPath, ir: irPath };
+  } catch {
+    return { composition: compositionPath };
+  }
+}
+
+// Attribute diff pixels to IR nodes; writes attribution.json and returns the top entries for reports
+export function writeCaseAttribution(outDir: string, diff: PNG, composition: AnyObj, top = 5): { path: string; worstNodes: NonNullable<CaseResult['worstNodes']> } | null {
+  try {
+    const attribution = attributeCompositionDiff(diff, composition);
+    const attributionPath = path.join(outDir, 'attribution.json');
+    fs.writeFileSync(attributionPath, JSON.stringify(attribution, null, 2), 'utf8');
+    const worstNodes = attribution.nodes.slice(0, top).map(n => ({ id: n.id, name: n.name, type: n.type, diffPercent: n.diffPercent, attributedPixels: n.attributedPixels }));
+    return { path: attributionPath, worstNodes };
+  } catch {
+    return null;
+  }
+}
+
+export function loadPng(filePath: string): PNG {
+  const buffer = fs.readFileSync(filePath);
+  return PNG.sync.read(buffer);
+}
+
+export function savePng(png: PNG, filePath: string): void {
+  const buffer = PNG.sync.write(png);
+  ensureDir(path.dirname(filePath));
+  fs.writeFileSync(filePath, buffer);
+}
+
+function resizeNearest(src: PNG, targetW: number, targetH: number): PNG {
+  const dst = new PNG({ width: targetW, height: targetH });
+  const sx = src.width / targetW;
+  const sy = src.height / targetH;
+  for (let y = 0; y < targetH; y++) {
+    const syIdx = Math.min(src.height - 1, Math.max(0, Math.floor(y * sy)));
+    for (let x = 0; x < targetW; x++) {
+      const sxIdx = Math.min(src.width - 1, Math.max(0, Math.floor(x * sx)));
+      const si = (syIdx * src.width + sxIdx) * 4;
+      const di = (y * targetW + x) * 4;
+      dst.data[di] = src.data[si];
+      dst.data[di + 1] = src.data[si + 1];
+      dst.data[di + 2] = src.data[si + 2];
+      dst.data[di + 3] = src.data[si + 3];
+    }
+  }
+  return dst;
+}
+
+export function diffPng(img1: PNG, img2: PNG, opts: { maxSizeDeltaPercent: number }): { diff: PNG; stats: DiffStats } {
+  let a = img1, b = img2;
+  let cropped = false;
+  let resized = false;
+
+  if (a.width !== b.width || a.height !== b.height) {
+    const wDiff = Math.abs(a.width - b.width);
+    const hDiff = Math.abs(a.height - b.height);
+    const wPct = a.width > 0 ? (wDiff / a.width) * 100 : 100;
+    const hPct = a.height > 0 ? (hDiff / a.height) * 100 : 100;
+    if (wPct <= opts.maxSizeDeltaPercent && hPct <= opts.maxSizeDeltaPercent) {
+      // Align by resizing HTML preview (b) to match Figma reference (a)
+      const targetW = a.width;
+      const targetH = a.height;
+      if (b.width !== targetW || b.height !== targetH) { b = resizeNearest(b, targetW, targetH); resized = true; }
+    } else {
+      throw new Error(`images have significantly different dimensions: ${a.width}x${a.height} vs ${b.width}x${b.height} (Δw=${wPct.toFixed(2)}%, Δh=${hPct.toFixed(2)}%)`);
+    }
+  }
+
+  const { width, height } = a;
+  const diff = new PNG({ width, height });
+  const differentPixels = pixelmatch(a.data, b.data, diff.data, width, height, { threshold: 0.15 });
+  const totalPixels = width * height;
+  const diffPercent = (differentPixels / totalPixels) * 100;
+  return { diff, stats: { width, height, totalPixels, differentPixels, diffPercent, cropped, resized, alignMode: resized ? 'stretch' : (cropped ? 'crop' : 'none') } };
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// JUnit XML understood by common CI test reporters: one <testcase> per fixture
+export function buildJUnitReport(suiteName: string, results: CaseResult[], durationsMs: Record<string, number> = {}): string {
+  const failed = results.filter(r => !r.passed).length;
+  const totalSec = Object.values(durationsMs).reduce((a, b) => a + b, 0) / 1000;
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(`<testsuites name="${escapeXml(suiteName)}" tests="${results.length}" failures="${failed}" time="${totalSec.toFixed(3)}">`);
+  lines.push(`  <testsuite name="${escapeXml(suiteName)}" tests="${results.length}" failures="${failed}" errors="0" skipped="0" time="${totalSec.toFixed(3)}">`);
+  for (const r of results) {
+    const time = ((durationsMs[r.case] || 0) / 1000).toFixed(3);
+    const open = `    <testcase classname="${escapeXml(suiteName)}" name="${escapeXml(r.case)}" time="${time}"`;
+    if (r.passed) {
+      lines.push(`${open}/>`);
+      continue;
+    }
+    const message = r.error
+      ? r.error
+      : `diff ${r.stats ? r.stats.diffPercent.toFixed(2) : 'n/a'}% exceeds threshold ${r.thresholdPercent}%`;
+    lines.push(`${open}>`);
+    lines.push(`      <failure message="${escapeXml(message)}">${escapeXml(JSON.stringify({ stats: r.stats, paths: r.paths }, null, 2))}</failure>`);
+    lines.push('    </testcase>');
+  }
+  lines.push('  </testsuite>');
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
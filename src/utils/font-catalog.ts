@@ -0,0 +1,273 @@
+import os from 'os';
+import path from 'path';
+import { extractFontsFromComposition } from 'figma-html-bridge';
+import { scanFontDirectory, matchFontFace, readGlyphAdvances } from './font-files';
+import type { LocalFontFace, GlyphAdvances } from './font-files';
+
+// Server-side catalog of installed fonts. For composition fonts that are not installed it picks the installed
+// face whose advance widths best match the widths Figma measured for the design's own text, and emits a
+// `<Family> Fallback` @font-face (local() + size-adjust / ascent-override / descent-override) so fallback
+// text wraps and sits like the original.
+
+export type FontCatalog = { dirs: string[]; faces: LocalFontFace[] };
+
+export type FontFallback = {
+  // CSS family declared by the fallback @font-face
+  family: string;
+  // Installed face it points at
+  source: { family: string; fullName?: string; postscriptName?: string; file: string };
+  // Share of the family's characters the fallback can render (0..1)
+  coverage: number;
+  // Percentages for the @font-face descriptors; ascent/descent only when the design pins line height
+  sizeAdjust: number;
+  ascentOverride?: number;
+  descentOverride?: number;
+  lineGapOverride?: number;
+};
+
+export type FontCatalogEntry = {
+  family: string;
+  weights: number[];
+  styles: string[];
+  installed: boolean;
+  file?: string;
+  fallback?: FontFallback;
+};
+
+export type FontCatalogReport = { fonts: FontCatalogEntry[]; missing: string[]; cssText: string; fallbacks: Record<string, string> };
+
+const SYSTEM_FONT_DIRS: Record<string, string[]> = {
+  darwin: ['/System/Library/Fonts', '/Library/Fonts', path.join(os.homedir(), 'Library', 'Fonts')],
+  win32: [path.join(process.env.WINDIR || 'C:\\Windows', 'Fonts'), path.join(os.homedir(), 'AppData', 'Local', 'Microsoft', 'Windows', 'Fonts')],
+  linux: ['/usr/share/fonts', '/usr/local/share/fonts', path.join(os.homedir(), '.fonts'), path.join(os.homedir(), '.local', 'share', 'fonts')],
+};
+
+/**
+ * Directories to scan: $BRIDGE_FONT_DIRS (path-delimiter separated) when set, otherwise the platform's
+ * system font folders, plus the project's fonts/ directory.
+ */
+export function resolveFontDirs(): string[] {
+  const configured = String(process.env.BRIDGE_FONT_DIRS || '').split(path.delimiter).filter(Boolean);
+  const base = configured.length ? configured.map(d => path.resolve(d)) : (SYSTEM_FONT_DIRS[process.platform] || SYSTEM_FONT_DIRS.linux);
+  return Array.from(new Set([...base, path.join(process.cwd(), 'fonts')]));
+}
+
+export function loadFontCatalog(dirs: string[] = resolveFontDirs()): FontCatalog {
+  const faces: LocalFontFace[] = [];
+  for (const dir of dirs) faces.push(...scanFontDirectory(dir));
+  return { dirs, faces };
+}
+
+let catalogState: { status: 'not-initialized' } | { status: 'loading' } | { status: 'loaded'; catalog: FontCatalog } = { status: 'not-initialized' };
+
+// Why: scanning system font folders can take seconds; do it once, off the first request
+export function warmupFontCatalog(): void {
+  if (catalogState.status !== 'not-initialized') return;
+  catalogState = { status: 'loading' };
+  setImmediate(() => {
+    try {
+      catalogState = { status: 'loaded', catalog: loadFontCatalog() };
+    } catch {
+      catalogState = { status: 'loaded', catalog: { dirs: [], faces: [] } };
+    }
+  });
+}
+
+export function getFontCatalog(): FontCatalog | null {
+  return catalogState.status === 'loaded' ? catalogState.catalog : null;
+}
+
+// Single-line text whose box hugs its content: Figma's measured width is the original font's advance sum
+type WidthSample = { text: string; fontSize: number; width: number; height: number; letterSpacingPx: number; autoLineHeight: boolean };
+
+function collectSamples(composition: any): Map<string, { chars: Set<string>; samples: WidthSample[] }> {
+  const out = new Map<string, { chars: Set<string>; samples: WidthSample[] }>();
+  const entry = (family: string) => {
+    if (!out.has(family)) out.set(family, { chars: new Set(), samples: [] });
+    return out.get(family)!;
+  };
+  const walk = (node: any) => {
+    if (!node) return;
+    const text = node.text;
+    const characters = typeof text?.characters === 'string' ? text.characters : '';
+    const segments: any[] = Array.isArray(text?.segments) ? text.segments : [];
+    if (characters && segments.length) {
+      for (const seg of segments) {
+        if (!seg?.fontName?.family) continue;
+        const part = characters.slice(seg.start || 0, typeof seg.end === 'number' ? seg.end : characters.length);
+        for (const ch of part) if (ch.trim()) entry(seg.fontName.family).chars.add(ch);
+      }
+      const seg = segments[0];
+      const single = segments.every(s => s?.fontName?.family === seg?.fontName?.family && s?.fontSize === seg?.fontSize);
+      const hugs = text.textAutoResize === 'WIDTH_AND_HEIGHT' && !/[\n\u2028]/.test(characters) && !text.textCase;
+      if (single && hugs && seg?.fontName?.family && typeof seg.fontSize === 'number' && typeof node.width === 'number' && typeof node.height === 'number') {
+        const ls = seg.letterSpacing;
+        const letterSpacingPx = !ls || typeof ls.value !== 'number' ? 0 : (ls.unit === 'PIXELS' ? ls.value : ls.value / 100 * seg.fontSize);
+        entry(seg.fontName.family).samples.push({
+          text: characters,
+          fontSize: seg.fontSize,
+          width: node.width,
+          height: node.height,
+          letterSpacingPx,
+          autoLineHeight: !seg.lineHeight || seg.lineHeight.unit === 'AUTO',
+        });
+      }
+    }
+    if (Array.isArray(node.children)) node.children.forEach(walk);
+  };
+  if (Array.isArray(composition?.children)) composition.children.forEach(walk);
+  return out;
+}
+
+// Width of `text` in em using the fallback's advances; null if any glyph is missing
+function measureEm(advances: GlyphAdvances, text: string): number | null {
+  let total = 0;
+  for (const ch of text) {
+    const adv = advances.advance(ch.codePointAt(0) as number);
+    if (adv === null) return null;
+    total += adv;
+  }
+  return total / advances.unitsPerEm;
+}
+
+function coverageOf(advances: GlyphAdvances, chars: Set<string>): number {
+  if (!chars.size) return 1;
+  let hit = 0;
+  chars.forEach(ch => { if (advances.advance(ch.codePointAt(0) as number) !== null) hit++; });
+  return hit / chars.size;
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+type Candidate = { face: LocalFontFace; advances: GlyphAdvances };
+
+const candidateCache = new WeakMap<FontCatalog, Candidate[]>();
+
+// One upright face per installed family, closest to the regular weight (advances are read once per catalog)
+function fallbackCandidates(catalog: FontCatalog): Candidate[] {
+  const cached = candidateCache.get(catalog);
+  if (cached) return cached;
+  const byFamily = new Map<string, LocalFontFace>();
+  for (const face of catalog.faces) {
+    const family = face.families[0];
+    if (face.italic || !face.metrics) continue;
+    const cur = byFamily.get(family);
+    if (!cur || Math.abs(face.weight - 400) < Math.abs(cur.weight - 400)) byFamily.set(family, face);
+  }
+  const out: Candidate[] = [];
+  for (const face of byFamily.values()) {
+    try {
+      const advances = readGlyphAdvances(face);
+      if (advances) out.push({ face, advances });
+    } catch {
+      // skip faces whose cmap/hmtx cannot be read
+    }
+  }
+  candidateCache.set(catalog, out);
+  return out;
+}
+
+/**
+ * Pick the installed face that best matches a missing family: best character coverage first, then the
+ * smallest width error over the design's measured single-line texts. Returns null without candidates.
+ */
+function pickFallback(family: string, usage: { chars: Set<string>; samples: WidthSample[] }, candidates: Candidate[]): FontFallback | null {
+  let best: { c: Candidate; coverage: number; ratio: number; error: number } | null = null;
+  for (const c of candidates) {
+    const coverage = coverageOf(c.advances, usage.chars);
+    let observed = 0, predicted = 0;
+    for (const s of usage.samples) {
+      const em = measureEm(c.advances, s.text);
+      if (em === null) continue;
+      const count = Array.from(s.text).length;
+      observed += s.width - s.letterSpacingPx * count;
+      predicted += em * s.fontSize;
+    }
+    const ratio = observed > 0 && predicted > 0 ? observed / predicted : 1;
+    const error = Math.abs(Math.log(ratio));
+    const better = !best
+      || coverage > best.coverage + 0.05
+      || (Math.abs(coverage - best.coverage) <= 0.05 && error < best.error);
+    if (better) best = { c, coverage, ratio, error };
+  }
+  if (!best) return null;
+
+  const { face } = best.c;
+  const m = face.metrics!;
+  const sizeAdjust = Math.min(2, Math.max(0.5, best.ratio));
+  const fallback: FontFallback = {
+    family: `${family} Fallback`,
+    source: { family: face.families[0], fullName: face.fullName, postscriptName: face.postscriptName, file: face.file },
+    coverage: Math.round(best.coverage * 1000) / 1000,
+    sizeAdjust: round1(sizeAdjust * 100),
+  };
+  // Why: with AUTO line height Figma's single-line box height is the original ascent + descent (+ gap);
+  // split it in the fallback's own ascent:descent proportion. Overrides are scaled by size-adjust, so divide.
+  const heights = usage.samples.filter(s => s.autoLineHeight).map(s => s.height / s.fontSize);
+  if (heights.length) {
+    const lineRatio = heights.reduce((a, b) => a + b, 0) / heights.length;
+    const asc = m.ascent / (m.ascent + m.descent);
+    fallback.ascentOverride = round1(lineRatio * asc / sizeAdjust * 100);
+    fallback.descentOverride = round1(lineRatio * (1 - asc) / sizeAdjust * 100);
+    fallback.lineGapOverride = 0;
+  }
+  return fallback;
+}
+
+function cssString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+export function buildFallbackFontFaceCss(fallbacks: FontFallback[]): string {
+  return fallbacks.map((f) => {
+    const locals = [f.source.fullName, f.source.postscriptName, f.source.family].filter(Boolean) as string[];
+    const lines = [
+      '@font-face {',
+      `  font-family: ${cssString(f.family)};`,
+      `  src: ${Array.from(new Set(locals)).map(n => `local(${cssString(n)})`).join(', ')};`,
+      `  size-adjust: ${f.sizeAdjust}%;`,
+    ];
+    if (f.ascentOverride !== undefined) lines.push(`  ascent-override: ${f.ascentOverride}%;`);
+    if (f.descentOverride !== undefined) lines.push(`  descent-override: ${f.descentOverride}%;`);
+    if (f.lineGapOverride !== undefined) lines.push(`  line-gap-override: ${f.lineGapOverride}%;`);
+    lines.push('}');
+    return lines.join('\n');
+  }).join('\n') + (fallbacks.length ? '\n' : '');
+}
+
+/**
+ * Which composition fonts are installed, and a metric-matched fallback for each missing one.
+ * `fallbacks` maps original family → fallback family for applyFontFallbacks().
+ */
+export function buildFontCatalogReport(composition: any, catalog: FontCatalog): FontCatalogReport {
+  const usage = collectSamples(composition);
+  const fonts = extractFontsFromComposition(composition).getAllFonts();
+  const report: FontCatalogReport = { fonts: [], missing: [], cssText: '', fallbacks: {} };
+  const missingFamilies = fonts.filter(f => !matchFontFace(catalog.faces, f.family, 400, false)).map(f => f.family);
+  const candidates = missingFamilies.length ? fallbackCandidates(catalog) : [];
+  const declared: FontFallback[] = [];
+  for (const f of fonts) {
+    const face = matchFontFace(catalog.faces, f.family, 400, false);
+    const entry: FontCatalogEntry = {
+      family: f.family,
+      weights: Array.from(f.weights).sort((a, b) => a - b),
+      styles: Array.from(f.styles),
+      installed: !!face,
+    };
+    if (face) entry.file = face.file;
+    else {
+      report.missing.push(f.family);
+      const fallback = pickFallback(f.family, usage.get(f.family) || { chars: new Set(), samples: [] }, candidates);
+      if (fallback) {
+        entry.fallback = fallback;
+        declared.push(fallback);
+        report.fallbacks[f.family] = fallback.family;
+      }
+    }
+    report.fonts.push(entry);
+  }
+  report.cssText = buildFallbackFontFaceCss(declared);
+  return report;
+}
@@ -0,0 +1,212 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { findOnPath } from './html-renderer';
+import { scanFontDirectory, matchFontFace } from './font-files';
+import { cachedBuild, sourceStamp } from './build-cache';
+import type { LocalFontFace } from './font-files';
+
+// Offline font bundling for export packages: every family/weight in the IR fontMeta is resolved from a local
+// font directory, subset to the characters its text nodes actually use and written as fonts/*.woff2 with
+// matching @font-face rules, so the exported page needs no Google Fonts / CDN links.
+// Subsetting shells out to fontTools' `pyftsubset` (pip install fonttools brotli).
+
+export type FontMeta = { fonts: { family: string; weights: number[]; styles: string[] }[] };
+
+export type EmbedFontsOptions = {
+  // Directory scanned recursively for .ttf/.otf/.ttc/.woff/.woff2 files
+  fontDir: string;
+  // pyftsubset executable; falls back to $PYFTSUBSET_PATH and $PATH
+  subsetterPath?: string;
+  timeoutMs?: number;
+  // Reuse subsets across runs (see build-cache.ts); off when unset
+  cacheDir?: string;
+};
+
+export type EmbeddedFonts = {
+  // @font-face rules with `fonts/<file>.woff2` URLs (relative to the package root)
+  cssText: string;
+  // File name inside fonts/ → subset woff2 bytes
+  files: Record<string, Buffer>;
+  // "Family 700 italic" entries with no matching local font
+  missing: string[];
+  // Families with at least one `missing` entry
+  missingFamilies: string[];
+};
+
+type FontUsage = { family: string; weight: number; italic: boolean; chars: Set<string> };
+
+const scannedFaces = new Map<string, { stamp: string; faces: LocalFontFace[] }>();
+
+// Why: parsing every font file on each export is slow; rescan only when files are added to or removed from the directory
+function fontDirectoryFaces(dir: string): LocalFontFace[] {
+  let stamp = '';
+  try {
+    stamp = String(fs.statSync(dir).mtimeMs);
+  } catch {}
+  const cached = scannedFaces.get(dir);
+  if (cached && cached.stamp === stamp) return cached.faces;
+  const faces = scanFontDirectory(dir);
+  scannedFaces.set(dir, { stamp, faces });
+  return faces;
+}
+
+function weightFromStyle(style?: string): number {
+  const s = String(style || '').toLowerCase().replace(/[-_]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (s.includes('thin') || s.includes('hairline')) return 100;
+  if (s.includes('extra light') || s.includes('ultra light') || s.includes('extralight') || s.includes('ultralight')) return 200;
+  if (s.includes('light')) return 300;
+  if (s.includes('medium')) return 500;
+  if (s.includes('semi bold') || s.includes('semibold') || s.includes('demi bold') || s.includes('demibold')) return 600;
+  if (s.includes('extra bold') || s.includes('ultra bold') || s.includes('extrabold') || s.includes('ultrabold')) return 800;
+  if (s.includes('black') || s.includes('heavy')) return 900;
+  if (s.includes('bold')) return 700;
+  return 400;
+}
+
+function usageKey(family: string, weight: number, italic: boolean): string {
+  return `${family}|${weight}|${italic ? 'italic' : 'normal'}`;
+}
+
+function addChars(chars: Set<string>, text: string, textCase?: string) {
+  // Why: text-transform changes the rendered glyphs, so keep both cases for any non-original case
+  const variants = textCase && textCase !== 'ORIGINAL' ? [text, text.toUpperCase(), text.toLowerCase()] : [text];
+  for (const v of variants) for (const ch of v) if (ch !== '\n' && ch !== '\r') chars.add(ch);
+}
+
+/**
+ * Characters used per family/weight/style, from the text segments of every TEXT node.
+ */
+export function collectFontUsage(composition: any): Map<string, FontUsage> {
+  const usage = new Map<string, FontUsage>();
+  const use = (family: string, weight: number, italic: boolean, text: string, textCase?: string) => {
+    const key = usageKey(family, weight, italic);
+    if (!usage.has(key)) usage.set(key, { family, weight, italic, chars: new Set([' ']) });
+    addChars(usage.get(key)!.chars, text, textCase);
+  };
+  const walk = (node: any) => {
+    if (!node) return;
+    const text = node.text;
+    const characters = typeof text?.characters === 'string' ? text.characters : '';
+    if (characters) {
+      const segments: any[] = Array.isArray(text.segments) ? text.segments : [];
+      let covered = false;
+      for (const seg of segments) {
+        if (!seg?.fontName?.family) continue;
+        const weight = typeof seg.fontWeight === 'number' ? seg.fontWeight : weightFromStyle(seg.fontName.style);
+        const italic = String(seg.fontName.style || '').toLowerCase().includes('italic');
+        const start = typeof seg.start === 'number' ? seg.start : 0;
+        const end = typeof seg.end === 'number' ? seg.end : characters.length;
+        use(seg.fontName.family, weight, italic, characters.slice(start, end), seg.textCase);
+        covered = true;
+      }
+      // DSL text carries a single node-level font instead of segments
+      const style = node.style || {};
+      if (!covered && typeof style.fontFamily === 'string') {
+        use(style.fontFamily, Number(style.fontWeight) || 400, false, characters);
+      }
+    }
+    if (Array.isArray(node.children)) node.children.forEach(walk);
+  };
+  if (Array.isArray(composition?.children)) composition.children.forEach(walk);
+  return usage;
+}
+
+export function findSubsetter(explicit?: string): string | null {
+  if (explicit) return explicit;
+  if (process.env.PYFTSUBSET_PATH) return process.env.PYFTSUBSET_PATH;
+  return findOnPath('pyftsubset');
+}
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'font';
+}
+
+function subsetFont(binary: string, face: LocalFontFace, chars: Set<string>, workDir: string, timeoutMs: number): Promise<Buffer> {
+  const id = `${slug(path.basename(face.file))}-${face.fontNumber}`;
+  const textFile = path.join(workDir, `${id}.txt`);
+  const outFile = path.join(workDir, `${id}.woff2`);
+  fs.writeFileSync(textFile, Array.from(chars).join(''), 'utf8');
+  const args = [
+    face.file,
+    `--text-file=${textFile}`,
+    `--font-number=${face.fontNumber}`,
+    '--flavor=woff2',
+    '--layout-features=*',
+    `--output-file=${outFile}`,
+  ];
+  return new Promise((resolve, reject) => {
+    execFile(binary, args, { timeout: timeoutMs, killSignal: 'SIGKILL' }, (err, _stdout, stderr) => {
+      if (err || !fs.existsSync(outFile)) {
+        reject(new Error(`font-embed: pyftsubset failed for ${face.file}${err ? `: ${err.message}` : ''}${stderr ? `\n${String(stderr).trim()}` : ''}`));
+        return;
+      }
+      resolve(fs.readFileSync(outFile));
+    });
+  });
+}
+
+function cssString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Subset and bundle the fonts listed in `fontMeta`. Faces shared by several weights (variable fonts)
+ * are subset once with the union of their characters. Throws when the subsetter is unavailable or fails.
+ */
+export async function embedFonts(composition: any, fontMeta: FontMeta, options: EmbedFontsOptions): Promise<EmbeddedFonts> {
+  const result: EmbeddedFonts = { cssText: '', files: {}, missing: [], missingFamilies: [] };
+  const usage = collectFontUsage(composition);
+  const wanted = new Set((fontMeta?.fonts || []).map(f => f.family));
+  const entries = Array.from(usage.values()).filter(u => wanted.has(u.family));
+  if (!entries.length) return result;
+
+  const binary = findSubsetter(options.subsetterPath);
+  if (!binary) throw new Error('font-embed: pyftsubset not found (pip install fonttools brotli, or set PYFTSUBSET_PATH)');
+  const faces = fontDirectoryFaces(path.resolve(options.fontDir));
+
+  // Group usages by the local face that serves them
+  const groups = new Map<string, { face: LocalFontFace; usages: FontUsage[] }>();
+  for (const u of entries) {
+    const face = matchFontFace(faces, u.family, u.weight, u.italic);
+    if (!face) {
+      result.missing.push(`${u.family} ${u.weight}${u.italic ? ' italic' : ''}`);
+      if (!result.missingFamilies.includes(u.family)) result.missingFamilies.push(u.family);
+      continue;
+    }
+    const key = `${face.file}#${face.fontNumber}`;
+    if (!groups.has(key)) groups.set(key, { face, usages: [] });
+    groups.get(key)!.usages.push(u);
+  }
+
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bridge-fonts-'));
+  const rules: string[] = [];
+  try {
+    for (const { face, usages } of groups.values()) {
+      const chars = new Set<string>();
+      for (const u of usages) u.chars.forEach(c => chars.add(c));
+      const first = usages[0];
+      const weightPart = face.weightRange ? `${face.weightRange[0]}-${face.weightRange[1]}` : String(face.weight);
+      let name = `${slug(first.family)}-${weightPart}${face.italic ? '-italic' : ''}.woff2`;
+      for (let n = 2; result.files[name]; n++) name = `${slug(first.family)}-${weightPart}${face.italic ? '-italic' : ''}-${n}.woff2`;
+      const cacheKey = `font|${face.file}|${face.fontNumber}|${sourceStamp(face.file)}|${Array.from(chars).sort().join('')}`;
+      result.files[name] = await cachedBuild(options.cacheDir, cacheKey, () => subsetFont(binary, face, chars, workDir, options.timeoutMs || 60000));
+      for (const u of usages) {
+        rules.push([
+          '@font-face {',
+          `  font-family: ${cssString(u.family)};`,
+          `  font-style: ${u.italic ? 'italic' : 'normal'};`,
+          `  font-weight: ${u.weight};`,
+          '  font-display: swap;',
+          `  src: url('fonts/${name}') format('woff2');`,
+          '}',
+        ].join('\n'));
+      }
+    }
+  } finally {
+    try { fs.rmSync(workDir, { recursive: true, force: true }); } catch {}
+  }
+  result.cssText = rules.length ? rules.join('\n') + '\n' : '';
+  return result;
+}
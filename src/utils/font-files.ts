@@ -0,0 +1,343 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+
+// Minimal font file reader: names, weight, italic flag and vertical metrics from the name / OS/2 / head / hhea /
+// fvar tables, plus per-character advance widths (cmap + hmtx) on demand.
+// Supports TrueType/OpenType (.ttf/.otf), collections (.ttc/.otc), WOFF and WOFF2; glyph outlines are never parsed.
+
+export type LocalFontFace = {
+  file: string;
+  // Index inside a font collection (0 for single-font files)
+  fontNumber: number;
+  // Every family name found in the name table (typographic + legacy, all languages)
+  families: string[];
+  weight: number;
+  // Variable fonts: supported `wght` axis range
+  weightRange?: [number, number];
+  italic: boolean;
+  // Full name (name ID 4) and PostScript name (ID 6), usable in CSS local()
+  fullName?: string;
+  postscriptName?: string;
+  // Vertical metrics in font units (hhea; descent is positive)
+  metrics?: FontMetrics;
+};
+
+export type FontMetrics = { unitsPerEm: number; ascent: number; descent: number; lineGap: number };
+
+// Advance width (font units) for a code point, or null when the font has no glyph for it
+export type GlyphAdvances = { unitsPerEm: number; advance(codePoint: number): number | null };
+
+export const FONT_FILE_EXTENSIONS = ['.ttf', '.otf', '.ttc', '.otc', '.woff', '.woff2'];
+
+type TableReader = (tag: string) => Buffer | null;
+
+function tag(buf: Buffer, offset: number): string {
+  return buf.toString('latin1', offset, offset + 4);
+}
+
+// Plain sfnt: table directory at `offset` (non-zero inside collections)
+function sfntTables(buf: Buffer, offset: number): TableReader {
+  const numTables = buf.readUInt16BE(offset + 4);
+  const tables = new Map<string, Buffer>();
+  for (let i = 0; i < numTables; i++) {
+    const rec = offset + 12 + i * 16;
+    const start = buf.readUInt32BE(rec + 8);
+    const length = buf.readUInt32BE(rec + 12);
+    tables.set(tag(buf, rec), buf.subarray(start, start + length));
+  }
+  return t => tables.get(t) || null;
+}
+
+function woffTables(buf: Buffer): TableReader {
+  const numTables = buf.readUInt16BE(12);
+  const entries = new Map<string, { offset: number; compLength: number; origLength: number }>();
+  for (let i = 0; i < numTables; i++) {
+    const rec = 44 + i * 20;
+    entries.set(tag(buf, rec), { offset: buf.readUInt32BE(rec + 4), compLength: buf.readUInt32BE(rec + 8), origLength: buf.readUInt32BE(rec + 12) });
+  }
+  return (t) => {
+    const e = entries.get(t);
+    if (!e) return null;
+    const data = buf.subarray(e.offset, e.offset + e.compLength);
+    return e.compLength < e.origLength ? zlib.inflateSync(data) : data;
+  };
+}
+
+const WOFF2_KNOWN_TAGS = ['cmap', 'head', 'hhea', 'hmtx', 'maxp', 'name', 'OS/2', 'post', 'cvt ', 'fpgm', 'glyf', 'loca', 'prep', 'CFF ', 'VORG', 'EBDT', 'EBLC', 'gasp', 'hdmx', 'kern', 'LTSH', 'PCLT', 'VDMX', 'vhea', 'vmtx', 'BASE', 'GDEF', 'GPOS', 'GSUB', 'EBSC', 'JSTF', 'MATH', 'CBDT', 'CBLC', 'COLR', 'CPAL', 'SVG ', 'sbix', 'acnt', 'avar', 'bdat', 'bloc', 'bsln', 'cvar', 'fdsc', 'feat', 'fmtx', 'fvar', 'gvar', 'hsty', 'just', 'lcar', 'mort', 'morx', 'opbd', 'prop', 'trak', 'Zapf', 'Silf', 'Glat', 'Gloc', 'Feat', 'Sill'];
+
+function readBase128(buf: Buffer, pos: { at: number }): number {
+  let value = 0;
+  for (let i = 0; i < 5; i++) {
+    const byte = buf[pos.at++];
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) return value;
+  }
+  throw new Error('font-files: invalid UIntBase128');
+}
+
+// Why: name/OS/2/head/fvar are stored untransformed in WOFF2, only glyf/loca/hmtx are rewritten
+function woff2Tables(buf: Buffer): TableReader {
+  const numTables = buf.readUInt16BE(12);
+  const compressedLength = buf.readUInt32BE(20);
+  const pos = { at: 48 };
+  const entries: { tag: string; length: number; transformed: boolean }[] = [];
+  for (let i = 0; i < numTables; i++) {
+    const flags = buf[pos.at++];
+    const known = flags & 0x3f;
+    let t: string;
+    if (known === 0x3f) {
+      t = tag(buf, pos.at);
+      pos.at += 4;
+    } else {
+      t = WOFF2_KNOWN_TAGS[known] || '';
+    }
+    const transformVersion = (flags >> 6) & 0x03;
+    const origLength = readBase128(buf, pos);
+    const transformed = (t === 'glyf' || t === 'loca') ? transformVersion === 0 : transformVersion !== 0;
+    const length = transformed ? readBase128(buf, pos) : origLength;
+    entries.push({ tag: t, length, transformed: transformed && t !== 'loca' });
+  }
+  const flavor = tag(buf, 4);
+  if (flavor === 'ttcf') throw new Error('font-files: WOFF2 collections are not supported');
+  const data = zlib.brotliDecompressSync(buf.subarray(pos.at, pos.at + compressedLength));
+  const tables = new Map<string, Buffer>();
+  let offset = 0;
+  for (const e of entries) {
+    // Why: transformed glyf/hmtx use a different layout; leave them out rather than misread them
+    if (!e.transformed) tables.set(e.tag, data.subarray(offset, offset + e.length));
+    offset += e.length;
+  }
+  return t => tables.get(t) || null;
+}
+
+function decodeName(raw: Buffer, platformId: number): string {
+  if (platformId === 0 || platformId === 3) {
+    let out = '';
+    for (let i = 0; i + 1 < raw.length; i += 2) out += String.fromCharCode(raw.readUInt16BE(i));
+    return out;
+  }
+  return raw.toString('latin1');
+}
+
+function readNames(name: Buffer | null): Map<number, string[]> {
+  const out = new Map<number, string[]>();
+  if (!name) return out;
+  const count = name.readUInt16BE(2);
+  const storage = name.readUInt16BE(4);
+  for (let i = 0; i < count; i++) {
+    const rec = 6 + i * 12;
+    const platformId = name.readUInt16BE(rec);
+    const nameId = name.readUInt16BE(rec + 6);
+    if (![1, 4, 6, 16].includes(nameId)) continue;
+    const length = name.readUInt16BE(rec + 8);
+    const offset = name.readUInt16BE(rec + 10);
+    const value = decodeName(name.subarray(storage + offset, storage + offset + length), platformId).trim();
+    if (!value) continue;
+    if (!out.has(nameId)) out.set(nameId, []);
+    if (!out.get(nameId)!.includes(value)) out.get(nameId)!.push(value);
+  }
+  return out;
+}
+
+function readMetrics(head: Buffer | null, hhea: Buffer | null): FontMetrics | undefined {
+  if (!head || head.length < 20 || !hhea || hhea.length < 10) return undefined;
+  return {
+    unitsPerEm: head.readUInt16BE(18),
+    ascent: hhea.readInt16BE(4),
+    descent: Math.abs(hhea.readInt16BE(6)),
+    lineGap: hhea.readInt16BE(8),
+  };
+}
+
+function readWeightRange(fvar: Buffer | null): [number, number] | undefined {
+  if (!fvar) return undefined;
+  const axesOffset = fvar.readUInt16BE(4);
+  const axisCount = fvar.readUInt16BE(8);
+  const axisSize = fvar.readUInt16BE(10);
+  for (let i = 0; i < axisCount; i++) {
+    const rec = axesOffset + i * axisSize;
+    if (tag(fvar, rec) !== 'wght') continue;
+    return [fvar.readInt32BE(rec + 4) / 65536, fvar.readInt32BE(rec + 12) / 65536];
+  }
+  return undefined;
+}
+
+function readFace(file: string, fontNumber: number, table: TableReader): LocalFontFace | null {
+  const names = readNames(table('name'));
+  // Why: typographic family (16) groups all weights under one name, legacy (1) may be "Inter Medium"
+  const families = Array.from(new Set([...(names.get(16) || []), ...(names.get(1) || [])]));
+  if (!families.length) return null;
+  const os2 = table('OS/2');
+  const head = table('head');
+  const weight = os2 && os2.length >= 6 ? os2.readUInt16BE(4) : 400;
+  const italic = os2 && os2.length >= 64 ? (os2.readUInt16BE(62) & 0x01) !== 0 : !!(head && head.length >= 46 && head.readUInt16BE(44) & 0x02);
+  const face: LocalFontFace = { file, fontNumber, families, weight: weight || 400, italic };
+  if (names.get(4)) face.fullName = names.get(4)![0];
+  if (names.get(6)) face.postscriptName = names.get(6)![0];
+  const metrics = readMetrics(head, table('hhea'));
+  if (metrics) face.metrics = metrics;
+  const range = readWeightRange(table('fvar'));
+  if (range) face.weightRange = range;
+  return face;
+}
+
+// Table readers for every face in the file (several for .ttc collections)
+function openFontTables(file: string): TableReader[] {
+  const buf = fs.readFileSync(file);
+  const signature = tag(buf, 0);
+  if (signature === 'wOFF') return [woffTables(buf)];
+  if (signature === 'wOF2') return [woff2Tables(buf)];
+  if (signature === 'ttcf') {
+    const count = buf.readUInt32BE(8);
+    const readers: TableReader[] = [];
+    for (let i = 0; i < count; i++) readers.push(sfntTables(buf, buf.readUInt32BE(12 + i * 4)));
+    return readers;
+  }
+  if (signature === 'OTTO' || signature === 'true' || buf.readUInt32BE(0) === 0x00010000) return [sfntTables(buf, 0)];
+  throw new Error(`font-files: unsupported font format in ${file}`);
+}
+
+/**
+ * Faces contained in a font file (several for .ttc collections). Throws on unreadable/corrupt files.
+ */
+export function readFontFaces(file: string): LocalFontFace[] {
+  const faces: LocalFontFace[] = [];
+  openFontTables(file).forEach((table, i) => {
+    const face = readFace(file, i, table);
+    if (face) faces.push(face);
+  });
+  return faces;
+}
+
+// Unicode cmap subtable (format 4 or 12) → code point to glyph id
+function readCmap(cmap: Buffer): ((codePoint: number) => number) | null {
+  const count = cmap.readUInt16BE(2);
+  let best: { offset: number; format: number } | null = null;
+  for (let i = 0; i < count; i++) {
+    const rec = 4 + i * 8;
+    const platformId = cmap.readUInt16BE(rec);
+    const encodingId = cmap.readUInt16BE(rec + 2);
+    const offset = cmap.readUInt32BE(rec + 4);
+    const unicode = platformId === 0 || (platformId === 3 && (encodingId === 1 || encodingId === 10));
+    if (!unicode) continue;
+    const format = cmap.readUInt16BE(offset);
+    if (format === 12 && (!best || best.format !== 12)) best = { offset, format };
+    else if (format === 4 && !best) best = { offset, format };
+  }
+  if (!best) return null;
+  const at = best.offset;
+  if (best.format === 12) {
+    const groups = cmap.readUInt32BE(at + 12);
+    return (cp) => {
+      let lo = 0, hi = groups - 1;
+      while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        const g = at + 16 + mid * 12;
+        const start = cmap.readUInt32BE(g);
+        const end = cmap.readUInt32BE(g + 4);
+        if (cp < start) hi = mid - 1;
+        else if (cp > end) lo = mid + 1;
+        else return cmap.readUInt32BE(g + 8) + (cp - start);
+      }
+      return 0;
+    };
+  }
+  const segX2 = cmap.readUInt16BE(at + 6);
+  const endCodes = at + 14;
+  const startCodes = endCodes + segX2 + 2;
+  const deltas = startCodes + segX2;
+  const rangeOffsets = deltas + segX2;
+  return (cp) => {
+    if (cp > 0xffff) return 0;
+    for (let i = 0; i < segX2; i += 2) {
+      if (cp > cmap.readUInt16BE(endCodes + i)) continue;
+      const start = cmap.readUInt16BE(startCodes + i);
+      if (cp < start) return 0;
+      const delta = cmap.readInt16BE(deltas + i);
+      const rangeOffset = cmap.readUInt16BE(rangeOffsets + i);
+      if (!rangeOffset) return (cp + delta) & 0xffff;
+      const glyphAt = rangeOffsets + i + rangeOffset + (cp - start) * 2;
+      const glyph = cmap.readUInt16BE(glyphAt);
+      return glyph ? (glyph + delta) & 0xffff : 0;
+    }
+    return 0;
+  };
+}
+
+/**
+ * Advance widths for one face, for width-based metric comparisons. Null when cmap/hmtx are unavailable.
+ */
+export function readGlyphAdvances(face: LocalFontFace): GlyphAdvances | null {
+  const table = openFontTables(face.file)[face.fontNumber];
+  // Why: copy the two tables so callers caching advances don't pin the whole font file in memory
+  const cmapRaw = table && table('cmap');
+  const hmtxRaw = table && table('hmtx');
+  const cmap = cmapRaw ? Buffer.from(cmapRaw) : null;
+  const hmtx = hmtxRaw ? Buffer.from(hmtxRaw) : null;
+  const hhea = table && table('hhea');
+  const head = table && table('head');
+  if (!cmap || !hmtx || !hhea || !head) return null;
+  const glyphOf = readCmap(cmap);
+  if (!glyphOf) return null;
+  const numberOfHMetrics = hhea.readUInt16BE(34);
+  if (!numberOfHMetrics) return null;
+  return {
+    unitsPerEm: head.readUInt16BE(18),
+    advance(codePoint: number) {
+      const glyph = glyphOf(codePoint);
+      if (!glyph) return null;
+      // Why: glyphs past numberOfHMetrics reuse the last advance (monospaced tails)
+      return hmtx.readUInt16BE(Math.min(glyph, numberOfHMetrics - 1) * 4);
+    },
+  };
+}
+
+/**
+ * Recursively read every font file under `dir`; unreadable files are skipped.
+ */
+export function scanFontDirectory(dir: string): LocalFontFace[] {
+  const faces: LocalFontFace[] = [];
+  const walk = (current: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(current, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const full = path.join(current, entry.name);
+      if (entry.isDirectory()) walk(full);
+      else if (FONT_FILE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+        try {
+          faces.push(...readFontFaces(full));
+        } catch {
+          // ignore fonts we cannot parse
+        }
+      }
+    }
+  };
+  walk(dir);
+  return faces;
+}
+
+function normalizeFamily(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Pick the face for a CSS family/weight/style: exact family name, italic preferred when asked,
+ * then the weight closest to the requested one (variable fonts match their whole range).
+ */
+export function matchFontFace(faces: LocalFontFace[], family: string, weight: number, italic: boolean): LocalFontFace | null {
+  const wanted = normalizeFamily(family);
+  const candidates = faces.filter(f => f.families.some(n => normalizeFamily(n) === wanted));
+  if (!candidates.length) return null;
+  const distance = (f: LocalFontFace) => {
+    if (f.weightRange && weight >= f.weightRange[0] && weight <= f.weightRange[1]) return 0;
+    return Math.abs(f.weight - weight);
+  };
+  const styled = candidates.filter(f => f.italic === italic);
+  const pool = styled.length ? styled : candidates;
+  return pool.reduce((best, f) => (distance(f) < distance(best) ? f : best));
+}
@@ -0,0 +1,318 @@
+import fs from 'fs';
+import path from 'path';
+import { scanFontDirectory, readFontFaces, matchFontFace } from './font-files';
+import type { LocalFontFace } from './font-files';
+import { loadProjectConfig } from './project-config';
+
+// Font provider registry: each provider decides whether it can serve a family and how (a stylesheet link,
+// a share of the combined Google Fonts request, or local font files declared with @font-face).
+// Providers come from `fonts.providers` in bridge.config.json and are tried in that order per family.
+
+export type FontProviderConfig =
+  | { type: 'google'; name?: string; baseUrl?: string; families?: string[] }
+  | { type: 'chinese-storage'; name?: string; indexUrl?: string; cdn?: string[]; families?: string[] }
+  | { type: 'url-template'; name?: string; template: string; families?: string[] }
+  | { type: 'local'; name?: string; dir: string; families?: string[] }
+  | { type: 'stand-in'; name?: string; file?: string; localFamily?: string; families?: string[] };
+
+export type FontProviderType = FontProviderConfig['type'];
+
+export type FontRequest = { family: string; weights: number[]; italic: boolean };
+
+export type FontResolution = {
+  // Provider name ('url' for a stylesheet override)
+  provider: string;
+  type: FontProviderType | 'url';
+  // Stylesheets to link (CDN mirrors in order)
+  stylesheets?: string[];
+  // Part of one combined css2 request against this endpoint
+  google?: { baseUrl: string };
+  // Local faces declared via @font-face; with standIn they are declared under the requested family
+  faces?: LocalFontFace[];
+  standIn?: boolean;
+};
+
+export type FontProvider = {
+  name: string;
+  type: FontProviderType;
+  // Needs network access; skipped when online fonts are disabled
+  remote: boolean;
+  warmup(): Promise<void>;
+  // `override.path` lets a pinned family point at a specific storage path
+  resolve(font: FontRequest, override?: { path?: string }): FontResolution | null;
+  // Local font files the provider may declare (local and stand-in providers)
+  files?(): string[];
+};
+
+const GOOGLE_CSS2_URL = 'https://fonts.googleapis.com/css2';
+const CHINESE_FONTS_INDEX_URL = 'https://raw.githubusercontent.com/KonghaYao/chinese-free-web-font-storage/branch/index.json';
+const CHINESE_FONTS_CDN = [
+  'https://chinese-fonts-cdn.deno.dev/',
+  'https://ik.imagekit.io/chinesefonts/',
+  'https://chinese-font.netlify.app/'
+];
+const DEFAULT_PROVIDERS: FontProviderConfig[] = [{ type: 'chinese-storage' }, { type: 'google' }];
+
+const TEMP_DIR = path.join(process.cwd(), 'temp');
+const INDEX_CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+function familyFilter(families?: string[]): (family: string) => boolean {
+  if (!Array.isArray(families) || !families.length) return () => true;
+  const wanted = new Set(families.map(f => f.toLowerCase()));
+  return (family) => wanted.has(family.toLowerCase());
+}
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'font';
+}
+
+function createGoogleProvider(config: Extract<FontProviderConfig, { type: 'google' }>): FontProvider {
+  const name = config.name || 'google';
+  const accepts = familyFilter(config.families);
+  const baseUrl = config.baseUrl || GOOGLE_CSS2_URL;
+  return {
+    name,
+    type: 'google',
+    remote: true,
+    async warmup() {},
+    resolve(font) {
+      return accepts(font.family) ? { provider: name, type: 'google', google: { baseUrl } } : null;
+    },
+  };
+}
+
+// --- Chinese font storage index (KonghaYao/chinese-free-web-font-storage) ---
+interface ChineseFontRemote {
+  css?: { family?: string };
+  path?: string;
+}
+interface ChineseFontData {
+  remotePath?: ChineseFontRemote[];
+}
+interface ChineseFontsIndex {
+  [key: string]: ChineseFontData;
+}
+
+function parseFontData(fontData: ChineseFontData, mapping: Record<string, string>): void {
+  const paths = fontData?.remotePath;
+  if (!Array.isArray(paths)) return;
+  for (const remote of paths) {
+    const family = remote?.css?.family;
+    const relPath = remote?.path;
+    if (family && relPath) {
+      mapping[family] = relPath;
+    }
+  }
+}
+
+function parseIndex(index: ChineseFontsIndex): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const fontData of Object.values(index)) parseFontData(fontData, out);
+  return out;
+}
+
+function createChineseStorageProvider(config: Extract<FontProviderConfig, { type: 'chinese-storage' }>): FontProvider {
+  const name = config.name || 'chinese-storage';
+  const indexUrl = config.indexUrl || CHINESE_FONTS_INDEX_URL;
+  const cdn = Array.isArray(config.cdn) && config.cdn.length ? config.cdn : CHINESE_FONTS_CDN;
+  const accepts = familyFilter(config.families);
+  const cacheFile = path.join(TEMP_DIR, `font-index-${slug(name)}.json`);
+  let mappingState: { status: 'not-initialized' } | { status: 'loaded'; mapping: Record<string, string> } | { status: 'failed'; error: Error } = { status: 'not-initialized' };
+
+  const fetchMapping = async (): Promise<Record<string, string>> => {
+    const res = await fetch(indexUrl);
+    if (!res.ok) throw new Error(`font-providers: ${name} index fetch failed: ${res.status}`);
+    const mapping = parseIndex((await res.json()) as ChineseFontsIndex);
+    try {
+      fs.mkdirSync(TEMP_DIR, { recursive: true });
+      fs.writeFileSync(cacheFile, JSON.stringify(mapping, null, 2), 'utf-8');
+    } catch {
+      // cache write is best effort
+    }
+    return mapping;
+  };
+
+  return {
+    name,
+    type: 'chinese-storage',
+    remote: true,
+    async warmup() {
+      if (mappingState.status === 'loaded') return;
+      let cached: Record<string, string> | null = null;
+      try {
+        if (fs.existsSync(cacheFile)) cached = JSON.parse(fs.readFileSync(cacheFile, 'utf-8'));
+      } catch {
+        cached = null;
+      }
+      if (cached && Object.keys(cached).length) {
+        mappingState = { status: 'loaded', mapping: cached };
+        // Why: serve the cached index right away and refresh a stale one in the background
+        const stale = Date.now() - fs.statSync(cacheFile).mtimeMs > INDEX_CACHE_MAX_AGE_MS;
+        if (stale) fetchMapping().then((mapping) => { if (Object.keys(mapping).length) mappingState = { status: 'loaded', mapping }; }).catch(() => {});
+        return;
+      }
+      try {
+        mappingState = { status: 'loaded', mapping: await fetchMapping() };
+      } catch (err) {
+        mappingState = { status: 'failed', error: err as Error };
+      }
+    },
+    resolve(font, override) {
+      const relPath = override?.path || (mappingState.status === 'loaded' && accepts(font.family) ? mappingState.mapping[font.family] : undefined);
+      if (!relPath) return null;
+      return { provider: name, type: 'chinese-storage', stylesheets: cdn.map(base => base.replace(/\/?$/, '/') + relPath.replace(/^\/+/, '')) };
+    },
+  };
+}
+
+/**
+ * `{family}` (URL-encoded), `{familyPlus}` (spaces as +), `{slug}`, `{weights}` (comma-separated) and
+ * `{style}` (normal/italic) are substituted into a self-hosted stylesheet URL template.
+ */
+export function expandUrlTemplate(template: string, font: FontRequest): string {
+  const weights = font.weights.length ? font.weights : [400];
+  return template
+    .replace(/\{family\}/g, encodeURIComponent(font.family))
+    .replace(/\{familyPlus\}/g, font.family.replace(/\s+/g, '+'))
+    .replace(/\{slug\}/g, slug(font.family))
+    .replace(/\{weights\}/g, weights.join(','))
+    .replace(/\{style\}/g, font.italic ? 'italic' : 'normal');
+}
+
+function createUrlTemplateProvider(config: Extract<FontProviderConfig, { type: 'url-template' }>): FontProvider {
+  if (!config.template || typeof config.template !== 'string') throw new Error('font-providers: url-template provider needs a template');
+  const name = config.name || 'url-template';
+  const accepts = familyFilter(config.families);
+  const remote = /^https?:\/\//i.test(config.template);
+  return {
+    name,
+    type: 'url-template',
+    remote,
+    async warmup() {},
+    resolve(font) {
+      return accepts(font.family) ? { provider: name, type: 'url-template', stylesheets: [expandUrlTemplate(config.template, font)] } : null;
+    },
+  };
+}
+
+// Faces that serve the requested weights/style of a family (deduplicated)
+function pickFaces(faces: LocalFontFace[], font: FontRequest): LocalFontFace[] {
+  const out: LocalFontFace[] = [];
+  for (const weight of font.weights.length ? font.weights : [400]) {
+    for (const italic of font.italic ? [false, true] : [false]) {
+      const face = matchFontFace(faces, font.family, weight, italic);
+      if (face && !out.includes(face)) out.push(face);
+    }
+  }
+  return out;
+}
+
+function createLocalProvider(config: Extract<FontProviderConfig, { type: 'local' }>, baseDir: string): FontProvider {
+  if (!config.dir || typeof config.dir !== 'string') throw new Error('font-providers: local provider needs a dir');
+  const name = config.name || 'local';
+  const dir = path.resolve(baseDir, config.dir);
+  const accepts = familyFilter(config.families);
+  let faces: LocalFontFace[] = [];
+  return {
+    name,
+    type: 'local',
+    remote: false,
+    async warmup() {
+      faces = scanFontDirectory(dir);
+    },
+    resolve(font) {
+      if (!accepts(font.family)) return null;
+      const picked = pickFaces(faces, font);
+      return picked.length ? { provider: name, type: 'local', faces: picked } : null;
+    },
+    files() {
+      return Array.from(new Set(faces.map(f => f.file)));
+    },
+  };
+}
+
+// Why: offline fixture runs need identical text metrics on every machine, so one known font file stands in
+// for every family (or the listed ones) regardless of what is installed or reachable
+function createStandInProvider(config: Extract<FontProviderConfig, { type: 'stand-in' }>, baseDir: string): FontProvider {
+  if (!config.file && !config.localFamily) throw new Error('font-providers: stand-in provider needs a file or localFamily');
+  const name = config.name || 'stand-in';
+  const accepts = familyFilter(config.families);
+  let faces: LocalFontFace[] = [];
+  return {
+    name,
+    type: 'stand-in',
+    remote: false,
+    async warmup() {
+      if (config.file) faces = readFontFaces(path.resolve(baseDir, config.file)).slice(0, 1);
+      else faces = [{ file: '', fontNumber: 0, families: [config.localFamily!], weight: 400, italic: false, fullName: config.localFamily }];
+    },
+    resolve(font) {
+      return accepts(font.family) && faces.length ? { provider: name, type: 'stand-in', faces, standIn: true } : null;
+    },
+    files() {
+      return faces.map(f => f.file).filter(Boolean);
+    },
+  };
+}
+
+export function createFontProvider(config: FontProviderConfig, baseDir: string = process.cwd()): FontProvider {
+  switch (config?.type) {
+    case 'google': return createGoogleProvider(config);
+    case 'chinese-storage': return createChineseStorageProvider(config);
+    case 'url-template': return createUrlTemplateProvider(config);
+    case 'local': return createLocalProvider(config, baseDir);
+    case 'stand-in': return createStandInProvider(config, baseDir);
+    default: throw new Error(`font-providers: unknown provider type "${(config as any)?.type}"`);
+  }
+}
+
+export function createFontProviders(configs: FontProviderConfig[], baseDir: string = process.cwd()): FontProvider[] {
+  const providers = configs.map(c => createFontProvider(c, baseDir));
+  const seen = new Set<string>();
+  for (const p of providers) {
+    if (p.name === 'url' || p.name === 'none') throw new Error(`font-providers: "${p.name}" is reserved and cannot name a provider`);
+    if (seen.has(p.name)) throw new Error(`font-providers: duplicate provider name "${p.name}"`);
+    seen.add(p.name);
+  }
+  return providers;
+}
+
+let registryState: { status: 'not-initialized' } | { status: 'loaded'; providers: FontProvider[] } = { status: 'not-initialized' };
+
+/**
+ * Build the registry from the project config (defaults when absent or invalid) and warm each provider.
+ * With `online: false` remote providers are not warmed, so nothing touches the network.
+ */
+export async function warmupFontProviders(options: { online?: boolean } = {}): Promise<void> {
+  if (registryState.status === 'not-initialized') {
+    let providers: FontProvider[];
+    try {
+      const { config, baseDir } = loadProjectConfig();
+      providers = createFontProviders(config.fonts?.providers || DEFAULT_PROVIDERS, baseDir);
+    } catch (err) {
+      console.error('[Fonts] Invalid font provider config; using defaults:', err);
+      providers = createFontProviders(DEFAULT_PROVIDERS);
+    }
+    registryState = { status: 'loaded', providers };
+  }
+  for (const provider of registryState.providers) {
+    if (provider.remote && options.online === false) continue;
+    try {
+      await provider.warmup();
+    } catch (err) {
+      console.warn(`[Fonts] Provider ${provider.name} failed to warm up:`, err);
+    }
+  }
+}
+
+export function getFontProviders(): FontProvider[] {
+  if (registryState.status === 'loaded') return registryState.providers;
+  throw new Error('BUG: getFontProviders called before warmupFontProviders');
+}
+
+// Files of local/stand-in provider faces; the preview server only serves these
+export function isFontProviderFile(file: string): boolean {
+  if (registryState.status !== 'loaded' || !file) return false;
+  const target = path.resolve(file);
+  return registryState.providers.some(p => !!p.files && p.files().includes(target));
+}
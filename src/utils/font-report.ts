@@ -0,0 +1,166 @@
+import { extractFontsFromComposition, getFontOverrides } from './fonts';
+import type { FontOverride, FontResolveOptions, ResolvedFont } from './fonts';
+import { getFontProviders } from './font-providers';
+import type { FontProviderType } from './font-providers';
+import { collectFontUsage } from './font-embed';
+import { readGlyphAdvances } from './font-files';
+
+// Per-family font availability for a composition: which provider (or override) serves the web font and how
+// many of the used characters it covers (stylesheet unicode-range, or the cmap of local font files).
+
+export type FontReportEntry = {
+  family: string;
+  weights: number[];
+  styles: string[];
+  // Provider name, 'url' or 'none'; 'none' also when the source answered that it does not have the family
+  source: string;
+  sourceType: FontProviderType | 'url' | 'none';
+  override?: FontOverride;
+  urls: string[];
+  // ok: stylesheet fetched or local file present; not-found: source rejected the family; unreachable: network error; unchecked: probe skipped
+  status: 'ok' | 'not-found' | 'unreachable' | 'unchecked';
+  // Distinct characters the design sets in this family
+  characters: number;
+  // Share of those characters the source covers (unicode-range or local cmap; null when unknown)
+  coverage: number | null;
+  // Up to 20 used characters the source does not cover
+  uncovered: string[];
+};
+
+export type FontReport = {
+  fonts: FontReportEntry[];
+  providers: { name: string; type: FontProviderType; remote: boolean }[];
+};
+
+export type FontReportOptions = FontResolveOptions & {
+  // Fetch each source stylesheet to confirm the family and read its unicode-range (default true)
+  probe?: boolean;
+  timeoutMs?: number;
+};
+
+type StylesheetProbe = { status: 'ok' | 'not-found'; ranges: [number, number][] | null };
+
+// Why: Google serves woff2 with per-subset unicode-range only to modern browser user agents
+const PROBE_USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36';
+
+const probeCache = new Map<string, StylesheetProbe>();
+
+/**
+ * Union of the unicode-range descriptors in a stylesheet; null if some @font-face has none (covers everything).
+ */
+export function parseUnicodeRanges(css: string): [number, number][] | null {
+  const faces = css.match(/@font-face\s*{[^}]*}/g) || [];
+  const ranges: [number, number][] = [];
+  for (const face of faces) {
+    const m = /unicode-range\s*:\s*([^;}]+)/i.exec(face);
+    if (!m) return null;
+    for (const part of m[1].split(',')) {
+      const token = part.trim().replace(/^u\+/i, '');
+      if (!token) continue;
+      if (token.includes('?')) {
+        ranges.push([parseInt(token.replace(/\?/g, '0'), 16), parseInt(token.replace(/\?/g, 'F'), 16)]);
+      } else if (token.includes('-')) {
+        const [a, b] = token.split('-');
+        ranges.push([parseInt(a, 16), parseInt(b.replace(/^u\+/i, ''), 16)]);
+      } else {
+        const cp = parseInt(token, 16);
+        ranges.push([cp, cp]);
+      }
+    }
+  }
+  return faces.length ? ranges.filter(([a, b]) => Number.isFinite(a) && Number.isFinite(b)) : null;
+}
+
+async function probeStylesheet(url: string, timeoutMs: number): Promise<StylesheetProbe> {
+  const cached = probeCache.get(url);
+  if (cached) return cached;
+  const res = await fetch(url, { headers: { 'User-Agent': PROBE_USER_AGENT }, signal: AbortSignal.timeout(timeoutMs) });
+  const probe: StylesheetProbe = res.ok
+    ? { status: 'ok', ranges: parseUnicodeRanges(await res.text()) }
+    : { status: 'not-found', ranges: null };
+  // Why: only definite answers are cached; server errors may be transient
+  if (res.ok || (res.status >= 400 && res.status < 500)) probeCache.set(url, probe);
+  return probe;
+}
+
+// CDN mirrors serve the same file: the first one that answers decides
+async function probeUrls(urls: string[], timeoutMs: number): Promise<{ status: FontReportEntry['status']; ranges: [number, number][] | null }> {
+  let lastStatus: FontReportEntry['status'] = 'unreachable';
+  for (const url of urls) {
+    try {
+      const probe = await probeStylesheet(url, timeoutMs);
+      if (probe.status === 'ok') return probe;
+      lastStatus = 'not-found';
+    } catch {
+      // try the next mirror
+    }
+  }
+  return { status: lastStatus, ranges: null };
+}
+
+function inRanges(cp: number, ranges: [number, number][]): boolean {
+  return ranges.some(([a, b]) => cp >= a && cp <= b);
+}
+
+// Stylesheet to probe for one family: Google resolutions are checked with a single-family css2 request
+function probeUrlsFor(family: string, r: ResolvedFont): string[] {
+  const google = r.resolution?.google;
+  if (google) return [`${google.baseUrl}?family=${family.replace(/\s+/g, '+')}&display=swap`];
+  return r.resolution?.stylesheets || [];
+}
+
+export async function buildFontReport(composition: any, options: FontReportOptions = {}): Promise<FontReport> {
+  const probe = options.probe !== false;
+  const timeoutMs = options.timeoutMs || 8000;
+  const overrides = getFontOverrides();
+  const chars = new Map<string, Set<string>>();
+  for (const u of collectFontUsage(composition).values()) {
+    if (!chars.has(u.family)) chars.set(u.family, new Set());
+    u.chars.forEach(ch => { if (ch.trim()) chars.get(u.family)!.add(ch); });
+  }
+
+  const fonts: FontReportEntry[] = [];
+  const collector = extractFontsFromComposition(composition);
+  for (const { family, request, resolved } of collector.resolveAll(options)) {
+    const info = collector.getAllFonts().find(f => f.family === family)!;
+    const used = Array.from(chars.get(family) || []);
+    const urls = probeUrlsFor(family, resolved);
+    const entry: FontReportEntry = {
+      family,
+      weights: request.weights,
+      styles: Array.from(info.styles),
+      source: resolved.source,
+      sourceType: resolved.sourceType,
+      urls,
+      status: 'unchecked',
+      characters: used.length,
+      coverage: null,
+      uncovered: [],
+    };
+    if (resolved.overridden) entry.override = overrides[family];
+    const face = resolved.resolution?.faces?.find(f => f.file);
+    if (face) {
+      // Local files: coverage straight from the font's cmap
+      let advances = null;
+      try { advances = readGlyphAdvances(face); } catch {}
+      const missing = advances ? used.filter(ch => advances.advance(ch.codePointAt(0) as number) === null) : [];
+      entry.status = 'ok';
+      entry.coverage = advances ? (used.length ? Math.round((1 - missing.length / used.length) * 1000) / 1000 : 1) : null;
+      entry.uncovered = missing.slice(0, 20);
+    } else if (probe && urls.length) {
+      const result = await probeUrls(urls, timeoutMs);
+      entry.status = result.status;
+      if (result.status === 'not-found') {
+        entry.source = 'none';
+        entry.sourceType = 'none';
+      }
+      if (result.status === 'ok') {
+        const missing = result.ranges ? used.filter(ch => !inRanges(ch.codePointAt(0) as number, result.ranges!)) : [];
+        entry.coverage = used.length ? Math.round((1 - missing.length / used.length) * 1000) / 1000 : 1;
+        entry.uncovered = missing.slice(0, 20);
+      }
+    }
+    fonts.push(entry);
+  }
+  return { fonts, providers: getFontProviders().map(p => ({ name: p.name, type: p.type, remote: p.remote })) };
+}
@@ -1,169 +1,224 @@
 import fs from 'fs';
 import path from 'path';
 import { FontCollector as BaseFontCollector, extractFontsFromComposition as baseExtractFontsFromComposition } from 'figma-html-bridge';
+import { getFontProviders, warmupFontProviders } from './font-providers';
+import type { FontProviderType, FontRequest, FontResolution } from './font-providers';
+import type { LocalFontFace } from './font-files';
 
-const CHINESE_FONTS_INDEX_URL = 'https://raw.githubusercontent.com/KonghaYao/chinese-free-web-font-storage/branch/index.json';
+export { warmupFontProviders };
 
-const CDN_PROVIDERS = [
-  'https://chinese-fonts-cdn.deno.dev/',
-  'https://ik.imagekit.io/chinesefonts/',
-  'https://chinese-font.netlify.app/'
-];
+const GOOGLE_CSS2_URL = 'https://fonts.googleapis.com/css2';
+const OVERRIDES_FILE = path.join(process.cwd(), 'temp', 'font-overrides.json');
 
-const CACHE_FILE = path.join(process.cwd(), 'temp', 'chinese-fonts-mapping.json');
-const CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+// Per-family replacement for the provider order: `source` pins a provider by name (`path` points a
+// chinese-storage provider at a specific storage path), 'url' links a stylesheet directly, 'none' loads nothing.
+export type FontOverride = { source: string; path?: string; url?: string };
 
-type FontMappingState =
-  | { status: 'not-initialized' }
-  | { status: 'loaded'; mapping: Record<string, string> }
-  | { status: 'failed'; error: Error };
+export type FontResolveOptions = {
+  // false skips remote providers and 'url' overrides (default true)
+  online?: boolean;
+};
 
-let fontMappingState: FontMappingState = { status: 'not-initialized' };
+export type ResolvedFont = {
+  // Provider name, 'url' or 'none'
+  source: string;
+  sourceType: FontProviderType | 'url' | 'none';
+  overridden: boolean;
+  resolution: FontResolution | null;
+};
 
-function generateCdnUrls(relativePath: string): string[] {
-  return CDN_PROVIDERS.map(base => base + relativePath);
-}
+let fontOverrides: Record<string, FontOverride> | null = null;
 
 function ensureTempDir(): void {
-  const tempDir = path.dirname(CACHE_FILE);
+  const tempDir = path.dirname(OVERRIDES_FILE);
   if (!fs.existsSync(tempDir)) {
     fs.mkdirSync(tempDir, { recursive: true });
   }
 }
 
-function loadMappingFromFile(): Record<string, string> | null {
+export function getFontOverrides(): Record<string, FontOverride> {
+  if (fontOverrides) return fontOverrides;
   try {
-    if (!fs.existsSync(CACHE_FILE)) return null;
-
-    const stat = fs.statSync(CACHE_FILE);
-    const age = Date.now() - stat.mtimeMs;
-
-    const data = fs.readFileSync(CACHE_FILE, 'utf-8');
-    const mapping = JSON.parse(data) as Record<string, string>;
-
-    return mapping;
-  } catch (err) {
-    return null;
+    fontOverrides = fs.existsSync(OVERRIDES_FILE) ? JSON.parse(fs.readFileSync(OVERRIDES_FILE, 'utf-8')) : {};
+  } catch {
+    fontOverrides = {};
   }
+  return fontOverrides!;
 }
 
-function saveMappingToFile(mapping: Record<string, string>): void {
+function validateOverride(override: any): FontOverride {
+  const source = override?.source;
+  if (source === 'none') return { source };
+  if (source === 'url') {
+    const url = typeof override.url === 'string' ? override.url.trim() : '';
+    if (!/^https?:\/\//i.test(url)) throw new Error('fonts: url override needs an http(s) stylesheet URL');
+    return { source, url };
+  }
+  const provider = getFontProviders().find(p => p.name === source);
+  if (!provider) throw new Error(`fonts: unknown font source "${source}"`);
+  const rel = typeof override.path === 'string' ? override.path.trim().replace(/^\/+/, '') : '';
+  if (!rel) return { source };
+  if (provider.type !== 'chinese-storage' || /^[a-z]+:/i.test(rel)) throw new Error('fonts: a path override needs a chinese-storage provider and a relative storage path');
+  return { source, path: rel };
+}
+
+/**
+ * Set (or clear with null) the mapping override for one family. Persisted under temp/ so it survives restarts.
+ */
+export function setFontOverride(family: string, override: FontOverride | null): Record<string, FontOverride> {
+  if (!family || typeof family !== 'string') throw new Error('fonts: override needs a family');
+  const next = { ...getFontOverrides() };
+  if (override) next[family] = validateOverride(override);
+  else delete next[family];
+  fontOverrides = next;
   try {
     ensureTempDir();
-    fs.writeFileSync(CACHE_FILE, JSON.stringify(mapping, null, 2), 'utf-8');
+    fs.writeFileSync(OVERRIDES_FILE, JSON.stringify(next, null, 2), 'utf-8');
   } catch (err) {
-    // Silent fail
+    console.warn('[Fonts] Failed to persist overrides:', err);
   }
-}
-
-// --- Parsing helpers (pure) ---
-interface ChineseFontRemote {
-  css?: { family?: string };
-  path?: string;
-}
-interface ChineseFontData {
-  remotePath?: ChineseFontRemote[];
-}
-interface ChineseFontsIndex {
-  [key: string]: ChineseFontData;
-}
-
-function parseFontData(fontData: ChineseFontData, mapping: Record<string, string>): void {
-  const paths = fontData?.remotePath;
-  if (!Array.isArray(paths)) return;
-  for (const remote of paths) {
-    const family = remote?.css?.family;
-    const relPath = remote?.path;
-    if (family && relPath) {
-      mapping[family] = relPath;
-    }
+  return next;
+}
+
+function resolved(resolution: FontResolution | null, overridden: boolean): ResolvedFont {
+  return resolution
+    ? { source: resolution.provider, sourceType: resolution.type, overridden, resolution }
+    : { source: 'none', sourceType: 'none', overridden, resolution: null };
+}
+
+/**
+ * Where a family's web font comes from: its override if any, otherwise the first provider (in config order)
+ * that serves it. Offline, remote providers are skipped.
+ */
+export function resolveFontSource(font: FontRequest, options: FontResolveOptions = {}): ResolvedFont {
+  const online = options.online !== false;
+  const providers = getFontProviders().filter(p => online || !p.remote);
+  const override = getFontOverrides()[font.family];
+  if (override?.source === 'none') return resolved(null, true);
+  if (override?.source === 'url') {
+    return resolved(online && override.url ? { provider: 'url', type: 'url', stylesheets: [override.url] } : null, true);
   }
-}
-
-function parseIndex(index: ChineseFontsIndex): Record<string, string> {
-  const out: Record<string, string> = {};
-  for (const fontData of Object.values(index)) parseFontData(fontData, out);
-  return out;
-}
-
-async function fetchChineseFontsMapping(): Promise<Record<string, string>> {
-  const res = await fetch(CHINESE_FONTS_INDEX_URL);
-  if (!res.ok) throw new Error(`Failed to fetch: ${res.status}`);
-  const index = (await res.json()) as ChineseFontsIndex;
-  const mapping = parseIndex(index);
-  saveMappingToFile(mapping);
-  return mapping;
-}
-
-function getChineseFontsMapping(): Record<string, string> {
-  if (fontMappingState.status === 'loaded') return fontMappingState.mapping;
-  if (fontMappingState.status === 'failed') {
-    return {};
+  const pinned = override && getFontProviders().find(p => p.name === override.source);
+  if (pinned) {
+    return resolved(providers.includes(pinned) ? pinned.resolve(font, { path: override!.path }) : null, true);
+  }
+  for (const provider of providers) {
+    const resolution = provider.resolve(font);
+    if (resolution) return resolved(resolution, false);
+  }
+  return resolved(null, false);
+}
+
+function cssString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function fontFormat(file: string): string {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === '.woff2') return 'woff2';
+  if (ext === '.woff') return 'woff';
+  if (ext === '.otf') return 'opentype';
+  if (ext === '.ttc' || ext === '.otc') return 'collection';
+  return 'truetype';
+}
+
+/**
+ * @font-face rules declaring local faces under `family`. Stand-in faces cover every weight so one file
+ * renders the whole family; `fileUrl` maps a font file to a URL the page can load (local() only without it).
+ */
+export function buildLocalFontFaceCss(family: string, faces: LocalFontFace[], standIn: boolean, fileUrl?: (file: string) => string): string {
+  return faces.map((face) => {
+    const names = Array.from(new Set([face.fullName, face.postscriptName].filter(Boolean) as string[]));
+    const src = names.map(n => `local(${cssString(n)})`);
+    if (fileUrl && face.file) src.push(`url(${cssString(fileUrl(face.file))}) format('${fontFormat(face.file)}')`);
+    if (!src.length) src.push(`local(${cssString(face.families[0])})`);
+    const weight = standIn ? '100 900' : (face.weightRange ? `${face.weightRange[0]} ${face.weightRange[1]}` : String(face.weight));
+    return [
+      '@font-face {',
+      `  font-family: ${cssString(family)};`,
+      `  font-style: ${!standIn && face.italic ? 'italic' : 'normal'};`,
+      `  font-weight: ${weight};`,
+      '  font-display: swap;',
+      `  src: ${src.join(', ')};`,
+      '}',
+    ].join('\n');
+  }).join('\n');
+}
+
+// Extend pipeline FontCollector to route every family through the font provider registry
+export class FontCollector extends BaseFontCollector {
+  private requestFor(family: string): FontRequest {
+    const info = this.getAllFonts().find(f => f.family === family);
+    const weights = info ? Array.from(info.weights).sort((a, b) => a - b) : [];
+    const italic = !!info && Array.from(info.styles).some(s => s.toLowerCase().includes('italic'));
+    return { family, weights, italic };
   }
-  throw new Error('BUG: getChineseFontsMapping called before warmup');
-}
 
-function shouldRefreshCache(): boolean {
-  try {
-    if (!fs.existsSync(CACHE_FILE)) return false;
-    const stat = fs.statSync(CACHE_FILE);
-    const age = Date.now() - stat.mtimeMs;
-    return age > CACHE_MAX_AGE_MS;
-  } catch {
-    return false;
+  // Copy limited to `families`, e.g. the ones an export could not bundle
+  only(families: string[]): FontCollector {
+    const out = new FontCollector();
+    for (const f of this.getAllFonts()) {
+      if (!families.includes(f.family)) continue;
+      out.add(f.family);
+      for (const w of f.weights) out.add(f.family, w);
+      for (const s of f.styles) out.add(f.family, undefined, s);
+    }
+    return out;
   }
-}
 
-function refreshInBackground(): void {
-  fetchChineseFontsMapping()
-    .then((mapping) => {
-      if (mapping && Object.keys(mapping).length) {
-        fontMappingState = { status: 'loaded', mapping };
-      }
-    })
-    .catch((err) => {
-      // Silent fail
+  resolveAll(options: FontResolveOptions = {}): { family: string; request: FontRequest; resolved: ResolvedFont }[] {
+    return this.getAllFonts().map((info) => {
+      const request = this.requestFor(info.family);
+      return { family: info.family, request, resolved: resolveFontSource(request, options) };
     });
-}
-
-export async function warmupChineseFontsMapping(): Promise<void> {
-  if (fontMappingState.status === 'loaded') return;
-
-  const cached = loadMappingFromFile();
-  if (cached && Object.keys(cached).length > 0) {
-    fontMappingState = { status: 'loaded', mapping: cached };
-    if (shouldRefreshCache()) refreshInBackground();
-    return;
   }
 
-  try {
-    const mapping = await fetchChineseFontsMapping();
-    fontMappingState = { status: 'loaded', mapping };
-  } catch (err) {
-    fontMappingState = { status: 'failed', error: err as Error };
+  // Combined css2 URLs, one per Google-compatible endpoint
+  private googleUrls(options: FontResolveOptions): string[] {
+    const groups = new Map<string, BaseFontCollector>();
+    const all = this.getAllFonts();
+    for (const { family, resolved: r } of this.resolveAll(options)) {
+      const baseUrl = r.resolution?.google?.baseUrl;
+      if (!baseUrl) continue;
+      if (!groups.has(baseUrl)) groups.set(baseUrl, new BaseFontCollector());
+      const group = groups.get(baseUrl)!;
+      const info = all.find(f => f.family === family)!;
+      group.add(family);
+      for (const w of info.weights) group.add(family, w);
+      for (const s of info.styles) group.add(family, undefined, s);
+    }
+    const urls: string[] = [];
+    for (const [baseUrl, group] of groups) {
+      const url = group.getGoogleFontsUrl();
+      if (url) urls.push(baseUrl + url.slice(GOOGLE_CSS2_URL.length));
+    }
+    return urls;
   }
-}
 
-export function isChineseFontsReady(): boolean {
-  return fontMappingState.status === 'loaded';
-}
+  getGoogleFontsUrl(options: FontResolveOptions = {}): string | null {
+    return this.googleUrls(options)[0] || null;
+  }
 
-// Extend pipeline FontCollector to add Chinese CDN URLs without duplicating logic
-export class FontCollector extends BaseFontCollector {
-  // Build a unique list of Chinese font CSS URLs from collected families
-  getChineseFontsUrls(): string[] {
-    const urls: string[] = [];
-    const mapping = getChineseFontsMapping();
-    const seenPaths = new Set<string>();
-    for (const info of this.getAllFonts()) {
-      const relativePath = mapping[info.family];
-      if (relativePath && !seenPaths.has(relativePath)) {
-        seenPaths.add(relativePath);
-        urls.push(...generateCdnUrls(relativePath));
+  // Stylesheet links from non-Google providers (CDN mirrors in order), plus any further css2 endpoints
+  getFontStylesheetUrls(options: FontResolveOptions = {}): string[] {
+    const urls: string[] = this.googleUrls(options).slice(1);
+    for (const { resolved: r } of this.resolveAll(options)) {
+      for (const href of r.resolution?.stylesheets || []) {
+        if (!urls.includes(href)) urls.push(href);
       }
     }
     return urls;
   }
+
+  // @font-face rules for families served by local and stand-in providers
+  getFontFaceCss(options: FontResolveOptions & { fileUrl?: (file: string) => string } = {}): string {
+    const rules: string[] = [];
+    for (const { family, resolved: r } of this.resolveAll(options)) {
+      const faces = r.resolution?.faces;
+      if (faces && faces.length) rules.push(buildLocalFontFaceCss(family, faces, !!r.resolution!.standIn, options.fileUrl));
+    }
+    return rules.length ? rules.join('\n') + '\n' : '';
+  }
 }
 
 // Wrap pipeline extractor so downstream gets the extended collector API
@@ -0,0 +1,248 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { pathToFileURL } from 'url';
+import type { HtmlLayoutSnapshot } from 'figma-html-bridge';
+import { findChromeBinary } from './html-renderer';
+
+// Lays out an arbitrary HTML page in headless Chrome and reads back every box (geometry + computed style) as an
+// HtmlLayoutSnapshot for htmlLayoutToComposition. A collector script is injected into the page; its JSON result
+// is written into the DOM and recovered from `--dump-dom`, so no DevTools protocol client is needed.
+
+export type LayoutOptions = {
+  width: number;
+  height: number;
+  // Directory relative URLs (stylesheets, images) resolve against
+  baseDir?: string;
+  // Extra stylesheets to load after the page's own
+  cssFiles?: string[];
+  chromePath?: string;
+  timeoutMs?: number;
+};
+
+const RESULT_ID = '__bridge_layout__';
+
+// Runs in the page. Plain ES5-style JS on purpose: it is injected as text, not compiled.
+const COLLECTOR = `
+(function () {
+  var BOX_PROPS = ['display', 'position', 'visibility', 'opacity', 'mixBlendMode', 'overflowX', 'overflowY',
+    'backgroundColor', 'backgroundImage', 'backgroundSize', 'backgroundRepeat', 'objectFit',
+    'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth',
+    'borderTopStyle', 'borderRightStyle', 'borderBottomStyle', 'borderLeftStyle',
+    'borderTopColor', 'borderRightColor', 'borderBottomColor', 'borderLeftColor',
+    'borderTopLeftRadius', 'borderTopRightRadius', 'borderBottomRightRadius', 'borderBottomLeftRadius',
+    'boxShadow', 'filter', 'backdropFilter', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+    'marginTop', 'marginRight', 'marginBottom', 'marginLeft',
+    'flexDirection', 'flexWrap', 'justifyContent', 'alignItems', 'alignSelf', 'flexGrow', 'rowGap', 'columnGap', 'zIndex'];
+  var TEXT_PROPS = ['fontFamily', 'fontSize', 'fontWeight', 'fontStyle', 'color', 'letterSpacing', 'lineHeight',
+    'textDecorationLine', 'textTransform', 'whiteSpace', 'textAlign', 'textIndent', 'visibility'];
+  var SKIP = { SCRIPT: 1, STYLE: 1, HEAD: 1, META: 1, LINK: 1, TEMPLATE: 1, NOSCRIPT: 1, TITLE: 1 };
+  var REPLACED = { IMG: 1, SVG: 1, VIDEO: 1, CANVAS: 1, IFRAME: 1, INPUT: 1, BUTTON: 1, SELECT: 1, TEXTAREA: 1 };
+  var sx = window.scrollX, sy = window.scrollY;
+
+  function pick(cs, props) {
+    var out = {};
+    props.forEach(function (k) { out[k] = String(cs[k] || ''); });
+    return out;
+  }
+  function rectOf(r) {
+    return { x: r.left + sx, y: r.top + sy, width: r.width, height: r.height };
+  }
+  function nameOf(el) {
+    var tag = el.tagName.toLowerCase();
+    if (el.id) return tag + '#' + el.id;
+    var cls = typeof el.className === 'string' ? el.className.trim().split(/\\s+/)[0] : '';
+    return cls ? tag + '.' + cls : tag;
+  }
+  function paintsBox(cs) {
+    if (!/^(transparent|rgba\\(0, 0, 0, 0\\))$/.test(cs.backgroundColor) || cs.backgroundImage !== 'none') return true;
+    if (cs.boxShadow !== 'none') return true;
+    return ['Top', 'Right', 'Bottom', 'Left'].some(function (s) {
+      return parseFloat(cs['border' + s + 'Width']) > 0 && cs['border' + s + 'Style'] !== 'none';
+    });
+  }
+  // Inline elements without their own paint flow into the surrounding text run
+  function isInlineRun(el, cs) {
+    if (cs.display !== 'inline' || REPLACED[el.tagName.toUpperCase()] || paintsBox(cs)) return false;
+    for (var i = 0; i < el.children.length; i++) {
+      var child = el.children[i];
+      if (child.tagName === 'BR') continue;
+      if (!isInlineRun(child, getComputedStyle(child))) return false;
+    }
+    return true;
+  }
+  function collectRuns(node, runs) {
+    if (node.nodeType === 3) {
+      runs.push({ text: node.data, style: pick(getComputedStyle(node.parentElement), TEXT_PROPS) });
+      return;
+    }
+    if (node.nodeType !== 1) return;
+    if (node.tagName === 'BR') {
+      runs.push({ text: '\\n', br: true, style: pick(getComputedStyle(node.parentElement), TEXT_PROPS) });
+      return;
+    }
+    node.childNodes.forEach(function (n) { collectRuns(n, runs); });
+  }
+  function textBox(nodes, parent) {
+    var runs = [];
+    nodes.forEach(function (n) { collectRuns(n, runs); });
+    if (!runs.some(function (r) { return r.br || r.text.trim(); })) return null;
+    var range = document.createRange();
+    range.setStartBefore(nodes[0]);
+    range.setEndAfter(nodes[nodes.length - 1]);
+    var rects = Array.prototype.filter.call(range.getClientRects(), function (r) { return r.width > 0 && r.height > 0; });
+    if (!rects.length) return null;
+    var lines = {};
+    rects.forEach(function (r) { lines[Math.round(r.bottom)] = 1; });
+    var lineCount = Object.keys(lines).length;
+    var rect = rectOf(range.getBoundingClientRect());
+    var pcs = getComputedStyle(parent);
+    if (lineCount > 1) {
+      // Wrapped text keeps the container's content width so it wraps at the same points
+      var pr = parent.getBoundingClientRect();
+      var left = parseFloat(pcs.borderLeftWidth) + parseFloat(pcs.paddingLeft);
+      var right = parseFloat(pcs.borderRightWidth) + parseFloat(pcs.paddingRight);
+      rect.x = pr.left + sx + left;
+      rect.width = Math.max(rect.width, pr.width - left - right);
+    }
+    return { kind: 'text', name: '#text', rect: rect, style: pick(pcs, TEXT_PROPS), runs: runs, lines: lineCount };
+  }
+  function svgMarkup(el) {
+    var clone = el.cloneNode(true);
+    var r = el.getBoundingClientRect();
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    clone.setAttribute('width', String(r.width));
+    clone.setAttribute('height', String(r.height));
+    var color = getComputedStyle(el).color;
+    // currentColor has no meaning once the SVG is a standalone file
+    return new XMLSerializer().serializeToString(clone).replace(/currentColor/g, color);
+  }
+  function zKey(box) {
+    if (box.kind !== 'element' || box.style.position === 'static') return 0;
+    var z = parseInt(box.style.zIndex, 10);
+    return isFinite(z) ? z : 0;
+  }
+  function walk(el) {
+    var cs = getComputedStyle(el);
+    if (cs.display === 'none') return null;
+    var box = { kind: 'element', tag: el.tagName.toLowerCase(), name: nameOf(el), rect: rectOf(el.getBoundingClientRect()), style: pick(cs, BOX_PROPS) };
+    if (box.tag === 'svg') { box.svg = svgMarkup(el); return box; }
+    if (box.tag === 'img') { box.src = el.currentSrc || el.src; return box; }
+    var children = [];
+    var pending = [];
+    function flush() {
+      if (!pending.length) return;
+      var t = textBox(pending, el);
+      if (t) children.push(t);
+      pending = [];
+    }
+    el.childNodes.forEach(function (n) {
+      if (n.nodeType === 3) { pending.push(n); return; }
+      if (n.nodeType !== 1 || SKIP[n.tagName.toUpperCase()]) return;
+      var ccs = getComputedStyle(n);
+      if (ccs.display === 'none') return;
+      if (n.tagName === 'BR' || isInlineRun(n, ccs)) { pending.push(n); return; }
+      flush();
+      if (ccs.display === 'contents') {
+        n.childNodes.forEach(function (c) { if (c.nodeType === 1) { var b = walk(c); if (b) children.push(b); } });
+        return;
+      }
+      var child = walk(n);
+      if (child) children.push(child);
+    });
+    flush();
+    // Stable sort: positioned boxes paint by z-index, everything else in document order
+    children = children.map(function (c, i) { return { c: c, i: i }; })
+      .sort(function (a, b) { return zKey(a.c) - zKey(b.c) || a.i - b.i; })
+      .map(function (e) { return e.c; });
+    if (children.length) box.children = children;
+    return box;
+  }
+  function collect() {
+    var html = document.documentElement;
+    var bg = getComputedStyle(html).backgroundColor;
+    if (/^(transparent|rgba\\(0, 0, 0, 0\\))$/.test(bg) && document.body) bg = getComputedStyle(document.body).backgroundColor;
+    var page = { width: html.scrollWidth, height: html.scrollHeight };
+    var body = document.body ? walk(document.body) : null;
+    var snapshot = {
+      title: document.title || undefined,
+      viewport: { width: window.innerWidth, height: window.innerHeight },
+      page: page,
+      background: bg,
+      root: { kind: 'element', tag: 'html', name: 'page', rect: { x: 0, y: 0, width: page.width, height: page.height }, style: {}, children: body ? [body] : [] },
+    };
+    var out = document.createElement('script');
+    out.type = 'application/json';
+    out.id = '${RESULT_ID}';
+    out.textContent = JSON.stringify(snapshot).replace(/</g, '\\\\u003c');
+    document.documentElement.appendChild(out);
+  }
+  window.addEventListener('load', function () {
+    (document.fonts ? document.fonts.ready : Promise.resolve()).then(function () {
+      try { collect(); } catch (e) { document.documentElement.setAttribute('data-bridge-layout-error', String(e && e.message || e)); }
+    });
+  });
+})();
+`;
+
+function escapeAttr(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+function injectIntoPage(html: string, options: LayoutOptions): string {
+  const head: string[] = [];
+  if (options.baseDir) head.push(`<base href="${escapeAttr(pathToFileURL(path.resolve(options.baseDir) + path.sep).href)}">`);
+  const tail = (options.cssFiles || []).map(f => `<link rel="stylesheet" href="${escapeAttr(pathToFileURL(path.resolve(f)).href)}">`);
+  tail.push(`<script>${COLLECTOR}</script>`);
+  // Why: <base> must precede every relative URL, so it goes right after <head> (or the start of the document)
+  let out = /<head[^>]*>/i.test(html) ? html.replace(/<head[^>]*>/i, m => m + head.join('')) : head.join('') + html;
+  out = /<\/body>/i.test(out) ? out.replace(/<\/body>(?![\s\S]*<\/body>)/i, tail.join('') + '</body>') : out + tail.join('');
+  return out;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+/**
+ * Load `html` in headless Chrome at the given viewport and return the measured layout of the document.
+ */
+export function measureHtmlLayout(html: string, options: LayoutOptions): Promise<HtmlLayoutSnapshot> {
+  const binary = findChromeBinary(options.chromePath);
+  if (!binary) return Promise.reject(new Error('html-layout: Chrome/Chromium not found (pass --chrome <path> or set CHROME_PATH)'));
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bridge-layout-'));
+  const htmlPath = path.join(workDir, 'page.html');
+  fs.writeFileSync(htmlPath, injectIntoPage(html, options), 'utf8');
+  const args = [
+    '--headless',
+    '--disable-gpu',
+    '--hide-scrollbars',
+    '--force-device-scale-factor=1',
+    // Why: lets web fonts and images finish loading (and the collector run) before the DOM is dumped
+    '--virtual-time-budget=5000',
+    `--window-size=${Math.max(1, Math.ceil(options.width))},${Math.max(1, Math.ceil(options.height))}`,
+    '--dump-dom',
+  ];
+  if (typeof process.getuid === 'function' && process.getuid() === 0) args.push('--no-sandbox');
+  args.push(pathToFileURL(htmlPath).href);
+
+  return new Promise((resolve, reject) => {
+    execFile(binary, args, { timeout: options.timeoutMs || 30000, killSignal: 'SIGKILL', maxBuffer: 256 * 1024 * 1024 }, (err, stdout, stderr) => {
+      try { fs.rmSync(workDir, { recursive: true, force: true }); } catch {}
+      const dom = String(stdout || '');
+      const m = dom.match(new RegExp(`<script type="application/json" id="${RESULT_ID}">([\\s\\S]*?)</script>`));
+      if (!m) {
+        const failure = dom.match(/data-bridge-layout-error="([^"]*)"/);
+        const reason = failure ? `collector failed: ${decodeEntities(failure[1])}` : `no layout in dumped DOM${err ? `: ${err.message}` : ''}`;
+        reject(new Error(`html-layout: ${reason}${stderr && !failure ? `\n${String(stderr).trim()}` : ''}`));
+        return;
+      }
+      try {
+        resolve(JSON.parse(m[1]) as HtmlLayoutSnapshot);
+      } catch (e: any) {
+        reject(new Error(`html-layout: invalid layout JSON: ${e?.message || e}`));
+      }
+    });
+  });
+}
@@ -0,0 +1,137 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { pathToFileURL } from 'url';
+
+// Rasterizes a standalone HTML document to PNG without the preview page. The built-in renderer drives a
+// locally installed Chrome/Chromium in headless mode; any other engine (Puppeteer, Playwright, a remote
+// service) can be plugged in as a module exporting `createRenderer()`.
+
+export type RenderRequest = {
+  // Complete document; relative URLs must already resolve (e.g. via <base href="file://...">)
+  html: string;
+  width: number;
+  height: number;
+};
+
+export type HtmlRenderer = {
+  name: string;
+  render(req: RenderRequest): Promise<Buffer>;
+  close?(): Promise<void> | void;
+};
+
+export type RendererOptions = {
+  // Chrome/Chromium executable; falls back to $CHROME_PATH and well-known install locations
+  chromePath?: string;
+  timeoutMs?: number;
+};
+
+const CHROME_PATHS: Record<string, string[]> = {
+  darwin: [
+    '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+    '/Applications/Chromium.app/Contents/MacOS/Chromium',
+    '/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge',
+  ],
+  win32: [
+    'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
+    'C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe',
+    'C:\\Program Files (x86)\\Microsoft\\Edge\\Application\\msedge.exe',
+  ],
+};
+const CHROME_COMMANDS = ['google-chrome', 'google-chrome-stable', 'chromium', 'chromium-browser', 'microsoft-edge'];
+
+export function findOnPath(command: string): string | null {
+  for (const dir of String(process.env.PATH || '').split(path.delimiter)) {
+    if (!dir) continue;
+    const full = path.join(dir, command);
+    try {
+      fs.accessSync(full, fs.constants.X_OK);
+      return full;
+    } catch {}
+  }
+  return null;
+}
+
+export function findChromeBinary(explicit?: string): string | null {
+  if (explicit) return explicit;
+  if (process.env.CHROME_PATH) return process.env.CHROME_PATH;
+  for (const p of CHROME_PATHS[process.platform] || []) {
+    if (fs.existsSync(p)) return p;
+  }
+  for (const cmd of CHROME_COMMANDS) {
+    const found = findOnPath(cmd);
+    if (found) return found;
+  }
+  return null;
+}
+
+export function createChromeRenderer(options: RendererOptions = {}): HtmlRenderer {
+  const binary = findChromeBinary(options.chromePath);
+  if (!binary) throw new Error('html-renderer: Chrome/Chromium not found (pass --chrome <path> or set CHROME_PATH)');
+  const timeoutMs = options.timeoutMs || 30000;
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bridge-render-'));
+  let seq = 0;
+
+  return {
+    name: `chrome (${binary})`,
+    render(req: RenderRequest): Promise<Buffer> {
+      const id = seq++;
+      const htmlPath = path.join(workDir, `page-${id}.html`);
+      const pngPath = path.join(workDir, `page-${id}.png`);
+      fs.writeFileSync(htmlPath, req.html, 'utf8');
+      const args = [
+        '--headless',
+        '--disable-gpu',
+        '--hide-scrollbars',
+        '--force-device-scale-factor=1',
+        '--default-background-color=00000000',
+        // Why: lets web fonts and images finish loading before the screenshot is taken
+        '--virtual-time-budget=5000',
+        `--window-size=${Math.max(1, Math.ceil(req.width))},${Math.max(1, Math.ceil(req.height))}`,
+        `--screenshot=${pngPath}`,
+      ];
+      // Chrome refuses to start its sandbox as root (typical in CI containers)
+      if (typeof process.getuid === 'function' && process.getuid() === 0) args.push('--no-sandbox');
+      args.push(pathToFileURL(htmlPath).href);
+
+      return new Promise((resolve, reject) => {
+        execFile(binary, args, { timeout: timeoutMs, killSignal: 'SIGKILL' }, (err, _stdout, stderr) => {
+          try {
+            if (!fs.existsSync(pngPath)) {
+              reject(new Error(`html-renderer: chrome produced no screenshot${err ? `: ${err.message}` : ''}${stderr ? `\n${String(stderr).trim()}` : ''}`));
+              return;
+            }
+            resolve(fs.readFileSync(pngPath));
+          } finally {
+            try { fs.rmSync(htmlPath, { force: true }); } catch {}
+            try { fs.rmSync(pngPath, { force: true }); } catch {}
+          }
+        });
+      });
+    },
+    close() {
+      try { fs.rmSync(workDir, { recursive: true, force: true }); } catch {}
+    },
+  };
+}
+
+// Why: tsc turns `import()` into require() under commonjs, which cannot load ES module renderers
+const importModule = new Function('p', 'return import(p)') as (specifier: string) => Promise<any>;
+
+/**
+ * Resolve a renderer spec: 'chrome' (default) or a path to a module exporting
+ * `createRenderer(options)` (sync or async) or a renderer object with `render(req)`.
+ */
+export async function loadRenderer(spec: string | null | undefined, options: RendererOptions = {}): Promise<HtmlRenderer> {
+  if (!spec || spec === 'chrome') return createChromeRenderer(options);
+  const full = path.isAbsolute(spec) ? spec : path.join(process.cwd(), spec);
+  const mod: any = await importModule(pathToFileURL(full).href);
+  const factory = mod?.createRenderer || mod?.default?.createRenderer;
+  const renderer = typeof factory === 'function' ? await factory(options) : (mod?.default || mod);
+  if (!renderer || typeof renderer.render !== 'function') {
+    throw new Error(`html-renderer: ${spec} must export createRenderer() or an object with render(req)`);
+  }
+  if (!renderer.name) renderer.name = path.basename(spec);
+  return renderer as HtmlRenderer;
+}
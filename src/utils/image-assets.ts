@@ -0,0 +1,336 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+// @ts-ignore - pngjs has no types
+import { PNG } from 'pngjs';
+import { findOnPath } from './html-renderer';
+import { cachedBuild, sourceStamp } from './build-cache';
+import type { ImageUsage } from 'figma-html-bridge';
+
+// Export-time image pipeline: each images/<id>.png is downsized to the largest size it is rendered at in the IR
+// (times a device pixel ratio, never upscaled) and re-encoded to WebP / AVIF next to the PNG fallback.
+// Content images (<img class="content-image">) become <picture> with per-format srcset; CSS backgrounds get an
+// image-set() declaration. Encoding shells out to libwebp's `cwebp` and libavif's `avifenc`; a format whose
+// encoder is missing is skipped and listed in the report.
+
+export type ImageFormat = 'webp' | 'avif';
+
+export type ImageAssetOptions = {
+  // Device pixel ratio the largest variant is sized for (default 2)
+  dpr?: number;
+  // Formats encoded next to the PNG (default webp and avif)
+  formats?: ImageFormat[];
+  // Encoder quality 0–100 (default 75)
+  quality?: number;
+  // Encoder executables; fall back to $CWEBP_PATH / $AVIFENC_PATH and $PATH
+  cwebpPath?: string;
+  avifencPath?: string;
+  timeoutMs?: number;
+  // Reuse resized and encoded variants across runs (see build-cache.ts); off when unset
+  cacheDir?: string;
+};
+
+export type ImageVariant = {
+  // File name inside images/
+  file: string;
+  format: 'png' | ImageFormat;
+  width: number;
+  height: number;
+  // Pixel density against the largest rendered use; null when unknown (tiles, undecodable sources)
+  density: number | null;
+  bytes: number;
+};
+
+export type ImageAssetEntry = {
+  id: string;
+  content: boolean;
+  source: { bytes: number; width: number | null; height: number | null };
+  // Largest rendered size in CSS px of the full image (null when no use constrains it)
+  rendered: { width: number; height: number } | null;
+  variants: ImageVariant[];
+  note?: string;
+};
+
+export type ImageAssetReport = {
+  dpr: number;
+  formats: ImageFormat[];
+  // Requested formats whose encoder was not found
+  missingEncoders: ImageFormat[];
+  images: ImageAssetEntry[];
+  // sourceBytes: files as uploaded; pngBytes: PNG fallbacks written; bestBytes: smallest format per variant
+  totals: { sourceBytes: number; pngBytes: number; bestBytes: number };
+};
+
+export type ImageAssets = {
+  // File name inside images/ → bytes
+  files: Record<string, Buffer>;
+  report: ImageAssetReport;
+};
+
+const MIME: Record<ImageFormat | 'png', string> = { png: 'image/png', webp: 'image/webp', avif: 'image/avif' };
+// Why: modern browsers pick the first source they support, so the smaller format goes first
+const SOURCE_ORDER: ImageFormat[] = ['avif', 'webp'];
+
+export function findImageEncoder(format: ImageFormat, explicit?: string): string | null {
+  if (explicit) return explicit;
+  const env = format === 'webp' ? process.env.CWEBP_PATH : process.env.AVIFENC_PATH;
+  if (env) return env;
+  return findOnPath(format === 'webp' ? 'cwebp' : 'avifenc');
+}
+
+function isPng(data: Buffer): boolean {
+  return data.length > 8 && data.readUInt32BE(0) === 0x89504e47;
+}
+
+// Scale (rendered px per source px) one use needs; null when the image is drawn at its own size (tiles)
+function requiredScale(u: ImageUsage, iw: number, ih: number): number | null {
+  if (!(u.width > 0 && u.height > 0)) return 0;
+  if (u.scaleMode === 'TILE') return null;
+  if (u.scaleMode === 'FIT') return Math.min(u.width / iw, u.height / ih);
+  const m = u.imageTransform;
+  if (u.scaleMode === 'CROP' && m && m[0][1] === 0 && m[1][0] === 0 && m[0][0] > 0 && m[1][1] > 0) {
+    return Math.max(u.width / m[0][0] / iw, u.height / m[1][1] / ih);
+  }
+  return Math.max(u.width / iw, u.height / ih);
+}
+
+/**
+ * Area-average downscale of RGBA pixels. Colors are averaged premultiplied so transparent edges keep no halo.
+ */
+function resizeArea(src: Buffer, sw: number, sh: number, dw: number, dh: number): Buffer {
+  const xs = sw / dw;
+  const ys = sh / dh;
+  const rows = new Float64Array(dw * sh * 4);
+  for (let y = 0; y < sh; y++) {
+    for (let x = 0; x < dw; x++) {
+      const x0 = x * xs, x1 = x0 + xs;
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let sx = Math.floor(x0); sx < Math.min(sw, Math.ceil(x1)); sx++) {
+        const i = (y * sw + sx) * 4;
+        const w = (Math.min(sx + 1, x1) - Math.max(sx, x0)) * src[i + 3];
+        r += src[i] * w; g += src[i + 1] * w; b += src[i + 2] * w; a += w;
+      }
+      const o = (y * dw + x) * 4;
+      rows[o] = r; rows[o + 1] = g; rows[o + 2] = b; rows[o + 3] = a;
+    }
+  }
+  const out = Buffer.alloc(dw * dh * 4);
+  for (let y = 0; y < dh; y++) {
+    const y0 = y * ys, y1 = y0 + ys;
+    for (let x = 0; x < dw; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let sy = Math.floor(y0); sy < Math.min(sh, Math.ceil(y1)); sy++) {
+        const i = (sy * dw + x) * 4;
+        const w = Math.min(sy + 1, y1) - Math.max(sy, y0);
+        r += rows[i] * w; g += rows[i + 1] * w; b += rows[i + 2] * w; a += rows[i + 3] * w;
+      }
+      const o = (y * dw + x) * 4;
+      if (a > 0) {
+        out[o] = Math.round(r / a); out[o + 1] = Math.round(g / a); out[o + 2] = Math.round(b / a);
+      }
+      out[o + 3] = Math.round(a / (xs * ys));
+    }
+  }
+  return out;
+}
+
+function encodePng(data: Buffer, width: number, height: number): Buffer {
+  const png = new PNG({ width, height });
+  data.copy(png.data);
+  return PNG.sync.write(png);
+}
+
+function encode(binary: string, format: ImageFormat, input: string, quality: number, timeoutMs: number): Promise<Buffer> {
+  const output = input.replace(/\.png$/, `.${format}`);
+  const args = format === 'webp'
+    ? ['-quiet', '-q', String(quality), '-metadata', 'none', input, '-o', output]
+    : ['-q', String(quality), '-s', '6', input, output];
+  return new Promise((resolve, reject) => {
+    execFile(binary, args, { timeout: timeoutMs, killSignal: 'SIGKILL' }, (err, _stdout, stderr) => {
+      if (err || !fs.existsSync(output)) {
+        reject(new Error(`image-assets: ${path.basename(binary)} failed for ${path.basename(input)}${err ? `: ${err.message}` : ''}${stderr ? `\n${String(stderr).trim()}` : ''}`));
+        return;
+      }
+      resolve(fs.readFileSync(output));
+    });
+  });
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Size and encode the images listed in `imageIds` from `imageDir/<id>.png`. Missing files are skipped (the
+ * package copy reports them); sources that are not PNG are kept as they are. Encoder failures are noted per image.
+ */
+export async function buildImageAssets(imageIds: string[], imageDir: string, usage: ImageUsage[], options: ImageAssetOptions = {}): Promise<ImageAssets> {
+  const dpr = Math.min(4, Math.max(1, Number(options.dpr) || 2));
+  const formats = (options.formats || SOURCE_ORDER).filter(f => SOURCE_ORDER.includes(f));
+  const quality = Math.min(100, Math.max(0, Math.round(options.quality ?? 75)));
+  const timeoutMs = options.timeoutMs || 60000;
+  const encoders = new Map<ImageFormat, string>();
+  const report: ImageAssetReport = { dpr, formats, missingEncoders: [], images: [], totals: { sourceBytes: 0, pngBytes: 0, bestBytes: 0 } };
+  for (const f of formats) {
+    const binary = findImageEncoder(f, f === 'webp' ? options.cwebpPath : options.avifencPath);
+    if (binary) encoders.set(f, binary);
+    else report.missingEncoders.push(f);
+  }
+
+  const files: Record<string, Buffer> = {};
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bridge-images-'));
+  try {
+    for (const id of Array.from(new Set(imageIds))) {
+      const file = path.join(imageDir, `${id}.png`);
+      if (!fs.existsSync(file)) continue;
+      const source = fs.readFileSync(file);
+      // Why: the variant size already reflects dpr and the rendered box, so size + format + quality name the bytes
+      const stamp = sourceStamp(file);
+      const cacheKey = (width: number, height: number, format: string) => `image|${id}|${stamp}|${width}x${height}|${format === 'png' ? format : `${format}|q${quality}`}`;
+      const uses = usage.filter(u => u.imageId === id);
+      const entry: ImageAssetEntry = { id, content: uses.some(u => u.content), source: { bytes: source.length, width: null, height: null }, rendered: null, variants: [] };
+      report.images.push(entry);
+      report.totals.sourceBytes += source.length;
+      const keepSource = (note: string) => {
+        files[`${id}.png`] = source;
+        entry.variants = [{ file: `${id}.png`, format: 'png', width: entry.source.width || 0, height: entry.source.height || 0, density: null, bytes: source.length }];
+        entry.note = note;
+      };
+      if (!isPng(source)) {
+        keepSource('not a PNG; copied as-is');
+        continue;
+      }
+      let decoded: PNG;
+      try {
+        decoded = PNG.sync.read(source);
+      } catch (e: any) {
+        keepSource(`unreadable PNG (${e?.message || e}); copied as-is`);
+        continue;
+      }
+      const iw = decoded.width, ih = decoded.height;
+      entry.source.width = iw;
+      entry.source.height = ih;
+
+      // Largest scale any use needs; a tile (or a use without size) pins the image to its own pixels
+      const scales = uses.map(u => requiredScale(u, iw, ih));
+      const needed = scales.length && !scales.includes(null) ? Math.max(...(scales as number[])) : null;
+      if (needed) entry.rendered = { width: round2(iw * needed), height: round2(ih * needed) };
+
+      // Full variant at dpr, plus a 1x one for content images when it is meaningfully smaller
+      const sizes: { suffix: string; scale: number; density: number | null }[] = [];
+      const full = needed ? Math.min(1, needed * dpr) : 1;
+      sizes.push({ suffix: '', scale: full, density: needed ? round2(full / needed) : null });
+      if (needed && entry.content && needed < full * 0.8) sizes.push({ suffix: '@1x', scale: needed, density: 1 });
+
+      for (const size of sizes) {
+        const width = Math.max(1, Math.round(iw * size.scale));
+        const height = Math.max(1, Math.round(ih * size.scale));
+        // Why: re-encoding an unscaled PNG with pngjs only grows it; keep the uploaded bytes
+        const png = width < iw * 0.95
+          ? await cachedBuild(options.cacheDir, cacheKey(width, height, 'png'), () => encodePng(resizeArea(decoded.data, iw, ih, width, height), width, height))
+          : source;
+        const base = `${id}${size.suffix}`;
+        files[`${base}.png`] = png;
+        entry.variants.push({ file: `${base}.png`, format: 'png', width: png === source ? iw : width, height: png === source ? ih : height, density: size.density, bytes: png.length });
+        report.totals.pngBytes += png.length;
+        let best = png.length;
+        if (!encoders.size) {
+          report.totals.bestBytes += best;
+          continue;
+        }
+        const input = path.join(workDir, `${base}.png`);
+        const encodeVariant = (binary: string, format: ImageFormat) => {
+          if (!fs.existsSync(input)) fs.writeFileSync(input, png);
+          return encode(binary, format, input, quality, timeoutMs);
+        };
+        for (const [format, binary] of encoders) {
+          try {
+            const data = await cachedBuild(options.cacheDir, cacheKey(width, height, format), () => encodeVariant(binary, format));
+            // Why: a flat graphic can come out larger than its PNG; serving that would only cost bytes
+            if (data.length >= png.length) continue;
+            files[`${base}.${format}`] = data;
+            entry.variants.push({ file: `${base}.${format}`, format, width: png === source ? iw : width, height: png === source ? ih : height, density: size.density, bytes: data.length });
+            best = Math.min(best, data.length);
+          } catch (e: any) {
+            entry.note = String(e?.message || e);
+          }
+        }
+        report.totals.bestBytes += best;
+      }
+    }
+  } finally {
+    try { fs.rmSync(workDir, { recursive: true, force: true }); } catch {}
+  }
+  return { files, report };
+}
+
+function srcsetOf(variants: ImageVariant[]): string {
+  if (variants.length === 1) return `images/${variants[0].file}`;
+  return variants
+    .slice()
+    .sort((a, b) => (a.density || 1) - (b.density || 1))
+    .map(v => `images/${v.file} ${v.density || 1}x`)
+    .join(', ');
+}
+
+function imageSet(entry: ImageAssetEntry): string {
+  const full = entry.variants.filter(v => !v.file.includes('@1x'));
+  const ordered = [...SOURCE_ORDER, 'png'].map(f => full.find(v => v.format === f)).filter(Boolean) as ImageVariant[];
+  return `image-set(${ordered.map(v => `url('images/${v.file}') type('${MIME[v.format]}')`).join(', ')})`;
+}
+
+/**
+ * Point the exported markup at the encoded variants: content images become <picture> (AVIF/WebP sources with
+ * density srcsets, PNG <img> fallback) and every background-image with an optimized image gains an image-set()
+ * declaration after the plain url() one, which older browsers keep using.
+ */
+export function applyImageAssets(bodyHtml: string, cssText: string, report: ImageAssetReport, imageUrl: (id: string) => string = id => `images/${id}.png`): { bodyHtml: string; cssText: string } {
+  // Why: the markup carries whatever URL the asset URL provider returned for each image id
+  const byUrl = new Map(report.images.map(e => [imageUrl(e.id), e]));
+  const unescape = (attr: string) => attr.replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+  const html = bodyHtml.replace(/<img class="content-image" src="([^"]*)"([^>]*)>/g, (m: string, src: string, rest: string) => {
+    const entry = byUrl.get(unescape(src));
+    if (!entry) return m;
+    const png = entry.variants.filter(v => v.format === 'png');
+    // width/height only give the aspect ratio before load (CSS sizes the box); the 1x variant is the natural pick
+    const base = png.reduce((a, b) => (b.width < a.width ? b : a));
+    const img = `<img class="content-image" src="${src}"${png.length > 1 ? ` srcset="${srcsetOf(png)}"` : ''}${base.width ? ` width="${base.width}" height="${base.height}"` : ''}${rest}>`;
+    const sources = SOURCE_ORDER
+      .map(f => entry.variants.filter(v => v.format === f))
+      .filter(list => list.length)
+      .map(list => `<source type="${MIME[list[0].format]}" srcset="${srcsetOf(list)}">`);
+    return sources.length
+      ? `<picture style="display:block;width:100%;height:100%;border-radius:inherit;">${sources.join('')}${img}</picture>`
+      : img;
+  });
+
+  const withImageSet = (text: string) => text.replace(/background-image\s*:\s*([^;"}]+)/g, (m: string, value: string) => {
+    let changed = false;
+    const next = value.replace(/url\((['"]?)([^'")]*)\1\)/g, (u: string, _q: string, url: string) => {
+      const entry = byUrl.get(url);
+      if (!entry || !entry.variants.some(v => v.format !== 'png')) return u;
+      changed = true;
+      return imageSet(entry);
+    });
+    return changed ? `${m.trimEnd()};background-image:${next.trim()}` : m;
+  });
+
+  return { bodyHtml: withImageSet(html), cssText: withImageSet(cssText) };
+}
+
+function kb(bytes: number): string {
+  return `${Math.round(bytes / 102.4) / 10} KB`;
+}
+
+// One-line summary for the CLI and image-report.json, e.g. "4 images: 2.1 MB → 380 KB (webp, avif at 2x)"
+export function summarizeImageReport(report: ImageAssetReport): string {
+  const encoded = report.formats.filter(f => !report.missingEncoders.includes(f));
+  let line = `${report.images.length} image(s): ${kb(report.totals.sourceBytes)} → ${kb(report.totals.bestBytes)}`
+    + ` (${encoded.length ? encoded.join(', ') : 'png only'} at ${report.dpr}x)`;
+  if (report.missingEncoders.length) {
+    line += `; no encoder for ${report.missingEncoders.join(', ')} (install ${report.missingEncoders.map(f => f === 'webp' ? 'cwebp' : 'avifenc').join(' / ')} or set ${report.missingEncoders.map(f => f === 'webp' ? 'CWEBP_PATH' : 'AVIFENC_PATH').join(' / ')})`;
+  }
+  return line;
+}
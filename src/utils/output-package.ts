@@ -0,0 +1,228 @@
+import fs from 'fs';
+import path from 'path';
+import { normalizeHtml } from 'figma-html-bridge';
+import { formatCss, formatHtml } from './format';
+import { summarizeImageReport } from './image-assets';
+import type { ImageAssets } from './image-assets';
+
+// Output package: index.html + styles.css + copied assets + optional component/token files.
+// Shared by the server (output/) and the headless `bridge` CLI so both write the same layout.
+
+export type OutputPackage = {
+  bodyHtml: string;
+  cssText: string;
+  headLinks: string;
+  baseWidth: number;
+  baseHeight: number;
+  // Extra files written next to styles.css (Component.tsx, tokens.css, ...)
+  extraFiles?: Record<string, string>;
+  layoutMode?: 'fixed' | 'adaptive';
+  // Embed the stylesheet in index.html instead of linking styles.css (single-file output)
+  inlineCss?: boolean;
+  // Bundled fonts: @font-face rules (prepended to the stylesheet) and fonts/<name> files
+  fonts?: { cssText: string; files: Record<string, Buffer> };
+  // Optimized images (see image-assets): written instead of copying the source PNGs, plus image-report.json (report and one-line summary)
+  images?: ImageAssets;
+};
+
+export type OutputAssetSources = {
+  imageIds: string[];
+  svgFiles: string[];
+  // Directories holding `{id}.png` images and svg files; missing files are skipped
+  imageDir: string;
+  svgDir: string;
+};
+
+/**
+ * <head> markup for web fonts: the combined Google Fonts stylesheet, other provider stylesheets (with
+ * preconnects per origin) and inline @font-face rules for local / stand-in provider fonts.
+ */
+export function buildHeadFontLinks(googleFontsUrl?: string | null, stylesheetUrls?: string[], fontFaceCss?: string): string {
+  const lines: string[] = [];
+  const seenOrigins = new Set<string>();
+  const seenHrefs = new Set<string>();
+  if (googleFontsUrl) {
+    if (!seenOrigins.has('https://fonts.googleapis.com')) {
+      lines.push(`    <link rel="preconnect" href="https://fonts.googleapis.com">`);
+      seenOrigins.add('https://fonts.googleapis.com');
+    }
+    if (!seenOrigins.has('https://fonts.gstatic.com')) {
+      lines.push(`    <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>`);
+      seenOrigins.add('https://fonts.gstatic.com');
+    }
+    if (!seenHrefs.has(googleFontsUrl)) {
+      lines.push(`    <link href="${googleFontsUrl}" rel="stylesheet">`);
+      seenHrefs.add(googleFontsUrl);
+    }
+  }
+  if (Array.isArray(stylesheetUrls)) {
+    for (const href of stylesheetUrls) {
+      // Why: relative hrefs (local providers) have no origin to preconnect to but still need their link
+      let origin: string | null = null;
+      try {
+        origin = new URL(href).origin;
+      } catch { }
+      if (origin && origin !== 'null' && !seenOrigins.has(origin)) {
+        lines.push(`    <link rel="preconnect" href="${origin}">`);
+        seenOrigins.add(origin);
+      }
+      if (!seenHrefs.has(href)) {
+        lines.push(`    <link href="${href}" rel="stylesheet">`);
+        seenHrefs.add(href);
+      }
+    }
+  }
+  if (fontFaceCss) lines.push(`    <style>\n${fontFaceCss}    </style>`);
+  return lines.length ? lines.join('\n') + '\n' : '';
+}
+
+/**
+ * Stylesheets Component.tsx imports from the package: styles.css uses var(--…) when content mode emitted
+ * design tokens, and the :root block defining them is only in tokens.css.
+ */
+export function componentCssImports(content: any): string[] {
+  return content?.tokens?.cssText ? ['./tokens.css', './styles.css'] : ['./styles.css'];
+}
+
+/**
+ * Add token/Tailwind files produced by figmaToHtml content mode to `extraFiles`
+ * and return headLinks extended with the matching <link>/<script> tags.
+ */
+export function addContentExtras(content: any, extraFiles: Record<string, string>, headLinks: string): string {
+  let links = headLinks;
+  const tokens = content?.tokens;
+  if (tokens && tokens.cssText) {
+    extraFiles['tokens.css'] = tokens.cssText;
+    extraFiles['tokens.json'] = JSON.stringify(tokens.json, null, 2);
+    links += `    <link rel="stylesheet" href="tokens.css"/>\n`;
+  }
+  const tailwindConfig = content?.tailwindConfig;
+  if (tailwindConfig) {
+    extraFiles['tailwind.config.js'] = content.tailwindConfigFile;
+    // Why: class-only markup renders nothing without Tailwind; the Play CDN keeps index.html previewable as-is
+    links += `    <script src="https://cdn.tailwindcss.com"></script>\n    <script>tailwind.config = ${JSON.stringify({ theme: tailwindConfig.theme })};</script>\n`;
+  }
+  return links;
+}
+
+export function buildOutputIndexHtml(pkg: OutputPackage): string {
+  const { bodyHtml, headLinks, baseWidth, baseHeight } = pkg;
+  const stylesheet = pkg.inlineCss ? `<style>\n${formatCss(packageCss(pkg))}\n    </style>` : `<link rel=\"stylesheet\" href=\"styles.css\"/>`;
+  // Why: adaptive content already reflows with the window; scaling it would shrink it twice
+  const adaptive = pkg.layoutMode === 'adaptive';
+  const viewportStyles = adaptive ? `
+    html, body {
+      margin: 0;
+      padding: 0;
+      min-height: 100vh;
+      overflow-x: hidden;
+      background: #f0f0f0;
+    }
+    .viewport {
+      width: 100%;
+    }` : `
+    html, body {
+      margin: 0;
+      padding: 0;
+      width: 100vw;
+      min-height: 100vh;
+      overflow-x: hidden;
+      overflow-y: auto;
+      display: flex;
+      align-items: flex-start;
+      justify-content: center;
+      background: #f0f0f0;
+    }
+    .viewport {
+      width: ${baseWidth}px;
+      min-height: ${baseHeight}px;
+      transform-origin: top center;
+    }`;
+
+  const viewportScript = `
+    window.addEventListener('DOMContentLoaded', function() {
+      var baseWidth = ${baseWidth};
+
+      function fit() {
+        var viewport = document.querySelector('.viewport');
+        if (!viewport) return;
+
+        var scale = window.innerWidth / baseWidth;
+
+        viewport.style.transform = 'scale(' + scale + ')';
+      }
+
+      fit();
+      window.addEventListener('resize', fit);
+    });`;
+
+  const wrappedBody = `<div class=\"viewport\">\n${bodyHtml}\n    </div>`;
+
+  const metaViewport = adaptive ? `    <meta name=\"viewport\" content=\"width=device-width, initial-scale=1\" />\n` : '';
+  const scriptTag = adaptive ? '' : `\n    <script>${viewportScript}</script>`;
+  let rawHtmlDoc = `<!doctype html>\n<html lang=\"en\">\n  <head>\n    <meta charset=\"utf-8\" />\n${metaViewport}    <title>Exported Content</title>\n${headLinks}    ${stylesheet}\n    <style>${viewportStyles}</style>\n  </head>\n  <body>\n${wrappedBody}${scriptTag}\n  </body>\n</html>`;
+  try {
+    const post = normalizeHtml(rawHtmlDoc);
+    if (post && post.html) rawHtmlDoc = post.html;
+  } catch { }
+  return formatHtml(rawHtmlDoc);
+}
+
+function packageCss(pkg: OutputPackage): string {
+  return pkg.fonts?.cssText ? `${pkg.fonts.cssText}\n${pkg.cssText}` : pkg.cssText;
+}
+
+function copyAssets(names: string[], srcDir: string, dstDir: string, toFile: (name: string) => string) {
+  for (const name of names || []) {
+    if (typeof name !== 'string') continue;
+    const src = path.join(srcDir, toFile(name));
+    if (!fs.existsSync(src)) continue;
+    try {
+      fs.copyFileSync(src, path.join(dstDir, toFile(name)));
+    } catch (e) {
+      // ignore individual copy failures; continue others
+    }
+  }
+}
+
+// Written into every package so a later export knows the directory is safe to replace
+const PACKAGE_MARKER = '.bridge-output';
+
+// Why: file names alone cannot tell a package from a static site or a components folder, so only the marker counts
+function isReplaceable(outDir: string): boolean {
+  if (!fs.existsSync(outDir)) return true;
+  if (!fs.statSync(outDir).isDirectory()) return false;
+  const entries = fs.readdirSync(outDir);
+  return !entries.length || entries.includes(PACKAGE_MARKER);
+}
+
+/**
+ * Replace `outDir` with a fresh output package. Throws when the directory or the main files cannot
+ * be written, or when `outDir` is neither empty nor a previous package (so `--out .` cannot wipe
+ * a project); individual missing assets are skipped.
+ */
+export function writeOutputPackage(outDir: string, pkg: OutputPackage, assets: OutputAssetSources): void {
+  if (!isReplaceable(outDir)) {
+    throw new Error(`output-package: ${outDir} is not empty and has no ${PACKAGE_MARKER} marker from a previous export; choose an empty or new directory`);
+  }
+  fs.rmSync(outDir, { recursive: true, force: true });
+  fs.mkdirSync(path.join(outDir, 'images'), { recursive: true });
+  fs.mkdirSync(path.join(outDir, 'svgs'), { recursive: true });
+  fs.writeFileSync(path.join(outDir, PACKAGE_MARKER), 'Generated by figma-html-bridge; this directory is replaced on every export.\n', 'utf8');
+  const imageFiles = pkg.images?.files || {};
+  copyAssets(assets.imageIds.filter(id => !imageFiles[`${id}.png`]), assets.imageDir, path.join(outDir, 'images'), id => `${id}.png`);
+  for (const [name, data] of Object.entries(imageFiles)) fs.writeFileSync(path.join(outDir, 'images', name), data);
+  if (pkg.images) fs.writeFileSync(path.join(outDir, 'image-report.json'), JSON.stringify({ summary: summarizeImageReport(pkg.images.report), ...pkg.images.report }, null, 2), 'utf8');
+  copyAssets(assets.svgFiles, assets.svgDir, path.join(outDir, 'svgs'), name => name);
+
+  const fontFiles = Object.entries(pkg.fonts?.files || {});
+  if (fontFiles.length) fs.mkdirSync(path.join(outDir, 'fonts'), { recursive: true });
+  for (const [name, data] of fontFiles) fs.writeFileSync(path.join(outDir, 'fonts', name), data);
+
+  fs.writeFileSync(path.join(outDir, 'styles.css'), formatCss(packageCss(pkg)), 'utf8');
+  fs.writeFileSync(path.join(outDir, 'index.html'), buildOutputIndexHtml(pkg), 'utf8');
+  // Why: Component.tsx imports ./styles.css, so component files must sit next to the stylesheet
+  for (const [name, content] of Object.entries(pkg.extraFiles || {})) {
+    fs.writeFileSync(path.join(outDir, name), content, 'utf8');
+  }
+}
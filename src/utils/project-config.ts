@@ -0,0 +1,38 @@
+import fs from 'fs';
+import path from 'path';
+import type { FontProviderConfig } from './font-providers';
+
+// Project-level configuration read from bridge.config.json in the working directory
+// (or the file named by $BRIDGE_CONFIG). Relative paths inside it resolve against the file's directory.
+
+export const PROJECT_CONFIG_FILE = 'bridge.config.json';
+
+export type ProjectConfig = {
+  fonts?: {
+    // Tried in order for each family; defaults to Chinese font storage, then Google Fonts
+    providers?: FontProviderConfig[];
+  };
+};
+
+export type LoadedProjectConfig = { config: ProjectConfig; file: string | null; baseDir: string };
+
+export function resolveProjectConfigPath(): string {
+  return process.env.BRIDGE_CONFIG ? path.resolve(process.env.BRIDGE_CONFIG) : path.join(process.cwd(), PROJECT_CONFIG_FILE);
+}
+
+/**
+ * Read the project config; a missing file yields an empty config, an unreadable or malformed one throws.
+ */
+export function loadProjectConfig(file: string = resolveProjectConfigPath()): LoadedProjectConfig {
+  if (!fs.existsSync(file)) return { config: {}, file: null, baseDir: process.cwd() };
+  let config: any;
+  try {
+    config = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e: any) {
+    throw new Error(`config: failed to parse ${file}: ${e?.message || e}`);
+  }
+  if (!config || typeof config !== 'object' || Array.isArray(config)) throw new Error(`config: ${file} must contain a JSON object`);
+  const providers = config.fonts?.providers;
+  if (providers !== undefined && !Array.isArray(providers)) throw new Error(`config: fonts.providers in ${file} must be an array`);
+  return { config, file, baseDir: path.dirname(file) };
+}
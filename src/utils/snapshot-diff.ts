@@ -0,0 +1,213 @@
+// Readable diffs for golden snapshots: IR is compared node by node (by id), CSS rule by rule and
+// property by property, HTML line by line. Each function returns report lines; empty means equal.
+
+import { parseDeclarations } from 'figma-html-bridge';
+
+type AnyObj = Record<string, any>;
+
+const MAX_VALUE_LENGTH = 80;
+
+function short(value: unknown): string {
+  const s = JSON.stringify(value) ?? 'undefined';
+  return s.length > MAX_VALUE_LENGTH ? `${s.slice(0, MAX_VALUE_LENGTH - 1)}…` : s;
+}
+
+// Flatten to path → JSON scalar; arrays keep their index so reordering shows up as changes
+function flatten(value: unknown, prefix: string, out: Map<string, unknown>) {
+  if (value && typeof value === 'object') {
+    const entries = Array.isArray(value) ? value.map((v, i) => [String(i), v] as const) : Object.entries(value as AnyObj);
+    if (!entries.length) out.set(prefix, value);
+    for (const [k, v] of entries) flatten(v, prefix ? `${prefix}.${k}` : k, out);
+    return;
+  }
+  out.set(prefix, value);
+}
+
+function diffFlat(expected: unknown, actual: unknown): string[] {
+  const a = new Map<string, unknown>();
+  const b = new Map<string, unknown>();
+  flatten(expected, '', a);
+  flatten(actual, '', b);
+  const lines: string[] = [];
+  for (const [k, v] of a) {
+    if (!b.has(k)) lines.push(`${k || '(root)'}: ${short(v)} → (removed)`);
+    else if (JSON.stringify(b.get(k)) !== JSON.stringify(v)) lines.push(`${k || '(root)'}: ${short(v)} → ${short(b.get(k))}`);
+  }
+  for (const [k, v] of b) {
+    if (!a.has(k)) lines.push(`${k || '(root)'}: (added) ${short(v)}`);
+  }
+  return lines;
+}
+
+type IndexedNode = { node: AnyObj; parentId: string | null; index: number };
+
+function indexNodes(nodes: AnyObj[]): Map<string, IndexedNode> {
+  const out = new Map<string, IndexedNode>();
+  const visit = (list: AnyObj[], parentId: string | null) => {
+    (list || []).forEach((node, index) => {
+      if (!node) return;
+      out.set(String(node.id), { node, parentId, index });
+      if (node.content?.type === 'children') visit(node.content.nodes || [], String(node.id));
+    });
+  };
+  visit(nodes, null);
+  return out;
+}
+
+function label(node: AnyObj): string {
+  return `${node.name || '(unnamed)'} [${node.type || node.kind || '?'}] (${node.id})`;
+}
+
+// Node fields without the child list (children are diffed as nodes of their own)
+function ownFields(node: AnyObj): AnyObj {
+  if (node.content?.type !== 'children') return node;
+  const { nodes: _nodes, ...content } = node.content;
+  return { ...node, content };
+}
+
+/**
+ * Diff two IR snapshots ({ nodes, ...meta }). Nodes are matched by id across the whole tree, so a
+ * moved node is reported once as moved instead of as a removal plus an addition.
+ */
+export function diffIrSnapshots(expected: AnyObj, actual: AnyObj): string[] {
+  const lines: string[] = [];
+  const { nodes: expectedNodes, ...expectedMeta } = expected || {};
+  const { nodes: actualNodes, ...actualMeta } = actual || {};
+  for (const l of diffFlat(expectedMeta, actualMeta)) lines.push(`~ ${l}`);
+
+  const before = indexNodes(expectedNodes || []);
+  const after = indexNodes(actualNodes || []);
+  for (const [id, b] of before) {
+    if (!after.has(id)) lines.push(`- node removed: ${label(b.node)}${b.parentId ? ` from ${b.parentId}` : ''}`);
+  }
+  for (const [id, a] of after) {
+    if (!before.has(id)) lines.push(`+ node added: ${label(a.node)}${a.parentId ? ` under ${a.parentId}` : ''} at #${a.index}`);
+  }
+  for (const [id, b] of before) {
+    const a = after.get(id);
+    if (!a) continue;
+    if (a.parentId !== b.parentId) lines.push(`~ node moved: ${label(a.node)} ${b.parentId ?? '(root)'} → ${a.parentId ?? '(root)'}`);
+    else if (a.index !== b.index) lines.push(`~ node reordered: ${label(a.node)} #${b.index} → #${a.index}`);
+    const changes = diffFlat(ownFields(b.node), ownFields(a.node));
+    if (changes.length) {
+      lines.push(`~ node changed: ${label(a.node)}`);
+      for (const c of changes) lines.push(`    ${c}`);
+    }
+  }
+  return lines;
+}
+
+type CssRules = Map<string, Map<string, string>>;
+
+/**
+ * Parse CSS into "rule key → property → value". Rules nested in at-rules are keyed as
+ * "@media (...) › selector"; repeated selectors merge like the cascade would.
+ */
+export function parseCssRules(cssText: string): CssRules {
+  const rules: CssRules = new Map();
+  const text = String(cssText || '').replace(/\/\*[\s\S]*?\*\//g, '');
+  const scopes: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = '';
+      continue;
+    }
+    if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === '(') depth++;
+    else if (ch === ')') depth = Math.max(0, depth - 1);
+    else if (depth > 0) continue;
+    else if (ch === '{') {
+      scopes.push(text.slice(start, i).trim().replace(/\s+/g, ' '));
+      start = i + 1;
+    } else if (ch === '}') {
+      const selector = scopes.pop();
+      const body = text.slice(start, i);
+      start = i + 1;
+      if (selector === undefined || (selector.startsWith('@') && !body.includes(':'))) continue;
+      const key = [...scopes, selector].join(' › ');
+      const decls = rules.get(key) || new Map<string, string>();
+      for (const [k, v] of parseDeclarations(body)) decls.set(k, v.replace(/\s+/g, ' '));
+      rules.set(key, decls);
+    } else if (ch === ';' && !scopes.length) {
+      // Top-level statements such as @import / @charset
+      const stmt = text.slice(start, i).trim();
+      if (stmt) rules.set(stmt, new Map());
+      start = i + 1;
+    }
+  }
+  return rules;
+}
+
+export function diffCssSnapshots(expected: string, actual: string): string[] {
+  const before = parseCssRules(expected);
+  const after = parseCssRules(actual);
+  const lines: string[] = [];
+  for (const [key, decls] of before) {
+    if (!after.has(key)) lines.push(`- rule removed: ${key} (${decls.size} properties)`);
+  }
+  for (const [key, decls] of after) {
+    if (!before.has(key)) lines.push(`+ rule added: ${key} { ${Array.from(decls, ([p, v]) => `${p}: ${v}`).join('; ')} }`);
+  }
+  for (const [key, b] of before) {
+    const a = after.get(key);
+    if (!a) continue;
+    const changes: string[] = [];
+    for (const [prop, value] of b) {
+      if (!a.has(prop)) changes.push(`    - ${prop}: ${value}`);
+      else if (a.get(prop) !== value) changes.push(`    ~ ${prop}: ${value} → ${a.get(prop)}`);
+    }
+    for (const [prop, value] of a) {
+      if (!b.has(prop)) changes.push(`    + ${prop}: ${value}`);
+    }
+    if (changes.length) lines.push(`~ rule changed: ${key}`, ...changes);
+  }
+  return lines;
+}
+
+// Above this many differing lines (after trimming the common prefix/suffix) skip the LCS and show both sides
+const MAX_LCS_LINES = 2000;
+
+/**
+ * Line diff in unified style ("-"/"+" with line numbers). Common prefix/suffix are trimmed first,
+ * so typical snapshot changes stay cheap.
+ */
+export function diffTextSnapshots(expected: string, actual: string): string[] {
+  const a = String(expected ?? '').split('\n');
+  const b = String(actual ?? '').split('\n');
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+  const midA = a.slice(head, a.length - tail);
+  const midB = b.slice(head, b.length - tail);
+  if (!midA.length && !midB.length) return [];
+
+  const lines: string[] = [];
+  if (midA.length > MAX_LCS_LINES || midB.length > MAX_LCS_LINES) {
+    midA.forEach((l, i) => lines.push(`- ${head + i + 1}: ${l}`));
+    midB.forEach((l, i) => lines.push(`+ ${head + i + 1}: ${l}`));
+    return lines;
+  }
+  // LCS table over the differing middle only
+  const n = midA.length;
+  const m = midB.length;
+  const lcs = Array.from({ length: n + 1 }, () => new Uint16Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) { i++; j++; continue; }
+    if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) { lines.push(`+ ${head + j + 1}: ${midB[j]}`); j++; }
+    else { lines.push(`- ${head + i + 1}: ${midA[i]}`); i++; }
+  }
+  return lines;
+}
@@ -0,0 +1,18 @@
+export type Bounds = { width: number; height: number };
+export type Rect = { x: number; y: number; width: number; height: number };
+
+export type ViewportRect = {
+  minX: number;
+  minY: number;
+  viewportWidth: number;
+  viewportHeight: number;
+};
+
+// Viewport covering the composition bounds plus anything rendered outside them (shadows, overflow)
+export function computeViewportRect(bounds: Bounds, renderUnion: Rect, padding: number): ViewportRect {
+  const minX = Math.min(0, renderUnion.x) - padding;
+  const minY = Math.min(0, renderUnion.y) - padding;
+  const maxX = Math.max(bounds.width, renderUnion.x + renderUnion.width) + padding;
+  const maxY = Math.max(bounds.height, renderUnion.y + renderUnion.height) + padding;
+  return { minX, minY, viewportWidth: Math.ceil(maxX - minX), viewportHeight: Math.ceil(maxY - minY) };
+}